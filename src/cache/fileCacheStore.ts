@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+
+import { CacheEntry, CacheStore } from './types';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('FileCacheStore');
+
+/**
+ * Stores each cache entry as a JSON file named after the SHA-256 of its key.
+ * Survives restarts and can be shared by processes on the same machine.
+ */
+export class FileCacheStore implements CacheStore {
+    readonly name = 'file';
+
+    constructor(private readonly directory: string) {}
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const filePath = this.pathFor(key);
+        let entry: CacheEntry<T>;
+        try {
+            entry = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                log.warn('Ignoring unreadable cache entry', { file: filePath, error });
+            }
+            return null;
+        }
+
+        // Guard against hash collisions and stale entries
+        if (entry.key !== key) return null;
+        if (entry.expiresAt <= Date.now()) {
+            await fs.rm(filePath, { force: true });
+            return null;
+        }
+        return entry;
+    }
+
+    async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        const now = Date.now();
+        const entry: CacheEntry<T> = { key, value, storedAt: now, expiresAt: now + ttlMs };
+        const filePath = this.pathFor(key);
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        // Write to a temp file and rename, so concurrent readers never see a partial entry
+        const tempPath = `${filePath}.${randomUUID()}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(entry));
+        await fs.rename(tempPath, filePath);
+    }
+
+    private pathFor(key: string): string {
+        const hash = createHash('sha256').update(key).digest('hex');
+        // Shard by the first two hex characters to keep directories small
+        return path.join(this.directory, hash.slice(0, 2), `${hash}.json`);
+    }
+}
@@ -0,0 +1,111 @@
+import path from 'path';
+
+import { loadCacheConfig } from '../config';
+import { CacheLookup, CacheOptions, CacheStats, CacheStore } from './types';
+import { FileCacheStore } from './fileCacheStore';
+import { MemoryCacheStore } from './memoryCacheStore';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Cache');
+
+export { CacheOptions, CacheStats } from './types';
+
+// Created on first use (after dotenv has run). `null` means caching is disabled.
+let cacheStore: CacheStore | null | undefined;
+let cacheTtlMs = 0;
+
+function getCacheStore(): CacheStore | null {
+    if (cacheStore === undefined) {
+        const config = loadCacheConfig();
+        cacheTtlMs = config.ttlMs;
+        cacheStore = config.backend === 'file' ? new FileCacheStore(path.resolve(config.directory))
+            : config.backend === 'memory' ? new MemoryCacheStore()
+            : null;
+        log.info(cacheStore ? `Using the ${cacheStore.name} cache` : 'Not caching', { ttlSeconds: cacheStore ? config.ttlMs / 1000 : undefined });
+    }
+    return cacheStore;
+}
+
+/**
+ * Creates an empty stats collector for one run.
+ */
+export function createCacheStats(): CacheStats {
+    return { hits: 0, misses: 0, bypassed: 0, lookups: [] };
+}
+
+/**
+ * Normalizes a search query so trivially different phrasings share a cache entry.
+ */
+export function normalizeQuery(query: string): string {
+    return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Normalizes a URL: lowercase scheme and host, no fragment, sorted query parameters,
+ * no trailing slash. Unparseable URLs are returned trimmed.
+ */
+export function normalizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url.trim());
+        parsed.hash = '';
+        parsed.searchParams.sort();
+        let normalized = parsed.toString();
+        if (parsed.pathname !== '/' && normalized.endsWith('/')) normalized = normalized.slice(0, -1);
+        return normalized;
+    } catch {
+        return url.trim();
+    }
+}
+
+function record(options: CacheOptions | undefined, lookup: CacheLookup): void {
+    const stats = options?.stats;
+    if (!stats) return;
+    stats.lookups.push(lookup);
+    if (lookup.status === 'hit') stats.hits++;
+    else if (lookup.status === 'miss') stats.misses++;
+    else stats.bypassed++;
+}
+
+/**
+ * Returns the cached value for the key, or runs `produce` and caches its result.
+ * With `options.bypass`, the cached value is ignored but the fresh result still refreshes the cache.
+ * Cache read/write errors are logged and never fail the call.
+ *
+ * @param kind - Which tool the value belongs to (for stats).
+ * @param key - The fully-qualified cache key.
+ * @param options - Per-run bypass flag and stats collector.
+ * @param produce - Computes the value on a miss.
+ */
+export async function withCache<T>(
+    kind: CacheLookup['kind'],
+    key: string,
+    options: CacheOptions | undefined,
+    produce: () => Promise<T>
+): Promise<T> {
+    const store = getCacheStore();
+    if (!store) return produce();
+
+    if (options?.bypass) {
+        record(options, { kind, key, status: 'bypass' });
+    } else {
+        try {
+            const entry = await store.get<T>(key);
+            if (entry) {
+                record(options, { kind, key, status: 'hit' });
+                log.debug('Hit', { key });
+                return entry.value;
+            }
+        } catch (error) {
+            log.warn('Lookup failed', { key, error });
+        }
+        record(options, { kind, key, status: 'miss' });
+    }
+
+    const value = await produce();
+    try {
+        await store.set(key, value, cacheTtlMs);
+    } catch (error) {
+        log.warn('Failed to store', { key, error });
+    }
+    return value;
+}
@@ -0,0 +1,24 @@
+import { CacheEntry, CacheStore } from './types';
+
+/**
+ * Process-local cache. Entries are lost on restart.
+ */
+export class MemoryCacheStore implements CacheStore {
+    readonly name = 'memory';
+    private readonly entries = new Map<string, CacheEntry<any>>();
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const entry = this.entries.get(key);
+        if (!entry) return null;
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return null;
+        }
+        return entry;
+    }
+
+    async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+        const now = Date.now();
+        this.entries.set(key, { key, value, storedAt: now, expiresAt: now + ttlMs });
+    }
+}
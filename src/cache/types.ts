@@ -0,0 +1,52 @@
+/**
+ * A stored cache entry. Values must be JSON-serialisable.
+ */
+export interface CacheEntry<T = unknown> {
+    key: string;
+    value: T;
+    storedAt: number; // epoch ms
+    expiresAt: number; // epoch ms
+}
+
+/**
+ * A key-value backend for cached tool results.
+ */
+export interface CacheStore {
+    readonly name: string;
+    /**
+     * @returns The entry, or null if it is missing or expired.
+     */
+    get<T>(key: string): Promise<CacheEntry<T> | null>;
+    set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+export type CacheStatus = 'hit' | 'miss' | 'bypass';
+
+/**
+ * One cache lookup made during a run.
+ */
+export interface CacheLookup {
+    kind: 'search' | 'read' | 'spec';
+    key: string;
+    status: CacheStatus;
+}
+
+/**
+ * Cache hit/miss counters for a run, returned in the response metadata.
+ */
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    bypassed: number;
+    lookups: CacheLookup[];
+}
+
+/**
+ * Per-run cache behaviour passed down to the search and read tools.
+ * - `bypass`: skip cached entries and fetch fresh results (which then refresh the cache).
+ * - `stats`: collects the lookups made during the run.
+ */
+export interface CacheOptions {
+    bypass?: boolean;
+    stats?: CacheStats;
+}
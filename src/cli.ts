@@ -0,0 +1,490 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline/promises';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import express from 'express';
+
+import { createRunContext, runGeneration } from './pipeline/runGeneration';
+import { runConversationTurn } from './pipeline/runConversation';
+import { ClarificationExchange, ClarifyingQuestion, Conversation } from './pipeline/clarification';
+import { parseGenerationOptions } from './pipeline/options';
+import { evaluateQuality } from './pipeline/qualityGate';
+import { OutputFormat, serializeSpec } from './conversion';
+import { parseSpecText } from './discovery/loadSpec';
+import { validateOpenAPISchema } from './tools/validateOpenAPISchema';
+import { lintSpec, LintFinding } from './lint';
+import { compareSpecs } from './evaluation';
+import { DEFAULT_EVIDENCE_QUERY, detectEvidenceType, EvidenceInput } from './evidence';
+import { createMockRouter } from './mock';
+import { generateTypeScriptClient } from './codegen';
+import { validateBaseDocument } from './pipeline/runExtension';
+import { hasDrift, renderDriftReport, runDriftCheck, sendDriftWebhook } from './drift';
+import { loadDriftConfig } from './config';
+
+/**
+ * Exit codes, so scripts can tell failure types apart.
+ */
+const EXIT = {
+    OK: 0,
+    // Unexpected error: unconfigured provider, unreadable file, failed model call, ...
+    ERROR: 1,
+    USAGE: 2,
+    // The query isn't a request for an API spec, or no operations could be identified in it
+    NOT_UNDERSTOOD: 3,
+    // No operation could be generated
+    GENERATION_FAILED: 4,
+    // The document is not valid OpenAPI, or has lint errors
+    INVALID_SPEC: 5,
+    // A document was produced, but some operations failed or didn't pass the quality gate (or evaluation)
+    INCOMPLETE: 6,
+    // A drift check found breaking changes
+    BREAKING_DRIFT: 7,
+} as const;
+
+const USAGE = `Usage:
+  text-to-openapi generate ["<query>"] [-o <file>] [--format json|yaml] [--target-version 3.0.3|3.1.0|2.0]
+                  [--evidence <curl script|.har|Postman collection>]... [--evidence-only] [--all-operations] [--examples]
+                  [--client <file.ts>] [--interactive] [--bypass-cache] [--model <stage>=<provider:model>]... [--lint <rule>=<severity>]...
+                  [--no-quality-gate] [--min-alignment <0-5>] [--max-retries <n>] [--json] [--quiet]
+  text-to-openapi validate <spec file> [--lint <rule>=<severity>]... [--json] [--quiet]
+  text-to-openapi evaluate <spec file> --query "<query>" [--source <url>]... [--golden <reference spec>]
+                  [--model <stage>=<provider:model>]... [--min-alignment <0-5>] [--json] [--quiet]
+  text-to-openapi mock <spec file> [--port <port>] [--quiet]
+  text-to-openapi client <spec file> [-o <file.ts>] [--quiet]
+  text-to-openapi drift <spec file> [-o <report.md|report.json>] [--source <url>]... [--all] [--webhook <url>]
+                  [--model <stage>=<provider:model>]... [--json] [--quiet]
+
+Exit codes: 0 success, 1 error, 2 usage, 3 query not understood, 4 generation failed,
+            5 invalid spec, 6 incomplete (failed operations, quality gate or evaluation not passed),
+            7 breaking drift`;
+
+class UsageError extends Error {}
+
+/**
+ * Parses repeated `key=value` flags into an object.
+ */
+function parsePairs(values: string[] | undefined, flag: string): Record<string, string> | undefined {
+    if (!values || values.length === 0) return undefined;
+    return Object.fromEntries(values.map((value) => {
+        const separator = value.indexOf('=');
+        if (separator <= 0) throw new UsageError(`Invalid --${flag} '${value}': expected <name>=<value>`);
+        return [value.slice(0, separator), value.slice(separator + 1)];
+    }));
+}
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (value.trim() === '' || Number.isNaN(number)) throw new UsageError(`Invalid --${flag} '${value}': expected a number`);
+    return number;
+}
+
+/**
+ * Reads evidence files; the type is detected from the file name and content.
+ */
+function readEvidenceFiles(files: string[] | undefined): EvidenceInput[] | undefined {
+    if (!files || files.length === 0) return undefined;
+    return files.map((file) => {
+        let content: string;
+        try {
+            content = fs.readFileSync(file, 'utf8');
+        } catch (error) {
+            throw new Error(`Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        return { type: detectEvidenceType(file, content), content, name: path.basename(file) };
+    });
+}
+
+function readSpecFile(file: string): Record<string, any> {
+    let document: unknown;
+    try {
+        document = parseSpecText(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new Error(`Failed to read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+        throw new Error(`Failed to read ${file}: expected an OpenAPI document object`);
+    }
+    return document as Record<string, any>;
+}
+
+function writeFile(file: string, text: string): void {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.writeFileSync(file, text.endsWith('\n') ? text : `${text}\n`);
+}
+
+const writeJson = (value: unknown) => process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+
+const describeFinding = ({ severity, ruleId, location, message }: LintFinding) => `  ${severity} ${ruleId} at ${location || '/'}: ${message}`;
+
+async function generate(args: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            output: { type: 'string', short: 'o' },
+            format: { type: 'string' },
+            'target-version': { type: 'string' },
+            evidence: { type: 'string', multiple: true },
+            'evidence-only': { type: 'boolean' },
+            'all-operations': { type: 'boolean' },
+            examples: { type: 'boolean' },
+            client: { type: 'string' },
+            interactive: { type: 'boolean', short: 'i' },
+            'bypass-cache': { type: 'boolean' },
+            model: { type: 'string', multiple: true },
+            lint: { type: 'string', multiple: true },
+            'no-quality-gate': { type: 'boolean' },
+            'min-alignment': { type: 'string' },
+            'max-retries': { type: 'string' },
+            json: { type: 'boolean' },
+            quiet: { type: 'boolean', short: 'q' },
+        },
+    });
+    const evidence = readEvidenceFiles(values.evidence);
+    // With evidence the query is optional: every observed operation is documented
+    const query = positionals.join(' ').trim() || (evidence ? DEFAULT_EVIDENCE_QUERY : '');
+    if (!query) throw new UsageError('Missing query');
+
+    // Without --format, the output file's extension decides
+    const format = values.format ?? (values.output && /\.ya?ml$/i.test(values.output) ? 'yaml' : 'json');
+    const qualityGate = {
+        ...(values['no-quality-gate'] ? { enabled: false } : {}),
+        ...(values['min-alignment'] !== undefined ? { min_alignment: parseNumber(values['min-alignment'], 'min-alignment') } : {}),
+        ...(values['max-retries'] !== undefined ? { max_retries: parseNumber(values['max-retries'], 'max-retries') } : {}),
+    };
+    // The same option parsing as the HTTP API, from the equivalent request body
+    const options = parseGenerationOptions({
+        bypass_cache: values['bypass-cache'],
+        all_operations: values['all-operations'],
+        add_examples: values.examples,
+        typescript_client: values.client !== undefined ? true : undefined,
+        lint_rules: parsePairs(values.lint, 'lint'),
+        models: parsePairs(values.model, 'model'),
+        quality_gate: Object.keys(qualityGate).length > 0 ? qualityGate : undefined,
+        target_version: values['target-version'],
+        output_format: format,
+        evidence,
+        evidence_only: values['evidence-only'],
+    }, 'command-line options');
+    if ('error' in options) throw new UsageError(options.error);
+
+    // With --interactive, ambiguous queries get questions on stderr, answered on stdin
+    const conversation: Conversation = { operations: [], exchanges: [], rounds: 0 };
+    let outcome = values.interactive ? await runConversationTurn(query, conversation, options) : await runGeneration(query, options);
+    while (outcome.status === 'needs_clarification') {
+        conversation.operations = outcome.operations;
+        conversation.rounds++;
+        conversation.exchanges.push(...await askQuestions(outcome.questions));
+        outcome = await runConversationTurn(query, conversation, options);
+    }
+    switch (outcome.status) {
+        case 'not_openapi_request':
+            if (values.json) writeJson({ status: outcome.status, refusal: outcome.refusal });
+            console.error(`${outcome.refusal.explanation} (${outcome.refusal.reason})`);
+            return EXIT.NOT_UNDERSTOOD;
+        case 'no_operations':
+            if (values.json) writeJson({ status: outcome.status });
+            console.error('Could not understand the specific API operations requested in the query.');
+            return EXIT.NOT_UNDERSTOOD;
+        case 'failed':
+            if (values.json) writeJson({ status: outcome.status, failures: outcome.failures });
+            console.error(`Failed to generate OpenAPI specification for operation: ${outcome.failures.map((f) => f.operation).join(', ')}`);
+            for (const failure of outcome.failures) console.error(`  ${failure.operation}: ${failure.error}`);
+            return EXIT.GENERATION_FAILED;
+    }
+
+    const { result } = outcome;
+    const specText = result.spec_yaml ?? serializeSpec(result.generated_spec, format as OutputFormat);
+    if (values.output) writeFile(values.output, specText);
+    if (values.client && result.client_ts) writeFile(values.client, result.client_ts);
+    if (values.json) writeJson({ status: outcome.status, ...result });
+    else if (!values.output) process.stdout.write(specText.endsWith('\n') ? specText : `${specText}\n`);
+
+    const generated = result.operations.filter((op) => op.status === 'succeeded').length;
+    const lintErrors = result.lint.filter((finding) => finding.severity === 'error').length;
+    console.error(`Generated ${generated}/${result.operations.length} operation(s)${values.output ? ` to ${values.output}` : ''}. ` +
+        `Validation: ${result.validation.isValid ? 'valid' : `invalid (${result.validation.error})`}; ${lintErrors} lint error(s)` +
+        `${result.quality_gate.passed === null ? '' : `; quality gate ${result.quality_gate.passed ? 'passed' : 'not passed'}`}.`);
+    for (const failure of result.failures) console.error(`  Failed: ${failure.operation}: ${failure.error}`);
+    for (const warning of result.conversion?.warnings ?? []) console.error(`  Conversion: ${warning}`);
+    for (const { url, findings } of result.security.filtered_content) {
+        console.error(`  Filtered: instruction-like text removed from ${url} (${Array.from(new Set(findings.map(({ rule }) => rule))).join(', ')})`);
+    }
+    for (const { pointer, url } of result.security.unsourced_urls) console.error(`  Unsourced URL: ${url} at ${pointer}`);
+
+    if (!result.validation.isValid || lintErrors > 0) return EXIT.INVALID_SPEC;
+    if (result.failures.length > 0 || result.quality_gate.passed === false) return EXIT.INCOMPLETE;
+    return EXIT.OK;
+}
+
+/**
+ * Asks clarifying questions on stderr and reads the answers from stdin: an option number, any text, or nothing to skip.
+ */
+async function askQuestions(questions: ClarifyingQuestion[]): Promise<ClarificationExchange[]> {
+    const prompt = readline.createInterface({ input: process.stdin });
+    // Reading through the iterator keeps lines that arrive before they are asked for (piped answers)
+    const lines = prompt[Symbol.asyncIterator]();
+    try {
+        const exchanges: ClarificationExchange[] = [];
+        for (const { id, question, options } of questions) {
+            process.stderr.write(`\n${id}. ${question}\n${options.map((option, i) => `  ${i + 1}) ${option}\n`).join('')}> `);
+            const line = await lines.next();
+            const reply = line.done ? '' : String(line.value).trim();
+            const choice = /^\d+$/.test(reply) ? options[Number(reply) - 1] : undefined;
+            exchanges.push({ id, question, answer: choice ?? (reply || null) });
+        }
+        return exchanges;
+    } finally {
+        prompt.close();
+    }
+}
+
+async function validate(args: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            lint: { type: 'string', multiple: true },
+            json: { type: 'boolean' },
+            quiet: { type: 'boolean', short: 'q' },
+        },
+    });
+    const [file] = positionals;
+    if (!file || positionals.length > 1) throw new UsageError('Expected one spec file');
+    const options = parseGenerationOptions({ lint_rules: parsePairs(values.lint, 'lint') }, 'command-line options');
+    if ('error' in options) throw new UsageError(options.error);
+
+    const spec = readSpecFile(file);
+    const validation = await validateOpenAPISchema(JSON.stringify(spec));
+    // The lint rules are written for OpenAPI 3.x
+    const lint = typeof spec.openapi === 'string' ? lintSpec(spec, options.lintRules) : [];
+    const lintErrors = lint.filter((finding) => finding.severity === 'error').length;
+
+    if (values.json) {
+        writeJson({ file, validation, lint });
+    } else {
+        const version = spec.openapi ? `OpenAPI ${spec.openapi}` : spec.swagger ? `Swagger ${spec.swagger}` : 'document';
+        console.error(validation.isValid ? `${file}: valid ${version}.` : `${file}: invalid ${version}: ${validation.error}`);
+        if (lint.length > 0) console.error(`${lint.length} lint finding(s), ${lintErrors} error(s):\n${lint.map(describeFinding).join('\n')}`);
+    }
+    return validation.isValid && lintErrors === 0 ? EXIT.OK : EXIT.INVALID_SPEC;
+}
+
+async function evaluate(args: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            query: { type: 'string' },
+            source: { type: 'string', multiple: true },
+            golden: { type: 'string' },
+            model: { type: 'string', multiple: true },
+            'min-alignment': { type: 'string' },
+            json: { type: 'boolean' },
+            quiet: { type: 'boolean', short: 'q' },
+        },
+    });
+    const [file] = positionals;
+    if (!file || positionals.length > 1) throw new UsageError('Expected one spec file');
+    if (!values.query) throw new UsageError('Missing --query');
+    const minAlignment = parseNumber(values['min-alignment'], 'min-alignment');
+    const options = parseGenerationOptions({
+        models: parsePairs(values.model, 'model'),
+        quality_gate: minAlignment !== undefined ? { min_alignment: minAlignment } : undefined,
+    }, 'command-line options');
+    if ('error' in options) throw new UsageError(options.error);
+
+    const spec = readSpecFile(file);
+    const reference = values.golden ? readSpecFile(values.golden) : null;
+    const { context } = createRunContext(options);
+    // The same evaluators as the generation quality gate
+    const evaluation = await evaluateQuality(values.query, spec, values.source ?? [], context.qualityGate!, context);
+    const comparison = reference && compareSpecs(reference, spec);
+
+    if (values.json) {
+        writeJson({ file, query: values.query, quality_gate: context.qualityGate, ...evaluation, comparison });
+    } else {
+        const { alignment, veracity } = evaluation;
+        if (alignment) console.error(`Alignment: ${alignment.score.toFixed(1)}/5 (minimum ${context.qualityGate!.minAlignment})${alignment.reasoning ? ` – ${alignment.reasoning}` : ''}`);
+        if (veracity) {
+            console.error(`Veracity: ${veracity.isAccurate ? 'accurate' : 'inaccurate'}${veracity.reasoning ? ` – ${veracity.reasoning}` : ''}`);
+            for (const d of veracity.discrepancies) {
+                console.error(`  [${d.severity}] At ${d.pointer}: the spec says ${d.spec_says}, but ${d.source_url} says ${d.documentation_says}`);
+            }
+        } else if (!evaluation.error) {
+            console.error('Veracity: not checked (no --source pages).');
+        }
+        if (comparison) {
+            const scores = Object.entries(comparison.scores).map(([name, score]) => `${name} ${score === null ? '–' : score.toFixed(2)}`);
+            console.error(`Compared with ${values.golden}: ${scores.join(', ')}`);
+        }
+        console.error(evaluation.error ? `Evaluation failed: ${evaluation.error}` : `Evaluation ${evaluation.passed ? 'passed' : 'not passed'}.`);
+    }
+
+    if (evaluation.error) return EXIT.ERROR;
+    return evaluation.passed ? EXIT.OK : EXIT.INCOMPLETE;
+}
+
+async function mock(args: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            port: { type: 'string' },
+            quiet: { type: 'boolean', short: 'q' },
+        },
+    });
+    const [file] = positionals;
+    if (!file || positionals.length > 1) throw new UsageError('Expected one spec file');
+    const port = parseNumber(values.port, 'port') ?? 4010;
+
+    const spec = readSpecFile(file);
+    const specError = validateBaseDocument(spec);
+    if (specError) {
+        console.error(`${file}: ${specError}`);
+        return EXIT.INVALID_SPEC;
+    }
+    const app = express();
+    app.use((req, res, next) => {
+        res.on('finish', () => console.log(`${req.method} ${req.originalUrl} -> ${res.statusCode}`));
+        next();
+    });
+    app.use(createMockRouter(spec));
+
+    // Serves until interrupted
+    return new Promise<number>((resolve, reject) => {
+        const server = app.listen(port, () => console.error(`Mocking ${file} at http://localhost:${port} (Ctrl+C to stop)`));
+        server.on('error', reject);
+        process.once('SIGINT', () => server.close(() => resolve(EXIT.OK)));
+    });
+}
+
+async function client(args: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            output: { type: 'string', short: 'o' },
+            quiet: { type: 'boolean', short: 'q' },
+        },
+    });
+    const [file] = positionals;
+    if (!file || positionals.length > 1) throw new UsageError('Expected one spec file');
+
+    const spec = readSpecFile(file);
+    const specError = validateBaseDocument(spec);
+    if (specError) {
+        console.error(`${file}: ${specError}`);
+        return EXIT.INVALID_SPEC;
+    }
+    const source = generateTypeScriptClient(spec);
+    if (values.output) {
+        writeFile(values.output, source);
+        console.error(`Wrote the client for ${file} to ${values.output}.`);
+    } else {
+        process.stdout.write(source);
+    }
+    return EXIT.OK;
+}
+
+async function drift(args: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            output: { type: 'string', short: 'o' },
+            source: { type: 'string', multiple: true },
+            all: { type: 'boolean' },
+            webhook: { type: 'string' },
+            model: { type: 'string', multiple: true },
+            json: { type: 'boolean' },
+            quiet: { type: 'boolean', short: 'q' },
+        },
+    });
+    const [file] = positionals;
+    if (!file || positionals.length > 1) throw new UsageError('Expected one spec file');
+    const webhookUrl = values.webhook ?? loadDriftConfig().webhookUrl;
+    if (webhookUrl && !/^https?:\/\//.test(webhookUrl)) throw new UsageError(`Invalid --webhook '${webhookUrl}': expected an http(s) URL`);
+    const options = parseGenerationOptions({ models: parsePairs(values.model, 'model') }, 'command-line options');
+    if ('error' in options) throw new UsageError(options.error);
+
+    const spec = readSpecFile(file);
+    const specError = validateBaseDocument(spec);
+    if (specError) {
+        console.error(`${file}: ${specError}`);
+        return EXIT.INVALID_SPEC;
+    }
+    const outcome = await runDriftCheck(spec, { sources: values.source, regenerateAll: values.all }, options);
+    if (outcome.status === 'no_operations') {
+        if (values.json) writeJson({ status: outcome.status });
+        console.error(`${file} has no operations to check.`);
+        return EXIT.INVALID_SPEC;
+    }
+
+    const { report } = outcome;
+    // Without --json, the output file's extension decides the report's format
+    if (values.output) writeFile(values.output, /\.json$/i.test(values.output) ? JSON.stringify(report, null, 2) : renderDriftReport(report));
+    if (values.json) writeJson(report);
+    else if (!values.output) process.stdout.write(renderDriftReport(report));
+
+    const { summary } = report;
+    console.error(`Checked ${summary.operations} operation(s) of ${file}${values.output ? ` (report in ${values.output})` : ''}: ` +
+        `${summary.regenerated} regenerated, ${summary.changed} changed, ${summary.failed} failed; ` +
+        `${summary.breaking} breaking and ${summary.non_breaking} non-breaking change(s).`);
+    for (const operation of report.operations) {
+        for (const change of operation.changes.filter(({ severity }) => severity === 'breaking')) {
+            console.error(`  Breaking: ${operation.operation}: ${change.message}`);
+        }
+        if (operation.error) console.error(`  Failed: ${operation.operation}: ${operation.error}`);
+    }
+
+    if (webhookUrl && hasDrift(report)) {
+        try {
+            await sendDriftWebhook(webhookUrl, report);
+            console.error(`Sent the report to ${webhookUrl}.`);
+        } catch (error) {
+            console.error((error as Error).message);
+            return EXIT.ERROR;
+        }
+    }
+    if (summary.breaking > 0) return EXIT.BREAKING_DRIFT;
+    return summary.failed > 0 ? EXIT.INCOMPLETE : EXIT.OK;
+}
+
+async function main(): Promise<number> {
+    dotenv.config();
+    const [command, ...args] = process.argv.slice(2);
+    // stdout carries only the command's output (the spec or --json); progress logs go to stderr
+    const quiet = args.includes('--quiet') || args.includes('-q');
+    console.log = quiet ? () => {} : console.error;
+    console.info = console.log;
+    if (quiet) console.warn = () => {};
+
+    try {
+        if (command === 'generate') return await generate(args);
+        if (command === 'validate') return await validate(args);
+        if (command === 'evaluate') return await evaluate(args);
+        if (command === 'mock') return await mock(args);
+        if (command === 'client') return await client(args);
+        if (command === 'drift') return await drift(args);
+    } catch (error) {
+        // parseArgs rejects unknown flags and missing values with ERR_PARSE_ARGS_* errors
+        const code = (error as { code?: string })?.code;
+        if (!(error instanceof UsageError) && !code?.startsWith('ERR_PARSE_ARGS')) throw error;
+        console.error(`${(error as Error).message}\n\n${USAGE}`);
+        return EXIT.USAGE;
+    }
+    console.error(USAGE);
+    return EXIT.USAGE;
+}
+
+main().then(
+    (code) => process.exit(code),
+    (error) => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(EXIT.ERROR);
+    }
+);
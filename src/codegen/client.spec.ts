@@ -0,0 +1,182 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { generateTypeScriptClient } from '.';
+
+// Covers what the generator translates: component refs (recursive too), enums, allOf/oneOf, nullable,
+// maps, and every kind of parameter and body
+const SPEC = {
+    openapi: '3.0.3',
+    info: { title: 'Refunds API', version: '1.0.0' },
+    servers: [{ url: 'https://api.example.com' }],
+    paths: {
+        '/v1/refunds': {
+            get: {
+                operationId: 'listRefunds',
+                parameters: [
+                    { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100 } },
+                    { name: 'status', in: 'query', schema: { type: 'array', items: { $ref: '#/components/schemas/RefundStatus' } }, explode: false },
+                    { name: 'created', in: 'query', style: 'deepObject', schema: { type: 'object', properties: { gte: { type: 'integer' }, lte: { type: 'integer' } } } },
+                    { name: 'Stripe-Account', in: 'header', schema: { type: 'string' } },
+                    { name: 'session', in: 'cookie', schema: { type: 'string' } },
+                ],
+                responses: {
+                    '200': {
+                        description: 'A page of refunds.',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        data: { type: 'array', items: { $ref: '#/components/schemas/Refund' } },
+                                        has_more: { type: 'boolean' },
+                                    },
+                                    required: ['data', 'has_more'],
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+            post: {
+                operationId: 'createRefund',
+                parameters: [{ name: 'Idempotency-Key', in: 'header', required: true, schema: { type: 'string' } }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/x-www-form-urlencoded': {
+                            schema: {
+                                type: 'object',
+                                properties: {
+                                    charge: { type: 'string' },
+                                    amount: { type: 'integer', minimum: 1 },
+                                    reason: { type: 'string', enum: ['duplicate', 'fraudulent', 'requested_by_customer'] },
+                                    metadata: { type: 'object', additionalProperties: { type: 'string' } },
+                                },
+                                required: ['charge'],
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    '200': { description: 'The refund.', content: { 'application/json': { schema: { $ref: '#/components/schemas/Refund' } } } },
+                    '400': { description: 'Invalid request.', content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } },
+                },
+            },
+        },
+        '/v1/refunds/{refund}': {
+            parameters: [{ name: 'refund', in: 'path', required: true, schema: { type: 'string' } }],
+            get: {
+                operationId: 'retrieveRefund',
+                parameters: [{ name: 'expand', in: 'query', schema: { type: 'array', items: { type: 'string' } } }],
+                responses: { '200': { description: 'The refund.', content: { 'application/json': { schema: { $ref: '#/components/schemas/Refund' } } } } },
+            },
+        },
+        '/v1/refunds/{refund}/evidence': {
+            // No operationId: named after the method and path
+            post: {
+                parameters: [{ name: 'refund', in: 'path', required: true, schema: { type: 'string' } }],
+                requestBody: {
+                    content: {
+                        'multipart/form-data': {
+                            schema: {
+                                type: 'object',
+                                properties: { file: { type: 'string', format: 'binary' }, purpose: { type: 'string', enum: ['dispute_evidence'] } },
+                                required: ['file'],
+                            },
+                        },
+                    },
+                },
+                responses: { '204': { description: 'Uploaded.' } },
+            },
+        },
+        '/v1/health': {
+            get: {
+                operationId: 'getHealth',
+                responses: { '200': { description: 'OK', content: { 'text/plain': { schema: { type: 'string' } } } } },
+            },
+        },
+    },
+    components: {
+        schemas: {
+            RefundStatus: { type: 'string', enum: ['pending', 'succeeded', 'failed', 'canceled'] },
+            Refund: {
+                allOf: [
+                    { $ref: '#/components/schemas/Resource' },
+                    {
+                        type: 'object',
+                        properties: {
+                            amount: { type: 'integer' },
+                            status: { $ref: '#/components/schemas/RefundStatus' },
+                            reason: { type: 'string', nullable: true },
+                            destination: { oneOf: [{ type: 'string' }, { $ref: '#/components/schemas/Destination' }] },
+                        },
+                        required: ['amount', 'status'],
+                    },
+                ],
+            },
+            Resource: { type: 'object', properties: { id: { type: 'string' }, object: { type: 'string' } }, required: ['id', 'object'] },
+            Destination: {
+                type: 'object',
+                properties: { id: { type: 'string' }, parent: { $ref: '#/components/schemas/Destination' } },
+                required: ['id'],
+            },
+            Error: {
+                type: 'object',
+                properties: { error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } } },
+            },
+        },
+    },
+};
+
+// Calls the generated functions the way an application would, so their signatures are checked too
+const USAGE = `import { createRefund, listRefunds, postV1RefundsRefundEvidence, retrieveRefund, getHealth, Refund } from './client';
+
+async function main(): Promise<void> {
+    const options = { baseUrl: 'https://api.example.com', headers: { Authorization: 'Bearer sk_test' }, validate: true };
+    const refund: Refund = await createRefund({ headers: { 'Idempotency-Key': 'key' }, body: { charge: 'ch_123', reason: 'duplicate' } }, options);
+    const page = await listRefunds({ query: { limit: 10, status: ['pending'], created: { gte: 1 } } });
+    const again = await retrieveRefund({ path: { refund: refund.id }, query: { expand: ['charge'] } });
+    await postV1RefundsRefundEvidence({ path: { refund: again.id }, body: { file: new Blob(['evidence']) } });
+    const health: string = await getHealth();
+    console.log(page.has_more, page.data.map((item) => item.status), health);
+}
+
+void main();
+`;
+
+describe('generateTypeScriptClient', () => {
+    let directory: string;
+
+    beforeAll(() => {
+        process.env.LOG_LEVEL = 'error';
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'text-to-openapi-client-'));
+        // zod and the Node types resolve from the project's dependencies
+        fs.symlinkSync(path.resolve(__dirname, '../../node_modules'), path.join(directory, 'node_modules'), 'dir');
+    });
+
+    afterAll(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('generates a module that type-checks with tsc --strict', () => {
+        fs.writeFileSync(path.join(directory, 'client.ts'), generateTypeScriptClient(SPEC));
+        fs.writeFileSync(path.join(directory, 'usage.ts'), USAGE);
+
+        let output = '';
+        try {
+            execFileSync(process.execPath, [
+                require.resolve('typescript/bin/tsc'),
+                '--noEmit', '--strict',
+                '--target', 'es2020', '--module', 'commonjs', '--moduleResolution', 'node', '--lib', 'es2020,dom',
+                'client.ts', 'usage.ts',
+            ], { cwd: directory, encoding: 'utf8' });
+        } catch (error) {
+            output = String((error as { stdout?: string }).stdout ?? error);
+        }
+        expect(output).toBe('');
+    }, 120000);
+});
@@ -0,0 +1,314 @@
+import { convertSpec } from '../conversion';
+import { resolveJsonPointer } from '../utils/jsonPointer';
+import { effectiveParameters, listOperations, OperationEntry } from '../utils/openapi';
+import { camelCase, NameAllocator, pascalCase, propertyKey } from './names';
+import { referencedComponents, SchemaContext, toTypeScript, toZod } from './schemas';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Codegen');
+
+const JSON_TYPE = /^application\/(.+\+)?json$/i;
+const FORM_TYPE = 'application/x-www-form-urlencoded';
+const MULTIPART_TYPE = /^multipart\//i;
+
+type BodyType = 'json' | 'form' | 'multipart' | 'text';
+
+// Declarations every generated module starts with: the options, the error class and the fetch wrapper
+const RUNTIME = `export interface ClientOptions {
+    /** Where the API is served; defaults to the document's first server */
+    baseUrl?: string;
+    /** Headers sent with every request, e.g. \`{ Authorization: 'Bearer ...' }\` */
+    headers?: Record<string, string>;
+    /** The fetch implementation; defaults to the global fetch */
+    fetch?: typeof fetch;
+    /** Parse request bodies and responses with their zod schemas */
+    validate?: boolean;
+}
+
+/**
+ * Thrown for responses outside 2xx; \`body\` is the response body (parsed when it is JSON).
+ */
+export class ApiError extends Error {
+    constructor(readonly status: number, readonly body: unknown) {
+        super(\`Request failed with status \${status}\`);
+        this.name = 'ApiError';
+    }
+}
+
+interface RequestSpec {
+    method: string;
+    path: string;
+    query?: Record<string, unknown>;
+    queryStyles?: Record<string, 'comma' | 'deepObject'>;
+    headers?: Record<string, unknown>;
+    body?: unknown;
+    bodyType?: 'json' | 'form' | 'multipart' | 'text';
+    contentType?: string;
+}
+
+function appendQuery(search: URLSearchParams, name: string, value: unknown, style?: 'comma' | 'deepObject'): void {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+        if (style === 'comma') search.append(name, value.join(','));
+        else value.forEach((item) => search.append(name, String(item)));
+    } else if (typeof value === 'object') {
+        for (const [key, item] of Object.entries(value)) appendQuery(search, style === 'deepObject' ? \`\${name}[\${key}]\` : key, item);
+    } else {
+        search.append(name, String(value));
+    }
+}
+
+function encodeBody(body: unknown, type: RequestSpec['bodyType']): string | URLSearchParams | FormData | Blob | undefined {
+    if (body === undefined) return undefined;
+    if (type === 'text') return body instanceof Blob ? body : String(body);
+    if (type !== 'form' && type !== 'multipart') return JSON.stringify(body);
+    const fields: [string, unknown][] = [];
+    for (const [name, value] of Object.entries(body as Record<string, unknown>)) {
+        for (const item of Array.isArray(value) ? value : [value]) if (item !== undefined && item !== null) fields.push([name, item]);
+    }
+    const text = (item: unknown) => (typeof item === 'object' ? JSON.stringify(item) : String(item));
+    if (type === 'form') return new URLSearchParams(fields.map(([name, item]) => [name, text(item)]));
+    const form = new FormData();
+    for (const [name, item] of fields) {
+        if (item instanceof Blob) form.append(name, item);
+        else form.append(name, text(item));
+    }
+    return form;
+}
+
+async function request(options: ClientOptions, spec: RequestSpec): Promise<unknown> {
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(spec.query ?? {})) appendQuery(search, name, value, spec.queryStyles?.[name]);
+    const query = search.toString();
+    const url = \`\${(options.baseUrl ?? BASE_URL).replace(/\\/+$/, '')}\${spec.path}\${query ? \`?\${query}\` : ''}\`;
+
+    const headers: Record<string, string> = { ...options.headers };
+    for (const [name, value] of Object.entries(spec.headers ?? {})) {
+        if (value !== undefined && value !== null) headers[name] = Array.isArray(value) ? value.join(',') : String(value);
+    }
+    // Multipart bodies get their content type (with the boundary) from fetch
+    if (spec.body !== undefined && spec.contentType && spec.bodyType !== 'multipart') headers['Content-Type'] = spec.contentType;
+
+    const response = await (options.fetch ?? fetch)(url, { method: spec.method, headers, body: encodeBody(spec.body, spec.bodyType) });
+    const text = await response.text();
+    let data: unknown = text || undefined;
+    if (text && /[/+]json\\b/i.test(response.headers.get('content-type') ?? '')) {
+        try {
+            data = JSON.parse(text);
+        } catch {
+            // Not JSON after all: keep the text
+        }
+    }
+    if (!response.ok) throw new ApiError(response.status, data);
+    return data;
+}`;
+
+/**
+ * Follows `$ref`s (to parameters, request bodies, responses, ...) to the object they point at.
+ */
+function follow(spec: Record<string, any>, value: any): any {
+    for (let hops = 0; typeof value?.$ref === 'string' && hops < 10; hops++) value = resolveJsonPointer(spec, value.$ref);
+    return value;
+}
+
+/**
+ * Picks the media type to send or read: JSON first, then form, multipart, text, and finally whatever is listed first.
+ */
+function pickMediaType(content: Record<string, any> | undefined): { mediaType: string; bodyType: BodyType; schema: unknown } | null {
+    const types = Object.keys(content ?? {});
+    const mediaType = types.find((type) => JSON_TYPE.test(type))
+        ?? types.find((type) => type === FORM_TYPE)
+        ?? types.find((type) => MULTIPART_TYPE.test(type))
+        ?? types.find((type) => type.startsWith('text/'))
+        ?? types[0];
+    if (!mediaType) return null;
+    const bodyType: BodyType = JSON_TYPE.test(mediaType) ? 'json' : mediaType === FORM_TYPE ? 'form' : MULTIPART_TYPE.test(mediaType) ? 'multipart'
+        : mediaType.startsWith('text/') ? 'text' : 'json';
+    return { mediaType, bodyType, schema: content![mediaType]?.schema ?? {} };
+}
+
+const comment = (lines: string[], indent = '') => {
+    const text = lines.map((line) => line.replace(/\*\//g, '*\\/'));
+    return [`${indent}/**`, ...text.map((line) => (line ? `${indent} * ${line}` : `${indent} *`)), `${indent} */`].join('\n');
+};
+
+/**
+ * The base URL from the document's first server, with server variables set to their defaults.
+ */
+function baseUrl(spec: Record<string, any>): string {
+    const server = Array.isArray(spec.servers) ? spec.servers[0] : undefined;
+    if (typeof server?.url !== 'string') return '';
+    return server.url.replace(/\{([^}]+)\}/g, (placeholder: string, name: string) => {
+        const fallback = server.variables?.[name]?.default;
+        return fallback !== undefined ? String(fallback) : placeholder;
+    });
+}
+
+/**
+ * Finds the component schemas that are part of a reference cycle: their zod schemas need an explicit type annotation.
+ */
+function recursiveComponents(schemas: Record<string, any>, context: SchemaContext): Set<string> {
+    const byName = new Map(Object.entries(schemas).map(([key, schema]) => [context.componentNames.get(key)!, schema]));
+    const references = new Map(Array.from(byName, ([name, schema]) => [name, referencedComponents(schema, context)]));
+    const recursive = new Set<string>();
+    for (const start of references.keys()) {
+        const stack = Array.from(references.get(start) ?? []);
+        const seen = new Set<string>();
+        while (stack.length > 0) {
+            const name = stack.pop()!;
+            if (name === start) {
+                recursive.add(start);
+                break;
+            }
+            if (seen.has(name)) continue;
+            seen.add(name);
+            stack.push(...(references.get(name) ?? []));
+        }
+    }
+    return recursive;
+}
+
+function generateSchemas(spec: Record<string, any>, context: SchemaContext): string[] {
+    const schemas: Record<string, any> = spec.components?.schemas ?? {};
+    const recursive = recursiveComponents(schemas, context);
+    return Object.entries(schemas).map(([key, schema]) => {
+        const name = context.componentNames.get(key)!;
+        const description = typeof schema?.description === 'string' ? `${comment(schema.description.trim().split('\n'))}\n` : '';
+        if (recursive.has(name)) {
+            return `${description}export type ${name} = ${toTypeScript(schema, context)};\nexport const ${name}: z.ZodType<${name}> = ${toZod(schema, context)};`;
+        }
+        return `${description}export const ${name} = ${toZod(schema, context)};\nexport type ${name} = z.infer<typeof ${name}>;`;
+    });
+}
+
+/**
+ * The template literal that builds an operation's path, with path parameters URL-encoded.
+ */
+function pathExpression(path: string): string {
+    const escape = (text: string) => text.replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${');
+    return '`' + path.split(/(\{[^}]+\})/).map((part) => {
+        const placeholder = part.match(/^\{([^}]+)\}$/);
+        if (!placeholder) return escape(part);
+        const name = placeholder[1];
+        const access = /^[A-Za-z_$][\w$]*$/.test(name) ? `params.path.${name}` : `params.path[${JSON.stringify(name)}]`;
+        return `\${encodeURIComponent(String(${access}))}`;
+    }).join('') + '`';
+}
+
+function generateOperation(entry: OperationEntry, spec: Record<string, any>, context: SchemaContext, names: NameAllocator): string {
+    const { path, method, operation } = entry;
+    const functionName = names.allocate(camelCase(typeof operation.operationId === 'string' ? operation.operationId : `${method} ${path}`));
+    const typeName = pascalCase(functionName);
+    const declarations: string[] = [];
+    const call: string[] = [`method: '${method.toUpperCase()}'`, `path: ${pathExpression(path)}`];
+    const members: string[] = [];
+
+    // Parameters, grouped by where they go; cookie parameters are left to ClientOptions.headers
+    const groups: Record<'path' | 'query' | 'header', { fields: string[]; required: boolean }> = {
+        path: { fields: [], required: false }, query: { fields: [], required: false }, header: { fields: [], required: false },
+    };
+    const queryStyles: string[] = [];
+    for (const { parameter } of effectiveParameters(spec, entry)) {
+        const group = groups[parameter.in as keyof typeof groups];
+        if (!group || typeof parameter.name !== 'string') continue;
+        const required = parameter.in === 'path' || parameter.required === true;
+        const schema = parameter.schema ?? pickMediaType(parameter.content)?.schema ?? {};
+        const description = typeof parameter.description === 'string' ? `${comment(parameter.description.trim().split('\n'), '        ')}\n` : '';
+        group.fields.push(`${description}        ${propertyKey(parameter.name)}${required ? '' : '?'}: ${toTypeScript(schema, context)};`);
+        group.required ||= required;
+        if (parameter.in === 'query' && parameter.style === 'deepObject') queryStyles.push(`${propertyKey(parameter.name)}: 'deepObject'`);
+        else if (parameter.in === 'query' && parameter.explode === false) queryStyles.push(`${propertyKey(parameter.name)}: 'comma'`);
+    }
+    for (const [location, key] of [['path', 'path'], ['query', 'query'], ['header', 'headers']] as const) {
+        const { fields, required } = groups[location];
+        if (fields.length === 0) continue;
+        members.push(`    ${key}${required ? '' : '?'}: {\n${fields.join('\n')}\n    };`);
+        if (location !== 'path') call.push(`${key}: params.${key}`);
+        if (location === 'query' && queryStyles.length > 0) call.push(`queryStyles: { ${queryStyles.join(', ')} }`);
+    }
+
+    const requestBody = follow(spec, operation.requestBody);
+    const body = requestBody && typeof requestBody === 'object' ? pickMediaType(requestBody.content) : null;
+    if (body) {
+        const bodyName = names.allocate(`${typeName}Body`);
+        declarations.push(`export const ${bodyName} = ${toZod(body.schema, context, true)};\nexport type ${bodyName} = z.infer<typeof ${bodyName}>;`);
+        members.push(`    body${requestBody.required ? '' : '?'}: ${bodyName};`);
+        const validate = requestBody.required ? 'options.validate' : 'options.validate && params.body !== undefined';
+        call.push(`body: ${validate} ? ${bodyName}.parse(params.body) : params.body`, `bodyType: '${body.bodyType}'`, `contentType: ${JSON.stringify(body.mediaType)}`);
+    }
+
+    // The success responses' schemas; a documented success without content (204, ...) makes the result optional
+    const successes = Object.entries<any>(operation.responses ?? {})
+        .filter(([status]) => /^2(\d\d|XX)$/i.test(status))
+        .map(([, response]) => follow(spec, response));
+    const responseSchemas = new Map<string, string>();
+    let emptySuccess = false;
+    for (const response of successes) {
+        const media = pickMediaType(response?.content);
+        if (!media) emptySuccess = true;
+        else responseSchemas.set(JSON.stringify(media.schema), toZod(media.schema, context, true));
+    }
+    let returnType = 'void';
+    let result = 'return;';
+    if (responseSchemas.size > 0) {
+        const responseName = names.allocate(`${typeName}Response`);
+        const variants = Array.from(responseSchemas.values());
+        const expression = variants.length === 1 ? variants[0] : `z.union([${variants.join(', ')}])`;
+        declarations.push(`export const ${responseName} = ${expression}${emptySuccess ? '.optional()' : ''};\nexport type ${responseName} = z.infer<typeof ${responseName}>;`);
+        returnType = responseName;
+        result = `return options.validate ? ${responseName}.parse(data) : (data as ${responseName});`;
+    }
+
+    const signature: string[] = [];
+    if (members.length > 0) {
+        const paramsName = names.allocate(`${typeName}Params`);
+        declarations.push(`export interface ${paramsName} {\n${members.join('\n')}\n}`);
+        const optional = !groups.path.required && !groups.query.required && !groups.header.required && !(body && requestBody.required);
+        signature.push(optional ? `params: ${paramsName} = {}` : `params: ${paramsName}`);
+    }
+    signature.push('options: ClientOptions = {}');
+
+    const docs = [
+        ...(typeof operation.summary === 'string' ? [operation.summary.trim(), ''] : []),
+        ...(typeof operation.description === 'string' && operation.description.trim() !== operation.summary?.trim() ? [...operation.description.trim().split('\n'), ''] : []),
+        `\`${method.toUpperCase()} ${path}\``,
+        ...(operation.deprecated === true ? ['@deprecated'] : []),
+    ];
+    const invocation = `request(options, {\n${call.map((line) => `        ${line},`).join('\n')}\n    })`;
+    const functionBody = returnType === 'void'
+        ? `    await ${invocation};`
+        : `    const data = await ${invocation};\n    ${result}`;
+    declarations.push(`${comment(docs)}\nexport async function ${functionName}(${signature.join(', ')}): Promise<${returnType}> {\n${functionBody}\n}`);
+    return declarations.join('\n\n');
+}
+
+/**
+ * Generates a TypeScript client for an OpenAPI 3.x document: a module with a zod schema (and type) for every
+ * component schema, request body and success response, and an async function per operation that takes its
+ * path, query, header and body parameters and calls the API with fetch. Functions are named after the
+ * `operationId` (or the method and path), and resolve to the response body; responses outside 2xx reject with
+ * `ApiError`. The module only imports zod, and runs wherever fetch does.
+ *
+ * @param spec - The OpenAPI 3.x document; it is converted to 3.1 first so both versions' schemas translate the same way.
+ * @returns The module's source code.
+ * @throws Throws an error if the document isn't OpenAPI 3.x.
+ */
+export function generateTypeScriptClient(spec: Record<string, any>): string {
+    const doc = convertSpec(spec, '3.1.0').spec;
+    const names = new NameAllocator();
+    const context: SchemaContext = { spec: doc, componentNames: new Map() };
+    for (const key of Object.keys(doc.components?.schemas ?? {})) context.componentNames.set(key, names.allocate(pascalCase(key)));
+
+    const operations = listOperations(doc);
+    const title = [doc.info?.title, doc.info?.version].filter((part) => typeof part === 'string').join(' ');
+    const sections = [
+        `// Generated by text-to-openapi${title ? ` from ${title.replace(/\n/g, ' ')}` : ''}. Do not edit by hand.`,
+        `import { z } from 'zod';`,
+        `const BASE_URL = ${JSON.stringify(baseUrl(doc))};`,
+        RUNTIME,
+        ...generateSchemas(doc, context),
+        ...operations.map((entry) => generateOperation(entry, doc, context, names)),
+    ];
+    log.info('Generated a client', { schemas: context.componentNames.size, operations: operations.length });
+    return sections.join('\n\n') + '\n';
+}
@@ -0,0 +1 @@
+export { generateTypeScriptClient } from './client';
@@ -0,0 +1,58 @@
+// Words that can't be used as identifiers in the generated module
+const RESERVED = new Set(['break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+    'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null', 'return', 'super',
+    'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'as', 'implements', 'interface', 'let', 'package',
+    'private', 'protected', 'public', 'static', 'yield', 'await', 'any', 'boolean', 'number', 'string', 'symbol', 'type', 'unknown', 'never',
+    'object', 'undefined',
+    // Globals the module uses, and common built-ins a schema name would shadow
+    'Array', 'Blob', 'Boolean', 'Date', 'Error', 'FormData', 'JSON', 'Map', 'Number', 'Object', 'Promise', 'Record', 'Set', 'String',
+    'Symbol', 'URLSearchParams', 'encodeURIComponent', 'fetch',
+    // Names the module itself declares
+    'z', 'ApiError', 'ClientOptions', 'RequestSpec', 'BASE_URL', 'request', 'appendQuery', 'encodeBody']);
+
+const words = (text: string) => text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1);
+
+/**
+ * `refund_object` -> `RefundObject`; a leading digit gets an underscore and reserved words a suffix.
+ */
+export function pascalCase(text: string): string {
+    const name = words(text).map(capitalize).join('') || 'Unnamed';
+    return safe(name);
+}
+
+/**
+ * `Create-Refund` -> `createRefund`.
+ */
+export function camelCase(text: string): string {
+    const [first = 'unnamed', ...rest] = words(text);
+    return safe(first[0].toLowerCase() + first.slice(1) + rest.map(capitalize).join(''));
+}
+
+function safe(name: string): string {
+    const identifier = /^\d/.test(name) ? `_${name}` : name;
+    return RESERVED.has(identifier) ? `${identifier}_` : identifier;
+}
+
+/**
+ * Hands out unique identifiers: a taken name gets a numeric suffix.
+ */
+export class NameAllocator {
+    private readonly used = new Set<string>();
+
+    allocate(name: string): string {
+        let unique = name;
+        for (let n = 2; this.used.has(unique); n++) unique = `${name}${n}`;
+        this.used.add(unique);
+        return unique;
+    }
+}
+
+/**
+ * An object key as written in generated code: bare when it is an identifier, quoted otherwise.
+ */
+export const propertyKey = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name));
@@ -0,0 +1,237 @@
+import { parseJsonPointer, resolveJsonPointer } from '../utils/jsonPointer';
+import { propertyKey } from './names';
+
+// Nesting depth at which translation falls back to unknown (guards against inline $ref loops)
+const MAX_DEPTH = 32;
+
+const isObject = (value: unknown): value is Record<string, any> => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * What schema translation needs from the document: the document itself (to resolve `$ref`s outside
+ * `components.schemas`) and the identifier declared for each component schema.
+ */
+export interface SchemaContext {
+    spec: Record<string, any>;
+    componentNames: Map<string, string>;
+}
+
+/**
+ * The identifier a `$ref` to a component schema maps to, or null for other references.
+ */
+function componentName(ref: string, context: SchemaContext): string | null {
+    if (!ref.startsWith('#/')) return null;
+    const segments = parseJsonPointer(decodeURIComponent(ref.slice(1)));
+    if (segments.length !== 3 || segments[0] !== 'components' || segments[1] !== 'schemas') return null;
+    return context.componentNames.get(segments[2]) ?? null;
+}
+
+/**
+ * The component schemas a schema refers to, directly or through nested schemas.
+ */
+export function referencedComponents(schema: unknown, context: SchemaContext, found = new Set<string>()): Set<string> {
+    if (Array.isArray(schema)) {
+        schema.forEach((item) => referencedComponents(item, context, found));
+    } else if (isObject(schema)) {
+        if (typeof schema.$ref === 'string') {
+            const name = componentName(schema.$ref, context);
+            if (name) found.add(name);
+        }
+        for (const [key, value] of Object.entries(schema)) {
+            // Values in these keywords are data, not schemas
+            if (key === 'enum' || key === 'const' || key === 'examples' || key === 'example' || key === 'default') continue;
+            referencedComponents(value, context, found);
+        }
+    }
+    return found;
+}
+
+/**
+ * Splits a JSON Schema 2020-12 `type` (a string or a list) into its non-null types and whether null is allowed.
+ */
+function types(schema: Record<string, any>): { types: string[]; nullable: boolean } {
+    const list: string[] = Array.isArray(schema.type) ? schema.type : typeof schema.type === 'string' ? [schema.type] : [];
+    const nonNull = list.filter((type) => type !== 'null');
+    if (nonNull.length === 0 && list.length === 0) {
+        if (isObject(schema.properties) || schema.additionalProperties !== undefined) nonNull.push('object');
+        else if (schema.items !== undefined) nonNull.push('array');
+    }
+    return { types: nonNull, nullable: list.includes('null') || schema.nullable === true };
+}
+
+const literal = (value: unknown) => JSON.stringify(value);
+
+/**
+ * Translates a schema (OpenAPI 3.1 / JSON Schema 2020-12) into a zod expression.
+ * References to component schemas become `z.lazy(() => Name)`, so declaration order and cycles don't matter;
+ * with `direct`, a top-level reference is the bare name instead.
+ */
+export function toZod(schema: unknown, context: SchemaContext, direct = false, depth = 0): string {
+    if (schema === true || (isObject(schema) && Object.keys(schema).length === 0)) return 'z.unknown()';
+    if (schema === false) return 'z.never()';
+    if (!isObject(schema) || depth > MAX_DEPTH) return 'z.unknown()';
+    const next = (child: unknown) => toZod(child, context, false, depth + 1);
+
+    if (typeof schema.$ref === 'string') {
+        const name = componentName(schema.$ref, context);
+        if (name) return direct ? name : `z.lazy(() => ${name})`;
+        return toZod(resolveJsonPointer(context.spec, schema.$ref), context, direct, depth + 1);
+    }
+
+    const { types: typeList, nullable } = types(schema);
+    const withNull = (expression: string) => (nullable ? `${expression}.nullable()` : expression);
+
+    if (schema.const !== undefined) return `z.literal(${literal(schema.const)})`;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+        const values = schema.enum.filter((value: unknown) => value !== null);
+        const allowsNull = nullable || values.length < schema.enum.length;
+        let expression: string;
+        if (values.length === 0) return 'z.null()';
+        if (values.every((value: unknown) => typeof value === 'string')) expression = `z.enum([${values.map(literal).join(', ')}])`;
+        else if (values.length === 1) expression = `z.literal(${literal(values[0])})`;
+        else expression = `z.union([${values.map((value: unknown) => `z.literal(${literal(value)})`).join(', ')}])`;
+        return allowsNull ? `${expression}.nullable()` : expression;
+    }
+
+    const { allOf, oneOf, anyOf, ...rest } = schema;
+    const hasOwnShape = typeList.length > 0 || isObject(rest.properties);
+    if (Array.isArray(allOf) && allOf.length > 0) {
+        const parts = [...allOf.map(next), ...(hasOwnShape ? [toZod(rest, context, false, depth + 1)] : [])];
+        return withNull(parts.reduce((left, right) => `z.intersection(${left}, ${right})`));
+    }
+    const alternatives = Array.isArray(oneOf) && oneOf.length > 0 ? oneOf : Array.isArray(anyOf) && anyOf.length > 0 ? anyOf : null;
+    if (alternatives) {
+        const nonNull = alternatives.filter((alternative: any) => !(isObject(alternative) && alternative.type === 'null'));
+        const allowsNull = nullable || nonNull.length < alternatives.length;
+        const options = nonNull.map(next);
+        let expression = options.length === 0 ? 'z.null()' : options.length === 1 ? options[0] : `z.union([${options.join(', ')}])`;
+        if (hasOwnShape && isObject(rest.properties)) expression = `z.intersection(${toZod(rest, context, false, depth + 1)}, ${expression})`;
+        return allowsNull && options.length > 0 ? `${expression}.nullable()` : expression;
+    }
+
+    if (typeList.length > 1) return withNull(`z.union([${typeList.map((type) => toZod({ ...schema, type }, context, false, depth + 1)).join(', ')}])`);
+    switch (typeList[0]) {
+        case 'string': {
+            if (schema.format === 'binary') return withNull('z.instanceof(Blob)');
+            let expression = 'z.string()';
+            if (schema.format === 'email') expression += '.email()';
+            else if (schema.format === 'uuid') expression += '.uuid()';
+            else if (schema.format === 'uri' || schema.format === 'url') expression += '.url()';
+            else if (schema.format === 'date-time') expression += '.datetime({ offset: true })';
+            if (typeof schema.minLength === 'number') expression += `.min(${schema.minLength})`;
+            if (typeof schema.maxLength === 'number') expression += `.max(${schema.maxLength})`;
+            if (typeof schema.pattern === 'string' && isValidPattern(schema.pattern)) expression += `.regex(new RegExp(${literal(schema.pattern)}))`;
+            return withNull(expression);
+        }
+        case 'integer':
+        case 'number': {
+            let expression = typeList[0] === 'integer' ? 'z.number().int()' : 'z.number()';
+            if (typeof schema.minimum === 'number') expression += `.gte(${schema.minimum})`;
+            if (typeof schema.exclusiveMinimum === 'number') expression += `.gt(${schema.exclusiveMinimum})`;
+            if (typeof schema.maximum === 'number') expression += `.lte(${schema.maximum})`;
+            if (typeof schema.exclusiveMaximum === 'number') expression += `.lt(${schema.exclusiveMaximum})`;
+            if (typeof schema.multipleOf === 'number') expression += `.multipleOf(${schema.multipleOf})`;
+            return withNull(expression);
+        }
+        case 'boolean':
+            return withNull('z.boolean()');
+        case 'array': {
+            let expression = `z.array(${next(schema.items ?? {})})`;
+            if (typeof schema.minItems === 'number') expression += `.min(${schema.minItems})`;
+            if (typeof schema.maxItems === 'number') expression += `.max(${schema.maxItems})`;
+            return withNull(expression);
+        }
+        case 'object': {
+            const properties = Object.entries<any>(isObject(schema.properties) ? schema.properties : {});
+            const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+            const additional = schema.additionalProperties;
+            if (properties.length === 0 && additional !== undefined && additional !== false) {
+                return withNull(`z.record(z.string(), ${next(additional)})`);
+            }
+            const shape = properties.map(([name, property]) => `${propertyKey(name)}: ${next(property)}${required.has(name) ? '' : '.optional()'}`);
+            // Without additional properties, unknown keys are stripped rather than rejected: a strict object
+            // would reject the other members' keys when it is part of an allOf
+            let expression = `z.object({ ${shape.join(', ')} })`;
+            if (isObject(additional) && Object.keys(additional).length > 0) expression += `.catchall(${next(additional)})`;
+            else if (additional !== false) expression += '.passthrough()';
+            return withNull(expression);
+        }
+        default:
+            return nullable ? 'z.null()' : 'z.unknown()';
+    }
+}
+
+/**
+ * Translates a schema into a TypeScript type, matching what the zod expression from toZod parses to
+ * (so it can annotate recursive schemas as `z.ZodType<Name>`).
+ */
+export function toTypeScript(schema: unknown, context: SchemaContext, depth = 0): string {
+    if (schema === true || (isObject(schema) && Object.keys(schema).length === 0)) return 'unknown';
+    if (schema === false) return 'never';
+    if (!isObject(schema) || depth > MAX_DEPTH) return 'unknown';
+    const next = (child: unknown) => toTypeScript(child, context, depth + 1);
+
+    if (typeof schema.$ref === 'string') {
+        return componentName(schema.$ref, context) ?? toTypeScript(resolveJsonPointer(context.spec, schema.$ref), context, depth + 1);
+    }
+
+    const { types: typeList, nullable } = types(schema);
+    const withNull = (type: string) => (nullable ? `${type} | null` : type);
+
+    if (schema.const !== undefined) return literal(schema.const);
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+        const values: unknown[] = schema.enum.filter((value: unknown) => value !== null);
+        const allowsNull = nullable || values.length < schema.enum.length;
+        return [...values.map(literal), ...(allowsNull ? ['null'] : [])].join(' | ');
+    }
+
+    const { allOf, oneOf, anyOf, ...rest } = schema;
+    const hasOwnShape = typeList.length > 0 || isObject(rest.properties);
+    if (Array.isArray(allOf) && allOf.length > 0) {
+        const parts = [...allOf.map(next), ...(hasOwnShape ? [toTypeScript(rest, context, depth + 1)] : [])];
+        return withNull(parts.map((part) => `(${part})`).join(' & '));
+    }
+    const alternatives = Array.isArray(oneOf) && oneOf.length > 0 ? oneOf : Array.isArray(anyOf) && anyOf.length > 0 ? anyOf : null;
+    if (alternatives) {
+        const nonNull = alternatives.filter((alternative: any) => !(isObject(alternative) && alternative.type === 'null'));
+        const allowsNull = nullable || nonNull.length < alternatives.length;
+        let type = nonNull.length === 0 ? 'null' : nonNull.map((alternative: unknown) => `(${next(alternative)})`).join(' | ');
+        if (hasOwnShape && isObject(rest.properties)) type = `(${toTypeScript(rest, context, depth + 1)}) & (${type})`;
+        return allowsNull && nonNull.length > 0 ? `${type} | null` : type;
+    }
+
+    if (typeList.length > 1) return withNull(typeList.map((type) => toTypeScript({ ...schema, type }, context, depth + 1)).join(' | '));
+    switch (typeList[0]) {
+        case 'string':
+            return withNull(schema.format === 'binary' ? 'Blob' : 'string');
+        case 'integer':
+        case 'number':
+            return withNull('number');
+        case 'boolean':
+            return withNull('boolean');
+        case 'array':
+            return withNull(`Array<${next(schema.items ?? {})}>`);
+        case 'object': {
+            const properties = Object.entries<any>(isObject(schema.properties) ? schema.properties : {});
+            const required = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+            const additional = schema.additionalProperties;
+            if (properties.length === 0 && additional !== undefined && additional !== false) {
+                return withNull(`Record<string, ${next(additional)}>`);
+            }
+            const members = properties.map(([name, property]) => `${propertyKey(name)}${required.has(name) ? '' : '?'}: ${next(property)}`);
+            let type = `{ ${members.join('; ')}${members.length > 0 ? ';' : ''} }`;
+            if (isObject(additional) && Object.keys(additional).length > 0) type = `${type} & { [key: string]: ${next(additional)} }`;
+            return withNull(type);
+        }
+        default:
+            return nullable ? 'null' : 'unknown';
+    }
+}
+
+function isValidPattern(pattern: string): boolean {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+}
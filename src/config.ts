@@ -0,0 +1,426 @@
+export const SEARCH_PROVIDERS = ['serpapi', 'local'] as const;
+export const READER_PROVIDERS = ['firecrawl', 'fetch'] as const;
+
+export type SearchProviderName = typeof SEARCH_PROVIDERS[number];
+export type ReaderProviderName = typeof READER_PROVIDERS[number];
+
+/**
+ * Defines which documentation search and page reader backends to use, and their settings.
+ */
+export interface ProviderConfig {
+    search: SearchProviderName;
+    reader: ReaderProviderName;
+    serpApiKey?: string;
+    firecrawlApiKey?: string;
+    localDocsDir?: string;
+    fetchTimeoutMs: number;
+}
+
+function pick<T extends string>(name: string, value: string | undefined, allowed: readonly T[], fallback: T): T {
+    if (!value) return fallback;
+    const normalized = value.trim().toLowerCase();
+    if (!(allowed as readonly string[]).includes(normalized)) {
+        throw new Error(`Configuration error: ${name} must be one of ${allowed.join(', ')} (got '${value}').`);
+    }
+    return normalized as T;
+}
+
+/**
+ * Reads the provider configuration from environment variables.
+ * Call this lazily (not at import time) so values loaded by dotenv are picked up.
+ *
+ * - SEARCH_PROVIDER: 'serpapi' (default) or 'local'
+ * - READER_PROVIDER: 'firecrawl' (default) or 'fetch'
+ * - LOCAL_DOCS_DIR: directory of Markdown/HTML docs, required for the 'local' search provider
+ * - FETCH_TIMEOUT_MS: request timeout for the 'fetch' reader (default 15000)
+ *
+ * @throws Throws an error if a provider name is not recognised.
+ */
+export function loadProviderConfig(env: NodeJS.ProcessEnv = process.env): ProviderConfig {
+    return {
+        search: pick('SEARCH_PROVIDER', env.SEARCH_PROVIDER, SEARCH_PROVIDERS, 'serpapi'),
+        reader: pick('READER_PROVIDER', env.READER_PROVIDER, READER_PROVIDERS, 'firecrawl'),
+        serpApiKey: env.SERPAPI_API_KEY || undefined,
+        firecrawlApiKey: env.FIRECRAWL_API_KEY || undefined,
+        localDocsDir: env.LOCAL_DOCS_DIR || undefined,
+        fetchTimeoutMs: Number(env.FETCH_TIMEOUT_MS) || 15000,
+    };
+}
+
+export const CACHE_BACKENDS = ['file', 'memory', 'none'] as const;
+
+export type CacheBackendName = typeof CACHE_BACKENDS[number];
+
+/**
+ * Defines where search results and scraped pages are cached, and for how long.
+ */
+export interface CacheConfig {
+    backend: CacheBackendName;
+    directory: string;
+    ttlMs: number;
+}
+
+/**
+ * Reads the cache configuration from environment variables.
+ *
+ * - CACHE_BACKEND: 'file' (default), 'memory' or 'none'
+ * - CACHE_DIR: directory for the 'file' backend (default .cache/text-to-openapi)
+ * - CACHE_TTL_SECONDS: how long entries stay fresh (default 86400, one day)
+ *
+ * @throws Throws an error if the backend name is not recognised.
+ */
+export function loadCacheConfig(env: NodeJS.ProcessEnv = process.env): CacheConfig {
+    const ttlSeconds = env.CACHE_TTL_SECONDS ? Number(env.CACHE_TTL_SECONDS) : NaN;
+    return {
+        backend: pick('CACHE_BACKEND', env.CACHE_BACKEND, CACHE_BACKENDS, 'file'),
+        directory: env.CACHE_DIR || '.cache/text-to-openapi',
+        ttlMs: (ttlSeconds >= 0 ? ttlSeconds : 86400) * 1000,
+    };
+}
+
+export const MODEL_STAGES = ['intent', 'decomposition', 'discovery', 'gathering', 'generation', 'provenance', 'alignment', 'veracity'] as const;
+export const MODEL_PROVIDERS = ['anthropic', 'openai-compatible', 'mock'] as const;
+
+export type ModelStage = typeof MODEL_STAGES[number];
+export type ModelProviderName = typeof MODEL_PROVIDERS[number];
+
+/**
+ * A model reference in `provider:modelId` form, e.g. `anthropic:claude-3-7-sonnet-latest`
+ * or `openai-compatible:qwen2.5-coder:32b` (only the first colon separates the provider).
+ */
+export type ModelSpec = string;
+
+// Built-in model for each pipeline stage
+export const DEFAULT_STAGE_MODELS: Record<ModelStage, ModelSpec> = {
+    intent: 'anthropic:claude-3-7-sonnet-latest',
+    decomposition: 'anthropic:claude-3-7-sonnet-latest',
+    discovery: 'anthropic:claude-3-5-haiku-latest',
+    gathering: 'anthropic:claude-3-7-sonnet-latest',
+    generation: 'anthropic:claude-3-7-sonnet-latest',
+    provenance: 'anthropic:claude-3-7-sonnet-latest',
+    alignment: 'anthropic:claude-3-5-haiku-latest',
+    veracity: 'anthropic:claude-3-7-sonnet-20250219',
+};
+
+/**
+ * Defines which model each pipeline stage uses, and the settings of the non-Anthropic providers.
+ */
+export interface ModelConfig {
+    stages: Record<ModelStage, ModelSpec>;
+    openAICompatibleBaseUrl?: string;
+    openAICompatibleApiKey?: string;
+    mockScriptPath?: string;
+}
+
+/**
+ * Reads the model routing configuration from environment variables.
+ *
+ * - MODEL_DEFAULT: model for every stage without its own setting (default: the built-in per-stage models)
+ * - MODEL_<STAGE>: model for one stage, e.g. MODEL_GENERATION=openai-compatible:qwen2.5-coder
+ * - OPENAI_COMPATIBLE_BASE_URL / OPENAI_COMPATIBLE_API_KEY: endpoint for the 'openai-compatible' provider
+ * - MOCK_MODEL_SCRIPT: JSON script of canned responses for the 'mock' provider
+ *
+ * @throws Throws an error if a model reference is malformed or names an unknown provider.
+ */
+export function loadModelConfig(env: NodeJS.ProcessEnv = process.env): ModelConfig {
+    const stages = {} as Record<ModelStage, ModelSpec>;
+    for (const stage of MODEL_STAGES) {
+        const name = `MODEL_${stage.toUpperCase()}`;
+        const spec = env[name] || env.MODEL_DEFAULT || DEFAULT_STAGE_MODELS[stage];
+        const error = checkModelSpec(spec);
+        if (error) throw new Error(`Configuration error: ${env[name] ? name : 'MODEL_DEFAULT'} ${error}.`);
+        stages[stage] = spec.trim();
+    }
+    return {
+        stages,
+        openAICompatibleBaseUrl: env.OPENAI_COMPATIBLE_BASE_URL || undefined,
+        openAICompatibleApiKey: env.OPENAI_COMPATIBLE_API_KEY || undefined,
+        mockScriptPath: env.MOCK_MODEL_SCRIPT || undefined,
+    };
+}
+
+/**
+ * Splits a model reference into provider and model id.
+ * The mock provider doesn't need a model id (`mock` alone is accepted).
+ */
+export function parseModelSpec(spec: ModelSpec): { provider: ModelProviderName; modelId: string } {
+    const trimmed = spec.trim();
+    const separator = trimmed.indexOf(':');
+    const provider = (separator === -1 ? trimmed : trimmed.slice(0, separator)) as ModelProviderName;
+    const modelId = separator === -1 ? '' : trimmed.slice(separator + 1).trim();
+    return { provider, modelId };
+}
+
+/**
+ * Checks a model reference.
+ * @returns An error message (to follow the setting's name), or null if the reference is well-formed.
+ */
+export function checkModelSpec(spec: unknown): string | null {
+    if (typeof spec !== 'string' || spec.trim() === '') return "must be a 'provider:model' string";
+    const { provider, modelId } = parseModelSpec(spec);
+    if (!(MODEL_PROVIDERS as readonly string[]).includes(provider)) {
+        return `names unknown provider '${provider}' (expected one of ${MODEL_PROVIDERS.join(', ')})`;
+    }
+    if (!modelId && provider !== 'mock') return `must name a model ('${provider}:<model>')`;
+    return null;
+}
+
+/**
+ * Thresholds for the post-generation quality gate (alignment and veracity evaluators).
+ */
+export interface QualityGateConfig {
+    enabled: boolean;
+    minAlignment: number;
+    requireVeracity: boolean;
+    maxRetries: number;
+}
+
+/**
+ * Reads the quality gate defaults from environment variables. Requests can override each setting.
+ *
+ * - QUALITY_GATE: 'on' (default) or 'off'
+ * - QUALITY_MIN_ALIGNMENT: minimum alignment score, 0.0-5.0 (default 4.0)
+ * - QUALITY_REQUIRE_VERACITY: 'true' (default) or 'false'; whether the veracity evaluator must accept the spec
+ * - QUALITY_MAX_RETRIES: regenerations allowed after a failed gate (default 1)
+ *
+ * @throws Throws an error if a value is out of range.
+ */
+export function loadQualityGateConfig(env: NodeJS.ProcessEnv = process.env): QualityGateConfig {
+    const minAlignment = env.QUALITY_MIN_ALIGNMENT ? Number(env.QUALITY_MIN_ALIGNMENT) : 4.0;
+    const maxRetries = env.QUALITY_MAX_RETRIES ? Number(env.QUALITY_MAX_RETRIES) : 1;
+    if (!(minAlignment >= 0 && minAlignment <= 5)) {
+        throw new Error(`Configuration error: QUALITY_MIN_ALIGNMENT must be between 0 and 5 (got '${env.QUALITY_MIN_ALIGNMENT}').`);
+    }
+    if (!(Number.isInteger(maxRetries) && maxRetries >= 0)) {
+        throw new Error(`Configuration error: QUALITY_MAX_RETRIES must be a non-negative integer (got '${env.QUALITY_MAX_RETRIES}').`);
+    }
+    return {
+        enabled: pick('QUALITY_GATE', env.QUALITY_GATE, ['on', 'off'], 'on') === 'on',
+        minAlignment,
+        requireVeracity: pick('QUALITY_REQUIRE_VERACITY', env.QUALITY_REQUIRE_VERACITY, ['true', 'false'], 'true') === 'true',
+        maxRetries,
+    };
+}
+
+/**
+ * Defines how long a conversational generation may keep asking clarifying questions.
+ */
+export interface ClarificationConfig {
+    maxRounds: number;
+}
+
+/**
+ * Reads the clarification configuration from environment variables.
+ *
+ * - MAX_CLARIFICATION_ROUNDS: rounds of questions before decomposition has to settle on operations
+ *   (default 3, 0 never asks)
+ *
+ * @throws Throws an error if the number of rounds is invalid.
+ */
+export function loadClarificationConfig(env: NodeJS.ProcessEnv = process.env): ClarificationConfig {
+    const maxRounds = env.MAX_CLARIFICATION_ROUNDS ? Number(env.MAX_CLARIFICATION_ROUNDS) : 3;
+    if (!(Number.isInteger(maxRounds) && maxRounds >= 0)) {
+        throw new Error(`Configuration error: MAX_CLARIFICATION_ROUNDS must be a non-negative integer (got '${env.MAX_CLARIFICATION_ROUNDS}').`);
+    }
+    return { maxRounds };
+}
+
+/**
+ * Defines how much of each documentation page the information-gathering agent reads at a time.
+ */
+export interface ContentConfig {
+    pageTokenBudget: number;
+}
+
+/**
+ * Reads the page content configuration from environment variables.
+ *
+ * - PAGE_TOKEN_BUDGET: estimated tokens of a page returned by `read_webpage_content` at a time; longer pages
+ *   are returned as their most relevant sections, a page at a time (default 4000, 0 returns whole pages)
+ *
+ * @throws Throws an error if the budget is invalid.
+ */
+export function loadContentConfig(env: NodeJS.ProcessEnv = process.env): ContentConfig {
+    const pageTokenBudget = env.PAGE_TOKEN_BUDGET ? Number(env.PAGE_TOKEN_BUDGET) : 4000;
+    if (!(Number.isInteger(pageTokenBudget) && pageTokenBudget >= 0)) {
+        throw new Error(`Configuration error: PAGE_TOKEN_BUDGET must be a non-negative integer (got '${env.PAGE_TOKEN_BUDGET}').`);
+    }
+    return { pageTokenBudget };
+}
+
+/**
+ * Defines which sites documentation may be read from, and whether instruction-like text is stripped from it.
+ * Domains match themselves and their subdomains.
+ */
+export interface SecurityConfig {
+    allowedDomains: string[];
+    blockedDomains: string[];
+    injectionFilter: boolean;
+}
+
+function parseDomains(name: string, value: string | undefined): string[] {
+    const domains = (value ?? '').split(',').map((domain) => domain.trim().toLowerCase().replace(/^\*?\./, '')).filter(Boolean);
+    const invalid = domains.find((domain) => !/^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(domain));
+    if (invalid) {
+        throw new Error(`Configuration error: ${name} must be a comma-separated list of domains (got '${invalid}').`);
+    }
+    return domains;
+}
+
+/**
+ * Reads the untrusted-content settings from environment variables.
+ *
+ * - READ_ALLOWED_DOMAINS: comma-separated domains documentation may be read from; when set, every other domain is refused
+ * - READ_BLOCKED_DOMAINS: comma-separated domains documentation is never read from
+ * - INJECTION_FILTER: 'on' (default) or 'off'; whether instruction-like text is stripped from pages before the models see them
+ *
+ * @throws Throws an error if a domain list is malformed.
+ */
+export function loadSecurityConfig(env: NodeJS.ProcessEnv = process.env): SecurityConfig {
+    return {
+        allowedDomains: parseDomains('READ_ALLOWED_DOMAINS', env.READ_ALLOWED_DOMAINS),
+        blockedDomains: parseDomains('READ_BLOCKED_DOMAINS', env.READ_BLOCKED_DOMAINS),
+        injectionFilter: pick('INJECTION_FILTER', env.INJECTION_FILTER, ['on', 'off'], 'on') === 'on',
+    };
+}
+
+export const DISCOVERY_MODES = ['all', 'registry', 'off'] as const;
+
+export type DiscoveryMode = typeof DISCOVERY_MODES[number];
+
+/**
+ * Defines where the discovery stage looks for published OpenAPI documents.
+ */
+export interface DiscoveryConfig {
+    mode: DiscoveryMode;
+    registryPath?: string;
+    mirrorDir?: string;
+    maxLinkPages: number;
+    fetchTimeoutMs: number;
+}
+
+/**
+ * Reads the published-spec discovery configuration from environment variables.
+ *
+ * - SPEC_DISCOVERY: 'all' (default: registry, mirrors and spec links on documentation pages),
+ *   'registry' (registry and mirrors only) or 'off'
+ * - SPEC_REGISTRY: JSON file of providers and their spec URLs, added to the built-in registry
+ * - SPEC_MIRROR_DIR: directory of local spec copies named after their provider (e.g. stripe.json, twilio.yaml)
+ * - SPEC_DISCOVERY_PAGES: how many search results to scan for spec links (default 3)
+ * - FETCH_TIMEOUT_MS: request timeout for downloading specs (default 15000, shared with the 'fetch' reader)
+ *
+ * @throws Throws an error if the mode is not recognised or the page count is invalid.
+ */
+export function loadDiscoveryConfig(env: NodeJS.ProcessEnv = process.env): DiscoveryConfig {
+    const maxLinkPages = env.SPEC_DISCOVERY_PAGES ? Number(env.SPEC_DISCOVERY_PAGES) : 3;
+    if (!(Number.isInteger(maxLinkPages) && maxLinkPages >= 0)) {
+        throw new Error(`Configuration error: SPEC_DISCOVERY_PAGES must be a non-negative integer (got '${env.SPEC_DISCOVERY_PAGES}').`);
+    }
+    return {
+        mode: pick('SPEC_DISCOVERY', env.SPEC_DISCOVERY, DISCOVERY_MODES, 'all'),
+        registryPath: env.SPEC_REGISTRY || undefined,
+        mirrorDir: env.SPEC_MIRROR_DIR || undefined,
+        maxLinkPages,
+        fetchTimeoutMs: Number(env.FETCH_TIMEOUT_MS) || 15000,
+    };
+}
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export const LOG_FORMATS = ['text', 'json'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+export type LogFormat = typeof LOG_FORMATS[number];
+
+/**
+ * Defines which log entries are written, and how.
+ */
+export interface LogConfig {
+    level: LogLevel;
+    format: LogFormat;
+}
+
+/**
+ * Reads the logging configuration from environment variables.
+ *
+ * - LOG_LEVEL: 'debug', 'info' (default), 'warn' or 'error'
+ * - LOG_FORMAT: 'text' (default, one readable line per entry) or 'json' (one JSON object per line)
+ *
+ * @throws Throws an error if the level or format is not recognised.
+ */
+export function loadLogConfig(env: NodeJS.ProcessEnv = process.env): LogConfig {
+    return {
+        level: pick('LOG_LEVEL', env.LOG_LEVEL, LOG_LEVELS, 'info'),
+        format: pick('LOG_FORMAT', env.LOG_FORMAT, LOG_FORMATS, 'text'),
+    };
+}
+
+export const TRACE_STORES = ['file', 'memory', 'none'] as const;
+
+export type TraceStoreName = typeof TRACE_STORES[number];
+
+/**
+ * Defines where run traces are kept, how many, and the model prices used to estimate their cost.
+ */
+export interface TraceConfig {
+    store: TraceStoreName;
+    directory: string;
+    maxRuns: number;
+    pricingPath?: string;
+}
+
+/**
+ * Reads the run trace configuration from environment variables.
+ *
+ * - TRACE_STORE: 'file' (default), 'memory' or 'none'
+ * - TRACE_DIR: directory for the 'file' store (default .cache/text-to-openapi-runs)
+ * - TRACE_MAX_RUNS: how many runs are kept; the oldest are deleted first (default 1000)
+ * - MODEL_PRICING: JSON file of USD prices per million tokens by model, added to the built-in prices
+ *
+ * @throws Throws an error if the store name is not recognised or the run count is invalid.
+ */
+export function loadTraceConfig(env: NodeJS.ProcessEnv = process.env): TraceConfig {
+    const maxRuns = env.TRACE_MAX_RUNS ? Number(env.TRACE_MAX_RUNS) : 1000;
+    if (!(Number.isInteger(maxRuns) && maxRuns > 0)) {
+        throw new Error(`Configuration error: TRACE_MAX_RUNS must be a positive integer (got '${env.TRACE_MAX_RUNS}').`);
+    }
+    return {
+        store: pick('TRACE_STORE', env.TRACE_STORE, TRACE_STORES, 'file'),
+        directory: env.TRACE_DIR || '.cache/text-to-openapi-runs',
+        maxRuns,
+        pricingPath: env.MODEL_PRICING || undefined,
+    };
+}
+
+/**
+ * Defines the scheduled drift checks run by the server, and where their findings are sent.
+ */
+export interface DriftConfig {
+    specFiles: string[];
+    intervalHours: number;
+    webhookUrl?: string;
+}
+
+/**
+ * Reads the drift check configuration from environment variables.
+ *
+ * - DRIFT_SPECS: comma-separated spec files the server checks for drift on a schedule (none by default: no schedule)
+ * - DRIFT_INTERVAL_HOURS: hours between scheduled checks (default 24)
+ * - DRIFT_WEBHOOK_URL: URL that receives a JSON payload when a check finds drift (also the CLI's default for --webhook)
+ *
+ * @throws Throws an error if the interval is invalid or the webhook URL doesn't parse.
+ */
+export function loadDriftConfig(env: NodeJS.ProcessEnv = process.env): DriftConfig {
+    const intervalHours = env.DRIFT_INTERVAL_HOURS ? Number(env.DRIFT_INTERVAL_HOURS) : 24;
+    // Timers can't wait longer than 2^31 - 1 ms, just under 597 hours
+    if (!(Number.isFinite(intervalHours) && intervalHours > 0 && intervalHours <= 596)) {
+        throw new Error(`Configuration error: DRIFT_INTERVAL_HOURS must be a positive number up to 596 (got '${env.DRIFT_INTERVAL_HOURS}').`);
+    }
+    if (env.DRIFT_WEBHOOK_URL && !/^https?:\/\//.test(env.DRIFT_WEBHOOK_URL)) {
+        throw new Error(`Configuration error: DRIFT_WEBHOOK_URL must be an http(s) URL (got '${env.DRIFT_WEBHOOK_URL}').`);
+    }
+    return {
+        specFiles: (env.DRIFT_SPECS ?? '').split(',').map((file) => file.trim()).filter(Boolean),
+        intervalHours,
+        webhookUrl: env.DRIFT_WEBHOOK_URL || undefined,
+    };
+}
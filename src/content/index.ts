@@ -0,0 +1,77 @@
+import { ContentTarget, rankChunks } from './ranking';
+import { ContentChunk, estimateTokens, renderChunk, splitSections, stripBoilerplate } from './sections';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Content');
+
+export { ContentTarget } from './ranking';
+export { ContentChunk, estimateTokens, stripBoilerplate } from './sections';
+
+// Largest section chunk, in estimated tokens (smaller when the budget is)
+const MAX_CHUNK_TOKENS = 800;
+
+/**
+ * How much of a page to return, and which part.
+ * `tokenBudget` is in estimated tokens; `page` is 1-based.
+ */
+export interface ContentSelectionOptions {
+    url: string;
+    target: ContentTarget;
+    tokenBudget: number;
+    page?: number;
+}
+
+/**
+ * Groups ranked chunks into pages of at most `tokenBudget` tokens, in rank order.
+ */
+function paginate(ranked: ContentChunk[], tokenBudget: number): ContentChunk[][] {
+    const pages: ContentChunk[][] = [];
+    let current: ContentChunk[] = [];
+    let tokens = 0;
+    for (const chunk of ranked) {
+        if (current.length > 0 && tokens + chunk.tokens > tokenBudget) {
+            pages.push(current);
+            current = [];
+            tokens = 0;
+        }
+        current.push(chunk);
+        tokens += chunk.tokens;
+    }
+    if (current.length > 0) pages.push(current);
+    return pages;
+}
+
+/**
+ * Prepares a scraped page for the information-gathering agent. Boilerplate is stripped, and a page that
+ * still doesn't fit the token budget is split into sections by heading, ranked against the target
+ * operation, and returned a budget's worth at a time: page 1 has the most relevant sections, page 2
+ * the next ones, and so on. A note at the top says which sections are shown and how to ask for more.
+ *
+ * @param content - The page as returned by the reader (Markdown, or HTML as a fallback).
+ * @param options - The page's URL, the operation it's read for, the budget and the page wanted.
+ * @returns The content to give the agent.
+ */
+export function selectRelevantContent(content: string, { url, target, tokenBudget, page = 1 }: ContentSelectionOptions): string {
+    const markdown = stripBoilerplate(content);
+    const totalTokens = estimateTokens(markdown);
+    if (totalTokens <= tokenBudget) {
+        if (page === 1) return markdown;
+        return `[${url} fits on one page: there are no more sections to read.]`;
+    }
+
+    const chunks = splitSections(markdown, Math.min(MAX_CHUNK_TOKENS, tokenBudget));
+    const pages = paginate(rankChunks(chunks, target), tokenBudget);
+    if (page > pages.length) {
+        return `[${url} has ${pages.length} page(s) of sections: there is no page ${page}.]`;
+    }
+
+    const selected = pages[page - 1];
+    const shown = pages.slice(0, page).reduce((sum, p) => sum + p.length, 0);
+    log.debug('Selected sections', { url, operation: target.operation, page, pages: pages.length, sections: selected.length, totalTokens });
+    const next = page < pages.length
+        ? ` For the next ones, call read_webpage_content with url "${url}" and page ${page + 1}.`
+        : ' These are the last ones.';
+    const note = `[Page ${page} of ${pages.length}: sections ${shown - selected.length + 1}-${shown} of ${chunks.length} from ${url}, ` +
+        `most relevant to "${target.operation}" first.${next}]`;
+    return [note, ...selected.map(renderChunk)].join('\n\n');
+}
@@ -0,0 +1,141 @@
+import { ObservedOperation } from '../evidence';
+import { tokenize } from '../providers/localDocsCorpus';
+import { ContentChunk } from './sections';
+
+/**
+ * The operation a page is read for: its description from decomposition, and the traffic observed for it.
+ */
+export interface ContentTarget {
+    operation: string;
+    evidence?: ObservedOperation[];
+}
+
+/**
+ * What to look for in a page: search terms, and the likely HTTP methods and paths of the operation.
+ */
+interface TargetHints {
+    terms: string[];
+    methods: string[];
+    paths: string[];
+}
+
+// BM25 tuning, as for the local docs corpus
+const K1 = 1.2;
+const B = 0.75;
+// Heading terms count this many times, since a section's heading says what it is about
+const HEADING_WEIGHT = 2;
+// Bonuses for endpoint mentions
+const PATH_MATCH_SCORE = 8;
+const ENDPOINT_MATCH_SCORE = 6;
+const METHOD_MATCH_SCORE = 1;
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Verbs in operation descriptions and the methods that usually implement them
+const VERB_METHODS: Record<string, string[]> = {
+    create: ['POST'], add: ['POST'], submit: ['POST'], send: ['POST'], upload: ['POST'], post: ['POST'],
+    get: ['GET'], retrieve: ['GET'], fetch: ['GET'], read: ['GET'], list: ['GET'], search: ['GET'], find: ['GET'], show: ['GET'],
+    update: ['PATCH', 'PUT', 'POST'], modify: ['PATCH', 'PUT', 'POST'], edit: ['PATCH', 'PUT'], change: ['PATCH', 'PUT'], replace: ['PUT'],
+    delete: ['DELETE'], remove: ['DELETE'],
+};
+
+const PATH_PATTERN = /(?:https?:\/\/[^\s/`'"()<>]+)?(\/[A-Za-z0-9_{}:<>.~\-\/]*[A-Za-z0-9_}>])/g;
+const ENDPOINT_PATTERN = new RegExp(`\\b(${HTTP_METHODS.join('|')})\\s+(?:https?:\\/\\/[^\\s/]+)?(\\/[^\\s\`'"()]*)`, 'g');
+
+/**
+ * Reduces a term to a rough stem, so `refunds` matches `refund` and `entries` matches `entry`.
+ */
+function stem(term: string): string {
+    if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+    if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+    return term;
+}
+
+function terms(text: string): string[] {
+    return tokenize(text).map(stem);
+}
+
+/**
+ * Normalizes a path for comparison: lowercase, no trailing slash, and every parameter
+ * (`{id}`, `:id`, `<id>`) written as `{}`.
+ */
+function normalizePath(path: string): string {
+    return path
+        .toLowerCase()
+        .replace(/\{[^}]*\}|:[a-z_][a-z0-9_]*|<[^>]*>/g, '{}')
+        .replace(/\/+$/, '') || '/';
+}
+
+function targetHints({ operation, evidence = [] }: ContentTarget): TargetHints {
+    const paths = [
+        ...Array.from(operation.matchAll(PATH_PATTERN), (match) => match[1]),
+        ...evidence.map((observed) => observed.path),
+    ];
+    const methods = evidence.length > 0
+        ? evidence.map((observed) => observed.method.toUpperCase())
+        : HTTP_METHODS.filter((method) => new RegExp(`\\b${method}\\b`).test(operation))
+            .concat(tokenize(operation).flatMap((token) => VERB_METHODS[token] ?? []));
+    return {
+        terms: Array.from(new Set([...terms(operation), ...paths.flatMap(terms)])),
+        methods: Array.from(new Set(methods)),
+        paths: Array.from(new Set(paths.map(normalizePath))),
+    };
+}
+
+/**
+ * Scores a chunk's mentions of the target's endpoints: the exact path, `METHOD /path` with a likely method,
+ * and the likely methods on their own.
+ */
+function endpointScore(text: string, hints: TargetHints): number {
+    let score = 0;
+    const mentionedPaths = new Set(Array.from(text.matchAll(PATH_PATTERN), (match) => normalizePath(match[1])));
+    if (hints.paths.some((path) => mentionedPaths.has(path))) score += PATH_MATCH_SCORE;
+    for (const [, method, path] of text.matchAll(ENDPOINT_PATTERN)) {
+        if (!hints.methods.includes(method)) continue;
+        // Without a known path, an endpoint with a likely method is only a hint
+        score += hints.paths.length === 0 || hints.paths.includes(normalizePath(path)) ? ENDPOINT_MATCH_SCORE : METHOD_MATCH_SCORE;
+        break;
+    }
+    if (hints.methods.some((method) => new RegExp(`\\b${method}\\b`).test(text))) score += METHOD_MATCH_SCORE;
+    return score;
+}
+
+/**
+ * Ranks a page's chunks by relevance to the target operation: BM25 keyword scoring of the operation's terms
+ * over the page's chunks (heading terms weigh more), plus bonuses for mentions of its likely method and path
+ * (taken from the description, e.g. "POST /v1/refunds", and from observed traffic).
+ *
+ * @param chunks - The page's chunks.
+ * @param target - The operation the page is read for.
+ * @returns The chunks, most relevant first. Ties keep page order.
+ */
+export function rankChunks(chunks: ContentChunk[], target: ContentTarget): ContentChunk[] {
+    const hints = targetHints(target);
+    const documents = chunks.map((chunk) => {
+        const textTerms = terms(chunk.text);
+        const headingTerms = chunk.headings.flatMap(terms);
+        const frequencies = new Map<string, number>();
+        for (const term of textTerms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+        for (const term of headingTerms) frequencies.set(term, (frequencies.get(term) ?? 0) + HEADING_WEIGHT);
+        return { chunk, length: textTerms.length + HEADING_WEIGHT * headingTerms.length, frequencies };
+    });
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(documents.length, 1) || 1;
+    const documentFrequencies = new Map<string, number>(
+        hints.terms.map((term) => [term, documents.filter((doc) => doc.frequencies.has(term)).length])
+    );
+
+    const scored = documents.map(({ chunk, length, frequencies }) => {
+        let score = endpointScore(chunk.text, hints);
+        for (const term of hints.terms) {
+            const tf = frequencies.get(term);
+            if (!tf) continue;
+            const df = documentFrequencies.get(term) ?? 0;
+            const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+            score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / averageLength));
+        }
+        return { chunk, score };
+    });
+    return scored
+        .sort((a, b) => b.score - a.score || a.chunk.index - b.chunk.index)
+        .map(({ chunk }) => chunk);
+}
@@ -0,0 +1,206 @@
+import { htmlToMarkdown, looksLikeHtml } from '../providers/htmlToMarkdown';
+
+/**
+ * A part of a documentation page: the text under one heading, or a piece of it when the section is long.
+ * `headings` is the trail of headings the text sits under, outermost first (empty before the first heading).
+ * `index` is the chunk's position in the page, and `tokens` the estimated size of the chunk as rendered.
+ */
+export interface ContentChunk {
+    index: number;
+    headings: string[];
+    part: number | null;
+    text: string;
+    tokens: number;
+}
+
+/**
+ * Rough token count used for prompt budgets: about four characters per token for English prose and code.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// A line that is only a link (optionally a list item), as in navigation menus and tables of contents
+const LINK_LINE = /^\s*(?:[*+-]|\d+\.)?\s*\[[^\]]*\]\([^)]*\)\s*$/;
+const IMAGE_LINE = /^\s*(?:\[\s*)?!\[[^\]]*\]\([^)]*\)(?:\s*\]\([^)]*\))?\s*$/;
+// Consecutive link-only lines from this many on are treated as navigation
+const MIN_NAVIGATION_LINKS = 5;
+
+// Short lines that are site chrome rather than documentation, matched against the line's plain text
+const BOILERPLATE_LINES = [
+    /^skip to (main )?content$/i,
+    /^(on this page|table of contents|in this article|contents)$/i,
+    /^was this (page|article|section) helpful\??/i,
+    /^(edit|improve) this page\b/i,
+    /^(sign in|log in|login|sign up|sign out|log out)$/i,
+    /^accept( all)?( cookies)?$|\bcookies?\b.*\b(accept|consent|preferences|policy)\b/i,
+    /^(©|copyright\b)|\ball rights reserved\b/i,
+    /^(previous|next)( page)?$/i,
+    /^(copy|copied!?|copy to clipboard)$/i,
+    /^search( the)? (docs|documentation)\b/i,
+];
+const MAX_BOILERPLATE_LINE_LENGTH = 100;
+
+function plainText(line: string): string {
+    return line
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/^\s*(?:[*+-]|\d+\.|>)\s+/, '')
+        .replace(/[*_`]/g, '')
+        .trim();
+}
+
+/**
+ * Strips site chrome from a scraped page: navigation link lists, images, and lines like "Skip to content",
+ * cookie banners and copyright notices. HTML (a reader's fallback) is converted to Markdown first, leaving out
+ * navigation, headers, footers and sidebars. Fenced code blocks are kept as they are.
+ *
+ * @param content - The page as returned by the reader.
+ * @returns The documentation content as Markdown.
+ */
+export function stripBoilerplate(content: string): string {
+    const markdown = looksLikeHtml(content) ? htmlToMarkdown(content, { mainContentOnly: true }) : content;
+    const lines = markdown.split(/\r?\n/);
+    const kept: string[] = [];
+    // Link-only lines are held back until we know whether they form a navigation block
+    let links: string[] = [];
+    const flushLinks = () => {
+        const count = links.filter((line) => line.trim() !== '').length;
+        if (count < MIN_NAVIGATION_LINKS) kept.push(...links);
+        links = [];
+    };
+
+    let inFence = false;
+    for (const line of lines) {
+        if (FENCE.test(line)) inFence = !inFence;
+        if (inFence || FENCE.test(line)) {
+            flushLinks();
+            kept.push(line);
+            continue;
+        }
+        if (LINK_LINE.test(line) || (links.length > 0 && line.trim() === '')) {
+            links.push(line);
+            continue;
+        }
+        flushLinks();
+        if (IMAGE_LINE.test(line)) continue;
+        const text = plainText(line);
+        if (!HEADING.test(line) && text.length <= MAX_BOILERPLATE_LINE_LENGTH && BOILERPLATE_LINES.some((pattern) => pattern.test(text))) continue;
+        kept.push(line);
+    }
+    flushLinks();
+
+    return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Splits text into blocks separated by blank lines, keeping fenced code blocks whole.
+ */
+function splitBlocks(text: string): string[] {
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let inFence = false;
+    for (const line of text.split('\n')) {
+        if (FENCE.test(line)) inFence = !inFence;
+        if (!inFence && line.trim() === '') {
+            if (current.length > 0) blocks.push(current.join('\n'));
+            current = [];
+        } else {
+            current.push(line);
+        }
+    }
+    if (current.length > 0) blocks.push(current.join('\n'));
+    return blocks;
+}
+
+/**
+ * Cuts a block that alone is over the limit at line boundaries, and lines that are over it at the limit.
+ */
+function splitOversizedBlock(block: string, maxTokens: number): string[] {
+    const maxChars = maxTokens * 4;
+    const pieces: string[] = [];
+    let current = '';
+    for (const line of block.split('\n')) {
+        for (let start = 0; start < Math.max(line.length, 1); start += maxChars) {
+            const segment = line.slice(start, start + maxChars);
+            if (current && current.length + segment.length + 1 > maxChars) {
+                pieces.push(current);
+                current = '';
+            }
+            current = current ? `${current}\n${segment}` : segment;
+        }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+}
+
+/**
+ * Packs the blocks of a section into pieces of at most `maxTokens`, in order.
+ */
+function packBlocks(text: string, maxTokens: number): string[] {
+    const pieces: string[] = [];
+    let current = '';
+    for (const block of splitBlocks(text)) {
+        for (const piece of estimateTokens(block) > maxTokens ? splitOversizedBlock(block, maxTokens) : [block]) {
+            if (current && estimateTokens(`${current}\n\n${piece}`) > maxTokens) {
+                pieces.push(current);
+                current = '';
+            }
+            current = current ? `${current}\n\n${piece}` : piece;
+        }
+    }
+    if (current) pieces.push(current);
+    return pieces;
+}
+
+/**
+ * Splits a Markdown page into sections by heading (ATX headings outside code blocks). Sections longer than
+ * `maxTokens` are split further between paragraphs, and each piece is numbered with `part`. Headings
+ * without text of their own only appear in the trail of the sections under them.
+ *
+ * @param markdown - The page, without boilerplate.
+ * @param maxTokens - The largest chunk, in estimated tokens.
+ * @returns The chunks in page order.
+ */
+export function splitSections(markdown: string, maxTokens: number): ContentChunk[] {
+    const sections: { headings: string[]; lines: string[] }[] = [{ headings: [], lines: [] }];
+    // Trail of headings by level (index 0 is h1)
+    const trail: (string | undefined)[] = [];
+    let inFence = false;
+    for (const line of markdown.split('\n')) {
+        if (FENCE.test(line)) inFence = !inFence;
+        const heading = inFence ? null : HEADING.exec(line);
+        if (heading) {
+            const level = heading[1].length;
+            trail.length = level;
+            trail[level - 1] = heading[2];
+            sections.push({ headings: trail.filter((h): h is string => h !== undefined), lines: [] });
+        } else {
+            sections[sections.length - 1].lines.push(line);
+        }
+    }
+
+    const chunks: ContentChunk[] = [];
+    for (const { headings, lines } of sections) {
+        const text = lines.join('\n').trim();
+        if (!text) continue;
+        const pieces = packBlocks(text, maxTokens);
+        pieces.forEach((piece, i) => {
+            const chunk: ContentChunk = { index: chunks.length, headings, part: pieces.length > 1 ? i + 1 : null, text: piece, tokens: 0 };
+            chunk.tokens = estimateTokens(renderChunk(chunk));
+            chunks.push(chunk);
+        });
+    }
+    return chunks;
+}
+
+/**
+ * Renders a chunk for a prompt: its heading trail as one heading, then its text.
+ */
+export function renderChunk(chunk: ContentChunk): string {
+    if (chunk.headings.length === 0) return chunk.text;
+    const level = Math.min(chunk.headings.length + 1, 6);
+    const part = chunk.part ? ` (part ${chunk.part})` : '';
+    return `${'#'.repeat(level)} ${chunk.headings.join(' > ')}${part}\n\n${chunk.text}`;
+}
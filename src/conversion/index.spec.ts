@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+
+import { convertSpec } from '.';
+import { validateOpenAPISchema } from '../tools/validateOpenAPISchema';
+
+const jsonContent = (schema: Record<string, any>) => ({ 'application/json': { schema } });
+
+// An OpenAPI 3.0 document using what differs between 3.0, 3.1 and 2.0
+const SPEC_30 = {
+    openapi: '3.0.3',
+    info: { title: 'Refunds API', version: '1.0.0' },
+    servers: [{ url: 'https://api.example.com/v1' }],
+    paths: {
+        '/refunds': {
+            post: {
+                operationId: 'createRefund',
+                requestBody: { required: true, content: jsonContent({ $ref: '#/components/schemas/RefundRequest' }) },
+                responses: { '200': { description: 'The refund.', content: jsonContent({ $ref: '#/components/schemas/Refund' }) } },
+            },
+        },
+        '/refunds/{refund}/evidence': {
+            post: {
+                operationId: 'uploadEvidence',
+                parameters: [
+                    { name: 'refund', in: 'path', required: true, schema: { type: 'string' } },
+                    { name: 'session', in: 'cookie', schema: { type: 'string' } },
+                ],
+                requestBody: {
+                    content: {
+                        'multipart/form-data': {
+                            schema: {
+                                type: 'object',
+                                properties: { file: { type: 'string', format: 'binary' }, note: { type: 'string', maxLength: 500 } },
+                                required: ['file'],
+                            },
+                        },
+                    },
+                },
+                responses: { '204': { description: 'Uploaded.' } },
+            },
+        },
+    },
+    components: {
+        schemas: {
+            RefundRequest: {
+                type: 'object',
+                properties: {
+                    charge: { type: 'string' },
+                    amount: { type: 'integer', minimum: 0, exclusiveMinimum: true },
+                    reason: { type: 'string', enum: ['duplicate', 'fraudulent'], nullable: true },
+                },
+                required: ['charge'],
+            },
+            Refund: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', example: 're_123' },
+                    amount: { type: 'integer' },
+                    failure_reason: { type: 'string', nullable: true },
+                    charge: { $ref: '#/components/schemas/Charge' },
+                    previous: { allOf: [{ $ref: '#/components/schemas/Refund' }], nullable: true, description: 'The refund this one replaces.' },
+                },
+            },
+            Charge: { type: 'object', properties: { id: { type: 'string' } } },
+        },
+    },
+};
+
+const expectValid = async (spec: Record<string, any>) => {
+    expect(await validateOpenAPISchema(JSON.stringify(spec))).toEqual({ isValid: true, error: null });
+};
+
+describe('convertSpec', () => {
+    it('converts 3.0 to 3.1: nullable becomes a type array, boolean exclusive bounds become numeric', async () => {
+        const { spec, warnings } = convertSpec(SPEC_30, '3.1.0');
+        const { RefundRequest, Refund } = spec.components.schemas;
+
+        expect(spec.openapi).toBe('3.1.0');
+        expect(RefundRequest.properties.amount).toEqual({ type: 'integer', exclusiveMinimum: 0 });
+        expect(RefundRequest.properties.reason).toEqual({ type: ['string', 'null'], enum: ['duplicate', 'fraudulent', null] });
+        expect(Refund.properties.failure_reason).toEqual({ type: ['string', 'null'] });
+        expect(Refund.properties.id).toEqual({ type: 'string', examples: ['re_123'] });
+        expect(Refund.properties.previous).toEqual({
+            description: 'The refund this one replaces.',
+            anyOf: [{ allOf: [{ $ref: '#/components/schemas/Refund' }] }, { type: 'null' }],
+        });
+        expect(warnings).toEqual([]);
+        expect(SPEC_30.openapi).toBe('3.0.3');
+        await expectValid(spec);
+    });
+
+    it('converts 3.1 to 3.0: type arrays become nullable, numeric exclusive bounds become boolean ones', async () => {
+        const spec31 = {
+            openapi: '3.1.0',
+            info: { title: 'Refunds API', version: '1.0.0', summary: 'Refunds' },
+            paths: {},
+            webhooks: { refundUpdated: { post: { responses: { '200': { description: 'OK' } } } } },
+            components: {
+                schemas: {
+                    Amount: { type: ['integer', 'null'], exclusiveMinimum: 0 },
+                    Bounded: { type: 'number', minimum: 10, exclusiveMinimum: 5, exclusiveMaximum: 100 },
+                    Either: { type: ['string', 'integer'] },
+                    Status: { const: 'succeeded' },
+                    MaybeCharge: { anyOf: [{ $ref: '#/components/schemas/Charge' }, { type: 'null' }] },
+                    Charge: { type: 'object', properties: { id: { type: 'string' } }, examples: [{ id: 'ch_1' }] },
+                },
+            },
+        };
+
+        const { spec, warnings } = convertSpec(spec31, '3.0.3');
+        const { schemas } = spec.components;
+
+        expect(spec.openapi).toBe('3.0.3');
+        expect(schemas.Amount).toEqual({ type: 'integer', nullable: true, minimum: 0, exclusiveMinimum: true });
+        expect(schemas.Bounded).toEqual({ type: 'number', minimum: 10, maximum: 100, exclusiveMaximum: true });
+        expect(schemas.Either).toEqual({ anyOf: [{ type: 'string' }, { type: 'integer' }] });
+        expect(schemas.Status).toEqual({ enum: ['succeeded'] });
+        expect(schemas.MaybeCharge).toEqual({ nullable: true, allOf: [{ $ref: '#/components/schemas/Charge' }] });
+        expect(schemas.Charge.example).toEqual({ id: 'ch_1' });
+        expect(spec.webhooks).toBeUndefined();
+        expect(warnings).toEqual([
+            '/webhooks: removed 1 webhook(s) (not supported in OpenAPI 3.0).',
+            '/info/summary: removed (not supported in OpenAPI 3.0).',
+        ]);
+        await expectValid(spec);
+    });
+
+    it('round-trips 3.0 schemas through 3.1', () => {
+        const { RefundRequest } = convertSpec(convertSpec(SPEC_30, '3.1.0').spec, '3.0.3').spec.components.schemas;
+
+        expect(RefundRequest).toEqual(SPEC_30.components.schemas.RefundRequest);
+    });
+
+    it('converts 3.0 to Swagger 2.0: body and formData parameters, definitions and servers', async () => {
+        const { spec, warnings } = convertSpec(SPEC_30, '2.0');
+
+        expect(spec).toMatchObject({ swagger: '2.0', host: 'api.example.com', basePath: '/v1', schemes: ['https'] });
+        expect(spec.components).toBeUndefined();
+
+        const create = spec.paths['/refunds'].post;
+        expect(create.consumes).toEqual(['application/json']);
+        expect(create.produces).toEqual(['application/json']);
+        expect(create.parameters).toEqual([{ name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/RefundRequest' } }]);
+        expect(create.responses['200'].schema).toEqual({ $ref: '#/definitions/Refund' });
+
+        const upload = spec.paths['/refunds/{refund}/evidence'].post;
+        expect(upload.consumes).toEqual(['multipart/form-data']);
+        expect(upload.parameters).toEqual([
+            { name: 'refund', in: 'path', required: true, type: 'string' },
+            { name: 'file', in: 'formData', required: true, type: 'file' },
+            { name: 'note', in: 'formData', type: 'string', maxLength: 500 },
+        ]);
+
+        const { RefundRequest, Refund } = spec.definitions;
+        expect(RefundRequest.properties.reason).toEqual({ type: 'string', enum: ['duplicate', 'fraudulent'], 'x-nullable': true });
+        expect(RefundRequest.properties.amount).toEqual({ type: 'integer', minimum: 0, exclusiveMinimum: true });
+        expect(Refund.properties.charge).toEqual({ $ref: '#/definitions/Charge' });
+        expect(Refund.properties.previous.allOf).toEqual([{ $ref: '#/definitions/Refund' }]);
+
+        expect(warnings).toEqual(["/paths/~1refunds~1{refund}~1evidence/post/parameters/1: removed cookie parameter 'session' (not supported in Swagger 2.0)."]);
+        await expectValid(spec);
+    });
+
+    it('converts 3.1 to Swagger 2.0 through 3.0', async () => {
+        const { spec } = convertSpec(convertSpec(SPEC_30, '3.1.0').spec, '2.0');
+
+        expect(spec.definitions.RefundRequest.properties.reason).toEqual({ type: 'string', enum: ['duplicate', 'fraudulent'], 'x-nullable': true });
+        expect(spec.definitions.RefundRequest.properties.amount).toEqual({ type: 'integer', minimum: 0, exclusiveMinimum: true });
+        await expectValid(spec);
+    });
+
+    it('rejects documents that are not OpenAPI 3.x', () => {
+        expect(() => convertSpec({ swagger: '2.0', info: {}, paths: {} }, '3.0.3')).toThrow("expected an OpenAPI 3.x document, got version '2.0'");
+    });
+});
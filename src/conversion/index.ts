@@ -0,0 +1,68 @@
+import YAML from 'yaml';
+
+import { toOpenApi30, toOpenApi31 } from './openapi3';
+import { toSwagger2 } from './swagger2';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Conversion');
+
+export const TARGET_VERSIONS = ['3.0.3', '3.1.0', '2.0'] as const;
+export type TargetVersion = (typeof TARGET_VERSIONS)[number];
+
+export const OUTPUT_FORMATS = ['json', 'yaml'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * A document converted to another specification version.
+ * `warnings` lists what the target version couldn't express, with the JSON pointer (in the source document)
+ * of each place where something was dropped or approximated.
+ */
+export interface ConversionResult {
+    spec: Record<string, any>;
+    from: string;
+    to: TargetVersion;
+    warnings: string[];
+}
+
+/**
+ * Converts an OpenAPI 3.x document to OpenAPI 3.0.3, OpenAPI 3.1.0 or Swagger 2.0.
+ * The conversion is deterministic: the same document always converts to the same output.
+ * Conversion to Swagger 2.0 goes through OpenAPI 3.0.
+ *
+ * @param spec - The OpenAPI 3.x document; it is not modified.
+ * @param target - The version to convert to.
+ * @returns The converted document and the conversion warnings.
+ * @throws Throws an error if the document isn't OpenAPI 3.x.
+ */
+export function convertSpec(spec: Record<string, any>, target: TargetVersion): ConversionResult {
+    const from = spec?.openapi;
+    if (typeof from !== 'string' || !from.startsWith('3.')) {
+        throw new Error(`Conversion failed: expected an OpenAPI 3.x document, got version '${from ?? spec?.swagger ?? 'unknown'}'.`);
+    }
+
+    const warnings: string[] = [];
+    const doc = structuredClone(spec);
+    let converted: Record<string, any>;
+    switch (target) {
+        case '3.1.0':
+            converted = toOpenApi31(doc);
+            break;
+        case '3.0.3':
+            converted = toOpenApi30(doc, warnings);
+            break;
+        case '2.0':
+            converted = toSwagger2(toOpenApi30(doc, warnings), warnings);
+            break;
+    }
+    if (warnings.length > 0) {
+        log.warn('Converted with warnings', { from, to: target, warnings: warnings.length });
+    }
+    return { spec: converted, from, to: target, warnings };
+}
+
+/**
+ * Serializes a document as pretty-printed JSON or YAML.
+ */
+export function serializeSpec(spec: Record<string, any>, format: OutputFormat): string {
+    return format === 'yaml' ? YAML.stringify(spec, { aliasDuplicateObjects: false }) : JSON.stringify(spec, null, 2);
+}
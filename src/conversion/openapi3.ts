@@ -0,0 +1,160 @@
+import { forEachSchema } from './walk';
+
+// Keywords that annotate a schema rather than constrain it; they stay on the outer schema when it is wrapped
+const ANNOTATIONS = new Set(['title', 'description', 'default', 'example', 'examples', 'readOnly', 'writeOnly', 'deprecated', 'externalDocs', 'xml']);
+
+// JSON Schema 2020-12 keywords that OpenAPI 3.0 schemas don't support
+const UNSUPPORTED_IN_30 = ['prefixItems', 'if', 'then', 'else', 'dependentSchemas', 'dependentRequired', 'unevaluatedProperties',
+    'unevaluatedItems', 'patternProperties', 'propertyNames', 'contains', 'minContains', 'maxContains', '$defs', '$anchor', '$dynamicRef', '$dynamicAnchor'];
+
+/**
+ * Converts the keywords of one OpenAPI 3.1 (JSON Schema 2020-12) schema to their OpenAPI 3.0 form, in place.
+ */
+function downgradeSchema(schema: Record<string, any>, pointer: string, warnings: string[]): void {
+    for (const combinator of ['anyOf', 'oneOf']) {
+        if (!Array.isArray(schema[combinator])) continue;
+        const alternatives = schema[combinator].filter((member: any) => member?.type !== 'null');
+        if (alternatives.length === schema[combinator].length) continue;
+        // `anyOf: [X, {type: 'null'}]` is the 3.1 way to say "nullable X"
+        schema.nullable = true;
+        if (alternatives.length === 1 && !schema.allOf) {
+            schema.allOf = alternatives;
+            delete schema[combinator];
+        } else {
+            schema[combinator] = alternatives;
+        }
+    }
+    if (Array.isArray(schema.type) || schema.type === 'null') {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const nonNull = types.filter((type) => type !== 'null');
+        if (nonNull.length < types.length) schema.nullable = true;
+        if (nonNull.length === 1) {
+            schema.type = nonNull[0];
+        } else {
+            delete schema.type;
+            if (nonNull.length > 1) {
+                schema.anyOf = [...nonNull.map((type) => ({ type })), ...(schema.anyOf ?? [])];
+            }
+        }
+    }
+    if (Array.isArray(schema.enum) && schema.nullable && schema.enum.includes(null)) {
+        // 3.0 allows null in an enum of a nullable schema, but many tools don't; nullable already says it
+        schema.enum = schema.enum.filter((value: unknown) => value !== null);
+    }
+
+    for (const [exclusive, inclusive, stricter] of [['exclusiveMinimum', 'minimum', Math.max], ['exclusiveMaximum', 'maximum', Math.min]] as const) {
+        const bound = schema[exclusive];
+        if (typeof bound !== 'number') continue;
+        if (typeof schema[inclusive] === 'number' && stricter(bound, schema[inclusive]) !== bound) {
+            // The inclusive bound is the stricter one
+            delete schema[exclusive];
+        } else {
+            schema[inclusive] = bound;
+            schema[exclusive] = true;
+        }
+    }
+
+    if ('const' in schema) {
+        schema.enum = [schema.const];
+        delete schema.const;
+    }
+    if (Array.isArray(schema.examples)) {
+        if (schema.examples.length > 0 && !('example' in schema)) schema.example = schema.examples[0];
+        delete schema.examples;
+    }
+    if (schema.type === 'string' && !schema.format) {
+        if (schema.contentEncoding === 'base64') schema.format = 'byte';
+        else if (schema.contentMediaType) schema.format = 'binary';
+    }
+    delete schema.contentEncoding;
+    delete schema.contentMediaType;
+    delete schema.$schema;
+    delete schema.$id;
+    delete schema.$comment;
+
+    // 3.0 arrays need `items`; a tuple becomes an array of anything
+    if (schema.prefixItems && schema.type === 'array' && !schema.items) schema.items = {};
+    const unsupported = UNSUPPORTED_IN_30.filter((key) => key in schema);
+    for (const key of unsupported) delete schema[key];
+    if (unsupported.length > 0) warnings.push(`${pointer}: removed ${unsupported.join(', ')} (not supported in OpenAPI 3.0).`);
+}
+
+/**
+ * Converts the keywords of one OpenAPI 3.0 schema to their OpenAPI 3.1 form, in place.
+ */
+function upgradeSchema(schema: Record<string, any>): void {
+    if (schema.nullable === true) {
+        if (typeof schema.type === 'string') {
+            schema.type = [schema.type, 'null'];
+            if (Array.isArray(schema.enum) && !schema.enum.includes(null)) schema.enum = [...schema.enum, null];
+        } else if (!Array.isArray(schema.type)) {
+            // A nullable $ref or composition: allow null next to it
+            const constraint: Record<string, any> = {};
+            for (const key of Object.keys(schema)) {
+                if (ANNOTATIONS.has(key) || key.startsWith('x-') || key === 'nullable') continue;
+                constraint[key] = schema[key];
+                delete schema[key];
+            }
+            schema.anyOf = [constraint, { type: 'null' }];
+        }
+    }
+    delete schema.nullable;
+
+    for (const [exclusive, inclusive] of [['exclusiveMinimum', 'minimum'], ['exclusiveMaximum', 'maximum']]) {
+        if (schema[exclusive] === true && typeof schema[inclusive] === 'number') {
+            schema[exclusive] = schema[inclusive];
+            delete schema[inclusive];
+        } else if (typeof schema[exclusive] === 'boolean') {
+            delete schema[exclusive];
+        }
+    }
+
+    if ('example' in schema) {
+        if (!Array.isArray(schema.examples)) schema.examples = [schema.example];
+        delete schema.example;
+    }
+}
+
+/**
+ * Converts an OpenAPI 3.x document to OpenAPI 3.0.3, in place.
+ * Type arrays become `nullable`, numeric `exclusiveMinimum`/`exclusiveMaximum` become `minimum`/`maximum`
+ * with a boolean flag, `const` becomes a one-value `enum` and `examples` the first `example`.
+ * 3.1-only features (webhooks, `info.summary`, `license.identifier`, unsupported JSON Schema keywords)
+ * are removed, with a warning.
+ */
+export function toOpenApi30(doc: Record<string, any>, warnings: string[]): Record<string, any> {
+    if (doc.webhooks) {
+        warnings.push(`/webhooks: removed ${Object.keys(doc.webhooks).length} webhook(s) (not supported in OpenAPI 3.0).`);
+        delete doc.webhooks;
+    }
+    if (doc.components?.pathItems) {
+        warnings.push('/components/pathItems: removed (not supported in OpenAPI 3.0).');
+        delete doc.components.pathItems;
+    }
+    if (doc.info?.summary) {
+        warnings.push('/info/summary: removed (not supported in OpenAPI 3.0).');
+        delete doc.info.summary;
+    }
+    if (doc.info?.license?.identifier) {
+        warnings.push('/info/license/identifier: removed (not supported in OpenAPI 3.0).');
+        delete doc.info.license.identifier;
+    }
+    delete doc.jsonSchemaDialect;
+
+    // Merged fragments may mix 3.0 and 3.1 schemas, so every schema is converted whatever the declared version
+    forEachSchema(doc, (schema, pointer) => downgradeSchema(schema, pointer, warnings));
+    doc.openapi = '3.0.3';
+    doc.paths ??= {};
+    return doc;
+}
+
+/**
+ * Converts an OpenAPI 3.x document to OpenAPI 3.1.0, in place.
+ * `nullable` becomes a type array including 'null' (or `anyOf` with a null type for `$ref`s),
+ * boolean `exclusiveMinimum`/`exclusiveMaximum` become numeric bounds and `example` becomes `examples`.
+ */
+export function toOpenApi31(doc: Record<string, any>): Record<string, any> {
+    forEachSchema(doc, (schema) => upgradeSchema(schema));
+    doc.openapi = '3.1.0';
+    return doc;
+}
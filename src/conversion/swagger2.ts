@@ -0,0 +1,390 @@
+import { parseJsonPointer, resolveJsonPointer, toJsonPointer } from '../utils/jsonPointer';
+import { HTTP_METHODS } from '../utils/openapi';
+import { walkSchema } from './walk';
+
+// Where OpenAPI 3.0 components live in Swagger 2.0; other component sections are inlined
+const REF_SECTIONS: Record<string, string> = {
+    schemas: 'definitions',
+    parameters: 'parameters',
+    responses: 'responses',
+};
+
+// Keywords a Swagger 2.0 non-body parameter, header or `items` object can carry
+const SIMPLE_KEYWORDS = ['type', 'format', 'default', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum', 'maxLength', 'minLength',
+    'pattern', 'maxItems', 'minItems', 'uniqueItems', 'enum', 'multipleOf'];
+
+const FORM_MEDIA_TYPES = ['application/x-www-form-urlencoded', 'multipart/form-data'];
+
+const isJson = (mediaType: string) => /^application\/([\w.+-]+\+)?json\b/i.test(mediaType) || mediaType === '*/*';
+
+const extensions = (node: Record<string, any>) => Object.fromEntries(Object.entries(node ?? {}).filter(([key]) => key.startsWith('x-')));
+
+/**
+ * Converts an OpenAPI 3.0 document to Swagger 2.0. Done in one pass by a converter instance
+ * so the document and the warnings don't have to be threaded through every helper.
+ */
+class Swagger2Converter {
+    constructor(private readonly doc: Record<string, any>, private readonly warnings: string[]) {}
+
+    private warn(segments: (string | number)[], message: string): void {
+        this.warnings.push(`${toJsonPointer(...segments)}: ${message}`);
+    }
+
+    /**
+     * Resolves a local `$ref` (repeatedly) to the object it points to.
+     */
+    private resolve(node: any): any {
+        const seen = new Set<string>();
+        while (node && typeof node.$ref === 'string' && node.$ref.startsWith('#/') && !seen.has(node.$ref)) {
+            seen.add(node.$ref);
+            node = resolveJsonPointer(this.doc, node.$ref) ?? node;
+        }
+        return node;
+    }
+
+    /**
+     * Copies a node, pointing `$ref`s to schemas, parameters and responses at their Swagger 2.0 location
+     * and inlining `$ref`s to the other component sections (request bodies, headers, examples, ...).
+     */
+    private rewriteRefs(node: any, inlining: Set<string> = new Set()): any {
+        if (Array.isArray(node)) return node.map((item) => this.rewriteRefs(item, inlining));
+        if (!node || typeof node !== 'object') return node;
+
+        const ref = node.$ref;
+        if (typeof ref === 'string' && ref.startsWith('#/components/')) {
+            const [, section, ...rest] = parseJsonPointer(ref.slice(1));
+            if (section in REF_SECTIONS) return { ...node, $ref: `#${toJsonPointer(REF_SECTIONS[section], ...rest)}` };
+            const target = resolveJsonPointer(this.doc, ref);
+            if (target !== undefined && !inlining.has(ref)) return this.rewriteRefs(target, new Set([...inlining, ref]));
+            return { ...node };
+        }
+        return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, this.rewriteRefs(value, inlining)]));
+    }
+
+    /**
+     * Converts a schema (and the schemas nested in it) for use in `definitions`, a body parameter or a response.
+     */
+    private convertSchema(schema: any, segments: (string | number)[]): any {
+        const converted = this.rewriteRefs(schema);
+        walkSchema(converted, segments, (node, pointer) => {
+            if ('nullable' in node) {
+                if (node.nullable) node['x-nullable'] = true;
+                delete node.nullable;
+            }
+            for (const combinator of ['oneOf', 'anyOf']) {
+                if (!Array.isArray(node[combinator])) continue;
+                const [first] = node[combinator].filter((member: any) => Object.keys(member ?? {}).length > 0);
+                node[`x-${combinator}`] = node[combinator];
+                delete node[combinator];
+                if (first) node.allOf = [...(node.allOf ?? []), first];
+                this.warnings.push(`${pointer}: ${combinator} isn't supported in Swagger 2.0; kept the first alternative (the original is in x-${combinator}).`);
+            }
+            if ('not' in node) {
+                delete node.not;
+                this.warnings.push(`${pointer}: removed 'not' (not supported in Swagger 2.0).`);
+            }
+            if (node.writeOnly) this.warnings.push(`${pointer}: removed writeOnly (not supported in Swagger 2.0).`);
+            delete node.writeOnly;
+            if ('deprecated' in node) {
+                node['x-deprecated'] = node.deprecated;
+                delete node.deprecated;
+            }
+            if (node.discriminator && typeof node.discriminator === 'object') {
+                if (node.discriminator.mapping) this.warnings.push(`${pointer}: removed discriminator mapping (not supported in Swagger 2.0).`);
+                node.discriminator = node.discriminator.propertyName;
+            }
+        });
+        return converted;
+    }
+
+    /**
+     * Reduces a schema to the keywords a non-body parameter, header or `items` object can carry.
+     */
+    private simplify(schema: any, segments: (string | number)[]): Record<string, any> {
+        const resolved = this.resolve(schema) ?? {};
+        const simple: Record<string, any> = {};
+        for (const key of SIMPLE_KEYWORDS) if (key in resolved) simple[key] = resolved[key];
+        if (resolved.nullable) simple['x-nullable'] = true;
+
+        if (!simple.type || simple.type === 'object' || simple.type === 'null') {
+            if (simple.type === 'object') this.warn(segments, 'object values are only allowed in a request body in Swagger 2.0; described as a string.');
+            simple.type = 'string';
+        }
+        if (simple.type === 'array') simple.items = this.simplify(resolved.items, [...segments, 'items']);
+        return simple;
+    }
+
+    private convertParameter(parameter: any, segments: (string | number)[]): Record<string, any> | null {
+        if (typeof parameter?.$ref === 'string') return this.rewriteRefs(parameter);
+        if (parameter.in === 'cookie') {
+            this.warn(segments, `removed cookie parameter '${parameter.name}' (not supported in Swagger 2.0).`);
+            return null;
+        }
+
+        let schema = parameter.schema;
+        if (!schema && parameter.content) {
+            const [mediaType] = Object.keys(parameter.content);
+            schema = parameter.content[mediaType]?.schema;
+            this.warn(segments, `described the '${mediaType}' content of '${parameter.name}' by its schema only.`);
+        }
+
+        const converted: Record<string, any> = { name: parameter.name, in: parameter.in };
+        if (parameter.description) converted.description = parameter.description;
+        if (parameter.required || parameter.in === 'path') converted.required = true;
+        if (parameter.allowEmptyValue) converted.allowEmptyValue = true;
+        Object.assign(converted, this.simplify(schema, [...segments, 'schema']));
+        if (converted.type === 'array') {
+            const style = parameter.style ?? (parameter.in === 'query' || parameter.in === 'cookie' ? 'form' : 'simple');
+            const explode = parameter.explode ?? style === 'form';
+            converted.collectionFormat = style === 'spaceDelimited' ? 'ssv' : style === 'pipeDelimited' ? 'pipes' : style === 'form' && explode ? 'multi' : 'csv';
+            if (converted.collectionFormat === 'multi' && parameter.in !== 'query') converted.collectionFormat = 'csv';
+        }
+        if (parameter.deprecated) converted['x-deprecated'] = true;
+        if ('example' in parameter) converted['x-example'] = parameter.example;
+        return { ...converted, ...extensions(parameter) };
+    }
+
+    /**
+     * Turns a request body into a body parameter, or formData parameters for form content types.
+     * Swagger 2.0 has one body per operation: JSON content is preferred, other media types are only listed in `consumes`.
+     */
+    private convertRequestBody(requestBody: any, segments: (string | number)[]): { parameters: Record<string, any>[]; consumes: string[] } {
+        const body = this.resolve(requestBody);
+        const consumes = Object.keys(body?.content ?? {});
+        if (consumes.length === 0) return { parameters: [], consumes };
+
+        const mediaType = consumes.find(isJson) ?? consumes[0];
+        const schema = body.content[mediaType]?.schema ?? {};
+        const skipped = consumes.filter((type) => type !== mediaType && FORM_MEDIA_TYPES.includes(type) !== FORM_MEDIA_TYPES.includes(mediaType));
+        if (skipped.length > 0) this.warn(segments, `kept the '${mediaType}' body only; ${skipped.join(', ')} can't be described alongside it in Swagger 2.0.`);
+
+        if (FORM_MEDIA_TYPES.includes(mediaType)) {
+            const resolved = this.resolve(schema);
+            const required: string[] = resolved.required ?? [];
+            const parameters = Object.entries<any>(resolved.properties ?? {}).map(([name, property]) => {
+                const propertySegments = [...segments, 'content', mediaType, 'schema', 'properties', name];
+                const target = this.resolve(property) ?? {};
+                const isFile = target.type === 'string' && target.format === 'binary';
+                const parameter: Record<string, any> = { name, in: 'formData' };
+                if (target.description) parameter.description = target.description;
+                if (required.includes(name)) parameter.required = true;
+                Object.assign(parameter, isFile ? { type: 'file' } : this.simplify(property, propertySegments));
+                return parameter;
+            });
+            if (parameters.length === 0) this.warn(segments, `the '${mediaType}' body has no properties to turn into formData parameters.`);
+            return { parameters, consumes: consumes.filter((type) => FORM_MEDIA_TYPES.includes(type)) };
+        }
+
+        const parameter: Record<string, any> = {
+            name: body['x-codegen-request-body-name'] ?? 'body',
+            in: 'body',
+        };
+        if (body.description) parameter.description = body.description;
+        if (body.required) parameter.required = true;
+        parameter.schema = this.convertSchema(schema, [...segments, 'content', mediaType, 'schema']);
+        return { parameters: [parameter], consumes: consumes.filter((type) => !FORM_MEDIA_TYPES.includes(type)) };
+    }
+
+    private convertHeaders(headers: Record<string, any>, segments: (string | number)[]): Record<string, any> {
+        return Object.fromEntries(Object.entries(headers).map(([name, header]) => {
+            const resolved = this.resolve(header) ?? {};
+            const converted: Record<string, any> = {};
+            if (resolved.description) converted.description = resolved.description;
+            return [name, { ...converted, ...this.simplify(resolved.schema, [...segments, name, 'schema']) }];
+        }));
+    }
+
+    private convertResponse(response: any, segments: (string | number)[]): { response: Record<string, any>; produces: string[] } {
+        if (typeof response?.$ref === 'string') {
+            const produces = Object.keys(this.resolve(response)?.content ?? {});
+            return { response: this.rewriteRefs(response), produces };
+        }
+
+        const converted: Record<string, any> = { description: response?.description ?? '' };
+        const produces = Object.keys(response?.content ?? {});
+        const mediaType = produces.find(isJson) ?? produces[0];
+        if (mediaType) {
+            const media = response.content[mediaType];
+            if (media?.schema) converted.schema = this.convertSchema(media.schema, [...segments, 'content', mediaType, 'schema']);
+            const examples = Object.fromEntries(produces
+                .map((type) => [type, response.content[type]?.example ?? this.resolve(Object.values<any>(response.content[type]?.examples ?? {})[0])?.value])
+                .filter(([, example]) => example !== undefined));
+            if (Object.keys(examples).length > 0) converted.examples = examples;
+        }
+        if (response?.headers) converted.headers = this.convertHeaders(response.headers, [...segments, 'headers']);
+        if (response?.links) this.warn([...segments, 'links'], 'removed links (not supported in Swagger 2.0).');
+        return { response: { ...converted, ...extensions(response) }, produces };
+    }
+
+    private convertOperation(operation: Record<string, any>, segments: (string | number)[]): Record<string, any> {
+        const { parameters = [], requestBody, responses = {}, callbacks, servers, ...rest } = operation;
+        const converted: Record<string, any> = {};
+        for (const key of ['tags', 'summary', 'description', 'externalDocs', 'operationId', 'deprecated', 'security']) {
+            if (key in rest) converted[key] = rest[key];
+        }
+
+        const convertedParameters = parameters
+            .map((parameter: any, i: number) => this.convertParameter(parameter, [...segments, 'parameters', i]))
+            .filter(Boolean);
+        if (requestBody) {
+            const body = this.convertRequestBody(requestBody, [...segments, 'requestBody']);
+            convertedParameters.push(...body.parameters);
+            if (body.consumes.length > 0) converted.consumes = body.consumes;
+        }
+
+        const produces = new Set<string>();
+        const convertedResponses: Record<string, any> = {};
+        for (const [status, response] of Object.entries(responses)) {
+            const result = this.convertResponse(response, [...segments, 'responses', status]);
+            convertedResponses[status] = result.response;
+            result.produces.forEach((type) => produces.add(type));
+        }
+        if (produces.size > 0) converted.produces = Array.from(produces);
+        if (convertedParameters.length > 0) converted.parameters = convertedParameters;
+        converted.responses = convertedResponses;
+
+        if (callbacks) this.warn([...segments, 'callbacks'], 'removed callbacks (not supported in Swagger 2.0).');
+        if (servers) this.warn([...segments, 'servers'], 'removed operation-level servers (not supported in Swagger 2.0).');
+        return { ...converted, ...extensions(rest) };
+    }
+
+    private convertSecurityScheme(name: string, scheme: any): Record<string, any> | null {
+        const segments = ['components', 'securitySchemes', name];
+        const base = scheme.description ? { description: scheme.description } : {};
+        if (scheme.type === 'apiKey') {
+            if (scheme.in === 'cookie') {
+                this.warn(segments, 'removed cookie API key (not supported in Swagger 2.0).');
+                return null;
+            }
+            return { type: 'apiKey', name: scheme.name, in: scheme.in, ...base };
+        }
+        if (scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') return { type: 'basic', ...base };
+        if (scheme.type === 'http') {
+            this.warn(segments, `described HTTP ${scheme.scheme} authentication as an Authorization header API key.`);
+            return { type: 'apiKey', name: 'Authorization', in: 'header', description: scheme.description ?? `${scheme.scheme} authentication: "Authorization: ${scheme.scheme} <token>"` };
+        }
+        if (scheme.type === 'oauth2') {
+            const flows = Object.entries<any>(scheme.flows ?? {});
+            if (flows.length === 0) return null;
+            if (flows.length > 1) this.warn(segments, `kept the ${flows[0][0]} OAuth2 flow only (Swagger 2.0 allows one flow per scheme).`);
+            const [flowName, flow] = flows[0];
+            const converted: Record<string, any> = {
+                type: 'oauth2',
+                flow: { implicit: 'implicit', password: 'password', clientCredentials: 'application', authorizationCode: 'accessCode' }[flowName] ?? flowName,
+                ...base,
+            };
+            if (flow.authorizationUrl && flowName !== 'password' && flowName !== 'clientCredentials') converted.authorizationUrl = flow.authorizationUrl;
+            if (flow.tokenUrl && flowName !== 'implicit') converted.tokenUrl = flow.tokenUrl;
+            converted.scopes = flow.scopes ?? {};
+            return converted;
+        }
+        this.warn(segments, `removed ${scheme.type} security scheme (not supported in Swagger 2.0).`);
+        return null;
+    }
+
+    /**
+     * Sets host, basePath and schemes from the first server, with its variables at their default values.
+     */
+    private convertServers(target: Record<string, any>): void {
+        const servers: any[] = this.doc.servers ?? [];
+        if (servers.length === 0) return;
+        if (servers.length > 1) this.warn(['servers'], `kept the first of ${servers.length} servers (Swagger 2.0 has a single host).`);
+
+        const server = servers[0];
+        const url = String(server.url ?? '').replace(/\{([^}]+)\}/g, (match, name) => server.variables?.[name]?.default ?? match);
+        if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+            try {
+                const parsed = new URL(url);
+                target.host = parsed.host;
+                const basePath = decodeURI(parsed.pathname).replace(/\/+$/, '');
+                if (basePath) target.basePath = basePath;
+                target.schemes = [parsed.protocol.slice(0, -1)];
+                return;
+            } catch {
+                // Fall through to the warning
+            }
+        } else if (url.startsWith('/')) {
+            const basePath = url.replace(/\/+$/, '');
+            if (basePath) target.basePath = basePath;
+            return;
+        }
+        this.warn(['servers', 0, 'url'], `couldn't derive host and basePath from '${server.url}'.`);
+    }
+
+    convert(): Record<string, any> {
+        const doc = this.doc;
+        const components = doc.components ?? {};
+        const result: Record<string, any> = { swagger: '2.0', info: doc.info };
+        this.convertServers(result);
+        if (doc.tags) result.tags = doc.tags;
+        if (doc.externalDocs) result.externalDocs = doc.externalDocs;
+
+        const paths: Record<string, any> = {};
+        for (const [path, pathItem] of Object.entries<any>(doc.paths ?? {})) {
+            const item: Record<string, any> = {};
+            const parameters = (pathItem.parameters ?? [])
+                .map((parameter: any, i: number) => this.convertParameter(parameter, ['paths', path, 'parameters', i]))
+                .filter(Boolean);
+            if (parameters.length > 0) item.parameters = parameters;
+            for (const method of HTTP_METHODS) {
+                if (!pathItem[method]) continue;
+                if (method === 'trace') {
+                    this.warn(['paths', path, method], 'removed TRACE operation (not supported in Swagger 2.0).');
+                    continue;
+                }
+                item[method] = this.convertOperation(pathItem[method], ['paths', path, method]);
+            }
+            if (pathItem.servers) this.warn(['paths', path, 'servers'], 'removed path-level servers (not supported in Swagger 2.0).');
+            paths[path] = { ...item, ...extensions(pathItem) };
+        }
+        result.paths = paths;
+
+        const definitions = Object.fromEntries(Object.entries(components.schemas ?? {})
+            .map(([name, schema]) => [name, this.convertSchema(schema, ['components', 'schemas', name])]));
+        if (Object.keys(definitions).length > 0) result.definitions = definitions;
+
+        const parameters = Object.fromEntries(Object.entries(components.parameters ?? {})
+            .map(([name, parameter]) => [name, this.convertParameter(parameter, ['components', 'parameters', name])])
+            .filter(([, parameter]) => parameter));
+        if (Object.keys(parameters).length > 0) result.parameters = parameters;
+
+        const responses = Object.fromEntries(Object.entries(components.responses ?? {})
+            .map(([name, response]) => [name, this.convertResponse(response, ['components', 'responses', name]).response]));
+        if (Object.keys(responses).length > 0) result.responses = responses;
+
+        const securityDefinitions = Object.fromEntries(Object.entries(components.securitySchemes ?? {})
+            .map(([name, scheme]) => [name, this.convertSecurityScheme(name, this.resolve(scheme))])
+            .filter(([, scheme]) => scheme));
+        if (Object.keys(securityDefinitions).length > 0) result.securityDefinitions = securityDefinitions;
+
+        // Requirements naming a scheme that couldn't be converted would make the document invalid
+        const keepRequirements = (security: Record<string, string[]>[]) =>
+            security.filter((requirement) => Object.keys(requirement).every((name) => name in securityDefinitions));
+        if (doc.security) result.security = keepRequirements(doc.security);
+        for (const pathItem of Object.values<any>(paths)) {
+            for (const method of HTTP_METHODS) {
+                if (pathItem[method]?.security) pathItem[method].security = keepRequirements(pathItem[method].security);
+            }
+        }
+
+        return { ...result, ...extensions(doc) };
+    }
+}
+
+/**
+ * Converts an OpenAPI 3.0 document to Swagger 2.0:
+ * - servers become `host`, `basePath` and `schemes`;
+ * - `components` become `definitions`, `parameters`, `responses` and `securityDefinitions`, with `$ref`s rewritten
+ *   (request bodies, headers and examples are inlined);
+ * - request bodies become a body parameter (or formData parameters for form content) plus `consumes`,
+ *   and response content becomes a `schema` plus `produces`;
+ * - parameters and headers are reduced to the keywords Swagger 2.0 allows there, `nullable` becomes `x-nullable`.
+ * What Swagger 2.0 can't express (cookie parameters, callbacks, links, `oneOf`/`anyOf`, ...) is dropped or
+ * approximated, with a warning.
+ *
+ * @param doc - The OpenAPI 3.0 document; it is not modified.
+ * @param warnings - Collects a message for each lossy change.
+ */
+export function toSwagger2(doc: Record<string, any>, warnings: string[]): Record<string, any> {
+    return new Swagger2Converter(doc, warnings).convert();
+}
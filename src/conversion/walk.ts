@@ -0,0 +1,91 @@
+import { toJsonPointer } from '../utils/jsonPointer';
+import { HTTP_METHODS } from '../utils/openapi';
+
+/**
+ * Called for each schema object with its JSON pointer. The visitor may modify the schema in place;
+ * its (possibly new) subschemas are visited afterwards.
+ */
+export type SchemaVisitor = (schema: Record<string, any>, pointer: string) => void;
+
+type Segments = (string | number)[];
+
+const isObject = (value: unknown): value is Record<string, any> => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const SUBSCHEMA_MAPS = ['properties', 'patternProperties', '$defs', 'dependentSchemas'];
+const SUBSCHEMA_LISTS = ['allOf', 'oneOf', 'anyOf', 'prefixItems'];
+const SUBSCHEMAS = ['additionalProperties', 'not', 'if', 'then', 'else', 'contains', 'propertyNames', 'unevaluatedProperties', 'unevaluatedItems'];
+
+/**
+ * Visits a schema and every schema nested in it (properties, items, combinators, ...), depth first.
+ */
+export function walkSchema(schema: unknown, segments: Segments, visit: SchemaVisitor): void {
+    if (!isObject(schema)) return;
+    visit(schema, toJsonPointer(...segments));
+
+    for (const key of SUBSCHEMA_MAPS) {
+        if (!isObject(schema[key])) continue;
+        for (const [name, child] of Object.entries(schema[key])) walkSchema(child, [...segments, key, name], visit);
+    }
+    for (const key of SUBSCHEMA_LISTS) {
+        if (!Array.isArray(schema[key])) continue;
+        schema[key].forEach((child: unknown, i: number) => walkSchema(child, [...segments, key, i], visit));
+    }
+    for (const key of SUBSCHEMAS) walkSchema(schema[key], [...segments, key], visit);
+    if (Array.isArray(schema.items)) {
+        schema.items.forEach((child: unknown, i: number) => walkSchema(child, [...segments, 'items', i], visit));
+    } else {
+        walkSchema(schema.items, [...segments, 'items'], visit);
+    }
+}
+
+function walkContent(content: unknown, segments: Segments, visit: SchemaVisitor): void {
+    if (!isObject(content)) return;
+    for (const [mediaType, media] of Object.entries(content)) walkSchema(media?.schema, [...segments, mediaType, 'schema'], visit);
+}
+
+function walkParameter(parameter: unknown, segments: Segments, visit: SchemaVisitor): void {
+    if (!isObject(parameter)) return;
+    walkSchema(parameter.schema, [...segments, 'schema'], visit);
+    walkContent(parameter.content, [...segments, 'content'], visit);
+}
+
+function walkResponse(response: unknown, segments: Segments, visit: SchemaVisitor): void {
+    if (!isObject(response)) return;
+    walkContent(response.content, [...segments, 'content'], visit);
+    for (const [name, header] of Object.entries(response.headers ?? {})) walkParameter(header, [...segments, 'headers', name], visit);
+}
+
+function walkPathItem(pathItem: unknown, segments: Segments, visit: SchemaVisitor): void {
+    if (!isObject(pathItem)) return;
+    (pathItem.parameters ?? []).forEach((p: unknown, i: number) => walkParameter(p, [...segments, 'parameters', i], visit));
+    for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!isObject(operation)) continue;
+        const base = [...segments, method];
+        (operation.parameters ?? []).forEach((p: unknown, i: number) => walkParameter(p, [...base, 'parameters', i], visit));
+        if (isObject(operation.requestBody)) walkContent(operation.requestBody.content, [...base, 'requestBody', 'content'], visit);
+        for (const [status, response] of Object.entries(operation.responses ?? {})) walkResponse(response, [...base, 'responses', status], visit);
+        for (const [name, callback] of Object.entries(operation.callbacks ?? {})) {
+            for (const [expression, item] of Object.entries(callback ?? {})) walkPathItem(item, [...base, 'callbacks', name, expression], visit);
+        }
+    }
+}
+
+/**
+ * Visits every schema in an OpenAPI 3.x document: components, parameters, request bodies,
+ * responses and headers in paths, callbacks and webhooks.
+ */
+export function forEachSchema(doc: Record<string, any>, visit: SchemaVisitor): void {
+    const components = doc.components ?? {};
+    for (const [name, schema] of Object.entries(components.schemas ?? {})) walkSchema(schema, ['components', 'schemas', name], visit);
+    for (const [name, parameter] of Object.entries(components.parameters ?? {})) walkParameter(parameter, ['components', 'parameters', name], visit);
+    for (const [name, header] of Object.entries(components.headers ?? {})) walkParameter(header, ['components', 'headers', name], visit);
+    for (const [name, body] of Object.entries<any>(components.requestBodies ?? {})) walkContent(body?.content, ['components', 'requestBodies', name, 'content'], visit);
+    for (const [name, response] of Object.entries(components.responses ?? {})) walkResponse(response, ['components', 'responses', name], visit);
+    for (const [name, item] of Object.entries(components.pathItems ?? {})) walkPathItem(item, ['components', 'pathItems', name], visit);
+    for (const [name, callback] of Object.entries(components.callbacks ?? {})) {
+        for (const [expression, item] of Object.entries(callback ?? {})) walkPathItem(item, ['components', 'callbacks', name, expression], visit);
+    }
+    for (const [path, item] of Object.entries(doc.paths ?? {})) walkPathItem(item, ['paths', path], visit);
+    for (const [name, item] of Object.entries(doc.webhooks ?? {})) walkPathItem(item, ['webhooks', name], visit);
+}
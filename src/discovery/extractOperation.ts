@@ -0,0 +1,85 @@
+import { parseJsonPointer, resolveJsonPointer } from '../utils/jsonPointer';
+import { effectiveParameters, OperationEntry } from '../utils/openapi';
+
+/**
+ * Cuts one operation out of a published document as a self-contained fragment:
+ * - `$ref`s to parameters, request bodies, responses, headers, examples and links are dereferenced (inlined);
+ * - `$ref`s to schemas are kept, and only the schemas the operation reaches (transitively) are copied,
+ *   so recursive schemas stay valid;
+ * - path-level parameters are folded into the operation, and the document's security requirement,
+ *   servers and tags are carried over where the operation relies on them, with the security schemes it names.
+ * External `$ref`s are left as they are.
+ *
+ * @param spec - The published OpenAPI 3.x document.
+ * @param entry - The operation to extract (see listOperations).
+ * @returns The fragment. The published document is not modified.
+ */
+export function extractOperation(spec: Record<string, any>, entry: OperationEntry): Record<string, any> {
+    const schemas: Record<string, any> = {};
+    const otherComponents: Record<string, Record<string, any>> = {};
+
+    const collectSchema = (name: string) => {
+        if (name in schemas) return;
+        schemas[name] = null; // Reserve the name first so recursive schemas terminate
+        schemas[name] = copy(spec.components?.schemas?.[name], new Set());
+    };
+
+    const copy = (node: any, inlining: Set<string>): any => {
+        if (Array.isArray(node)) return node.map((item) => copy(item, inlining));
+        if (!node || typeof node !== 'object') return node;
+
+        const ref = node.$ref;
+        if (typeof ref === 'string' && ref.startsWith('#/components/')) {
+            const [, section, name] = parseJsonPointer(decodeURIComponent(ref.slice(1)));
+            const target = resolveJsonPointer(spec, ref);
+            if (section === 'schemas') {
+                if (target !== undefined) collectSchema(name);
+                return { ...node };
+            }
+            if (target !== undefined && !inlining.has(ref)) {
+                return copy(target, new Set([...inlining, ref]));
+            }
+            if (target !== undefined && !(name in (otherComponents[section] ?? {}))) {
+                // A component that refers to itself can't be inlined; keep it as a component
+                const kept = (otherComponents[section] ??= {});
+                kept[name] = null;
+                kept[name] = copy(target, new Set([ref]));
+            }
+            return { ...node };
+        }
+
+        return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, copy(value, inlining)]));
+    };
+
+    const { path, method, pathItem, operation } = entry;
+    const parameters = effectiveParameters(spec, entry).map(({ parameter }) => copy(parameter, new Set()));
+    const extracted = copy(operation, new Set());
+    if (parameters.length > 0) extracted.parameters = parameters;
+    else delete extracted.parameters;
+
+    const security = operation.security ?? spec.security;
+    if (security && !operation.security) extracted.security = security;
+    const securitySchemes: Record<string, any> = {};
+    for (const requirement of security ?? []) {
+        for (const name of Object.keys(requirement ?? {})) {
+            const scheme = spec.components?.securitySchemes?.[name];
+            if (scheme) securitySchemes[name] = copy(scheme, new Set());
+        }
+    }
+
+    const fragment: Record<string, any> = {
+        openapi: spec.openapi,
+        info: { title: spec.info?.title ?? 'Published API', version: spec.info?.version ?? '1.0.0' },
+    };
+    const servers = operation.servers ?? pathItem.servers ?? spec.servers;
+    if (servers) fragment.servers = servers;
+    const tags = (spec.tags ?? []).filter((tag: any) => operation.tags?.includes(tag?.name));
+    if (tags.length > 0) fragment.tags = tags;
+    fragment.paths = { [path]: { [method]: extracted } };
+
+    const components: Record<string, any> = { ...otherComponents };
+    if (Object.keys(schemas).length > 0) components.schemas = schemas;
+    if (Object.keys(securitySchemes).length > 0) components.securitySchemes = securitySchemes;
+    if (Object.keys(components).length > 0) fragment.components = components;
+    return fragment;
+}
@@ -0,0 +1,218 @@
+import { z } from 'zod';
+import { generateObject } from 'ai';
+
+import { loadDiscoveryConfig, DiscoveryConfig } from '../config';
+import { getModel } from '../models';
+import { emit, PipelineContext } from '../pipeline/events';
+import { withFixtures } from '../pipeline/agentTools';
+import { searchApiDocumentation } from '../tools/searchApiDocumentation';
+import { readWebpageContent } from '../tools/readWebpageContent';
+import { validateOpenAPISchema } from '../tools/validateOpenAPISchema';
+import { readPolicyViolation } from '../security';
+import { listOperations, OperationEntry } from '../utils/openapi';
+import { extractOperation } from './extractOperation';
+import { loadPublishedSpec } from './loadSpec';
+import { DEFAULT_SPEC_REGISTRY, findMirrorSpecs, findRegistrySpecs, loadSpecRegistry } from './registry';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Discovery');
+
+export { DEFAULT_SPEC_REGISTRY, SpecRegistryEntry } from './registry';
+
+// Operations of a published spec shown to the selection model, after ranking by shared words
+const MAX_CANDIDATES = 40;
+// Spec links followed per documentation page
+const MAX_LINKS_PER_PAGE = 5;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'all', 'api', 'with', 'from', 'into', 'that', 'this', 'endpoint', 'operation', 'specific', 'given']);
+
+/**
+ * Where a published spec was found: a local mirror, the registry, or a link on a documentation page.
+ */
+export type PublishedSpecOrigin = 'mirror' | 'registry' | 'link';
+
+/**
+ * The published document an operation was extracted from.
+ */
+export interface PublishedSource {
+    url: string;
+    origin: PublishedSpecOrigin;
+    method: string;
+    path: string;
+}
+
+/**
+ * An operation taken from a published spec instead of being generated.
+ */
+export interface PublishedOperation {
+    spec: Record<string, any>;
+    source: PublishedSource;
+}
+
+const tokenize = (text: string) => new Set(
+    text.toLowerCase().split(/[^a-z0-9]+/)
+        .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+        .map((word) => (word.endsWith('ies') ? `${word.slice(0, -3)}y` : word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+);
+
+const describeEntry = ({ method, path }: OperationEntry) => `${method.toUpperCase()} ${path}`;
+
+const isSpecUrl = (url: URL) => /^https?:$/.test(url.protocol) && /(openapi|swagger)[^/]*\.(json|ya?ml)$/i.test(url.pathname);
+
+/**
+ * Finds links to OpenAPI/Swagger documents (`openapi.json`, `swagger.yaml`, ...) in a page's
+ * Markdown or HTML, resolved against the page URL.
+ */
+export function findSpecLinks(content: string, pageUrl: string): string[] {
+    const raw = [
+        ...Array.from(content.matchAll(/\]\(\s*<?([^)\s>]+)/g), (m) => m[1]),
+        ...Array.from(content.matchAll(/href\s*=\s*["']([^"']+)["']/gi), (m) => m[1]),
+        ...Array.from(content.matchAll(/https?:\/\/[^\s)"'<>\]]+/gi), (m) => m[0]),
+    ];
+    const links = new Set<string>();
+    for (const link of raw) {
+        try {
+            const url = new URL(link.replace(/[.,;:!?]+$/, ''), pageUrl);
+            if (isSpecUrl(url)) links.add(url.toString());
+        } catch {
+            // Not a URL
+        }
+    }
+    return Array.from(links);
+}
+
+/**
+ * Asks the discovery model which operation of a published spec is the requested one.
+ * Only the operations sharing the most words with the request are offered.
+ *
+ * @returns The matching operation, or null if none matches.
+ */
+async function selectOperation(operation: string, spec: Record<string, any>, context?: PipelineContext): Promise<OperationEntry | null> {
+    const requested = tokenize(operation);
+    const ranked = listOperations(spec)
+        .map((entry) => {
+            const words = tokenize(`${entry.method} ${entry.path} ${entry.operation.operationId ?? ''} ${entry.operation.summary ?? ''}`);
+            return { entry, score: Array.from(requested).filter((word) => words.has(word)).length };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_CANDIDATES)
+        .map(({ entry }) => entry);
+    if (ranked.length === 0) return null;
+
+    const candidates = ranked.map((entry) =>
+        `- ${describeEntry(entry)}${entry.operation.operationId ? ` (${entry.operation.operationId})` : ''}: ${entry.operation.summary ?? entry.operation.description?.split('\n')[0] ?? ''}`);
+    const { object } = await generateObject({
+        model: getModel('discovery', context),
+        schema: z.object({
+            match: z.string().describe("The matching operation as 'METHOD /path', exactly as listed, or 'none'"),
+        }),
+        prompt: `Which operation of the published "${spec.info?.title ?? 'API'}" OpenAPI document is the requested operation? ` +
+            `Only answer with an operation that does exactly what is requested; answer 'none' otherwise.\n\n` +
+            `Requested operation: "${operation}"\n\nCandidates:\n${candidates.join('\n')}`,
+        abortSignal: context?.abortSignal,
+    });
+
+    const answer = object.match.trim().toLowerCase();
+    return ranked.find((entry) => describeEntry(entry).toLowerCase() === answer) ?? null;
+}
+
+/**
+ * Yields the published specs to try for an operation, most local first: mirrors, the registry,
+ * then (mode 'all') spec links on the documentation pages found by searching for the operation.
+ */
+async function* candidateSpecs(operation: string, config: DiscoveryConfig, context?: PipelineContext): AsyncGenerator<{ url: string; origin: PublishedSpecOrigin }> {
+    if (config.mirrorDir) {
+        for (const url of findMirrorSpecs(operation, config.mirrorDir)) yield { url, origin: 'mirror' };
+    }
+    const registry = [...(config.registryPath ? loadSpecRegistry(config.registryPath) : []), ...DEFAULT_SPEC_REGISTRY];
+    for (const url of findRegistrySpecs(operation, registry)) yield { url, origin: 'registry' };
+
+    if (config.mode !== 'all' || config.maxLinkPages === 0) return;
+    let pages: string[];
+    try {
+        pages = (await searchApiDocumentation(operation, context?.cache)).slice(0, config.maxLinkPages);
+    } catch (error) {
+        log.warn('Search for spec links failed', { error });
+        return;
+    }
+    for (const page of pages) {
+        // A search result can be the spec itself
+        if (URL.canParse(page) && isSpecUrl(new URL(page))) {
+            yield { url: page, origin: 'link' };
+            continue;
+        }
+        let content: string;
+        try {
+            content = await readWebpageContent(page, context?.cache);
+        } catch (error) {
+            log.warn('Could not read page', { url: page, error });
+            continue;
+        }
+        // Links are the page's say-so, so they get the same domain policy as the pages themselves
+        const links = findSpecLinks(content, page).filter((url) => !readPolicyViolation(url));
+        for (const url of links.slice(0, MAX_LINKS_PER_PAGE)) yield { url, origin: 'link' };
+    }
+}
+
+async function discover(operation: string, config: DiscoveryConfig, context?: PipelineContext): Promise<PublishedOperation | null> {
+    const tried = new Set<string>();
+    for await (const { url, origin } of candidateSpecs(operation, config, context)) {
+        if (tried.has(url)) continue;
+        tried.add(url);
+        context?.abortSignal?.throwIfAborted();
+
+        try {
+            const published = await loadPublishedSpec(url, config.fetchTimeoutMs, context?.cache);
+            const entry = await selectOperation(operation, published, context);
+            if (!entry) {
+                log.info('No matching operation in published spec', { url, operation });
+                continue;
+            }
+
+            const spec = extractOperation(published, entry);
+            spec.paths[entry.path][entry.method]['x-source'] = [{ url }];
+            const validation = await validateOpenAPISchema(JSON.stringify(spec));
+            if (!validation.isValid) {
+                log.warn(`Extracted ${describeEntry(entry)} failed validation`, { url, error: validation.error });
+                continue;
+            }
+            return { spec, source: { url, origin, method: entry.method, path: entry.path } };
+        } catch (error) {
+            if (context?.abortSignal?.aborted) throw error;
+            log.warn('Skipping published spec', { url, error });
+        }
+    }
+    return null;
+}
+
+/**
+ * Discovery stage (before Step 3a): looks for the operation in a provider's published OpenAPI
+ * document, so it can be used as-is instead of being rebuilt from documentation prose.
+ * Specs are looked for in SPEC_MIRROR_DIR, the spec registry and (unless SPEC_DISCOVERY=registry)
+ * links to `openapi.json`/`swagger.yaml`-style files on the pages found by searchApiDocumentation.
+ * The matching operation is extracted with the components it references (see extractOperation)
+ * and must pass Swagger Parser validation. Discovery failures are logged and yield null, so the
+ * pipeline falls back to LLM synthesis.
+ *
+ * @param operation - The operation description produced by the decomposition step.
+ * @param context - Optional run context (cache, model overrides, fixtures, abort signal).
+ * @returns A promise that resolves to the extracted operation, or null if no published spec has it.
+ */
+export async function discoverPublishedOperation(operation: string, context?: PipelineContext): Promise<PublishedOperation | null> {
+    try {
+        const config = loadDiscoveryConfig();
+        if (config.mode === 'off') return null;
+
+        const published = await withFixtures(context, 'discover_published_spec', { operation }, () => discover(operation, config, context));
+        if (published) {
+            log.info(`Using ${published.source.method.toUpperCase()} ${published.source.path} from the published spec`, { url: published.source.url, operation });
+            emit(context, { type: 'spec_discovered', operation, ...published.source });
+        }
+        return published;
+    } catch (error) {
+        if (context?.abortSignal?.aborted) throw error;
+        log.error('Discovery failed', { operation, error });
+        return null;
+    }
+}
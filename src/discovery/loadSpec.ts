@@ -0,0 +1,84 @@
+import fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+import YAML from 'yaml';
+
+import { CacheOptions, normalizeUrl, withCache } from '../cache';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Discovery');
+
+// Parsed documents kept in memory; published specs can be tens of megabytes, so keep only a few
+const MAX_PARSED_SPECS = 3;
+
+const parsedSpecs = new Map<string, Record<string, any>>();
+
+async function fetchText(url: string, timeoutMs: number): Promise<string> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            headers: {
+                'User-Agent': 'text-to-openapi (+https://github.com/blooming-generation/text-to-openapi)',
+                Accept: 'application/json,application/yaml,text/yaml,text/plain;q=0.9,*/*;q=0.8',
+            },
+            redirect: 'follow',
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+    } catch (error) {
+        throw new Error(`Fetch failed for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!response.ok) {
+        throw new Error(`Fetch failed for ${url}: HTTP ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+}
+
+/**
+ * Parses a JSON or YAML document.
+ * @throws Throws an error if the text is neither.
+ */
+export function parseSpecText(text: string): unknown {
+    return text.trimStart().startsWith('{') ? JSON.parse(text) : YAML.parse(text);
+}
+
+/**
+ * Loads a published OpenAPI 3.x document from a URL, a `file:` URL or a file path.
+ * Remote documents are cached as text by normalized URL; parsed documents are also kept in memory
+ * for the few most recently used specs.
+ *
+ * @param location - Where the document is.
+ * @param timeoutMs - Download timeout for remote documents.
+ * @param cache - Optional per-run cache bypass flag and hit/miss collector.
+ * @returns A promise that resolves to the parsed document.
+ * @throws Throws an error if the document can't be read or parsed, or isn't OpenAPI 3.x
+ * (Swagger 2.0 documents are not supported).
+ */
+export async function loadPublishedSpec(location: string, timeoutMs: number, cache?: CacheOptions): Promise<Record<string, any>> {
+    const remote = /^https?:\/\//i.test(location);
+    const key = remote ? normalizeUrl(location) : location;
+    const memoized = parsedSpecs.get(key);
+    if (memoized && !cache?.bypass) {
+        // Move to the back so it is evicted last
+        parsedSpecs.delete(key);
+        parsedSpecs.set(key, memoized);
+        return memoized;
+    }
+
+    const text = remote
+        ? await withCache('spec', `spec:${key}`, cache, () => fetchText(location, timeoutMs))
+        : await fs.readFile(location.startsWith('file:') ? fileURLToPath(location) : location, 'utf8');
+
+    let document: any;
+    try {
+        document = parseSpecText(text);
+    } catch (error) {
+        throw new Error(`${location} is not valid JSON or YAML: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!document || typeof document !== 'object' || typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+        throw new Error(`${location} is not an OpenAPI 3.x document.`);
+    }
+
+    parsedSpecs.set(key, document);
+    if (parsedSpecs.size > MAX_PARSED_SPECS) parsedSpecs.delete(parsedSpecs.keys().next().value!);
+    log.info('Loaded published spec', { location, paths: Object.keys(document.paths ?? {}).length });
+    return document;
+}
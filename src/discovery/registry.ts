@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Discovery');
+
+/**
+ * A provider that publishes OpenAPI documents.
+ * `specs` are URLs or file paths (relative paths resolve against the registry file).
+ */
+export interface SpecRegistryEntry {
+    name: string;
+    aliases?: string[];
+    specs: string[];
+}
+
+// Providers whose official OpenAPI documents are known. Extend with SPEC_REGISTRY.
+export const DEFAULT_SPEC_REGISTRY: SpecRegistryEntry[] = [
+    {
+        name: 'Stripe',
+        specs: ['https://raw.githubusercontent.com/stripe/openapi/master/openapi/spec3.json'],
+    },
+    {
+        name: 'GitHub',
+        aliases: ['GitHub REST'],
+        specs: ['https://raw.githubusercontent.com/github/rest-api-description/main/descriptions/api.github.com/api.github.com.json'],
+    },
+    {
+        name: 'Twilio',
+        specs: ['https://raw.githubusercontent.com/twilio/twilio-oai/main/spec/json/twilio_api_v2010.json'],
+    },
+];
+
+const registrySchema = z.object({
+    providers: z.array(z.object({
+        name: z.string().min(1),
+        aliases: z.array(z.string().min(1)).optional(),
+        specs: z.array(z.string().min(1)).min(1),
+    })),
+});
+
+const registryCache = new Map<string, SpecRegistryEntry[]>();
+
+/**
+ * Reads a registry file (`{ "providers": [{ "name", "aliases"?, "specs" }] }`).
+ * Files are read once per process.
+ * @throws Throws an error if the file can't be read or doesn't match the format.
+ */
+export function loadSpecRegistry(registryPath: string): SpecRegistryEntry[] {
+    const resolved = path.resolve(registryPath);
+    const cached = registryCache.get(resolved);
+    if (cached) return cached;
+
+    let parsed: z.infer<typeof registrySchema>;
+    try {
+        parsed = registrySchema.parse(JSON.parse(fs.readFileSync(resolved, 'utf8')));
+    } catch (error) {
+        throw new Error(`Failed to load spec registry '${registryPath}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const baseDir = path.dirname(resolved);
+    const entries = parsed.providers.map((entry) => ({
+        ...entry,
+        specs: entry.specs.map((spec) => (/^[a-z][a-z0-9+.-]*:/i.test(spec) ? spec : path.resolve(baseDir, spec))),
+    }));
+    registryCache.set(resolved, entries);
+    return entries;
+}
+
+/**
+ * Whether a provider name appears in the operation description as a whole word (case-insensitive).
+ */
+export function mentionsProvider(operation: string, name: string): boolean {
+    const words = name.trim().toLowerCase().split(/[\s_-]+/).map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(^|[^a-z0-9])${words.join('[\\s_-]*')}($|[^a-z0-9])`, 'i').test(operation);
+}
+
+/**
+ * Returns the registered specs of every provider the operation mentions.
+ */
+export function findRegistrySpecs(operation: string, registry: SpecRegistryEntry[]): string[] {
+    return registry
+        .filter((entry) => [entry.name, ...(entry.aliases ?? [])].some((name) => mentionsProvider(operation, name)))
+        .flatMap((entry) => entry.specs);
+}
+
+/**
+ * Returns the spec files in the mirror directory whose name (without extension) is a provider
+ * the operation mentions, e.g. `stripe.json` for "Create a Stripe refund".
+ */
+export function findMirrorSpecs(operation: string, mirrorDir: string): string[] {
+    let files: string[];
+    try {
+        files = fs.readdirSync(mirrorDir);
+    } catch (error) {
+        log.warn('Cannot read SPEC_MIRROR_DIR', { directory: mirrorDir, error });
+        return [];
+    }
+    return files
+        .filter((file) => /\.(json|ya?ml)$/i.test(file))
+        .filter((file) => mentionsProvider(operation, path.basename(file, path.extname(file))))
+        .map((file) => path.resolve(mirrorDir, file));
+}
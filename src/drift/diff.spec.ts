@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+
+import { listOperations } from '../utils/openapi';
+import { diffOperation, diffRegenerated } from './diff';
+
+const STORED = {
+    openapi: '3.0.3',
+    info: { title: 'Refunds', version: '1.0.0' },
+    paths: {
+        '/refunds/{id}': {
+            post: {
+                parameters: [
+                    { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+                    { name: 'expand', in: 'query', schema: { type: 'string' } },
+                ],
+                requestBody: {
+                    content: { 'application/json': { schema: { $ref: '#/components/schemas/RefundUpdate' } } },
+                },
+                responses: {
+                    '200': {
+                        description: 'The refund',
+                        content: { 'application/json': { schema: { type: 'object', properties: { id: { type: 'string' } } } } },
+                    },
+                },
+            },
+        },
+    },
+    components: {
+        schemas: {
+            RefundUpdate: {
+                type: 'object',
+                properties: { reason: { type: 'string', enum: ['duplicate', 'fraudulent', 'requested_by_customer'] } },
+            },
+        },
+    },
+};
+
+/**
+ * Returns a copy of the stored document with `change` applied, and the changes the diff finds in it.
+ */
+function diffAfter(change: (spec: Record<string, any>) => void) {
+    const updated = structuredClone(STORED) as Record<string, any>;
+    change(updated);
+    const [before] = listOperations(STORED);
+    const [after] = listOperations(updated);
+    return diffOperation({ spec: STORED, entry: before }, { spec: updated, entry: after });
+}
+
+const operation = (spec: Record<string, any>) => spec.paths['/refunds/{id}'].post;
+
+describe('diffOperation', () => {
+    it('finds no changes between equivalent operations', () => {
+        expect(diffAfter((spec) => {
+            // Renaming the path parameter, inlining the schema and editing descriptions keep the operation the same
+            spec.paths = { '/refunds/{refund}': spec.paths['/refunds/{id}'] };
+            spec.paths['/refunds/{refund}'].post.parameters[0].name = 'refund';
+            spec.paths['/refunds/{refund}'].post.requestBody.content['application/json'].schema = {
+                ...STORED.components.schemas.RefundUpdate,
+                description: 'What to change',
+            };
+        })).toEqual([]);
+    });
+
+    it('reports a parameter that became required as breaking', () => {
+        expect(diffAfter((spec) => {
+            operation(spec).parameters[1].required = true;
+        })).toEqual([{
+            kind: 'parameter_required',
+            severity: 'breaking',
+            pointer: '/paths/~1refunds~1{id}/post/parameters/1',
+            message: "Query parameter 'expand' is now required.",
+        }]);
+    });
+
+    it('reports a narrowed request enum as breaking and a widened one as not', () => {
+        expect(diffAfter((spec) => {
+            spec.components.schemas.RefundUpdate.properties.reason.enum = ['duplicate', 'fraudulent'];
+        })).toEqual([{
+            kind: 'enum_narrowed',
+            severity: 'breaking',
+            pointer: '/paths/~1refunds~1{id}/post/requestBody/content/application~1json/schema/properties/reason/enum',
+            message: `Request body (application/json) field 'reason' no longer allows ["requested_by_customer"].`,
+            before: ['duplicate', 'fraudulent', 'requested_by_customer'],
+            after: ['duplicate', 'fraudulent'],
+        }]);
+
+        expect(diffAfter((spec) => {
+            spec.components.schemas.RefundUpdate.properties.reason.enum.push('expired_uncaptured_charge');
+        })).toMatchObject([{ kind: 'enum_widened', severity: 'non_breaking' }]);
+    });
+
+    it('reports an added optional field as non-breaking, and an added required request field as breaking', () => {
+        expect(diffAfter((spec) => {
+            spec.components.schemas.RefundUpdate.properties.metadata = { type: 'object' };
+            operation(spec).responses['200'].content['application/json'].schema.properties.status = { type: 'string' };
+        })).toEqual([
+            {
+                kind: 'property_added',
+                severity: 'non_breaking',
+                pointer: '/paths/~1refunds~1{id}/post/requestBody/content/application~1json/schema/properties/metadata',
+                message: "Request body (application/json) has a new optional field 'metadata'.",
+            },
+            {
+                kind: 'property_added',
+                severity: 'non_breaking',
+                pointer: '/paths/~1refunds~1{id}/post/responses/200/content/application~1json/schema/properties/status',
+                message: "Response 200 (application/json) has a new optional field 'status'.",
+            },
+        ]);
+
+        expect(diffAfter((spec) => {
+            spec.components.schemas.RefundUpdate.properties.amount = { type: 'integer' };
+            spec.components.schemas.RefundUpdate.required = ['amount'];
+        })).toMatchObject([{ kind: 'property_added', severity: 'breaking', message: "Request body (application/json) has a new required field 'amount'." }]);
+    });
+
+    it('reports removed parameters and success responses as breaking', () => {
+        expect(diffAfter((spec) => {
+            operation(spec).parameters.pop();
+            operation(spec).responses = { '202': { description: 'Accepted' } };
+        })).toMatchObject([
+            { kind: 'parameter_removed', severity: 'breaking', message: "Query parameter 'expand' was removed." },
+            { kind: 'response_removed', severity: 'breaking', message: 'Response 200 was removed.' },
+            { kind: 'response_added', severity: 'non_breaking', message: 'New response 202.' },
+        ]);
+    });
+});
+
+describe('diffRegenerated', () => {
+    const [entry] = listOperations(STORED);
+
+    it('diffs the regenerated operation with the same method and path template', () => {
+        const regenerated = structuredClone(STORED) as Record<string, any>;
+        operation(regenerated).deprecated = true;
+        expect(diffRegenerated({ spec: STORED, entry }, regenerated)).toMatchObject([{ kind: 'operation_deprecated', severity: 'non_breaking' }]);
+    });
+
+    it('reports the operation as removed when the documentation no longer describes it', () => {
+        const regenerated = structuredClone(STORED) as Record<string, any>;
+        regenerated.paths = { '/refunds/{id}/cancel': { post: operation(regenerated) } };
+        expect(diffRegenerated({ spec: STORED, entry }, regenerated)).toEqual([{
+            kind: 'operation_removed',
+            severity: 'breaking',
+            pointer: '/paths/~1refunds~1{id}/post',
+            message: 'The documentation no longer describes POST /refunds/{id}; regenerating it gave POST /refunds/{id}/cancel.',
+            after: 'POST /refunds/{id}/cancel',
+        }]);
+    });
+});
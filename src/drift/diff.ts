@@ -0,0 +1,421 @@
+import { isDeepStrictEqual } from 'util';
+
+import { resolveJsonPointer, toJsonPointer } from '../utils/jsonPointer';
+import { effectiveParameters, listOperations, normalizePathTemplate, OperationEntry, pathTemplateNames } from '../utils/openapi';
+import { ChangeSeverity, DriftChange, DriftChangeKind } from './types';
+
+// Nesting depth at which schemas stop being compared (guards against very deep or recursive schemas)
+const MAX_SCHEMA_DEPTH = 8;
+
+// Keys that only document a schema; changing them doesn't change what the API accepts or returns
+const DOCUMENTATION_KEYS = new Set(['description', 'summary', 'title', 'example', 'examples', 'externalDocs']);
+
+// Constraints that accept less as they grow (`min*`) or as they shrink (`max*`)
+const LOWER_BOUNDS = ['minimum', 'exclusiveMinimum', 'minLength', 'minItems', 'minProperties'];
+const UPPER_BOUNDS = ['maximum', 'exclusiveMaximum', 'maxLength', 'maxItems', 'maxProperties'];
+
+/**
+ * An operation and the document it lives in (for resolving `$ref`s).
+ */
+export interface OperationInDocument {
+    spec: Record<string, any>;
+    entry: OperationEntry;
+}
+
+// Who sends the data a schema describes: clients send requests and read responses
+type Direction = 'request' | 'response';
+
+const narrowing = (direction: Direction): ChangeSeverity => (direction === 'request' ? 'breaking' : 'non_breaking');
+const widening = (direction: Direction): ChangeSeverity => (direction === 'request' ? 'non_breaking' : 'breaking');
+
+const describeTypes = (types: Set<string> | null) => (types ? Array.from(types).sort().join(' | ') : 'any');
+
+/**
+ * Collects the changes found while comparing two operations.
+ */
+class ChangeCollector {
+    readonly found: DriftChange[] = [];
+
+    add(kind: DriftChangeKind, severity: ChangeSeverity, pointer: string, message: string, values: { before?: unknown; after?: unknown } = {}): void {
+        this.found.push({ kind, severity, pointer, message, ...values });
+    }
+}
+
+/**
+ * Follows local `$ref`s and merges `allOf` members, so schemas written differently but meaning the same compare equal.
+ */
+function resolveSchema(spec: Record<string, any>, schema: any, depth = 0): any {
+    let resolved = schema;
+    for (let hops = 0; resolved && typeof resolved.$ref === 'string' && hops < MAX_SCHEMA_DEPTH; hops++) {
+        resolved = resolveJsonPointer(spec, resolved.$ref);
+    }
+    if (!resolved || typeof resolved !== 'object' || !Array.isArray(resolved.allOf) || depth > MAX_SCHEMA_DEPTH) return resolved;
+
+    const { allOf, ...rest } = resolved;
+    const merged: Record<string, any> = { ...rest, properties: { ...rest.properties }, required: [...(rest.required ?? [])] };
+    for (const member of allOf.map((m: any) => resolveSchema(spec, m, depth + 1))) {
+        if (!member || typeof member !== 'object') continue;
+        const { properties, required, ...memberRest } = member;
+        Object.assign(merged.properties, properties);
+        merged.required.push(...(required ?? []));
+        for (const [key, value] of Object.entries(memberRest)) if (!(key in merged)) merged[key] = value;
+    }
+    if (Object.keys(merged.properties).length === 0) delete merged.properties;
+    if (merged.required.length === 0) delete merged.required;
+    return merged;
+}
+
+/**
+ * The JSON types a schema accepts, or null when it accepts anything. `nullable` (OpenAPI 3.0) adds `null`.
+ */
+function typesOf(schema: any): Set<string> | null {
+    const declared: string[] | null = Array.isArray(schema.type) ? schema.type : typeof schema.type === 'string' ? [schema.type] : null;
+    const types = declared ?? (schema.properties ? ['object'] : schema.items ? ['array'] : null);
+    if (!types) return null;
+    return new Set(schema.nullable === true ? [...types, 'null'] : types);
+}
+
+// Integers are numbers, so `integer` -> `number` widens and `number` -> `integer` narrows
+const covers = (types: Set<string> | null, type: string) => types === null || types.has(type) || (type === 'integer' && types.has('number'));
+
+/**
+ * Drops documentation-only keys and vendor extensions, for comparing schemas that can't be compared field by field.
+ */
+function withoutDocumentation(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(withoutDocumentation);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.entries(value)
+        .filter(([key]) => !DOCUMENTATION_KEYS.has(key) && !key.startsWith('x-'))
+        .map(([key, item]) => [key, withoutDocumentation(item)]));
+}
+
+/**
+ * Compares two schemas for the same place in the operation.
+ *
+ * @param where - What the schema describes, e.g. "request body (application/json)".
+ * @param field - The field path inside it (`metadata.key`, `items[]`), empty at the root.
+ */
+function compareSchemas(
+    changes: ChangeCollector,
+    before: OperationInDocument,
+    after: OperationInDocument,
+    oldSchema: any,
+    newSchema: any,
+    pointer: string,
+    direction: Direction,
+    where: string,
+    field = '',
+    depth = 0
+): void {
+    const oldResolved = resolveSchema(before.spec, oldSchema);
+    const newResolved = resolveSchema(after.spec, newSchema);
+    if (!oldResolved || !newResolved || typeof oldResolved !== 'object' || typeof newResolved !== 'object' || depth > MAX_SCHEMA_DEPTH) return;
+    const subject = field ? `${where} field '${field}'` : where;
+
+    const oldTypes = typesOf(oldResolved);
+    const newTypes = typesOf(newResolved);
+    const lost = oldTypes === null ? newTypes !== null : Array.from(oldTypes).some((type) => !covers(newTypes, type));
+    const gained = newTypes === null ? oldTypes !== null : Array.from(newTypes).some((type) => !covers(oldTypes, type));
+    if (lost || gained) {
+        const kind = lost && gained ? 'type_changed' : lost ? 'type_narrowed' : 'type_widened';
+        const severity = lost && gained ? 'breaking' : lost ? narrowing(direction) : widening(direction);
+        changes.add(kind, severity, pointer, `Type of ${subject} changed from ${describeTypes(oldTypes)} to ${describeTypes(newTypes)}.`,
+            { before: describeTypes(oldTypes), after: describeTypes(newTypes) });
+        // The rest of the schema describes a different kind of value
+        if (lost && gained) return;
+    }
+
+    compareEnums(changes, oldResolved.enum, newResolved.enum, pointer, direction, subject);
+    compareConstraints(changes, oldResolved, newResolved, pointer, direction, subject);
+
+    for (const key of ['oneOf', 'anyOf']) {
+        if (!isDeepStrictEqual(withoutDocumentation(oldResolved[key]), withoutDocumentation(newResolved[key]))) {
+            // Alternatives can't be matched up reliably, so the change is assumed to break clients
+            changes.add('schema_changed', 'breaking', `${pointer}/${key}`, `The ${key} alternatives of ${subject} changed.`);
+        }
+    }
+
+    if (oldResolved.items || newResolved.items) {
+        compareSchemas(changes, before, after, oldResolved.items, newResolved.items, `${pointer}/items`, direction, where, `${field}[]`, depth + 1);
+    }
+
+    const oldProperties: Record<string, any> = oldResolved.properties ?? {};
+    const newProperties: Record<string, any> = newResolved.properties ?? {};
+    const oldRequired = new Set<string>(oldResolved.required ?? []);
+    const newRequired = new Set<string>(newResolved.required ?? []);
+    for (const name of Object.keys(oldProperties)) {
+        const propertyPointer = `${pointer}/properties${toJsonPointer(name)}`;
+        const propertyField = field ? `${field}.${name}` : name;
+        if (!(name in newProperties)) {
+            changes.add('property_removed', 'breaking', propertyPointer, `${capitalize(where)} field '${propertyField}' was removed.`);
+            continue;
+        }
+        if (!oldRequired.has(name) && newRequired.has(name)) {
+            changes.add('property_required', narrowing(direction), propertyPointer, `${capitalize(where)} field '${propertyField}' is now required.`);
+        } else if (oldRequired.has(name) && !newRequired.has(name)) {
+            changes.add('property_optional', widening(direction), propertyPointer, `${capitalize(where)} field '${propertyField}' is now optional.`);
+        }
+        compareSchemas(changes, before, after, oldProperties[name], newProperties[name], propertyPointer, direction, where, propertyField, depth + 1);
+    }
+    for (const name of Object.keys(newProperties)) {
+        if (name in oldProperties) continue;
+        const propertyField = field ? `${field}.${name}` : name;
+        const required = newRequired.has(name);
+        // A new required request field breaks every client that doesn't send it
+        const severity = direction === 'request' && required ? 'breaking' : 'non_breaking';
+        changes.add('property_added', severity, `${pointer}/properties${toJsonPointer(name)}`,
+            `${capitalize(where)} has a new ${required ? 'required' : 'optional'} field '${propertyField}'.`);
+    }
+}
+
+function compareEnums(changes: ChangeCollector, oldEnum: unknown, newEnum: unknown, pointer: string, direction: Direction, subject: string): void {
+    const oldValues = Array.isArray(oldEnum) ? oldEnum : null;
+    const newValues = Array.isArray(newEnum) ? newEnum : null;
+    if (!oldValues && !newValues) return;
+    const removed = oldValues && newValues ? oldValues.filter((value) => !newValues.some((v) => isDeepStrictEqual(v, value))) : [];
+    const added = oldValues && newValues ? newValues.filter((value) => !oldValues.some((v) => isDeepStrictEqual(v, value))) : [];
+    const enumPointer = `${pointer}/enum`;
+    if (!oldValues) {
+        changes.add('enum_narrowed', narrowing(direction), enumPointer, `${capitalize(subject)} is now limited to ${JSON.stringify(newValues)}.`, { after: newValues });
+    } else if (!newValues) {
+        changes.add('enum_widened', widening(direction), enumPointer, `${capitalize(subject)} is no longer limited to ${JSON.stringify(oldValues)}.`, { before: oldValues });
+    } else {
+        if (removed.length > 0) {
+            changes.add('enum_narrowed', narrowing(direction), enumPointer, `${capitalize(subject)} no longer allows ${JSON.stringify(removed)}.`, { before: oldValues, after: newValues });
+        }
+        if (added.length > 0) {
+            changes.add('enum_widened', widening(direction), enumPointer, `${capitalize(subject)} now also allows ${JSON.stringify(added)}.`, { before: oldValues, after: newValues });
+        }
+    }
+}
+
+function compareConstraints(changes: ChangeCollector, oldSchema: any, newSchema: any, pointer: string, direction: Direction, subject: string): void {
+    const report = (key: string, narrowed: boolean) => {
+        const before = oldSchema[key];
+        const after = newSchema[key];
+        const describe = (value: unknown) => (value === undefined ? 'none' : JSON.stringify(value));
+        changes.add(narrowed ? 'constraint_narrowed' : 'constraint_widened', narrowed ? narrowing(direction) : widening(direction), `${pointer}/${key}`,
+            `${capitalize(key)} of ${subject} changed from ${describe(before)} to ${describe(after)}.`, { before, after });
+    };
+    for (const key of [...LOWER_BOUNDS, ...UPPER_BOUNDS]) {
+        const before = oldSchema[key];
+        const after = newSchema[key];
+        // OpenAPI 3.0 writes exclusive bounds as booleans next to minimum/maximum
+        if (typeof before === 'boolean' || typeof after === 'boolean') {
+            if (before !== after) report(key, after === true);
+            continue;
+        }
+        if (before === after || (typeof before !== 'number' && typeof after !== 'number')) continue;
+        const lower = LOWER_BOUNDS.includes(key);
+        if (typeof before !== 'number') report(key, true);
+        else if (typeof after !== 'number') report(key, false);
+        else report(key, lower ? after > before : after < before);
+    }
+    for (const key of ['pattern', 'format']) {
+        const before = oldSchema[key];
+        const after = newSchema[key];
+        if (before === after) continue;
+        if (before !== undefined && after !== undefined) {
+            // A different pattern or format accepts different values, not just fewer or more
+            changes.add('constraint_narrowed', 'breaking', `${pointer}/${key}`, `${capitalize(key)} of ${subject} changed from ${JSON.stringify(before)} to ${JSON.stringify(after)}.`, { before, after });
+        } else {
+            report(key, after !== undefined);
+        }
+    }
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const describeEntry = ({ method, path }: OperationEntry) => `${method.toUpperCase()} ${path}`;
+
+const sameOperation = (a: OperationEntry, b: OperationEntry) =>
+    a.method === b.method && normalizePathTemplate(a.path).toLowerCase() === normalizePathTemplate(b.path).toLowerCase();
+
+/**
+ * Returns an operation's parameters keyed by `in:name` (path parameters by template position, since
+ * `/refunds/{id}` and `/refunds/{refund}` are the same operation), with their locations.
+ */
+function parameterMap(operation: OperationInDocument): Map<string, { parameter: any; location: string }> {
+    const templateNames = pathTemplateNames(operation.entry.path);
+    const parameters = new Map<string, { parameter: any; location: string }>();
+    for (const item of effectiveParameters(operation.spec, operation.entry)) {
+        const position = templateNames.indexOf(item.parameter.name);
+        const key = item.parameter.in === 'path' && position !== -1
+            ? `path:{${position}}`
+            : `${item.parameter.in}:${String(item.parameter.name).toLowerCase()}`;
+        parameters.set(key, item);
+    }
+    return parameters;
+}
+
+function compareParameters(changes: ChangeCollector, before: OperationInDocument, after: OperationInDocument, operationPointer: string): void {
+    const oldParameters = parameterMap(before);
+    const newParameters = parameterMap(after);
+    for (const [key, { parameter, location }] of oldParameters) {
+        const subject = `${parameter.in} parameter '${parameter.name}'`;
+        const match = newParameters.get(key);
+        if (!match) {
+            changes.add('parameter_removed', 'breaking', location, `${capitalize(subject)} was removed.`);
+            continue;
+        }
+        const wasRequired = parameter.required === true || parameter.in === 'path';
+        const isRequired = match.parameter.required === true || match.parameter.in === 'path';
+        if (!wasRequired && isRequired) changes.add('parameter_required', 'breaking', location, `${capitalize(subject)} is now required.`);
+        if (wasRequired && !isRequired) changes.add('parameter_optional', 'non_breaking', location, `${capitalize(subject)} is now optional.`);
+        compareSchemas(changes, before, after, parameter.schema, match.parameter.schema, `${location}/schema`, 'request', subject);
+    }
+    for (const [key, { parameter }] of newParameters) {
+        if (oldParameters.has(key)) continue;
+        const required = parameter.required === true || parameter.in === 'path';
+        changes.add('parameter_added', required ? 'breaking' : 'non_breaking', `${operationPointer}/parameters`,
+            `New ${required ? 'required' : 'optional'} ${parameter.in} parameter '${parameter.name}'.`);
+    }
+}
+
+/**
+ * Compares the media types of a request body or response and the schemas of those both have.
+ */
+function compareContent(
+    changes: ChangeCollector,
+    before: OperationInDocument,
+    after: OperationInDocument,
+    oldContent: Record<string, any> | undefined,
+    newContent: Record<string, any> | undefined,
+    pointer: string,
+    direction: Direction,
+    where: string
+): void {
+    const oldMedia = oldContent ?? {};
+    const newMedia = newContent ?? {};
+    for (const [mediaType, media] of Object.entries<any>(oldMedia)) {
+        const mediaPointer = `${pointer}/content${toJsonPointer(mediaType)}`;
+        if (!(mediaType in newMedia)) {
+            changes.add('media_type_removed', 'breaking', mediaPointer, `${capitalize(where)} is no longer available as ${mediaType}.`);
+            continue;
+        }
+        compareSchemas(changes, before, after, media?.schema, newMedia[mediaType]?.schema, `${mediaPointer}/schema`, direction, `${where} (${mediaType})`);
+    }
+    for (const mediaType of Object.keys(newMedia)) {
+        if (mediaType in oldMedia) continue;
+        changes.add('media_type_added', 'non_breaking', `${pointer}/content${toJsonPointer(mediaType)}`, `${capitalize(where)} is now also available as ${mediaType}.`);
+    }
+}
+
+function compareRequestBodies(changes: ChangeCollector, before: OperationInDocument, after: OperationInDocument, operationPointer: string): void {
+    const resolve = ({ spec, entry }: OperationInDocument) => {
+        const body = entry.operation.requestBody;
+        return body?.$ref ? resolveJsonPointer(spec, body.$ref) as any : body;
+    };
+    const oldBody = resolve(before);
+    const newBody = resolve(after);
+    const pointer = `${operationPointer}/requestBody`;
+    if (!oldBody && !newBody) return;
+    if (!newBody) {
+        changes.add('request_body_removed', 'breaking', pointer, 'The request body was removed.');
+        return;
+    }
+    if (!oldBody) {
+        changes.add('request_body_added', newBody.required === true ? 'breaking' : 'non_breaking', pointer,
+            `The operation now takes ${newBody.required === true ? 'a required' : 'an optional'} request body.`);
+        return;
+    }
+    if (oldBody.required !== true && newBody.required === true) changes.add('request_body_required', 'breaking', pointer, 'The request body is now required.');
+    if (oldBody.required === true && newBody.required !== true) changes.add('request_body_optional', 'non_breaking', pointer, 'The request body is now optional.');
+    compareContent(changes, before, after, oldBody.content, newBody.content, pointer, 'request', 'request body');
+}
+
+function compareResponses(changes: ChangeCollector, before: OperationInDocument, after: OperationInDocument, operationPointer: string): void {
+    const resolve = (spec: Record<string, any>, response: any) => (response?.$ref ? resolveJsonPointer(spec, response.$ref) as any : response);
+    const oldResponses: Record<string, any> = before.entry.operation.responses ?? {};
+    const newResponses: Record<string, any> = after.entry.operation.responses ?? {};
+    for (const [status, response] of Object.entries<any>(oldResponses)) {
+        const pointer = `${operationPointer}/responses${toJsonPointer(status)}`;
+        if (!(status in newResponses)) {
+            // Clients are written against the success responses; a dropped error response only loses documentation
+            const success = status.startsWith('2');
+            changes.add('response_removed', success ? 'breaking' : 'non_breaking', pointer, `Response ${status} was removed.`);
+            continue;
+        }
+        compareContent(changes, before, after, resolve(before.spec, response)?.content, resolve(after.spec, newResponses[status])?.content,
+            pointer, 'response', `response ${status}`);
+    }
+    for (const status of Object.keys(newResponses)) {
+        if (status in oldResponses) continue;
+        changes.add('response_added', 'non_breaking', `${operationPointer}/responses${toJsonPointer(status)}`, `New response ${status}.`);
+    }
+}
+
+/**
+ * The security alternatives that apply to an operation, each as its sorted scheme names.
+ */
+function securityAlternatives({ spec, entry }: OperationInDocument): string[] {
+    const requirements: unknown = entry.operation.security ?? spec.security ?? [];
+    if (!Array.isArray(requirements)) return [];
+    return requirements.map((requirement) => Object.keys(requirement ?? {}).sort().join(' + ') || '(none)');
+}
+
+function compareSecurity(changes: ChangeCollector, before: OperationInDocument, after: OperationInDocument, operationPointer: string): void {
+    const oldAlternatives = securityAlternatives(before);
+    const newAlternatives = securityAlternatives(after);
+    const pointer = `${operationPointer}/security`;
+    if (oldAlternatives.length === 0) {
+        if (newAlternatives.length > 0 && !newAlternatives.includes('(none)')) {
+            changes.add('security_added', 'breaking', pointer, `The operation now requires authentication (${newAlternatives.join(' or ')}).`, { after: newAlternatives });
+        }
+        return;
+    }
+    if (newAlternatives.length === 0) return;
+    const dropped = oldAlternatives.filter((alternative) => !newAlternatives.includes(alternative));
+    const added = newAlternatives.filter((alternative) => !oldAlternatives.includes(alternative));
+    if (dropped.length > 0) {
+        changes.add('security_changed', 'breaking', pointer, `The operation no longer accepts ${dropped.join(' or ')} authentication.`, { before: oldAlternatives, after: newAlternatives });
+    } else if (added.length > 0) {
+        changes.add('security_changed', 'non_breaking', pointer, `The operation now also accepts ${added.join(' or ')} authentication.`, { before: oldAlternatives, after: newAlternatives });
+    }
+}
+
+/**
+ * Computes the semantic differences between a stored operation and the same operation as generated
+ * from today's documentation: parameters, request body, responses, schemas (types, enums, constraints,
+ * fields and which are required) and security. Descriptions, examples and vendor extensions are ignored.
+ * Each change is classified by whether it can break clients written against the stored operation.
+ *
+ * @param before - The stored operation and its document.
+ * @param after - The regenerated operation and its fragment.
+ * @returns The changes, with pointers into the stored document.
+ */
+export function diffOperation(before: OperationInDocument, after: OperationInDocument): DriftChange[] {
+    const changes = new ChangeCollector();
+    const operationPointer = toJsonPointer('paths', before.entry.path, before.entry.method);
+    if (before.entry.operation.deprecated !== true && after.entry.operation.deprecated === true) {
+        changes.add('operation_deprecated', 'non_breaking', `${operationPointer}/deprecated`, 'The operation is now deprecated.');
+    }
+    compareParameters(changes, before, after, operationPointer);
+    compareRequestBodies(changes, before, after, operationPointer);
+    compareResponses(changes, before, after, operationPointer);
+    compareSecurity(changes, before, after, operationPointer);
+    return changes.found;
+}
+
+/**
+ * Compares a stored operation with the fragment regenerated for it. The regenerated operation is the one
+ * with the same method and path template; when the fragment has none, the operation is reported as removed.
+ *
+ * @param before - The stored operation and its document.
+ * @param regenerated - The fragment generated from today's documentation.
+ * @returns The changes, with pointers into the stored document.
+ */
+export function diffRegenerated(before: OperationInDocument, regenerated: Record<string, any>): DriftChange[] {
+    const operations = listOperations(regenerated);
+    const match = operations.find((candidate) => sameOperation(candidate, before.entry));
+    if (match) return diffOperation(before, { spec: regenerated, entry: match });
+
+    const found = operations.map(describeEntry).join(', ');
+    return [{
+        kind: 'operation_removed',
+        severity: 'breaking',
+        pointer: toJsonPointer('paths', before.entry.path, before.entry.method),
+        message: `The documentation no longer describes ${describeEntry(before.entry)}${found ? `; regenerating it gave ${found}` : ''}.`,
+        ...(found ? { after: found } : {}),
+    }];
+}
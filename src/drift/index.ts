@@ -0,0 +1,170 @@
+import { createRunContext, GenerationOptions, OPERATION_CONCURRENCY } from '../pipeline/runGeneration';
+import { generateOperationSpec } from '../pipeline/generateOperationSpec';
+import { mapWithConcurrency } from '../pipeline/mapWithConcurrency';
+import { inStage, PipelineContext } from '../pipeline/events';
+import { withFixtures } from '../pipeline/agentTools';
+import { readWebpageContent } from '../tools/readWebpageContent';
+import { listOperations, OperationEntry } from '../utils/openapi';
+import { traceRun } from '../tracing';
+import { createLogger } from '../utils/logger';
+import { describeEntry, diffRegenerated } from './diff';
+import { checkSources, collectSourceReferences } from './sources';
+import { DriftReport, OperationDrift } from './types';
+
+const log = createLogger('Drift');
+
+export { diffOperation, diffRegenerated, OperationInDocument } from './diff';
+export { buildWebhookPayload, hasDrift, renderDriftReport, sendDriftWebhook } from './report';
+export { DriftScheduler } from './scheduler';
+export * from './types';
+
+/**
+ * Per-check options.
+ * - `sources`: pages to check for every operation, besides the ones in its `x-source` references.
+ * - `regenerateAll`: regenerate every operation, even those whose excerpts are all still on their pages.
+ */
+export interface DriftCheckOptions {
+    sources?: string[];
+    regenerateAll?: boolean;
+}
+
+/**
+ * Defines the possible outcomes of a drift check.
+ * - `no_operations`: the document has no operations to check.
+ * - `succeeded`: every operation was checked; some may have failed to regenerate (see the report).
+ */
+export type DriftOutcome =
+    | { status: 'no_operations' }
+    | { status: 'succeeded'; report: DriftReport };
+
+/**
+ * The operation description regeneration starts from, in the form decomposition produces.
+ */
+function describeForGeneration(spec: Record<string, any>, entry: OperationEntry): string {
+    const name = entry.operation.summary || entry.operation.operationId;
+    const api = spec.info?.title ? `, ${spec.info.title}` : '';
+    return `${name ? `${name} ` : ''}(${describeEntry(entry)}${api})`;
+}
+
+/**
+ * Checks a stored spec against the documentation it was generated from, as it reads today.
+ * For each operation, the pages in its `x-source` references (and `options.sources`) are re-read and its
+ * verified excerpts looked for. Operations whose excerpts are all still there are left alone; the others
+ * (and operations without verified excerpts to check) are regenerated with the usual discovery, search,
+ * read and generation steps, pointed at their old pages first, and compared with the stored operation.
+ * Caches are bypassed, so every page is read as it is now. The check is traced as a `drift` run.
+ *
+ * @param spec - The stored OpenAPI 3.x document (see validateBaseDocument). It isn't modified.
+ * @param options - Extra source pages, and whether to regenerate every operation.
+ * @param generationOptions - Model, lint and quality gate settings for regeneration.
+ * @param callerContext - Optional abort signal, fixture session and tracer for this run.
+ * @returns A promise that resolves to the DriftOutcome.
+ * @throws Throws if the run is aborted.
+ */
+export async function runDriftCheck(
+    spec: Record<string, any>,
+    options: DriftCheckOptions = {},
+    generationOptions: GenerationOptions = {},
+    callerContext?: PipelineContext
+): Promise<DriftOutcome> {
+    const { context } = createRunContext({ ...generationOptions, bypassCache: true }, callerContext);
+    const runLog = log.child({ run: context.tracer!.id });
+    const entries = listOperations(spec);
+    const title = typeof spec.info?.title === 'string' ? spec.info.title : null;
+
+    return traceRun<DriftOutcome>(context.tracer!, 'drift', title ?? '(untitled document)', async () => {
+        if (entries.length === 0) {
+            runLog.warn('The document has no operations to check');
+            return { status: 'no_operations' };
+        }
+
+        // Operations often share pages, so each is read once per check
+        const pages = new Map<string, Promise<string | null>>();
+        const readPage = (url: string) => {
+            if (!pages.has(url)) {
+                pages.set(url, withFixtures(context, 'read_webpage_content', { url }, () => readWebpageContent(url, context.cache)).catch((error) => {
+                    runLog.warn('Could not read source page', { url, error });
+                    return null;
+                }));
+            }
+            return pages.get(url)!;
+        };
+
+        const operations = await mapWithConcurrency(entries, OPERATION_CONCURRENCY, (entry) => {
+            context.abortSignal?.throwIfAborted();
+            return checkOperation(spec, entry, options, context, readPage);
+        });
+
+        const changes = operations.flatMap((operation) => operation.changes);
+        const report: DriftReport = {
+            spec: { title, version: typeof spec.info?.version === 'string' ? spec.info.version : null },
+            checked_at: new Date().toISOString(),
+            operations,
+            summary: {
+                operations: operations.length,
+                regenerated: operations.filter((operation) => operation.regenerated).length,
+                changed: operations.filter((operation) => operation.status === 'changed').length,
+                failed: operations.filter((operation) => operation.status === 'failed').length,
+                breaking: changes.filter((change) => change.severity === 'breaking').length,
+                non_breaking: changes.filter((change) => change.severity === 'non_breaking').length,
+            },
+            metadata: { run_id: context.tracer?.id ?? null },
+        };
+        runLog.info('Checked for drift', { ...report.summary });
+        return { status: 'succeeded', report };
+    });
+}
+
+/**
+ * Checks one stored operation: re-reads its sources, and regenerates and diffs it if they changed.
+ */
+async function checkOperation(
+    spec: Record<string, any>,
+    entry: OperationEntry,
+    options: DriftCheckOptions,
+    runContext: PipelineContext,
+    readPage: (url: string) => Promise<string | null>
+): Promise<OperationDrift> {
+    const operation = describeForGeneration(spec, entry);
+    const context: PipelineContext = { ...runContext, tracer: runContext.tracer?.forOperation(operation) };
+    const operationLog = log.child({ run: context.tracer?.id, operation: describeEntry(entry) });
+    const sources = await inStage(context, 'source_check', () =>
+        checkSources(collectSourceReferences(spec, entry), options.sources ?? [], readPage));
+    const drift: OperationDrift = {
+        operation: describeEntry(entry),
+        method: entry.method,
+        path: entry.path,
+        status: 'unchanged',
+        regenerated: false,
+        sources: sources.urls,
+        unreadable_sources: sources.unreadable,
+        stale_excerpts: sources.stale,
+        changes: [],
+        error: null,
+    };
+
+    const sourcesUnchanged = sources.checked > 0 && sources.stale.length === 0 && sources.unreadable.length === 0;
+    if (sourcesUnchanged && !options.regenerateAll) {
+        operationLog.info('Sources still back the operation', { excerpts: sources.checked });
+        return drift;
+    }
+
+    operationLog.info('Regenerating the operation', { staleExcerpts: sources.stale.length, unreadable: sources.unreadable.length, excerpts: sources.checked });
+    drift.regenerated = true;
+    const result = await generateOperationSpec(operation, {
+        ...runContext,
+        sourceHints: { [operation]: sources.urls.filter((url) => !sources.unreadable.includes(url)) },
+    });
+    if (!result.spec) {
+        operationLog.warn('Could not regenerate the operation', { error: result.error });
+        return { ...drift, status: 'failed', error: result.error };
+    }
+
+    drift.changes = diffRegenerated({ spec, entry }, result.spec);
+    if (drift.changes.length > 0) drift.status = 'changed';
+    operationLog.info('Compared with the stored operation', {
+        changes: drift.changes.length,
+        breaking: drift.changes.filter((change) => change.severity === 'breaking').length,
+    });
+    return drift;
+}
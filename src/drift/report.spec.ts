@@ -0,0 +1,48 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { sendDriftWebhook } from './report';
+import { DriftReport } from './types';
+
+const REPORT: DriftReport = {
+    spec: { title: 'Refunds API', version: '1.0.0' },
+    checked_at: '2026-01-01T00:00:00.000Z',
+    operations: [],
+    summary: { operations: 1, regenerated: 1, changed: 1, failed: 0, breaking: 1, non_breaking: 0 },
+    metadata: { run_id: null },
+};
+
+describe('sendDriftWebhook', () => {
+    let server: http.Server;
+    let base: string;
+    const received: string[] = [];
+
+    beforeAll(async () => {
+        process.env.LOG_LEVEL = 'error';
+        server = http.createServer((req, res) => {
+            received.push(req.url!);
+            if (req.url === '/moved') {
+                res.writeHead(307, { Location: '/internal' }).end();
+            } else {
+                res.writeHead(204).end();
+            }
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('posts the payload', async () => {
+        await expect(sendDriftWebhook(`${base}/hook`, REPORT)).resolves.toBeUndefined();
+        expect(received).toContain('/hook');
+    });
+
+    it('fails on a redirect instead of following it', async () => {
+        await expect(sendDriftWebhook(`${base}/moved`, REPORT)).rejects.toThrow(/redirected \(HTTP 307\)/);
+        expect(received).not.toContain('/internal');
+    });
+});
@@ -0,0 +1,100 @@
+import { DriftReport, DriftWebhookPayload } from './types';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Drift');
+
+// How long a webhook receiver gets to answer
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * Whether a check found anything to act on: a changed operation, or one that could no longer be regenerated.
+ */
+export function hasDrift(report: DriftReport): boolean {
+    return report.summary.changed > 0 || report.summary.failed > 0;
+}
+
+/**
+ * Renders a drift report as Markdown: a summary, a table of operations, and the changes of each
+ * changed operation, breaking ones first.
+ */
+export function renderDriftReport(report: DriftReport): string {
+    const { summary } = report;
+    const name = report.spec.title ? `${report.spec.title}${report.spec.version ? ` ${report.spec.version}` : ''}` : 'Untitled document';
+    const lines: string[] = [
+        `# Drift check: ${name}`,
+        '',
+        `Checked ${report.checked_at}. ${summary.operations} operation(s), ${summary.regenerated} regenerated: ` +
+            `${summary.changed} changed, ${summary.failed} failed; ${summary.breaking} breaking and ${summary.non_breaking} non-breaking change(s).`,
+        '',
+        '| Operation | Status | Breaking | Non-breaking | Stale excerpts | Unreadable sources |',
+        '| --- | --- | --- | --- | --- | --- |',
+        ...report.operations.map((operation) => {
+            const breaking = operation.changes.filter((change) => change.severity === 'breaking').length;
+            return `| \`${escapeCell(operation.operation)}\` | ${operation.status}${operation.regenerated ? '' : ' (not regenerated)'} | ` +
+                `${breaking} | ${operation.changes.length - breaking} | ${operation.stale_excerpts.length} | ${operation.unreadable_sources.length} |`;
+        }),
+    ];
+
+    for (const operation of report.operations) {
+        if (operation.status === 'unchanged') continue;
+        lines.push('', `## ${operation.operation}`, '');
+        if (operation.error) lines.push(`*   Regeneration failed: ${operation.error}`);
+        const ordered = [...operation.changes].sort((a, b) => Number(a.severity !== 'breaking') - Number(b.severity !== 'breaking'));
+        for (const change of ordered) {
+            lines.push(`*   **${change.severity === 'breaking' ? 'Breaking' : 'Non-breaking'}** (\`${change.kind}\`, \`${change.pointer}\`): ${change.message}`);
+        }
+        for (const excerpt of operation.stale_excerpts) lines.push(`*   No longer on its page: "${excerpt}"`);
+        for (const url of operation.unreadable_sources) lines.push(`*   Could not read ${url}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Builds the JSON body sent to a drift webhook.
+ */
+export function buildWebhookPayload(report: DriftReport): DriftWebhookPayload {
+    return {
+        event: 'spec.drift_detected',
+        spec: report.spec,
+        checked_at: report.checked_at,
+        breaking: report.summary.breaking > 0,
+        summary: report.summary,
+        changes: report.operations.flatMap(({ operation, changes }) => changes.map((change) => ({ operation, ...change }))),
+        failures: report.operations
+            .filter((operation) => operation.status === 'failed')
+            .map(({ operation, error }) => ({ operation, error: error ?? 'Regeneration failed' })),
+        run_id: report.metadata.run_id,
+    };
+}
+
+/**
+ * POSTs a drift report's webhook payload to a URL.
+ *
+ * @param url - The webhook URL.
+ * @param report - The report (see buildWebhookPayload for what is sent).
+ * @throws Throws an error if the request fails, times out, is redirected or gets a non-2xx response.
+ */
+export async function sendDriftWebhook(url: string, report: DriftReport): Promise<void> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(buildWebhookPayload(report)),
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+            // A redirect could point anywhere, including hosts the URL itself was checked against
+            redirect: 'manual',
+        });
+    } catch (error) {
+        throw new Error(`Drift webhook ${url} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (response.status >= 300 && response.status < 400) {
+        throw new Error(`Drift webhook ${url} redirected (HTTP ${response.status}); redirects are not followed`);
+    }
+    if (!response.ok) {
+        throw new Error(`Drift webhook ${url} responded with HTTP ${response.status}`);
+    }
+    log.info('Sent drift webhook', { url, changes: report.summary.breaking + report.summary.non_breaking });
+}
@@ -0,0 +1,115 @@
+import fs from 'fs';
+
+import { DriftConfig } from '../config';
+import { parseSpecText } from '../discovery/loadSpec';
+import { validateBaseDocument } from '../pipeline/runExtension';
+import { createLogger } from '../utils/logger';
+import { runDriftCheck } from '.';
+import { hasDrift, sendDriftWebhook } from './report';
+import { DriftReport } from './types';
+
+const log = createLogger('DriftScheduler');
+
+/**
+ * The latest scheduled check of one spec file. `report` is null until a check succeeds,
+ * and `webhook` says whether its findings were delivered (null when there was nothing to send).
+ */
+export interface ScheduledDriftCheck {
+    file: string;
+    status: 'pending' | 'running' | 'succeeded' | 'no_operations' | 'error';
+    checkedAt: string | null;
+    report: DriftReport | null;
+    error: string | null;
+    webhook: 'sent' | 'failed' | null;
+}
+
+function readSpecFile(file: string): Record<string, any> {
+    const document = parseSpecText(fs.readFileSync(file, 'utf8'));
+    const specError = validateBaseDocument(document);
+    if (specError) throw new Error(`${file}: ${specError}`);
+    return document as Record<string, any>;
+}
+
+/**
+ * Checks the configured spec files for drift on a fixed interval (see DRIFT_* environment variables),
+ * one file at a time, and posts each report with drift to the webhook. The file is re-read before every
+ * check, so a spec updated on disk is checked as updated. Results are kept in memory.
+ */
+export class DriftScheduler {
+    private readonly checks = new Map<string, ScheduledDriftCheck>();
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(private readonly config: DriftConfig) {
+        for (const file of config.specFiles) {
+            this.checks.set(file, { file, status: 'pending', checkedAt: null, report: null, error: null, webhook: null });
+        }
+    }
+
+    /**
+     * Runs a first round of checks now, then one every interval. The timer doesn't keep the process alive.
+     */
+    start(): void {
+        if (this.timer) return;
+        log.info('Scheduling drift checks', { files: this.config.specFiles, intervalHours: this.config.intervalHours });
+        this.timer = setInterval(() => void this.runAll(), this.config.intervalHours * 3600 * 1000);
+        this.timer.unref();
+        void this.runAll();
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Returns the latest check of every configured file.
+     */
+    list(): ScheduledDriftCheck[] {
+        return Array.from(this.checks.values());
+    }
+
+    /**
+     * Checks every file once. A round still running when the next one is due makes that one skip.
+     */
+    async runAll(): Promise<void> {
+        if (this.running) {
+            log.warn('Skipping scheduled drift checks: the previous round is still running');
+            return;
+        }
+        this.running = true;
+        try {
+            for (const file of this.config.specFiles) await this.check(file);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async check(file: string): Promise<void> {
+        const previous = this.checks.get(file)!;
+        this.checks.set(file, { ...previous, status: 'running' });
+        try {
+            const outcome = await runDriftCheck(readSpecFile(file));
+            const report = outcome.status === 'succeeded' ? outcome.report : null;
+            let webhook: ScheduledDriftCheck['webhook'] = null;
+            if (report && this.config.webhookUrl && hasDrift(report)) {
+                webhook = await sendDriftWebhook(this.config.webhookUrl, report).then(
+                    () => 'sent' as const,
+                    (error) => {
+                        log.error('Could not deliver drift webhook', { file, error });
+                        return 'failed' as const;
+                    }
+                );
+            }
+            this.checks.set(file, { file, status: outcome.status, checkedAt: new Date().toISOString(), report, error: null, webhook });
+        } catch (error) {
+            log.error('Scheduled drift check failed', { file, error });
+            this.checks.set(file, {
+                ...previous,
+                status: 'error',
+                checkedAt: new Date().toISOString(),
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+}
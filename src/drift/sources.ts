@@ -0,0 +1,86 @@
+import { normalizeForMatch, SourceReference } from '../pipeline/provenance';
+import { stripBoilerplate } from '../content';
+import { resolveJsonPointer } from '../utils/jsonPointer';
+import { OperationEntry } from '../utils/openapi';
+
+/**
+ * What today's documentation says about the excerpts an operation was generated from.
+ * `stale` lists the verified excerpts that are no longer on their page, and `checked` how many were looked for.
+ */
+export interface SourceCheck {
+    urls: string[];
+    unreadable: string[];
+    stale: string[];
+    checked: number;
+}
+
+/**
+ * Collects the `x-source` references in an operation: on the operation itself, its parameters, bodies,
+ * responses and schemas, including the components it `$ref`s.
+ *
+ * @param spec - The stored document.
+ * @param entry - The operation.
+ * @returns The references, in document order (duplicates included).
+ */
+export function collectSourceReferences(spec: Record<string, any>, entry: OperationEntry): SourceReference[] {
+    const references: SourceReference[] = [];
+    const seenRefs = new Set<string>();
+    const walk = (node: unknown) => {
+        if (Array.isArray(node)) {
+            node.forEach(walk);
+            return;
+        }
+        if (!node || typeof node !== 'object') return;
+        for (const [key, value] of Object.entries(node)) {
+            if (key === 'x-source' && Array.isArray(value)) {
+                references.push(...value.filter((reference): reference is SourceReference => typeof reference?.url === 'string'));
+            } else if (key === '$ref' && typeof value === 'string' && value.startsWith('#') && !seenRefs.has(value)) {
+                seenRefs.add(value);
+                walk(resolveJsonPointer(spec, value));
+            } else {
+                walk(value);
+            }
+        }
+    };
+    walk(entry.pathItem.parameters);
+    walk(entry.operation);
+    return references;
+}
+
+/**
+ * Re-reads an operation's source pages and looks for its verified excerpts on them. Excerpts the model
+ * paraphrased (`verified: false`) can't be looked for and are skipped.
+ *
+ * @param references - The operation's `x-source` references.
+ * @param extraUrls - Pages to check besides the referenced ones.
+ * @param readPage - Reads a page; resolves to null if it can't be read.
+ * @returns What was found.
+ */
+export async function checkSources(
+    references: SourceReference[],
+    extraUrls: string[],
+    readPage: (url: string) => Promise<string | null>
+): Promise<SourceCheck> {
+    const urls = Array.from(new Set([...references.map(({ url }) => url), ...extraUrls]));
+    const pages = new Map<string, string | null>();
+    for (const url of urls) {
+        const content = await readPage(url);
+        // Excerpts were taken from the page as the agent saw it, with site chrome stripped
+        pages.set(url, content === null ? null : normalizeForMatch(stripBoilerplate(content)));
+    }
+
+    const verified = references.filter((reference): reference is Required<SourceReference> => reference.verified === true && !!reference.excerpt);
+    const excerpts = Array.from(new Map(verified.map((reference) => [`${reference.url}\n${reference.excerpt}`, reference])).values());
+    const stale = excerpts
+        .filter(({ url, excerpt }) => {
+            const page = pages.get(url);
+            return typeof page === 'string' && !page.includes(normalizeForMatch(excerpt));
+        })
+        .map(({ excerpt }) => excerpt);
+    return {
+        urls,
+        unreadable: urls.filter((url) => pages.get(url) === null),
+        stale,
+        checked: excerpts.length,
+    };
+}
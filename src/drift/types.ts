@@ -0,0 +1,104 @@
+/**
+ * Whether a change can break existing clients of the API. Request schemas break clients when they
+ * accept less than before (narrowing); response schemas when they can return more than before (widening)
+ * or stop returning what clients read.
+ */
+export type ChangeSeverity = 'breaking' | 'non_breaking';
+
+export type DriftChangeKind =
+    | 'operation_removed'
+    | 'operation_deprecated'
+    | 'parameter_added'
+    | 'parameter_removed'
+    | 'parameter_required'
+    | 'parameter_optional'
+    | 'request_body_added'
+    | 'request_body_removed'
+    | 'request_body_required'
+    | 'request_body_optional'
+    | 'media_type_added'
+    | 'media_type_removed'
+    | 'response_added'
+    | 'response_removed'
+    | 'property_added'
+    | 'property_removed'
+    | 'property_required'
+    | 'property_optional'
+    | 'type_narrowed'
+    | 'type_widened'
+    | 'type_changed'
+    | 'enum_narrowed'
+    | 'enum_widened'
+    | 'constraint_narrowed'
+    | 'constraint_widened'
+    | 'schema_changed'
+    | 'security_added'
+    | 'security_changed';
+
+/**
+ * One semantic difference between the stored operation and the one regenerated from the documentation today.
+ * `pointer` is a JSON pointer into the stored spec: where the element is, or would go if it was added.
+ * Pointers below a `$ref` follow the reference from the operation (they are not into `components`).
+ */
+export interface DriftChange {
+    kind: DriftChangeKind;
+    severity: ChangeSeverity;
+    pointer: string;
+    message: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+/**
+ * The drift check of one stored operation.
+ * - `unchanged`: the documentation still backs the operation, or regenerating it gave an equivalent one.
+ * - `changed`: regenerating it gave a different operation; `changes` says how.
+ * - `failed`: the operation had to be regenerated, but regeneration failed (`error`).
+ * `sources` are the pages checked, `stale_excerpts` the stored `x-source` excerpts no longer found on them,
+ * and `unreadable_sources` the pages that couldn't be read. `regenerated` is false when the pages still
+ * contain every excerpt and the operation was left alone.
+ */
+export interface OperationDrift {
+    operation: string;
+    method: string;
+    path: string;
+    status: 'unchanged' | 'changed' | 'failed';
+    regenerated: boolean;
+    sources: string[];
+    unreadable_sources: string[];
+    stale_excerpts: string[];
+    changes: DriftChange[];
+    error: string | null;
+}
+
+/**
+ * The result of a drift check, as returned to API clients and written by the CLI.
+ */
+export interface DriftReport {
+    spec: { title: string | null; version: string | null };
+    checked_at: string;
+    operations: OperationDrift[];
+    summary: {
+        operations: number;
+        regenerated: number;
+        changed: number;
+        failed: number;
+        breaking: number;
+        non_breaking: number;
+    };
+    metadata: { run_id: string | null };
+}
+
+/**
+ * What a drift webhook receives: the report's summary and every change, flattened with its operation.
+ */
+export interface DriftWebhookPayload {
+    event: 'spec.drift_detected';
+    spec: DriftReport['spec'];
+    checked_at: string;
+    breaking: boolean;
+    summary: DriftReport['summary'];
+    changes: (DriftChange & { operation: string })[];
+    failures: { operation: string; error: string }[];
+    run_id: string | null;
+}
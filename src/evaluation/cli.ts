@@ -0,0 +1,38 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+import { loadDataset, renderMarkdownReport, runEvaluation } from '.';
+
+const USAGE = 'Usage: node dist/evaluation/cli.js <dataset.json> [--out <report path without extension>] [--alignment]';
+
+async function main(): Promise<number> {
+    dotenv.config();
+    const args = process.argv.slice(2);
+    const outIndex = args.indexOf('--out');
+    const out = outIndex !== -1 ? args[outIndex + 1] : 'evaluation-report';
+    const [datasetPath] = args.filter((arg, index) => !arg.startsWith('--') && (outIndex === -1 || index !== outIndex + 1));
+    if (!datasetPath || !out) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    const report = await runEvaluation(loadDataset(datasetPath), { alignment: args.includes('--alignment') });
+
+    fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+    fs.writeFileSync(`${out}.json`, JSON.stringify(report, null, 2) + '\n');
+    fs.writeFileSync(`${out}.md`, renderMarkdownReport(report));
+
+    const overall = report.summary.overall;
+    console.log(`\nEvaluated ${report.summary.cases} case(s): ${report.summary.succeeded} produced a spec, mean overall score ${overall === null ? '–' : overall.toFixed(2)}.`);
+    console.log(`Report written to ${out}.json and ${out}.md`);
+    return 0;
+}
+
+main().then(
+    (code) => process.exit(code),
+    (error) => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+);
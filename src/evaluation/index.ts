@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+
+import { GenerationOutcome, runGeneration } from '../pipeline/runGeneration';
+import { loadFixture, RecordedOutcome, replayFixture } from '../fixtures';
+import { evaluateAlignment } from '../tools/evaluateAlignment';
+import { getModel, resolveModelSpecs } from '../models';
+import { averageScores, compareSpecs } from './scoring';
+import { CaseReport, EvaluationCase, EvaluationDataset, EvaluationReport } from './types';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Evaluation');
+
+export { renderMarkdownReport } from './report';
+export { compareSpecs } from './scoring';
+export * from './types';
+
+export interface EvaluationOptions {
+    // Also ask the LLM alignment evaluator to score each generated spec (needs model access)
+    alignment?: boolean;
+}
+
+/**
+ * Reads a dataset file and resolves its reference and fixture paths relative to it.
+ * @throws Throws an error if the dataset or a reference can't be read, or a case is malformed.
+ */
+export function loadDataset(datasetPath: string): EvaluationDataset & { name: string } {
+    const baseDir = path.dirname(datasetPath);
+    const readJson = (file: string) => {
+        try {
+            return JSON.parse(fs.readFileSync(file, 'utf8'));
+        } catch (error) {
+            throw new Error(`Failed to read '${file}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    const dataset: EvaluationDataset = readJson(datasetPath);
+    if (!Array.isArray(dataset.cases)) throw new Error(`Dataset '${datasetPath}' has no 'cases' array.`);
+
+    const cases = dataset.cases.map((c, index) => {
+        if (!c.id || !c.query || !c.reference) {
+            throw new Error(`Dataset case ${index} must have 'id', 'query' and 'reference'.`);
+        }
+        return {
+            ...c,
+            reference: typeof c.reference === 'string' ? readJson(path.resolve(baseDir, c.reference)) : c.reference,
+            fixture: c.fixture ? path.resolve(baseDir, c.fixture) : undefined,
+        };
+    });
+    return { name: dataset.name ?? path.basename(datasetPath, '.json'), cases };
+}
+
+/**
+ * Runs (or replays) every case in a dataset, one at a time, and scores each generated spec
+ * against its reference.
+ *
+ * @param dataset - The dataset, with references already loaded (see loadDataset).
+ * @param options - Evaluation options.
+ * @returns A promise that resolves to the full report.
+ */
+export async function runEvaluation(dataset: EvaluationDataset & { name: string }, options: EvaluationOptions = {}): Promise<EvaluationReport> {
+    const cases: CaseReport[] = [];
+    for (const evaluationCase of dataset.cases) {
+        log.info('Running case', { case: evaluationCase.id });
+        cases.push(await evaluateCase(evaluationCase, options));
+    }
+
+    const scored = cases.filter((c) => c.scores !== null);
+    return {
+        dataset: dataset.name,
+        generatedAt: new Date().toISOString(),
+        models: resolveModelSpecs(),
+        summary: {
+            cases: cases.length,
+            succeeded: scored.length,
+            ...averageScores(scored.map((c) => c.scores!)),
+        },
+        cases,
+    };
+}
+
+async function evaluateCase(evaluationCase: EvaluationCase, options: EvaluationOptions): Promise<CaseReport> {
+    const started = Date.now();
+    let outcome: RecordedOutcome;
+    let fixtureMismatches: string[] = [];
+
+    if (evaluationCase.fixture) {
+        const replay = await replayFixture(loadFixture(evaluationCase.fixture));
+        outcome = replay.outcome;
+        fixtureMismatches = replay.mismatches;
+    } else {
+        try {
+            outcome = await runGeneration(evaluationCase.query, evaluationCase.options);
+        } catch (error) {
+            outcome = { status: 'error', error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    const report: CaseReport = {
+        id: evaluationCase.id,
+        query: evaluationCase.query,
+        status: outcome.status,
+        error: describeFailure(outcome),
+        fixtureMismatches,
+        scores: null,
+        operations: [],
+        extraOperations: [],
+        durationMs: 0,
+    };
+
+    if (outcome.status === 'succeeded') {
+        const spec = outcome.result.generated_spec;
+        const comparison = compareSpecs(evaluationCase.reference as Record<string, any>, spec);
+        report.scores = { ...comparison.scores, alignment: options.alignment ? await scoreAlignment(evaluationCase.query, spec) : null };
+        report.operations = comparison.operations;
+        report.extraOperations = comparison.extraOperations;
+    }
+
+    report.durationMs = Date.now() - started;
+    return report;
+}
+
+function describeFailure(outcome: RecordedOutcome | GenerationOutcome): string | null {
+    switch (outcome.status) {
+        case 'error': return outcome.error;
+        case 'failed': return outcome.failures.map((f) => `${f.operation}: ${f.error}`).join('; ');
+        // Outcomes recorded before refusals had a reason have no `refusal`
+        case 'not_openapi_request': return outcome.refusal?.explanation ?? 'The intent check decided the query is not asking for an API spec.';
+        case 'no_operations': return 'No operations were identified in the query.';
+        default: return null;
+    }
+}
+
+async function scoreAlignment(query: string, spec: Record<string, any>): Promise<number | null> {
+    try {
+        return (await evaluateAlignment(query, spec, getModel('alignment'))).score;
+    } catch (error) {
+        log.error('Alignment scoring failed', { error });
+        return null;
+    }
+}
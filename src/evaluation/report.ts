@@ -0,0 +1,73 @@
+import { EvaluationReport, EvaluationScores } from './types';
+
+const SCORE_COLUMNS: [keyof EvaluationScores, string][] = [
+    ['operationRecall', 'Op recall'],
+    ['operationPrecision', 'Op precision'],
+    ['parameterRecall', 'Param recall'],
+    ['parameterPrecision', 'Param precision'],
+    ['requestBodyOverlap', 'Body overlap'],
+    ['responseSchemaOverlap', 'Response overlap'],
+    ['overall', 'Overall'],
+    ['alignment', 'Alignment (0-5)'],
+];
+
+const formatScore = (value: number | null | undefined) => (value === null || value === undefined ? '–' : value.toFixed(2));
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * Renders an evaluation report as Markdown: a summary, a score table per case,
+ * and the differences found for each case.
+ */
+export function renderMarkdownReport(report: EvaluationReport): string {
+    const lines: string[] = [
+        `# Evaluation: ${report.dataset}`,
+        '',
+        `Generated ${report.generatedAt}. ${report.summary.succeeded}/${report.summary.cases} case(s) produced a spec.`,
+        '',
+        '## Models',
+        '',
+        ...Object.entries(report.models).map(([stage, spec]) => `*   \`${stage}\`: \`${spec}\``),
+        '',
+        '## Summary',
+        '',
+        '| Metric | Mean |',
+        '| --- | --- |',
+        ...SCORE_COLUMNS.map(([key, label]) => `| ${label} | ${formatScore(report.summary[key])} |`),
+        '',
+        '## Cases',
+        '',
+        `| Case | Status | ${SCORE_COLUMNS.map(([, label]) => label).join(' | ')} |`,
+        `| --- | --- | ${SCORE_COLUMNS.map(() => '---').join(' | ')} |`,
+        ...report.cases.map((c) =>
+            `| ${escapeCell(c.id)} | ${c.status} | ${SCORE_COLUMNS.map(([key]) => formatScore(c.scores?.[key])).join(' | ')} |`),
+    ];
+
+    for (const c of report.cases) {
+        const details: string[] = [];
+        if (c.error) details.push(`*   Error: ${c.error}`);
+        for (const mismatch of c.fixtureMismatches) details.push(`*   Fixture mismatch: ${mismatch.split('\n')[0]}`);
+        for (const operation of c.operations) {
+            const name = `\`${operation.method.toUpperCase()} ${operation.path}\``;
+            if (operation.generatedPath === null) {
+                details.push(`*   ${name}: not generated`);
+                continue;
+            }
+            const problems = [
+                operation.missingParameters.length ? `missing parameters ${operation.missingParameters.join(', ')}` : '',
+                operation.extraParameters.length ? `extra parameters ${operation.extraParameters.join(', ')}` : '',
+                operation.typeMismatches.length ? `type mismatches (${operation.typeMismatches.join('; ')})` : '',
+                operation.missingResponses.length ? `missing responses ${operation.missingResponses.join(', ')}` : '',
+                operation.requestBodyOverlap !== null && operation.requestBodyOverlap < 1 ? `request body overlap ${formatScore(operation.requestBodyOverlap)}` : '',
+                operation.responseSchemaOverlap !== null && operation.responseSchemaOverlap < 1 ? `response schema overlap ${formatScore(operation.responseSchemaOverlap)}` : '',
+            ].filter(Boolean);
+            if (problems.length) details.push(`*   ${name}: ${problems.join('; ')}`);
+        }
+        for (const extra of c.extraOperations) details.push(`*   \`${extra}\`: not in the reference`);
+
+        if (details.length === 0) continue;
+        lines.push('', `### ${c.id}`, '', `> ${escapeCell(c.query)}`, '', ...details);
+    }
+
+    return lines.join('\n') + '\n';
+}
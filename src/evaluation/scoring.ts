@@ -0,0 +1,214 @@
+import { resolveJsonPointer } from '../utils/jsonPointer';
+import { effectiveParameters, listOperations, normalizePathTemplate, OperationEntry, pathTemplateNames } from '../utils/openapi';
+import { EvaluationScores, OperationComparison } from './types';
+
+// Nesting depth at which schemas stop being flattened (guards against very deep or recursive schemas)
+const MAX_SCHEMA_DEPTH = 8;
+
+export interface SpecComparison {
+    scores: Omit<EvaluationScores, 'alignment'>;
+    operations: OperationComparison[];
+    extraOperations: string[];
+}
+
+const ratio = (part: number, whole: number) => (whole === 0 ? null : part / whole);
+
+const mean = (values: (number | null)[]) => {
+    const present = values.filter((v): v is number => v !== null);
+    return present.length === 0 ? null : present.reduce((sum, v) => sum + v, 0) / present.length;
+};
+
+/**
+ * Jaccard similarity of two field sets. Two empty sets (e.g. bodies without schemas) are identical.
+ */
+const overlap = (a: Set<string>, b: Set<string>) => {
+    const union = new Set([...a, ...b]);
+    if (union.size === 0) return 1;
+    return Array.from(a).filter((field) => b.has(field)).length / union.size;
+};
+
+const operationKey = ({ method, path }: OperationEntry) => `${method} ${normalizePathTemplate(path).toLowerCase()}`;
+
+const describeOperation = ({ method, path }: OperationEntry) => `${method.toUpperCase()} ${path}`;
+
+/**
+ * Returns an operation's parameters keyed by `in:name` (path parameters by template position),
+ * each with its schema type.
+ */
+function parameterMap(spec: Record<string, any>, entry: OperationEntry): Map<string, string | undefined> {
+    const templateNames = pathTemplateNames(entry.path);
+    const parameters = new Map<string, string | undefined>();
+    for (const { parameter } of effectiveParameters(spec, entry)) {
+        const position = templateNames.indexOf(parameter.name);
+        const key = parameter.in === 'path' && position !== -1
+            ? `path:{${position}}`
+            : `${parameter.in}:${String(parameter.name).toLowerCase()}`;
+        const schema = parameter.schema?.$ref ? resolveJsonPointer(spec, parameter.schema.$ref) as any : parameter.schema;
+        parameters.set(key, schema?.type);
+    }
+    return parameters;
+}
+
+/**
+ * Flattens a schema into the set of field paths it defines (`amount`, `metadata.key`, `items[].id`),
+ * following `$ref`s and merging `allOf`/`oneOf`/`anyOf` members.
+ */
+function schemaFields(spec: Record<string, any>, schema: any): Set<string> {
+    const fields = new Set<string>();
+    const walk = (node: any, prefix: string, depth: number, seenRefs: Set<string>) => {
+        if (!node || typeof node !== 'object' || depth > MAX_SCHEMA_DEPTH) return;
+        if (typeof node.$ref === 'string') {
+            if (seenRefs.has(node.$ref)) return;
+            walk(resolveJsonPointer(spec, node.$ref), prefix, depth, new Set([...seenRefs, node.$ref]));
+            return;
+        }
+        for (const [name, property] of Object.entries<any>(node.properties ?? {})) {
+            const field = prefix ? `${prefix}.${name}` : name;
+            fields.add(field);
+            walk(property, field, depth + 1, seenRefs);
+        }
+        if (node.items) walk(node.items, `${prefix}[]`, depth + 1, seenRefs);
+        for (const key of ['allOf', 'oneOf', 'anyOf']) {
+            for (const member of node[key] ?? []) walk(member, prefix, depth, seenRefs);
+        }
+    };
+    walk(schema, '', 0, new Set());
+    return fields;
+}
+
+/**
+ * Returns the schema of a request body or response: the JSON media type's if there is one, else the first.
+ */
+function contentSchema(spec: Record<string, any>, holder: any): any {
+    const resolved = holder?.$ref ? resolveJsonPointer(spec, holder.$ref) as any : holder;
+    const content = resolved?.content ?? {};
+    const mediaType = Object.keys(content).find((type) => /json/i.test(type)) ?? Object.keys(content)[0];
+    return mediaType ? content[mediaType]?.schema : undefined;
+}
+
+function compareOperation(
+    reference: Record<string, any>,
+    referenceEntry: OperationEntry,
+    generated: Record<string, any>,
+    generatedEntry: OperationEntry | undefined
+): OperationComparison & { matchedParameters: number; referenceParameters: number; generatedParameters: number } {
+    const referenceParameters = parameterMap(reference, referenceEntry);
+    const referenceResponses = Object.keys(referenceEntry.operation.responses ?? {});
+    const base = {
+        method: referenceEntry.method,
+        path: referenceEntry.path,
+        referenceParameters: referenceParameters.size,
+    };
+
+    if (!generatedEntry) {
+        return {
+            ...base,
+            generatedPath: null,
+            parameterRecall: ratio(0, referenceParameters.size),
+            parameterPrecision: null,
+            missingParameters: Array.from(referenceParameters.keys()),
+            extraParameters: [],
+            typeMismatches: [],
+            requestBodyOverlap: referenceEntry.operation.requestBody ? 0 : null,
+            responseSchemaOverlap: referenceResponses.length > 0 ? 0 : null,
+            missingResponses: referenceResponses,
+            matchedParameters: 0,
+            generatedParameters: 0,
+        };
+    }
+
+    const generatedParameters = parameterMap(generated, generatedEntry);
+    const matched = Array.from(referenceParameters.keys()).filter((key) => generatedParameters.has(key));
+    const typeMismatches = matched
+        .filter((key) => referenceParameters.get(key) && referenceParameters.get(key) !== generatedParameters.get(key))
+        .map((key) => `${key}: expected ${referenceParameters.get(key)}, got ${generatedParameters.get(key) ?? 'no type'}`);
+
+    const requestBodyOverlap = referenceEntry.operation.requestBody
+        ? (generatedEntry.operation.requestBody
+            ? overlap(
+                schemaFields(reference, contentSchema(reference, referenceEntry.operation.requestBody)),
+                schemaFields(generated, contentSchema(generated, generatedEntry.operation.requestBody)))
+            : 0)
+        : null;
+
+    const generatedResponses = generatedEntry.operation.responses ?? {};
+    const responseOverlaps = referenceResponses.map((code) => generatedResponses[code]
+        ? overlap(
+            schemaFields(reference, contentSchema(reference, referenceEntry.operation.responses[code])),
+            schemaFields(generated, contentSchema(generated, generatedResponses[code])))
+        : 0);
+
+    return {
+        ...base,
+        generatedPath: generatedEntry.path,
+        parameterRecall: ratio(matched.length, referenceParameters.size),
+        parameterPrecision: ratio(matched.length, generatedParameters.size),
+        missingParameters: Array.from(referenceParameters.keys()).filter((key) => !generatedParameters.has(key)),
+        extraParameters: Array.from(generatedParameters.keys()).filter((key) => !referenceParameters.has(key)),
+        typeMismatches,
+        requestBodyOverlap,
+        responseSchemaOverlap: mean(responseOverlaps),
+        missingResponses: referenceResponses.filter((code) => !generatedResponses[code]),
+        matchedParameters: matched.length,
+        generatedParameters: generatedParameters.size,
+    };
+}
+
+/**
+ * Compares a generated spec with a reference spec, operation by operation.
+ * Operations match on method and path (ignoring path parameter names and case).
+ * Parameter recall/precision are pooled over all operations; request body and response overlaps
+ * are the Jaccard similarity of the schemas' field paths, averaged over reference operations
+ * (a missing operation, body or response status code scores 0).
+ *
+ * @param reference - The golden OpenAPI document.
+ * @param generated - The generated OpenAPI document.
+ * @returns Scores plus per-operation details.
+ */
+export function compareSpecs(reference: Record<string, any>, generated: Record<string, any>): SpecComparison {
+    const referenceOperations = listOperations(reference);
+    const generatedOperations = listOperations(generated);
+    const generatedByKey = new Map(generatedOperations.map((entry) => [operationKey(entry), entry]));
+    const referenceKeys = new Set(referenceOperations.map(operationKey));
+
+    const comparisons = referenceOperations.map((entry) =>
+        compareOperation(reference, entry, generated, generatedByKey.get(operationKey(entry))));
+    const extraOperations = generatedOperations.filter((entry) => !referenceKeys.has(operationKey(entry)));
+    const matchedOperations = comparisons.filter((c) => c.generatedPath !== null).length;
+
+    const sum = (pick: (c: typeof comparisons[number]) => number) => comparisons.reduce((total, c) => total + pick(c), 0);
+    // Parameters of operations that don't match any reference operation are all extra
+    const extraOperationParameters = extraOperations.reduce((total, entry) => total + parameterMap(generated, entry).size, 0);
+
+    const scores = {
+        operationRecall: ratio(matchedOperations, referenceOperations.length),
+        operationPrecision: ratio(matchedOperations, generatedOperations.length),
+        parameterRecall: ratio(sum((c) => c.matchedParameters), sum((c) => c.referenceParameters)),
+        parameterPrecision: ratio(sum((c) => c.matchedParameters), sum((c) => c.generatedParameters) + extraOperationParameters),
+        requestBodyOverlap: mean(comparisons.map((c) => c.requestBodyOverlap)),
+        responseSchemaOverlap: mean(comparisons.map((c) => c.responseSchemaOverlap)),
+    };
+
+    return {
+        scores: { ...scores, overall: mean(Object.values(scores)) },
+        operations: comparisons.map(({ matchedParameters, referenceParameters, generatedParameters, ...comparison }) => comparison),
+        extraOperations: extraOperations.map(describeOperation),
+    };
+}
+
+/**
+ * Averages each score over the cases that have it.
+ */
+export function averageScores(scores: EvaluationScores[]): EvaluationScores {
+    const average = (key: keyof EvaluationScores) => mean(scores.map((s) => s[key]));
+    return {
+        operationRecall: average('operationRecall'),
+        operationPrecision: average('operationPrecision'),
+        parameterRecall: average('parameterRecall'),
+        parameterPrecision: average('parameterPrecision'),
+        requestBodyOverlap: average('requestBodyOverlap'),
+        responseSchemaOverlap: average('responseSchemaOverlap'),
+        overall: average('overall'),
+        alignment: average('alignment'),
+    };
+}
@@ -0,0 +1,74 @@
+import { ModelSpec, ModelStage } from '../config';
+import { GenerationOptions } from '../pipeline/runGeneration';
+
+/**
+ * One query to evaluate and the spec it should produce.
+ * `reference` is an OpenAPI document, or a path to one (relative to the dataset file).
+ * `fixture` optionally names a recorded run (see src/fixtures) to replay instead of running live.
+ */
+export interface EvaluationCase {
+    id: string;
+    query: string;
+    reference: string | Record<string, any>;
+    fixture?: string;
+    options?: GenerationOptions;
+}
+
+export interface EvaluationDataset {
+    name?: string;
+    cases: EvaluationCase[];
+}
+
+/**
+ * How one reference operation compares with the matching generated operation.
+ * Parameters are identified as `in:name`; path parameters by position (`path:{0}`), since
+ * `/refunds/{id}` and `/refunds/{refund}` are the same operation.
+ */
+export interface OperationComparison {
+    method: string;
+    path: string;
+    generatedPath: string | null;
+    parameterRecall: number | null;
+    parameterPrecision: number | null;
+    missingParameters: string[];
+    extraParameters: string[];
+    typeMismatches: string[];
+    requestBodyOverlap: number | null;
+    responseSchemaOverlap: number | null;
+    missingResponses: string[];
+}
+
+/**
+ * Structural scores between 0 and 1 (alignment is the LLM evaluator's 0-5 score).
+ * A score is null when it doesn't apply, e.g. parameter recall for a reference without parameters.
+ */
+export interface EvaluationScores {
+    operationRecall: number | null;
+    operationPrecision: number | null;
+    parameterRecall: number | null;
+    parameterPrecision: number | null;
+    requestBodyOverlap: number | null;
+    responseSchemaOverlap: number | null;
+    overall: number | null;
+    alignment: number | null;
+}
+
+export interface CaseReport {
+    id: string;
+    query: string;
+    status: string;
+    error: string | null;
+    fixtureMismatches: string[];
+    scores: EvaluationScores | null;
+    operations: OperationComparison[];
+    extraOperations: string[];
+    durationMs: number;
+}
+
+export interface EvaluationReport {
+    dataset: string;
+    generatedAt: string;
+    models: Record<ModelStage, ModelSpec>;
+    summary: EvaluationScores & { cases: number; succeeded: number };
+    cases: CaseReport[];
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseCurlCommands } from './curl';
+
+describe('parseCurlCommands', () => {
+    it('parses a quoted command split over lines', () => {
+        const [exchange] = parseCurlCommands(`$ curl -X POST 'https://api.example.com/v1/refunds?expand[]=charge' \\
+    -H "Content-Type: application/json" \\
+    -H 'Authorization: Bearer sk_test_123' \\
+    -d '{"charge": "ch_123", "note": "it'"'"'s a \\"duplicate\\""}'`);
+
+        expect(exchange).toEqual({
+            source: 'curl #1',
+            method: 'post',
+            origin: 'https://api.example.com',
+            segments: ['v1', 'refunds'],
+            query: [{ name: 'expand[]', value: 'charge' }],
+            headers: [{ name: 'Content-Type', value: 'application/json' }, { name: 'Authorization', value: 'Bearer <redacted>' }],
+            authentication: ['HTTP Bearer (Authorization header)'],
+            requestBody: { contentType: 'application/json', example: { charge: 'ch_123', note: 'it\'s a "duplicate"' } },
+            response: null,
+        });
+    });
+
+    it('treats -d and --data-raw as form data unless the body is JSON', () => {
+        const [form, raw, json] = parseCurlCommands([
+            'curl https://api.example.com/v1/refunds -d charge=ch_123 -d amount=100',
+            "curl https://api.example.com/v1/refunds --data-raw 'charge=ch_123&reason=duplicate'",
+            `curl https://api.example.com/v1/refunds --data-raw '{"charge":"ch_123"}'`,
+        ].join('\n'));
+
+        expect(form.method).toBe('post');
+        expect(form.requestBody).toEqual({ contentType: 'application/x-www-form-urlencoded', example: { charge: 'ch_123', amount: '100' } });
+        expect(raw.requestBody).toEqual({ contentType: 'application/x-www-form-urlencoded', example: { charge: 'ch_123', reason: 'duplicate' } });
+        expect(json.requestBody).toEqual({ contentType: 'application/json', example: { charge: 'ch_123' } });
+    });
+
+    it('reads -d @file from a file but takes --data-raw @ literally', () => {
+        const [file, raw] = parseCurlCommands([
+            'curl https://api.example.com/v1/refunds -H "Content-Type: application/json" -d @refund.json',
+            "curl https://api.example.com/v1/notes --data-raw '@support: refund approved'",
+        ].join('\n'));
+
+        expect(file.requestBody).toEqual({ contentType: 'application/json', example: '(read from a file)' });
+        expect(raw.requestBody).toEqual({ contentType: 'text/plain', example: '@support: refund approved' });
+    });
+
+    it('puts -G data in the query and understands bundled short options', () => {
+        const [exchange] = parseCurlCommands('curl -sSG https://api.example.com/v1/refunds -d limit=3 -XGET');
+
+        expect(exchange.method).toBe('get');
+        expect(exchange.query).toEqual([{ name: 'limit', value: '3' }]);
+        expect(exchange.requestBody).toBeNull();
+    });
+
+    it('ignores text that is not a curl command', () => {
+        expect(parseCurlCommands('# Refund a charge\necho done && curl https://api.example.com/v1/refunds/re_1')).toEqual([
+            expect.objectContaining({ source: 'curl #1', method: 'get', segments: ['v1', 'refunds', 're_1'] }),
+        ]);
+    });
+
+    it('rejects malformed commands', () => {
+        expect(() => parseCurlCommands("curl 'https://api.example.com/v1/refunds", 'runbook.sh')).toThrow('runbook.sh: unterminated single quote');
+        expect(() => parseCurlCommands('curl -X POST -H "Accept: */*"', 'runbook.sh')).toThrow('runbook.sh #1: no URL');
+        expect(() => parseCurlCommands('curl https://api.example.com -H', 'runbook.sh')).toThrow('runbook.sh #1: -H needs a value');
+    });
+});
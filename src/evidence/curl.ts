@@ -0,0 +1,246 @@
+import { detectAuthentication, formFieldsToObject, headerValue, parseBody, parseQueryString, redact, splitUrl } from './http';
+import { NameValue, ObservedExchange } from './types';
+
+// Separates commands; kept as tokens so one artifact can hold several curl commands
+const SEPARATOR = Symbol('separator');
+
+type Token = string | typeof SEPARATOR;
+
+// Short options that take a value (e.g. -X POST, -XPOST)
+const SHORT_WITH_VALUE = new Set(['X', 'H', 'd', 'F', 'u', 'o', 'A', 'e', 'b', 'c', 'D', 'E', 'K', 'm', 'r', 'T', 'w', 'x', 'y', 'Y', 'z', 'P', 'Q', 'U']);
+
+// Long options that take a value and don't affect the request description
+const LONG_WITH_IGNORED_VALUE = new Set(['--output', '--write-out', '--max-time', '--connect-timeout', '--retry', '--retry-delay', '--retry-max-time',
+    '--proxy', '--proxy-user', '--config', '--cert', '--cacert', '--capath', '--key', '--key-type', '--cert-type', '--cookie-jar', '--dump-header',
+    '--range', '--resolve', '--connect-to', '--limit-rate', '--interface', '--local-port', '--max-filesize', '--max-redirs', '--trace',
+    '--trace-ascii', '--stderr', '--speed-limit', '--speed-time', '--time-cond', '--upload-file', '--unix-socket', '--aws-sigv4', '--oauth2-bearer']);
+
+/**
+ * Splits shell text into words, honouring single quotes, double quotes, `$'...'` strings, backslash escapes and
+ * line continuations. Newlines, `;`, `&&`, `||` and `|` become separators; `#` starts a comment.
+ */
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let word: string | null = null;
+    const push = () => {
+        if (word !== null) tokens.push(word);
+        word = null;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\' && (text[i + 1] === '\n' || (text[i + 1] === '\r' && text[i + 2] === '\n'))) {
+            i += text[i + 1] === '\r' ? 2 : 1;
+            continue;
+        }
+        if (char === '\n' || char === ';' || char === '|' || (char === '&' && text[i + 1] === '&')) {
+            push();
+            tokens.push(SEPARATOR);
+            if ((char === '&' || char === '|') && text[i + 1] === char) i++;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            push();
+            continue;
+        }
+        if (char === '#' && word === null) {
+            while (i + 1 < text.length && text[i + 1] !== '\n') i++;
+            continue;
+        }
+        if (char === "'") {
+            const end = text.indexOf("'", i + 1);
+            if (end === -1) throw new Error('unterminated single quote');
+            word = (word ?? '') + text.slice(i + 1, end);
+            i = end;
+            continue;
+        }
+        if (char === '$' && text[i + 1] === "'") {
+            let value = '';
+            for (i += 2; i < text.length && text[i] !== "'"; i++) {
+                if (text[i] === '\\' && i + 1 < text.length) {
+                    const escaped = text[++i];
+                    value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped === 'r' ? '\r' : escaped;
+                } else {
+                    value += text[i];
+                }
+            }
+            if (i >= text.length) throw new Error("unterminated $' quote");
+            word = (word ?? '') + value;
+            continue;
+        }
+        if (char === '"') {
+            let value = '';
+            for (i++; i < text.length && text[i] !== '"'; i++) {
+                if (text[i] === '\\' && i + 1 < text.length && '"\\$`\n'.includes(text[i + 1])) {
+                    if (text[i + 1] !== '\n') value += text[i + 1];
+                    i++;
+                } else {
+                    value += text[i];
+                }
+            }
+            if (i >= text.length) throw new Error('unterminated double quote');
+            word = (word ?? '') + value;
+            continue;
+        }
+        if (char === '\\' && i + 1 < text.length) {
+            word = (word ?? '') + text[++i];
+            continue;
+        }
+        word = (word ?? '') + char;
+    }
+    push();
+    return tokens;
+}
+
+/**
+ * Splits tokens into commands and keeps those that run curl (after an optional `$ ` prompt,
+ * environment assignments or `sudo`).
+ */
+function curlCommands(tokens: Token[]): string[][] {
+    const commands: string[][] = [];
+    let current: string[] = [];
+    for (const token of [...tokens, SEPARATOR]) {
+        if (typeof token === 'string') {
+            current.push(token);
+            continue;
+        }
+        const start = current.findIndex((word) => !/^(\$|>|sudo|[A-Za-z_]\w*=.*)$/.test(word));
+        if (start !== -1 && /(^|\/)curl(\.exe)?$/.test(current[start])) commands.push(current.slice(start + 1));
+        current = [];
+    }
+    return commands;
+}
+
+function parseCommand(args: string[], source: string): ObservedExchange {
+    let method: string | null = null;
+    let url: string | null = null;
+    let getMode = false;
+    const headers: NameValue[] = [];
+    const data: string[] = [];
+    // Set when -d and friends read the body from a file (`@file`); --data-raw takes `@` literally
+    let dataFromFile = false;
+    const form: (NameValue & { file?: boolean })[] = [];
+    let jsonData = false;
+
+    const next = (i: number, flag: string) => {
+        if (i + 1 >= args.length) throw new Error(`${source}: ${flag} needs a value`);
+        return args[i + 1];
+    };
+    const addHeader = (header: string) => {
+        const separator = header.indexOf(':');
+        if (separator > 0) headers.push({ name: header.slice(0, separator).trim(), value: header.slice(separator + 1).trim() });
+    };
+    const addForm = (field: string, literal: boolean) => {
+        const separator = field.indexOf('=');
+        if (separator <= 0) return;
+        const value = field.slice(separator + 1);
+        const file = !literal && value.startsWith('@');
+        form.push({ name: field.slice(0, separator), value: file ? value.slice(1) : value.replace(/^</, ''), file });
+    };
+    const apply = (flag: string, value: string) => {
+        switch (flag) {
+            case 'X': case '--request': method = value.toUpperCase(); break;
+            case 'H': case '--header': addHeader(value); break;
+            case 'd': case '--data': case '--data-ascii': case '--data-binary':
+                data.push(value);
+                if (value.startsWith('@')) dataFromFile = true;
+                break;
+            case '--data-raw': data.push(value); break;
+            case '--json': data.push(value); jsonData = true; break;
+            case '--data-urlencode': {
+                const separator = value.indexOf('=');
+                data.push(separator === -1 ? encodeURIComponent(value) : `${value.slice(0, separator)}=${encodeURIComponent(value.slice(separator + 1))}`);
+                break;
+            }
+            case 'F': case '--form': addForm(value, false); break;
+            case '--form-string': addForm(value, true); break;
+            case 'u': case '--user': headers.push({ name: 'Authorization', value: 'Basic <credentials>' }); break;
+            case 'A': case '--user-agent': headers.push({ name: 'User-Agent', value }); break;
+            case 'e': case '--referer': headers.push({ name: 'Referer', value }); break;
+            case 'b': case '--cookie': if (value.includes('=')) headers.push({ name: 'Cookie', value }); break;
+            case '--url': url ??= value; break;
+            case 'T': case '--upload-file': method ??= 'PUT'; break;
+            case '--oauth2-bearer': headers.push({ name: 'Authorization', value: 'Bearer <token>' }); break;
+        }
+    };
+
+    const valueFlags = new Set(['--request', '--header', '--data', '--data-raw', '--data-ascii', '--data-binary', '--json', '--data-urlencode', '--form',
+        '--form-string', '--user', '--user-agent', '--referer', '--cookie', '--url', ...LONG_WITH_IGNORED_VALUE]);
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg.startsWith('--')) {
+            const [flag, inline] = arg.includes('=') && valueFlags.has(arg.slice(0, arg.indexOf('='))) ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+            if (flag === '--get') getMode = true;
+            else if (flag === '--head') method = 'HEAD';
+            else if (valueFlags.has(flag)) {
+                const value = inline ?? next(i, flag);
+                if (inline === undefined) i++;
+                apply(flag, value);
+            }
+            continue;
+        }
+        if (arg.startsWith('-') && arg.length > 1) {
+            // Bundled short options: -sSL, -XPOST, -sX POST
+            for (let j = 1; j < arg.length; j++) {
+                const letter = arg[j];
+                if (letter === 'G') getMode = true;
+                else if (letter === 'I') method = 'HEAD';
+                else if (SHORT_WITH_VALUE.has(letter)) {
+                    const attached = arg.slice(j + 1);
+                    apply(letter, attached || next(i, `-${letter}`));
+                    if (!attached) i++;
+                    break;
+                }
+            }
+            continue;
+        }
+        url ??= arg;
+    }
+    if (!url) throw new Error(`${source}: no URL`);
+
+    const { origin, segments, query } = splitUrl(url);
+    let body = null;
+    const contentType = headerValue(headers, 'content-type') ?? (jsonData ? 'application/json' : null);
+    if (getMode) {
+        query.push(...parseQueryString(data.join('&')));
+    } else if (form.length > 0) {
+        body = { contentType: 'multipart/form-data', example: formFieldsToObject(form) };
+    } else if (data.length > 0) {
+        body = dataFromFile
+            ? { contentType: contentType ?? 'application/octet-stream', example: '(read from a file)' }
+            : parseBody(contentType, data.join(jsonData ? '' : '&'));
+    }
+
+    return {
+        source,
+        method: (method ?? (getMode ? 'GET' : body ? 'POST' : 'GET')).toLowerCase(),
+        origin,
+        segments,
+        query: query.map(redact),
+        headers: headers.map(redact),
+        authentication: detectAuthentication(headers, query),
+        requestBody: body,
+        response: null,
+    };
+}
+
+/**
+ * Parses the curl commands in a text (a runbook snippet, a shell script, "Copy as cURL" output).
+ * Understands the options that shape the request (-X, -H, -d and its variants, --json, -F, -G, -u, --url, ...)
+ * and skips the others. Text that isn't a curl command is ignored.
+ * Without a Content-Type header, data that parses as a JSON object or array is taken as JSON, not form data.
+ *
+ * @param text - The commands.
+ * @param label - Names the artifact in each exchange's `source`, e.g. "curl" gives "curl #1", "curl #2", ...
+ * @returns One exchange per curl command.
+ * @throws Throws an error if the text has unbalanced quotes or a command has no URL.
+ */
+export function parseCurlCommands(text: string, label = 'curl'): ObservedExchange[] {
+    let tokens: Token[];
+    try {
+        tokens = tokenize(text);
+    } catch (error) {
+        throw new Error(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return curlCommands(tokens).map((args, i) => parseCommand(args, `${label} #${i + 1}`));
+}
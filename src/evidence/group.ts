@@ -0,0 +1,151 @@
+import { isIgnoredRequestHeader } from './http';
+import { inferScalarSchema, inferSchema } from './inferSchema';
+import { NameValue, ObservedExchange, ObservedOperation, ObservedParameter } from './types';
+
+// Distinct example values kept per parameter
+const MAX_EXAMPLES = 3;
+
+const FORM_TYPES = new Set(['application/x-www-form-urlencoded', 'multipart/form-data']);
+
+/**
+ * Whether an observed path segment is an identifier rather than a fixed part of the path: a number, a UUID,
+ * a long hex string, a prefixed identifier (`re_3MtwBw`, `cus-12ab`), or a long token mixing letters and digits.
+ */
+function isIdentifier(segment: string): boolean {
+    return /^\d+$/.test(segment)
+        || /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment)
+        || /^[0-9a-f]{16,}$/i.test(segment)
+        || /^[a-z]{1,6}[_-](?=[A-Za-z0-9]*\d)[A-Za-z0-9]{6,}$/.test(segment)
+        || (segment.length >= 16 && /\d/.test(segment) && /[A-Za-z]/.test(segment) && /^[\w-]+$/.test(segment));
+}
+
+const singular = (word: string) => word
+    .replace(/ies$/, 'y')
+    .replace(/(ss|sh|ch|x)es$/, '$1')
+    .replace(/([^s])s$/, '$1');
+
+const camelWord = (word: string) => word
+    .replace(/[^A-Za-z0-9]+(.)/g, (_, char: string) => char.toUpperCase())
+    .replace(/^[^A-Za-z]+/, '');
+
+/**
+ * Turns observed segments into a path template: placeholders stay, identifiers become `{<resource>Id}` named after
+ * the segment before them (`/refunds/re_123` gives `/refunds/{refundId}`), or `{id}`.
+ */
+function pathTemplate(segments: string[]): { path: string; parameters: { name: string; value: string | null }[] } {
+    const used = new Set<string>();
+    const parameters: { name: string; value: string | null }[] = [];
+    const templated = segments.map((segment, i) => {
+        const placeholder = segment.match(/^\{(.+)\}$/);
+        if (!placeholder && !isIdentifier(segment)) return segment;
+        let name = placeholder?.[1];
+        if (!name) {
+            const previous = i > 0 && !/^\{.+\}$/.test(segments[i - 1]) ? camelWord(singular(segments[i - 1])) : '';
+            name = previous ? `${previous}Id` : 'id';
+        }
+        for (let n = 2; used.has(name); n++) name = `${name.replace(/\d+$/, '')}${n}`;
+        used.add(name);
+        parameters.push({ name, value: placeholder ? null : segment });
+        return `{${name}}`;
+    });
+    return { path: `/${templated.join('/')}`, parameters };
+}
+
+function mergeParameters(perExchange: NameValue[][], total: number): ObservedParameter[] {
+    const values = new Map<string, string[]>();
+    const counts = new Map<string, number>();
+    for (const parameters of perExchange) {
+        const seen = new Set<string>();
+        for (const { name, value } of parameters) {
+            values.set(name, [...(values.get(name) ?? []), value]);
+            if (!seen.has(name)) counts.set(name, (counts.get(name) ?? 0) + 1);
+            seen.add(name);
+        }
+    }
+    return Array.from(values.entries()).map(([name, observed]) => ({
+        name,
+        schema: inferScalarSchema(observed),
+        required: counts.get(name) === total,
+        examples: Array.from(new Set(observed.filter((value) => value !== ''))).slice(0, MAX_EXAMPLES),
+    }));
+}
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+/**
+ * Merges exchanges with the same method and path template into observed operations, inferring parameter types
+ * and body schemas from everything seen. The result is deterministic: operations are ordered by path, then method.
+ *
+ * @param exchanges - Exchanges parsed from any number of artifacts.
+ * @returns The operations, with ids E1, E2, ...
+ */
+export function groupExchanges(exchanges: ObservedExchange[]): ObservedOperation[] {
+    const groups = new Map<string, { method: string; path: string; exchanges: ObservedExchange[]; pathValues: (string | null)[][] }>();
+    for (const exchange of exchanges) {
+        const { path, parameters } = pathTemplate(exchange.segments);
+        // Placeholders named differently in different artifacts still describe the same operation
+        const key = `${exchange.method} ${path.replace(/\{[^}]+\}/g, '{}')}`;
+        const group = groups.get(key) ?? { method: exchange.method, path, exchanges: [], pathValues: [] };
+        group.exchanges.push(exchange);
+        group.pathValues.push(parameters.map((parameter) => parameter.value));
+        groups.set(key, group);
+    }
+
+    const sorted = Array.from(groups.values()).sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+    return sorted.map((group, i) => {
+        const total = group.exchanges.length;
+        const pathNames = (group.path.match(/\{[^}]+\}/g) ?? []).map((placeholder) => placeholder.slice(1, -1));
+
+        const requestBodies = new Map<string, unknown[]>();
+        const responses = new Map<string, { contentType: string | null; headers: Set<string>; examples: unknown[] }>();
+        for (const exchange of group.exchanges) {
+            if (exchange.requestBody) {
+                const { contentType, example } = exchange.requestBody;
+                requestBodies.set(contentType, [...(requestBodies.get(contentType) ?? []), example]);
+            }
+            if (exchange.response) {
+                const contentType = exchange.response.body?.contentType ?? null;
+                const key = `${exchange.response.status} ${contentType ?? ''}`;
+                const response = responses.get(key) ?? { contentType, headers: new Set<string>(), examples: [] };
+                exchange.response.headers.forEach((header) => response.headers.add(header.name));
+                if (exchange.response.body) response.examples.push(exchange.response.body.example);
+                responses.set(key, response);
+            }
+        }
+
+        return {
+            id: `E${i + 1}`,
+            method: group.method,
+            path: group.path,
+            servers: unique(group.exchanges.map((exchange) => exchange.origin).filter((origin): origin is string => origin !== null)),
+            pathParameters: pathNames.map((name, position) => {
+                const observed = group.pathValues.map((values) => values[position]).filter((value): value is string => typeof value === 'string');
+                return {
+                    name,
+                    schema: observed.length > 0 ? inferScalarSchema(observed) : { type: 'string' },
+                    required: true,
+                    examples: unique(observed).slice(0, MAX_EXAMPLES),
+                };
+            }),
+            queryParameters: mergeParameters(group.exchanges.map((exchange) => exchange.query), total),
+            headerParameters: mergeParameters(group.exchanges.map((exchange) => exchange.headers.filter((header) =>
+                !isIgnoredRequestHeader(header.name) && !exchange.authentication.some((auth) => auth.endsWith(`header ${header.name}`)))), total),
+            authentication: unique(group.exchanges.flatMap((exchange) => exchange.authentication)),
+            requestBodies: Array.from(requestBodies.entries()).map(([contentType, examples]) => ({
+                contentType,
+                schema: inferSchema(examples, FORM_TYPES.has(contentType)),
+                example: examples[0],
+            })),
+            responses: Array.from(responses.entries())
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([key, response]) => ({
+                    status: key.split(' ')[0],
+                    contentType: response.contentType,
+                    headers: Array.from(response.headers),
+                    schema: response.examples.length > 0 ? inferSchema(response.examples) : null,
+                    example: response.examples[0] ?? null,
+                })),
+            sources: group.exchanges.map((exchange) => exchange.source),
+        };
+    });
+}
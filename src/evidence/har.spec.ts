@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseHar } from './har';
+
+const entry = (request: Record<string, any>, response: Record<string, any>) => ({
+    request: { headers: [], queryString: [], ...request },
+    response: { status: 200, headers: [], content: { mimeType: 'application/json' }, ...response },
+});
+
+describe('parseHar', () => {
+    it('parses API calls, including entries without request or response bodies', () => {
+        const har = {
+            log: {
+                entries: [
+                    entry(
+                        { method: 'GET', url: 'https://api.example.com/v1/refunds/re_123?expand=charge', headers: [{ name: 'X-Api-Key', value: 'sk_live_1' }] },
+                        { content: { mimeType: 'application/json', text: '{"id":"re_123","amount":100}' } },
+                    ),
+                    entry(
+                        { method: 'POST', url: 'https://api.example.com/v1/refunds', postData: { mimeType: 'application/x-www-form-urlencoded', params: [{ name: 'charge', value: 'ch_123' }] } },
+                        { content: { mimeType: 'application/json', text: Buffer.from('{"id":"re_124"}').toString('base64'), encoding: 'base64' } },
+                    ),
+                    entry({ method: 'DELETE', url: 'https://api.example.com/v1/refunds/re_124' }, { status: 204, content: { mimeType: '', size: 0 } }),
+                ],
+            },
+        };
+
+        const [retrieve, create, remove] = parseHar(JSON.stringify(har), 'traffic.har');
+
+        expect(retrieve).toEqual({
+            source: 'traffic.har entry 1',
+            method: 'get',
+            origin: 'https://api.example.com',
+            segments: ['v1', 'refunds', 're_123'],
+            query: [{ name: 'expand', value: 'charge' }],
+            headers: [{ name: 'X-Api-Key', value: '<redacted>' }],
+            authentication: ['API key in header X-Api-Key'],
+            requestBody: null,
+            response: { status: 200, headers: [], body: { contentType: 'application/json', example: { id: 're_123', amount: 100 } } },
+        });
+        expect(create.requestBody).toEqual({ contentType: 'application/x-www-form-urlencoded', example: { charge: 'ch_123' } });
+        expect(create.response?.body).toEqual({ contentType: 'application/json', example: { id: 're_124' } });
+        expect(remove).toMatchObject({ method: 'delete', requestBody: null, response: { status: 204, body: null } });
+    });
+
+    it('skips pages, assets, CORS preflights and requests that got no response', () => {
+        const har = {
+            log: {
+                entries: [
+                    entry({ method: 'GET', url: 'https://app.example.com/dashboard' }, { content: { mimeType: 'text/html', text: '<html></html>' } }),
+                    entry({ method: 'GET', url: 'https://app.example.com/logo.png' }, { content: { mimeType: 'image/png' } }),
+                    entry({ method: 'OPTIONS', url: 'https://api.example.com/v1/refunds', headers: [{ name: 'Access-Control-Request-Method', value: 'POST' }] }, { status: 204 }),
+                    entry({ method: 'POST', url: 'https://api.example.com/v1/refunds' }, { status: 0 }),
+                    { request: { method: 'GET' } },
+                    entry({ method: 'GET', url: 'https://api.example.com/v1/refunds' }, {}),
+                ],
+            },
+        };
+
+        expect(parseHar(har).map(({ source, method }) => `${source} ${method}`)).toEqual(['har entry 6 get']);
+    });
+
+    it('rejects documents that are not HAR files', () => {
+        expect(() => parseHar('{"log": ', 'traffic.har')).toThrow('traffic.har: not valid JSON');
+        expect(() => parseHar({ log: {} }, 'traffic.har')).toThrow('traffic.har: not a HAR file (no log.entries)');
+    });
+});
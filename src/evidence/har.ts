@@ -0,0 +1,79 @@
+import { detectAuthentication, formFieldsToObject, headerValue, isIgnoredResponseHeader, parseBody, redact, splitUrl } from './http';
+import { NameValue, ObservedBody, ObservedExchange } from './types';
+
+// Responses that are pages and assets rather than API calls
+const ASSET_TYPES = /^(text\/(html|css|javascript)|application\/(javascript|x-javascript|wasm|font-\w+)|image\/|font\/|audio\/|video\/)/i;
+
+const nameValues = (list: unknown): NameValue[] => (Array.isArray(list) ? list : [])
+    .filter((item) => item && typeof item.name === 'string')
+    .map((item) => ({ name: item.name, value: String(item.value ?? '') }));
+
+function requestBody(postData: any, headers: NameValue[]): ObservedBody | null {
+    if (!postData) return null;
+    const contentType = postData.mimeType || headerValue(headers, 'content-type');
+    if (Array.isArray(postData.params) && postData.params.length > 0 && !postData.text) {
+        const fields = postData.params.map((param: any) => ({ name: String(param.name), value: String(param.value ?? ''), file: Boolean(param.fileName) }));
+        return { contentType: (contentType || 'application/x-www-form-urlencoded').split(';')[0].trim(), example: formFieldsToObject(fields) };
+    }
+    return parseBody(contentType, postData.text);
+}
+
+function responseBody(content: any): ObservedBody | null {
+    if (!content?.text) return null;
+    const text = content.encoding === 'base64' ? Buffer.from(content.text, 'base64').toString('utf8') : content.text;
+    return parseBody(content.mimeType || null, text);
+}
+
+/**
+ * Parses the API calls in a HAR (HTTP Archive) file, as exported by browser developer tools or proxies.
+ * Pages, scripts, styles, images and fonts, CORS preflight requests and requests that got no response are skipped.
+ *
+ * @param har - The HAR document, as JSON text or parsed.
+ * @param label - Names the artifact in each exchange's `source`, e.g. "traffic.har entry 3".
+ * @returns One exchange per API call, in the order recorded.
+ * @throws Throws an error if the document isn't a HAR file.
+ */
+export function parseHar(har: string | Record<string, any>, label = 'har'): ObservedExchange[] {
+    let document: any = har;
+    if (typeof har === 'string') {
+        try {
+            document = JSON.parse(har);
+        } catch (error) {
+            throw new Error(`${label}: not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    const entries = document?.log?.entries;
+    if (!Array.isArray(entries)) throw new Error(`${label}: not a HAR file (no log.entries)`);
+
+    const exchanges: ObservedExchange[] = [];
+    entries.forEach((entry: any, i: number) => {
+        const { request, response } = entry ?? {};
+        if (typeof request?.url !== 'string' || typeof request?.method !== 'string') return;
+        const headers = nameValues(request.headers);
+        const method = request.method.toLowerCase();
+        if (method === 'options' && headerValue(headers, 'access-control-request-method')) return;
+        const status = Number(response?.status);
+        if (!status) return;
+        const mimeType = response?.content?.mimeType ?? '';
+        if (ASSET_TYPES.test(mimeType) && !request.postData) return;
+
+        const { origin, segments, query: urlQuery } = splitUrl(request.url);
+        const query = Array.isArray(request.queryString) && request.queryString.length > 0 ? nameValues(request.queryString) : urlQuery;
+        exchanges.push({
+            source: `${label} entry ${i + 1}`,
+            method,
+            origin,
+            segments,
+            query: query.map(redact),
+            headers: headers.map(redact),
+            authentication: detectAuthentication(headers, query),
+            requestBody: requestBody(request.postData, headers),
+            response: {
+                status,
+                headers: nameValues(response.headers).filter((header) => !isIgnoredResponseHeader(header.name)).map(redact),
+                body: responseBody(response.content),
+            },
+        });
+    });
+    return exchanges;
+}
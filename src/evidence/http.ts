@@ -0,0 +1,207 @@
+import { NameValue, ObservedBody } from './types';
+
+export const REDACTED = '<redacted>';
+
+// Request headers that say nothing about the API itself (or are described elsewhere, like authentication)
+const IGNORED_REQUEST_HEADERS = new Set(['accept', 'accept-encoding', 'accept-language', 'authorization', 'cache-control', 'connection',
+    'content-length', 'content-type', 'cookie', 'dnt', 'host', 'if-modified-since', 'if-none-match', 'origin', 'postman-token', 'pragma',
+    'priority', 'proxy-authorization', 'referer', 'te', 'upgrade-insecure-requests', 'user-agent', 'x-requested-with']);
+
+// Response headers added by servers, proxies and CDNs rather than documented by the API
+const IGNORED_RESPONSE_HEADERS = new Set(['accept-ranges', 'age', 'alt-svc', 'cache-control', 'connection', 'content-encoding', 'content-length',
+    'content-security-policy', 'content-type', 'date', 'etag', 'expires', 'keep-alive', 'last-modified', 'nel', 'pragma', 'referrer-policy',
+    'report-to', 'server', 'set-cookie', 'strict-transport-security', 'transfer-encoding', 'vary', 'via', 'x-content-type-options',
+    'x-frame-options', 'x-powered-by', 'x-xss-protection']);
+
+// Names of credentials, but not of ordinary parameters such as Idempotency-Key or page_token
+const SECRET_NAME = /^key$|api[-_]?key|^(x-)?(access|auth|api|id|refresh|session)?[-_]?token$|secret|passw(or)?d|signature|credentials?/i;
+
+const FILE_PLACEHOLDER = '<file>';
+
+export const isIgnoredRequestHeader = (name: string) => {
+    const lower = name.toLowerCase();
+    return IGNORED_REQUEST_HEADERS.has(lower) || lower.startsWith('sec-') || lower.startsWith(':');
+};
+
+export const isIgnoredResponseHeader = (name: string) => {
+    const lower = name.toLowerCase();
+    return IGNORED_RESPONSE_HEADERS.has(lower) || lower.startsWith('access-control-') || lower.startsWith('cf-') || lower.startsWith(':');
+};
+
+/**
+ * Whether a header, query parameter or body field name suggests a credential.
+ */
+export const isSecretName = (name: string) => SECRET_NAME.test(name);
+
+/**
+ * Lists the authentication a request uses, from its headers and query parameters (values are never included).
+ */
+export function detectAuthentication(headers: NameValue[], query: NameValue[]): string[] {
+    const found: string[] = [];
+    for (const { name, value } of headers) {
+        const lower = name.toLowerCase();
+        if (lower === 'authorization') {
+            const scheme = value.trim().split(/\s+/)[0];
+            found.push(/^(bearer|basic|digest)$/i.test(scheme)
+                ? `HTTP ${scheme[0].toUpperCase()}${scheme.slice(1).toLowerCase()} (Authorization header)`
+                : `Authorization header (scheme '${scheme}')`);
+        } else if (lower === 'cookie') {
+            found.push(`Cookie (${value.split(';').map((c) => c.split('=')[0].trim()).filter(Boolean).join(', ')})`);
+        } else if (isSecretName(name)) {
+            found.push(`API key in header ${name}`);
+        }
+    }
+    for (const { name } of query) {
+        if (isSecretName(name)) found.push(`API key in query parameter ${name}`);
+    }
+    return found;
+}
+
+/**
+ * Replaces the value of credential-like headers and parameters; an Authorization header keeps its scheme.
+ */
+export function redact({ name, value }: NameValue): NameValue {
+    const lower = name.toLowerCase();
+    if (lower === 'authorization' || lower === 'proxy-authorization') {
+        const [scheme, ...rest] = value.trim().split(/\s+/);
+        return { name, value: rest.length > 0 ? `${scheme} ${REDACTED}` : REDACTED };
+    }
+    if (lower === 'cookie' || lower === 'set-cookie' || isSecretName(name)) return { name, value: REDACTED };
+    return { name, value };
+}
+
+/**
+ * Redacts credential-like fields anywhere in a parsed body.
+ */
+export function redactExample(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(redactExample);
+    if (value === null || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.entries(value).map(([key, child]) =>
+        [key, isSecretName(key) && (typeof child === 'string' || typeof child === 'number') ? REDACTED : redactExample(child)]));
+}
+
+const toCamelCase = (name: string) => {
+    const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const camel = words.map((word, i) => {
+        const lower = /^[A-Z0-9]+$/.test(word) ? word.toLowerCase() : word;
+        return i === 0 ? lower[0].toLowerCase() + lower.slice(1) : lower[0].toUpperCase() + lower.slice(1);
+    }).join('');
+    return camel || 'id';
+};
+
+/**
+ * The parameter name of a placeholder path segment (`:id`, `{id}`, `{{id}}`, `<id>`, `$ID`, `${USER_ID}`), or null.
+ */
+export function placeholderName(segment: string): string | null {
+    const match = segment.match(/^(?::([A-Za-z_]\w*)|\{\{\s*([\w.-]+)\s*\}\}|\{([\w.-]+)\}|<([\w.-]+)>|\$\{?([A-Za-z_]\w*)\}?)$/);
+    if (!match) return null;
+    const name = match.slice(1).find(Boolean)!;
+    return match[5] ? toCamelCase(name) : name;
+}
+
+const decode = (text: string) => {
+    try {
+        return decodeURIComponent(text.replace(/\+/g, ' '));
+    } catch {
+        return text;
+    }
+};
+
+/**
+ * Splits a URL as written in an artifact. Placeholders are kept intact (a URL parser would escape them),
+ * and an origin that is itself a variable (`{{baseUrl}}/refunds`) is reported as unknown.
+ */
+export function splitUrl(raw: string): { origin: string | null; segments: string[]; query: NameValue[] } {
+    let rest = raw.trim().replace(/#.*$/, '');
+    let origin: string | null = null;
+    const withScheme = rest.match(/^([a-z][a-z0-9+.-]*:\/\/[^/?]*)(.*)$/i);
+    if (withScheme) {
+        [, origin, rest] = withScheme;
+        if (/[{}$<>]/.test(origin)) origin = null;
+        else origin = origin.toLowerCase();
+    } else if (/^\{\{[^}]+\}\}/.test(rest)) {
+        rest = rest.replace(/^\{\{[^}]+\}\}/, '');
+    } else if (!rest.startsWith('/')) {
+        // curl assumes http:// for a bare host
+        const [host] = rest.split(/[/?]/);
+        origin = /[{}$<>]/.test(host) ? null : `http://${host.toLowerCase()}`;
+        rest = rest.slice(host.length);
+    }
+
+    const queryStart = rest.indexOf('?');
+    const path = queryStart === -1 ? rest : rest.slice(0, queryStart);
+    const queryString = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+    return {
+        origin,
+        segments: path.split('/').filter(Boolean).map((segment) => {
+            const name = placeholderName(segment);
+            return name ? `{${name}}` : decode(segment);
+        }),
+        query: parseQueryString(queryString),
+    };
+}
+
+export function parseQueryString(queryString: string): NameValue[] {
+    return queryString.split('&').filter(Boolean).map((pair) => {
+        const separator = pair.indexOf('=');
+        return separator === -1
+            ? { name: decode(pair), value: '' }
+            : { name: decode(pair.slice(0, separator)), value: decode(pair.slice(separator + 1)) };
+    });
+}
+
+const isJsonType = (contentType: string) => /[/+]json\b/i.test(contentType);
+
+/**
+ * Turns form fields into an object; repeated fields become arrays. File fields get a placeholder value
+ * and credential-like fields are redacted.
+ */
+export function formFieldsToObject(fields: (NameValue & { file?: boolean })[]): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    for (const { name, value, file } of fields) {
+        const fieldValue = file ? FILE_PLACEHOLDER : isSecretName(name) ? REDACTED : value;
+        if (!(name in object)) object[name] = fieldValue;
+        else object[name] = Array.isArray(object[name]) ? [...(object[name] as unknown[]), fieldValue] : [object[name], fieldValue];
+    }
+    return object;
+}
+
+export const isFilePlaceholder = (value: unknown) => value === FILE_PLACEHOLDER;
+
+/**
+ * Parses a body by content type. Without a content type, a body that parses as a JSON object or array is JSON
+ * and anything else is form data when it looks like `a=1&b=2`.
+ *
+ * @returns The body, or null if the text is empty.
+ */
+export function parseBody(contentType: string | null, text: string | undefined): ObservedBody | null {
+    if (text === undefined || text.trim() === '') return null;
+    let type = contentType?.split(';')[0].trim().toLowerCase() || '';
+    if (!type) {
+        try {
+            const parsed = JSON.parse(text);
+            if (parsed && typeof parsed === 'object') return { contentType: 'application/json', example: redactExample(parsed) };
+        } catch {
+            // Not JSON
+        }
+        type = /^[^=&\s]+=[^&]*(&[^=&\s]+=[^&]*)*$/.test(text.trim()) ? 'application/x-www-form-urlencoded' : 'text/plain';
+    }
+
+    if (isJsonType(type)) {
+        try {
+            return { contentType: type, example: redactExample(JSON.parse(text)) };
+        } catch {
+            return { contentType: type, example: text };
+        }
+    }
+    if (type === 'application/x-www-form-urlencoded') {
+        return { contentType: type, example: formFieldsToObject(parseQueryString(text.trim())) };
+    }
+    return { contentType: type, example: text };
+}
+
+/**
+ * Finds a header by case-insensitive name.
+ */
+export const headerValue = (headers: NameValue[], name: string) =>
+    headers.find((header) => header.name.toLowerCase() === name.toLowerCase())?.value ?? null;
@@ -0,0 +1,134 @@
+import { parseCurlCommands } from './curl';
+import { groupExchanges } from './group';
+import { parseHar } from './har';
+import { parsePostmanCollection } from './postman';
+import { EVIDENCE_TYPES, EvidenceInput, EvidenceType, ObservedExchange, ObservedOperation, ObservedParameter } from './types';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Evidence');
+
+export * from './types';
+
+// Query used when a request sends evidence without one
+export const DEFAULT_EVIDENCE_QUERY = 'Document every operation observed in the evidence.';
+
+// Longest example body quoted in prompts, in characters
+const MAX_EXAMPLE_LENGTH = 1500;
+
+/**
+ * Checks the shape of the `evidence` request field: a non-empty array of `{ type, content, name? }`.
+ *
+ * @returns An error message, or null if the value is valid.
+ */
+export function validateEvidenceInputs(value: unknown): string | null {
+    if (!Array.isArray(value) || value.length === 0) return 'expected a non-empty array of { type, content } objects';
+    for (const [i, input] of value.entries()) {
+        if (input === null || typeof input !== 'object' || Array.isArray(input)) return `item ${i}: expected an object`;
+        if (!EVIDENCE_TYPES.includes(input.type)) return `item ${i}: 'type' must be one of ${EVIDENCE_TYPES.join(', ')}`;
+        const contentIsText = typeof input.content === 'string' && input.content.trim() !== '';
+        const contentIsObject = input.content !== null && typeof input.content === 'object' && !Array.isArray(input.content);
+        if (!contentIsText && !(contentIsObject && input.type !== 'curl')) {
+            return `item ${i}: 'content' must be ${input.type === 'curl' ? 'the commands as text' : 'the document as JSON text or an object'}`;
+        }
+        if (input.name !== undefined && typeof input.name !== 'string') return `item ${i}: 'name' must be a string`;
+    }
+    return null;
+}
+
+/**
+ * Guesses the type of an evidence file from its name and content: `.har` or a `log.entries` document is HAR,
+ * a document with an `item` list or a Postman `info.schema` is a Postman collection, anything else is curl commands.
+ */
+export function detectEvidenceType(fileName: string, content: string): EvidenceType {
+    if (/\.har$/i.test(fileName)) return 'har';
+    try {
+        const document = JSON.parse(content);
+        if (Array.isArray(document?.log?.entries)) return 'har';
+        if (Array.isArray(document?.item) || /getpostman\.com/.test(String(document?.info?.schema ?? ''))) return 'postman';
+    } catch {
+        // Not JSON
+    }
+    return 'curl';
+}
+
+/**
+ * Parses evidence artifacts and merges what they show into observed operations.
+ * Parsing is deterministic and doesn't use a model; credentials are redacted.
+ *
+ * @param inputs - The artifacts, as validated by validateEvidenceInputs.
+ * @returns The observed operations, with ids E1, E2, ...
+ * @throws Throws an error naming the artifact if one can't be parsed or contains no requests.
+ */
+export function parseEvidence(inputs: EvidenceInput[]): ObservedOperation[] {
+    const exchanges: ObservedExchange[] = [];
+    inputs.forEach((input, i) => {
+        const label = input.name || `${input.type} evidence ${i + 1}`;
+        let parsed: ObservedExchange[];
+        switch (input.type) {
+            case 'curl':
+                parsed = parseCurlCommands(String(input.content), label);
+                break;
+            case 'har':
+                parsed = parseHar(input.content, label);
+                break;
+            case 'postman':
+                parsed = parsePostmanCollection(input.content, label);
+                break;
+        }
+        if (parsed.length === 0) throw new Error(`${label}: no API requests found`);
+        exchanges.push(...parsed);
+    });
+    const operations = groupExchanges(exchanges);
+    log.info('Parsed evidence', { artifacts: inputs.length, requests: exchanges.length, operations: operations.length });
+    return operations;
+}
+
+const quote = (example: unknown) => {
+    const text = typeof example === 'string' ? example : JSON.stringify(example, null, 2);
+    return text.length > MAX_EXAMPLE_LENGTH ? `${text.slice(0, MAX_EXAMPLE_LENGTH)}\n... (truncated)` : text;
+};
+
+const describeParameters = (kind: string, parameters: ObservedParameter[]) => parameters.map((parameter) =>
+    `- ${kind} \`${parameter.name}\` (${parameter.schema.type}${parameter.schema.format ? `, ${parameter.schema.format}` : ''}`
+    + `${parameter.required ? ', sent in every request' : ', optional'})`
+    + `${parameter.examples.length > 0 ? `: ${parameter.examples.map((example) => `\`${example}\``).join(', ')}` : ''}`);
+
+/**
+ * One line per observed operation ("E1: POST /v1/refunds (2 requests)"), for listing evidence in prompts.
+ */
+export function summarizeEvidence(operations: ObservedOperation[]): string {
+    return operations.map((operation) =>
+        `${operation.id}: ${operation.method.toUpperCase()} ${operation.path} (${operation.sources.length} request${operation.sources.length === 1 ? '' : 's'})`).join('\n');
+}
+
+/**
+ * Describes observed operations as Markdown for the gathering and generation prompts: servers, parameters,
+ * authentication, and each body's inferred schema with an example.
+ */
+export function describeEvidence(operations: ObservedOperation[]): string {
+    return operations.map((operation) => {
+        const lines = [`### ${operation.id}: ${operation.method.toUpperCase()} ${operation.path}`, `Observed in: ${operation.sources.join(', ')}`];
+        if (operation.servers.length > 0) lines.push(`Servers: ${operation.servers.join(', ')}`);
+        if (operation.authentication.length > 0) lines.push(`Authentication: ${operation.authentication.join('; ')}`);
+        const parameters = [
+            ...describeParameters('path', operation.pathParameters),
+            ...describeParameters('query', operation.queryParameters),
+            ...describeParameters('header', operation.headerParameters),
+        ];
+        if (parameters.length > 0) lines.push('Parameters:', ...parameters);
+        for (const body of operation.requestBodies) {
+            lines.push(`Request body (${body.contentType}), inferred schema:`, '```json', JSON.stringify(body.schema, null, 2), '```',
+                'Example:', '```', quote(body.example), '```');
+        }
+        for (const response of operation.responses) {
+            const headers = response.headers.length > 0 ? `; headers: ${response.headers.join(', ')}` : '';
+            if (response.schema === null) {
+                lines.push(`Response ${response.status} (no body${headers})`);
+                continue;
+            }
+            lines.push(`Response ${response.status} (${response.contentType}${headers}), inferred schema:`, '```json', JSON.stringify(response.schema, null, 2), '```',
+                'Example:', '```', quote(response.example), '```');
+        }
+        return lines.join('\n');
+    }).join('\n\n');
+}
@@ -0,0 +1,93 @@
+import { isFilePlaceholder, REDACTED } from './http';
+
+// Nesting depth at which inference stops (guards against very deep bodies)
+const MAX_DEPTH = 12;
+
+const STRING_FORMATS: [string, RegExp][] = [
+    ['date-time', /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/],
+    ['date', /^\d{4}-\d{2}-\d{2}$/],
+    ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+    ['email', /^[^@\s]+@[^@\s]+\.[a-z]{2,}$/i],
+    ['uri', /^https?:\/\/\S+$/i],
+];
+
+const typeOf = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+};
+
+/**
+ * Infers the type of values that are always strings on the wire (query, header and form parameters):
+ * integer, number or boolean when every value reads as one, string otherwise.
+ */
+export function inferScalarSchema(values: string[]): Record<string, any> {
+    const present = values.filter((value) => value !== '' && value !== REDACTED);
+    if (present.length > 0 && present.every((value) => /^-?\d+$/.test(value))) return { type: 'integer' };
+    if (present.length > 0 && present.every((value) => /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value))) return { type: 'number' };
+    if (present.length > 0 && present.every((value) => value === 'true' || value === 'false')) return { type: 'boolean' };
+    const schema: Record<string, any> = { type: 'string' };
+    const format = STRING_FORMATS.find(([, pattern]) => present.length > 0 && present.every((value) => pattern.test(value)));
+    if (format) schema.format = format[0];
+    return schema;
+}
+
+/**
+ * Infers an OpenAPI 3.0 schema that every sample conforms to: object properties are the union of the keys seen,
+ * `required` those present in every sample, array items are inferred from all elements, and a null sample
+ * makes the schema nullable. Strings get a format when every sample matches one (date-time, date, uuid, email, uri).
+ * With `formValues`, string samples that read as numbers or booleans are typed as such (form and query data).
+ *
+ * @param samples - The parsed bodies (or values) observed at the same place.
+ * @returns The schema; `{}` when there are no samples.
+ */
+export function inferSchema(samples: unknown[], formValues = false, depth = 0): Record<string, any> {
+    const present = samples.filter((sample) => sample !== undefined);
+    const nonNull = present.filter((sample) => sample !== null);
+    if (nonNull.length === 0) return present.length > 0 ? { nullable: true } : {};
+    if (depth >= MAX_DEPTH) return {};
+
+    const byType = new Map<string, unknown[]>();
+    for (const sample of nonNull) {
+        const type = typeOf(sample);
+        byType.set(type, [...(byType.get(type) ?? []), sample]);
+    }
+    // Integers are numbers too
+    if (byType.has('integer') && byType.has('number')) {
+        byType.set('number', [...byType.get('number')!, ...byType.get('integer')!]);
+        byType.delete('integer');
+    }
+
+    const schemas = Array.from(byType.entries()).map(([type, values]) => inferTyped(type, values, formValues, depth));
+    const schema: Record<string, any> = schemas.length === 1 ? schemas[0] : { oneOf: schemas };
+    if (present.length > nonNull.length) schema.nullable = true;
+    return schema;
+}
+
+function inferTyped(type: string, values: unknown[], formValues: boolean, depth: number): Record<string, any> {
+    switch (type) {
+        case 'object': {
+            const objects = values as Record<string, unknown>[];
+            const keys = Array.from(new Set(objects.flatMap((object) => Object.keys(object))));
+            const schema: Record<string, any> = { type: 'object' };
+            if (keys.length === 0) return schema;
+            schema.properties = Object.fromEntries(keys.map((key) =>
+                [key, inferSchema(objects.map((object) => object[key]), formValues, depth + 1)]));
+            const required = keys.filter((key) => objects.every((object) => object[key] !== undefined));
+            if (required.length > 0) schema.required = required;
+            return schema;
+        }
+        case 'array':
+            return { type: 'array', items: inferSchema((values as unknown[][]).flat(), formValues, depth + 1) };
+        case 'string': {
+            const strings = values as string[];
+            if (strings.some(isFilePlaceholder)) return { type: 'string', format: 'binary' };
+            const schema = inferScalarSchema(strings);
+            // In JSON, a string that reads as a number is still a string
+            return formValues || schema.type === 'string' ? schema : { type: 'string' };
+        }
+        default:
+            return { type };
+    }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import { parsePostmanCollection } from './postman';
+
+const COLLECTION = {
+    info: { name: 'Payments', schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json' },
+    variable: [{ key: 'baseUrl', value: 'https://api.example.com' }],
+    auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+    item: [
+        {
+            name: 'Refunds',
+            item: [
+                {
+                    name: 'Create a refund',
+                    request: {
+                        method: 'POST',
+                        header: [{ key: 'Content-Type', value: 'application/json' }, { key: 'X-Debug', value: '1', disabled: true }],
+                        url: { raw: '{{baseUrl}}/v1/refunds' },
+                        body: { mode: 'raw', raw: '{"charge":"ch_123"}' },
+                    },
+                    response: [{
+                        name: 'Created',
+                        code: 200,
+                        header: [{ key: 'Content-Type', value: 'application/json' }, { key: 'Request-Id', value: 'req_1' }],
+                        body: '{"id":"re_123"}',
+                    }],
+                },
+                {
+                    name: 'Admin',
+                    auth: { type: 'apikey', apikey: [{ key: 'key', value: 'api_key' }, { key: 'in', value: 'query' }] },
+                    item: [{ name: 'Retrieve a refund', request: { method: 'GET', url: '{{baseUrl}}/v1/refunds/:refund' } }],
+                },
+            ],
+        },
+        { name: 'Health', request: '{{baseUrl}}/health' },
+    ],
+};
+
+describe('parsePostmanCollection', () => {
+    it('walks nested folders, resolves variables and inherits authentication', () => {
+        const [create, retrieve, health] = parsePostmanCollection(JSON.stringify(COLLECTION), 'payments.json');
+
+        expect(create).toEqual({
+            source: 'payments.json: Refunds / Create a refund',
+            method: 'post',
+            origin: 'https://api.example.com',
+            segments: ['v1', 'refunds'],
+            query: [],
+            headers: [{ name: 'Content-Type', value: 'application/json' }, { name: 'Authorization', value: 'Bearer <redacted>' }],
+            authentication: ['HTTP Bearer (Authorization header)'],
+            requestBody: { contentType: 'application/json', example: { charge: 'ch_123' } },
+            response: {
+                status: 200,
+                headers: [{ name: 'Request-Id', value: 'req_1' }],
+                body: { contentType: 'application/json', example: { id: 're_123' } },
+            },
+        });
+        // The folder's API key replaces the collection's bearer token
+        expect(retrieve).toMatchObject({
+            source: 'payments.json: Refunds / Admin / Retrieve a refund',
+            method: 'get',
+            segments: ['v1', 'refunds', '{refund}'],
+            authentication: ['API key in query parameter api_key'],
+            response: null,
+        });
+        expect(health).toMatchObject({ source: 'payments.json: Health', method: 'get', segments: ['health'] });
+    });
+
+    it('rejects documents that are not v2 collections', () => {
+        expect(() => parsePostmanCollection('not json', 'payments.json')).toThrow('payments.json: not valid JSON');
+        expect(() => parsePostmanCollection({ requests: [] }, 'payments.json')).toThrow('Postman collection format v1 is not supported');
+        expect(() => parsePostmanCollection({ info: {} }, 'payments.json')).toThrow('payments.json: not a Postman collection (no item list)');
+    });
+});
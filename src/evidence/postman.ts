@@ -0,0 +1,156 @@
+import { detectAuthentication, formFieldsToObject, headerValue, isIgnoredResponseHeader, parseBody, redact, splitUrl } from './http';
+import { NameValue, ObservedBody, ObservedExchange } from './types';
+
+const RAW_LANGUAGE_TYPES: Record<string, string> = {
+    json: 'application/json',
+    xml: 'application/xml',
+    html: 'text/html',
+    javascript: 'application/javascript',
+    text: 'text/plain',
+};
+
+const keyValues = (list: unknown): NameValue[] => (Array.isArray(list) ? list : [])
+    .filter((item) => item && typeof item.key === 'string' && !item.disabled)
+    .map((item) => ({ name: item.key, value: String(item.value ?? '') }));
+
+/**
+ * Replaces `{{name}}` with the collection's variables; unknown variables are left for splitUrl to treat as placeholders.
+ */
+const substitute = (text: string, variables: Map<string, string>) =>
+    text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name) => variables.get(name) ?? match);
+
+function requestUrl(url: any, variables: Map<string, string>): string {
+    if (typeof url === 'string') return substitute(url, variables);
+    if (typeof url?.raw === 'string') {
+        // Path variables (`:id`) have their own values in url.variable; keep them as placeholders
+        return substitute(url.raw, variables);
+    }
+    const host = Array.isArray(url?.host) ? url.host.join('.') : url?.host ?? '';
+    const path = Array.isArray(url?.path) ? url.path.join('/') : url?.path ?? '';
+    const query = keyValues(url?.query).map(({ name, value }) => `${name}=${value}`).join('&');
+    const protocol = url?.protocol ? `${url.protocol}://` : '';
+    return substitute(`${protocol}${host}/${path}${query ? `?${query}` : ''}`, variables);
+}
+
+function requestBody(body: any, headers: NameValue[], variables: Map<string, string>): ObservedBody | null {
+    if (!body || body.disabled) return null;
+    const contentType = headerValue(headers, 'content-type');
+    switch (body.mode) {
+        case 'raw': {
+            const language = body.options?.raw?.language;
+            return parseBody(contentType ?? RAW_LANGUAGE_TYPES[language] ?? null, substitute(String(body.raw ?? ''), variables));
+        }
+        case 'urlencoded':
+            return { contentType: 'application/x-www-form-urlencoded', example: formFieldsToObject(keyValues(body.urlencoded)) };
+        case 'formdata': {
+            const fields = (Array.isArray(body.formdata) ? body.formdata : [])
+                .filter((field: any) => field && typeof field.key === 'string' && !field.disabled)
+                .map((field: any) => ({ name: field.key, value: String(field.value ?? ''), file: field.type === 'file' }));
+            return { contentType: 'multipart/form-data', example: formFieldsToObject(fields) };
+        }
+        case 'graphql':
+            return { contentType: 'application/json', example: { query: body.graphql?.query ?? '', variables: body.graphql?.variables ?? {} } };
+        default:
+            return null;
+    }
+}
+
+/**
+ * The authentication configured on a request (or inherited from its folders and the collection), as headers and
+ * query parameters, so it is reported like captured traffic.
+ */
+function authAsCredentials(auth: any): { headers: NameValue[]; query: NameValue[] } {
+    const settings = (name: string) => Object.fromEntries(keyValues(auth?.[name]).map(({ name: key, value }) => [key, value]));
+    switch (auth?.type) {
+        case 'bearer':
+            return { headers: [{ name: 'Authorization', value: 'Bearer <token>' }], query: [] };
+        case 'basic':
+            return { headers: [{ name: 'Authorization', value: 'Basic <credentials>' }], query: [] };
+        case 'apikey': {
+            const { key = 'api_key', in: location = 'header' } = settings('apikey');
+            const credential = [{ name: key, value: '<key>' }];
+            return location === 'query' ? { headers: [], query: credential } : { headers: credential, query: [] };
+        }
+        case 'oauth2':
+            return { headers: [{ name: 'Authorization', value: 'Bearer <token>' }], query: [] };
+        default:
+            return { headers: [], query: [] };
+    }
+}
+
+/**
+ * Parses the requests in a Postman collection (format v2.0 or v2.1), including the example responses saved with them.
+ * `{{variables}}` are resolved with the collection's variables; unresolved ones in a path become path parameters.
+ *
+ * @param collection - The collection, as JSON text or parsed.
+ * @param label - Names the artifact in each exchange's `source`, e.g. "Postman: Refunds / Create a refund".
+ * @returns One exchange per saved response, or per request when it has none.
+ * @throws Throws an error if the document isn't a v2 collection.
+ */
+export function parsePostmanCollection(collection: string | Record<string, any>, label = 'Postman'): ObservedExchange[] {
+    let document: any = collection;
+    if (typeof collection === 'string') {
+        try {
+            document = JSON.parse(collection);
+        } catch (error) {
+            throw new Error(`${label}: not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    if (!Array.isArray(document?.item)) {
+        throw new Error(Array.isArray(document?.requests)
+            ? `${label}: Postman collection format v1 is not supported; export the collection as v2.1`
+            : `${label}: not a Postman collection (no item list)`);
+    }
+
+    const variables = new Map<string, string>(keyValues(document.variable).map(({ name, value }) => [name, value]));
+    const exchanges: ObservedExchange[] = [];
+
+    const toExchange = (request: any, name: string, inheritedAuth: any, response: any | null): ObservedExchange => {
+        const headers = keyValues(request.header).map(({ name: header, value }) => ({ name: header, value: substitute(value, variables) }));
+        const { origin, segments, query } = splitUrl(requestUrl(request.url, variables));
+        const auth = authAsCredentials(request.auth ?? inheritedAuth);
+        const allHeaders = [...headers, ...auth.headers];
+        const allQuery = [...query, ...auth.query];
+        return {
+            source: `${label}: ${name}`,
+            method: String(request.method ?? 'GET').toLowerCase(),
+            origin,
+            segments,
+            query: allQuery.map(redact),
+            headers: allHeaders.map(redact),
+            authentication: detectAuthentication(allHeaders, allQuery),
+            requestBody: requestBody(request.body, headers, variables),
+            response: response && {
+                status: Number(response.code) || 0,
+                headers: keyValues(response.header).filter((header) => !isIgnoredResponseHeader(header.name)).map(redact),
+                body: parseBody(headerValue(keyValues(response.header), 'content-type')
+                    ?? RAW_LANGUAGE_TYPES[response._postman_previewlanguage] ?? null, response.body ?? undefined),
+            },
+        };
+    };
+
+    const walk = (items: any[], folders: string[], inheritedAuth: any) => {
+        for (const item of items) {
+            if (!item || typeof item !== 'object') continue;
+            const name = [...folders, item.name ?? 'Untitled'].join(' / ');
+            if (Array.isArray(item.item)) {
+                walk(item.item, [...folders, item.name ?? 'Untitled'], item.auth ?? inheritedAuth);
+                continue;
+            }
+            if (!item.request) continue;
+            const request = typeof item.request === 'string' ? { method: 'GET', url: item.request } : item.request;
+            const responses = Array.isArray(item.response) ? item.response.filter((response: any) => response && typeof response === 'object') : [];
+            if (responses.length === 0) {
+                exchanges.push(toExchange(request, name, inheritedAuth, null));
+                continue;
+            }
+            responses.forEach((response: any, i: number) => {
+                // A saved example may have been made with different parameters than the request
+                const original = response.originalRequest ? { ...request, ...response.originalRequest } : request;
+                exchanges.push(toExchange(original, responses.length > 1 ? `${name} (example ${i + 1})` : name, inheritedAuth, response));
+            });
+        }
+    };
+    walk(document.item, [], document.auth ?? null);
+    return exchanges;
+}
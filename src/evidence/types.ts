@@ -0,0 +1,76 @@
+export const EVIDENCE_TYPES = ['curl', 'har', 'postman'] as const;
+
+export type EvidenceType = typeof EVIDENCE_TYPES[number];
+
+/**
+ * An evidence artifact as sent by the client: curl commands (text), a HAR file or a
+ * Postman collection (v2.x, as JSON text or an object). `name` labels it in reports, e.g. the file name.
+ */
+export interface EvidenceInput {
+    type: EvidenceType;
+    content: string | Record<string, any>;
+    name?: string;
+}
+
+export interface NameValue {
+    name: string;
+    value: string;
+}
+
+/**
+ * A request or response body. `example` is the parsed body: JSON, form fields as an object,
+ * or the raw text for other content types.
+ */
+export interface ObservedBody {
+    contentType: string;
+    example: unknown;
+}
+
+/**
+ * One observed HTTP request (and its response, when the artifact has one), with secrets redacted.
+ * `source` says where it came from, e.g. "curl #2" or "traffic.har entry 14".
+ */
+export interface ObservedExchange {
+    source: string;
+    method: string;
+    // scheme://host[:port], or null when the artifact doesn't say (e.g. an unresolved Postman variable)
+    origin: string | null;
+    // Path segments as observed; parameter placeholders (`:id`, `{{id}}`, `$ID`) are kept as `{name}`
+    segments: string[];
+    query: NameValue[];
+    headers: NameValue[];
+    // Authentication seen on the request, e.g. "HTTP Bearer token (Authorization header)"
+    authentication: string[];
+    requestBody: ObservedBody | null;
+    response: { status: number; headers: NameValue[]; body: ObservedBody | null } | null;
+}
+
+/**
+ * A parameter seen in the requests of an observed operation, with up to a few distinct example values.
+ * `required` is true when every request had it.
+ */
+export interface ObservedParameter {
+    name: string;
+    schema: Record<string, any>;
+    required: boolean;
+    examples: string[];
+}
+
+/**
+ * The exchanges with the same method and path template, merged: the parameters seen, the authentication used,
+ * and request/response bodies with a JSON Schema inferred from every example.
+ * `id` (E1, E2, ...) identifies it in prompts; `method` is lower case.
+ */
+export interface ObservedOperation {
+    id: string;
+    method: string;
+    path: string;
+    servers: string[];
+    pathParameters: ObservedParameter[];
+    queryParameters: ObservedParameter[];
+    headerParameters: ObservedParameter[];
+    authentication: string[];
+    requestBodies: { contentType: string; schema: Record<string, any>; example: unknown }[];
+    responses: { status: string; contentType: string | null; headers: string[]; schema: Record<string, any> | null; example: unknown }[];
+    sources: string[];
+}
@@ -0,0 +1,136 @@
+import { resolveJsonPointer } from '../utils/jsonPointer';
+
+// Nesting depth at which generation stops (and recursive schemas end)
+const MAX_DEPTH = 8;
+
+/**
+ * Whether the example is for a request (readOnly properties are left out) or a response (writeOnly ones are).
+ */
+export type ExampleDirection = 'request' | 'response';
+
+const STRING_FORMATS: Record<string, string> = {
+    'date-time': '2024-01-01T00:00:00Z',
+    date: '2024-01-01',
+    time: '12:00:00',
+    email: 'user@example.com',
+    uri: 'https://example.com',
+    url: 'https://example.com',
+    'uri-reference': '/example',
+    hostname: 'example.com',
+    ipv4: '192.0.2.1',
+    ipv6: '2001:db8::1',
+    uuid: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+    byte: 'ZXhhbXBsZQ==',
+    binary: '',
+    password: '********',
+};
+
+const isObject = (value: unknown): value is Record<string, any> => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function mergeExamples(examples: unknown[]): unknown {
+    const objects = examples.filter(isObject);
+    if (objects.length === 0) return examples.find((example) => example !== undefined);
+    return Object.assign({}, ...objects);
+}
+
+function numberExample(schema: Record<string, any>, integer: boolean): number {
+    const lower = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum + (integer ? 1 : 0.5)
+        : schema.exclusiveMinimum === true && typeof schema.minimum === 'number' ? schema.minimum + (integer ? 1 : 0.5)
+        : schema.minimum;
+    const upper = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum - (integer ? 1 : 0.5)
+        : schema.exclusiveMaximum === true && typeof schema.maximum === 'number' ? schema.maximum - (integer ? 1 : 0.5)
+        : schema.maximum;
+    let value = typeof lower === 'number' ? lower : typeof upper === 'number' ? Math.min(0, upper) : 0;
+    if (integer) value = Math.ceil(value);
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) value = Math.ceil(value / schema.multipleOf) * schema.multipleOf;
+    return value;
+}
+
+function stringExample(schema: Record<string, any>): string {
+    let value = STRING_FORMATS[schema.format] ?? 'string';
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) value = value.padEnd(schema.minLength, 'x');
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) value = value.slice(0, schema.maxLength);
+    return value;
+}
+
+/**
+ * Builds an example value that conforms to a schema (OpenAPI 3.0 or 3.1), without model calls.
+ * Values the schema gives are used first (`example`, `examples`, `default`, `const`, the first `enum` value);
+ * otherwise values are derived from the type, format and bounds. Every object property is included, and arrays
+ * get `minItems` items (at least one). `allOf` parts are merged and the first `oneOf`/`anyOf` alternative is used.
+ *
+ * @param schema - The schema; local `$ref`s are resolved against `spec`.
+ * @param spec - The document the schema belongs to.
+ * @param direction - Leaves out readOnly properties from request examples and writeOnly ones from responses.
+ * @returns The example, or undefined if the schema allows nothing that can be generated.
+ */
+export function generateExample(schema: unknown, spec: Record<string, any>, direction: ExampleDirection = 'response'): unknown {
+    return exampleFor(schema, spec, direction, [], 0);
+}
+
+function exampleFor(schema: unknown, spec: Record<string, any>, direction: ExampleDirection, refs: string[], depth: number): unknown {
+    if (schema === true || (isObject(schema) && Object.keys(schema).length === 0)) return {};
+    if (!isObject(schema) || depth > MAX_DEPTH) return undefined;
+    if (typeof schema.$ref === 'string') {
+        // A schema that contains itself ends at the second visit
+        if (refs.includes(schema.$ref)) return undefined;
+        return exampleFor(resolveJsonPointer(spec, schema.$ref), spec, direction, [...refs, schema.$ref], depth);
+    }
+
+    if (schema.example !== undefined) return schema.example;
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+    if (schema.default !== undefined) return schema.default;
+    if (schema.const !== undefined) return schema.const;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum.find((value: unknown) => value !== null) ?? schema.enum[0];
+
+    const next = (child: unknown) => exampleFor(child, spec, direction, refs, depth + 1);
+    if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+        const { allOf, ...rest } = schema;
+        const parts = [...allOf.map(next), ...(Object.keys(rest).length > 0 ? [exampleFor(rest, spec, direction, refs, depth)] : [])];
+        return mergeExamples(parts);
+    }
+    for (const key of ['oneOf', 'anyOf']) {
+        if (!Array.isArray(schema[key]) || schema[key].length === 0) continue;
+        const alternative = schema[key].find((option: any) => !(isObject(option) && option.type === 'null')) ?? schema[key][0];
+        const { [key]: _, ...rest } = schema;
+        const example = next(alternative);
+        return isObject(example) && rest.properties ? { ...(exampleFor(rest, spec, direction, refs, depth) as object), ...example } : example;
+    }
+
+    const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const type = types.find((t) => t !== 'null')
+        ?? (types.length > 0 ? 'null' : schema.properties || schema.additionalProperties ? 'object' : schema.items ? 'array' : undefined);
+    switch (type) {
+        case 'null':
+            return null;
+        case 'boolean':
+            return true;
+        case 'integer':
+            return numberExample(schema, true);
+        case 'number':
+            return numberExample(schema, false);
+        case 'string':
+            return stringExample(schema);
+        case 'array': {
+            const item = next(schema.items ?? {});
+            if (item === undefined) return [];
+            return Array.from({ length: Math.max(1, Number(schema.minItems) || 0) }, () => structuredClone(item));
+        }
+        case 'object': {
+            const example: Record<string, unknown> = {};
+            for (const [name, property] of Object.entries<any>(schema.properties ?? {})) {
+                const resolved = isObject(property) && typeof property.$ref === 'string' ? resolveJsonPointer(spec, property.$ref) : property;
+                if (isObject(resolved) && ((direction === 'request' && resolved.readOnly) || (direction === 'response' && resolved.writeOnly))) continue;
+                const value = next(property);
+                if (value !== undefined) example[name] = value;
+            }
+            if (Object.keys(example).length === 0 && isObject(schema.additionalProperties)) {
+                const value = next(schema.additionalProperties);
+                if (value !== undefined) example.key = value;
+            }
+            return example;
+        }
+        default:
+            return undefined;
+    }
+}
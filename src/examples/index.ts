@@ -0,0 +1,56 @@
+import { toJsonPointer } from '../utils/jsonPointer';
+import { listOperations } from '../utils/openapi';
+import { ExampleDirection, generateExample } from './generateExample';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Examples');
+
+export { ExampleDirection, generateExample } from './generateExample';
+
+/**
+ * A document with examples added, and the JSON pointers of the media types that received one.
+ */
+export interface ExamplesResult {
+    spec: Record<string, any>;
+    added: string[];
+}
+
+/**
+ * Fills in an `example` for every request body and response media type that has a schema but neither
+ * `example` nor `examples`, using generateExample. Existing examples are never changed, and bodies or
+ * responses that are `$ref`s are filled where they are defined (`components.requestBodies`, `components.responses`).
+ *
+ * @param spec - An OpenAPI 3.x document; it is not modified.
+ * @returns The document with examples, and where they were added.
+ */
+export function addExamples(spec: Record<string, any>): ExamplesResult {
+    const doc = structuredClone(spec);
+    const added: string[] = [];
+
+    const fill = (body: any, segments: (string | number)[], direction: ExampleDirection) => {
+        if (!body || typeof body !== 'object' || body.$ref || !body.content || typeof body.content !== 'object') return;
+        for (const [mediaType, media] of Object.entries<any>(body.content)) {
+            if (!media || typeof media !== 'object' || !media.schema || media.example !== undefined || media.examples !== undefined) continue;
+            const example = generateExample(media.schema, doc, direction);
+            if (example === undefined) continue;
+            media.example = example;
+            added.push(toJsonPointer(...segments, 'content', mediaType));
+        }
+    };
+
+    for (const { path, method, operation } of listOperations(doc)) {
+        fill(operation.requestBody, ['paths', path, method, 'requestBody'], 'request');
+        for (const [status, response] of Object.entries<any>(operation.responses ?? {})) {
+            fill(response, ['paths', path, method, 'responses', status], 'response');
+        }
+    }
+    for (const [name, body] of Object.entries<any>(doc.components?.requestBodies ?? {})) {
+        fill(body, ['components', 'requestBodies', name], 'request');
+    }
+    for (const [name, response] of Object.entries<any>(doc.components?.responses ?? {})) {
+        fill(response, ['components', 'responses', name], 'response');
+    }
+
+    if (added.length > 0) log.info('Added examples', { examples: added.length });
+    return { spec: doc, added };
+}
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+import { loadFixture, recordFixture, replayFixture, saveFixture } from '.';
+
+const USAGE = `Usage:
+  node dist/fixtures/cli.js record <fixture.json> "<query>" [--bypass-cache]
+  node dist/fixtures/cli.js replay <fixture.json | directory>...`;
+
+/**
+ * Expands directories to the .json fixture files they contain (recursively), in sorted order.
+ */
+function listFixtureFiles(targets: string[]): string[] {
+    return targets.flatMap((target) => {
+        if (!fs.statSync(target).isDirectory()) return [target];
+        return fs.readdirSync(target).sort().flatMap((entry) => {
+            const entryPath = path.join(target, entry);
+            return fs.statSync(entryPath).isDirectory() || entry.endsWith('.json') ? listFixtureFiles([entryPath]) : [];
+        });
+    });
+}
+
+async function record(args: string[]): Promise<number> {
+    const [fixturePath, query] = args.filter((arg) => !arg.startsWith('--'));
+    if (!fixturePath || !query) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    const fixture = await recordFixture(query, { bypassCache: args.includes('--bypass-cache') });
+    saveFixture(fixturePath, fixture);
+    console.log(`Recorded ${fixture.modelCalls.length} model call(s) and ${fixture.toolCalls.length} tool call(s) to ${fixturePath} (outcome: ${fixture.outcome?.status}).`);
+    return 0;
+}
+
+async function replay(targets: string[]): Promise<number> {
+    if (targets.length === 0) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    let failed = 0;
+    const files = listFixtureFiles(targets);
+    for (const file of files) {
+        const report = await replayFixture(loadFixture(file));
+        if (report.passed) {
+            console.log(`PASS ${file}`);
+            continue;
+        }
+        failed++;
+        console.log(`FAIL ${file}`);
+        for (const mismatch of report.mismatches) console.log(`  ${mismatch.replace(/\n/g, '\n  ')}`);
+        for (const difference of report.differences) console.log(`  outcome differs at ${difference}`);
+    }
+
+    console.log(`\n${files.length - failed}/${files.length} fixture(s) passed.`);
+    return failed === 0 ? 0 : 1;
+}
+
+async function main(): Promise<number> {
+    dotenv.config();
+    const [command, ...args] = process.argv.slice(2);
+    if (command === 'record') return record(args);
+    if (command === 'replay') return replay(args);
+    console.error(USAGE);
+    return 2;
+}
+
+main().then(
+    (code) => process.exit(code),
+    (error) => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+);
@@ -0,0 +1,227 @@
+import { createHash } from 'crypto';
+import { LanguageModelV1, LanguageModelV1CallOptions } from 'ai';
+
+import { ModelSpec, ModelStage } from '../config';
+import { GenerationOptions } from '../pipeline/runGeneration';
+import { Fixture, FIXTURE_VERSION, RecordedModel, RecordedModelCall, RecordedOutcome, RecordedToolCall } from './types';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('FixtureSession');
+
+export type FixtureMode = 'record' | 'replay';
+
+// Characters of context shown on each side of the first difference in a mismatch report
+const DIFF_CONTEXT = 60;
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Identifies a model call by everything the model sees: the expanded prompt, the mode
+ * (tools or object schema) and the response format.
+ */
+const modelCallKey = (options: LanguageModelV1CallOptions) =>
+    sha256(JSON.stringify({ prompt: options.prompt, mode: options.mode, responseFormat: options.responseFormat }));
+
+const toolCallKey = (tool: string, args: unknown) => `${tool}:${JSON.stringify(args)}`;
+
+function commonPrefixLength(a: string, b: string): number {
+    let index = 0;
+    while (index < a.length && index < b.length && a[index] === b[index]) index++;
+    return index;
+}
+
+/**
+ * Describes where two serialized prompts first differ.
+ */
+function describeDifference(recorded: string, actual: string): string {
+    const index = commonPrefixLength(recorded, actual);
+    const excerpt = (text: string) => JSON.stringify(text.slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT));
+    return `first difference at character ${index}:\n  recorded: ${excerpt(recorded)}\n  actual:   ${excerpt(actual)}`;
+}
+
+/**
+ * Groups recorded calls by key, keeping their recorded order, so identical calls are served in sequence.
+ */
+function queueByKey<T extends { key: string }>(calls: T[]): Map<string, T[]> {
+    const queues = new Map<string, T[]>();
+    for (const call of calls) {
+        const queue = queues.get(call.key) ?? [];
+        queue.push(call);
+        queues.set(call.key, queue);
+    }
+    return queues;
+}
+
+/**
+ * Records every model call and agent tool result of a run, or replays them from a fixture.
+ *
+ * Calls are matched by content rather than order, since operations run in parallel.
+ * In replay mode no model provider or tool backend is touched: a model call whose prompt
+ * isn't in the fixture, or a tool call with unrecorded arguments, throws and is added to
+ * `mismatches` (so it is reported even where the pipeline tolerates a failed step).
+ */
+export class FixtureSession {
+    readonly mismatches: string[] = [];
+    private readonly modelQueues: Map<string, RecordedModelCall[]>;
+    private readonly toolQueues: Map<string, RecordedToolCall[]>;
+
+    private constructor(readonly mode: FixtureMode, readonly fixture: Fixture) {
+        this.modelQueues = queueByKey(mode === 'replay' ? fixture.modelCalls : []);
+        this.toolQueues = queueByKey(mode === 'replay' ? fixture.toolCalls : []);
+    }
+
+    /**
+     * Starts recording a run. Call `finish` with the outcome to get the fixture to save.
+     */
+    static record(query: string, options: GenerationOptions = {}): FixtureSession {
+        return new FixtureSession('record', {
+            version: FIXTURE_VERSION,
+            query,
+            options,
+            recordedAt: new Date().toISOString(),
+            models: {},
+            modelCalls: [],
+            toolCalls: [],
+            outcome: null,
+        });
+    }
+
+    /**
+     * Replays a recorded fixture.
+     * @throws Throws an error if the fixture was written by an incompatible version.
+     */
+    static replay(fixture: Fixture): FixtureSession {
+        if (fixture.version !== FIXTURE_VERSION) {
+            throw new Error(`Unsupported fixture version ${fixture.version} (expected ${FIXTURE_VERSION}).`);
+        }
+        return new FixtureSession('replay', fixture);
+    }
+
+    /**
+     * Returns the model for a stage: the real model wrapped to record its calls,
+     * or a stand-in that serves recorded responses (without creating the real model).
+     */
+    model(stage: ModelStage, spec: ModelSpec, create: () => LanguageModelV1): LanguageModelV1 {
+        if (this.mode === 'replay') return this.replayModel(stage);
+
+        const model = create();
+        this.fixture.models[stage] ??= {
+            spec,
+            provider: model.provider,
+            modelId: model.modelId,
+            defaultObjectGenerationMode: model.defaultObjectGenerationMode,
+            supportsStructuredOutputs: model.supportsStructuredOutputs,
+        };
+        return this.recordingModel(stage, model);
+    }
+
+    /**
+     * Runs an agent tool, recording its result, or returns the recorded result.
+     */
+    async tool<T>(tool: string, args: unknown, execute: () => Promise<T>): Promise<T> {
+        const key = toolCallKey(tool, args);
+
+        if (this.mode === 'replay') {
+            const recorded = this.toolQueues.get(key)?.shift();
+            if (!recorded) {
+                this.fail(`Fixture mismatch: tool '${tool}' was called with arguments that weren't recorded: ${JSON.stringify(args)}`);
+            }
+            if (recorded.error !== undefined) throw new Error(recorded.error);
+            return recorded.result as T;
+        }
+
+        try {
+            const result = await execute();
+            this.fixture.toolCalls.push({ tool, key, args, result });
+            return result;
+        } catch (error) {
+            this.fixture.toolCalls.push({ tool, key, args, error: error instanceof Error ? error.message : String(error) });
+            throw error;
+        }
+    }
+
+    /**
+     * Completes a recording.
+     * @returns The fixture, ready to be written to disk.
+     */
+    finish(outcome: RecordedOutcome): Fixture {
+        this.fixture.outcome = outcome;
+        return this.fixture;
+    }
+
+    private fail(message: string): never {
+        log.error(message);
+        this.mismatches.push(message);
+        throw new Error(message);
+    }
+
+    private recordingModel(stage: ModelStage, model: LanguageModelV1): LanguageModelV1 {
+        const calls = this.fixture.modelCalls;
+        return {
+            specificationVersion: 'v1',
+            provider: model.provider,
+            modelId: model.modelId,
+            defaultObjectGenerationMode: model.defaultObjectGenerationMode,
+            supportsStructuredOutputs: model.supportsStructuredOutputs,
+            supportsImageUrls: model.supportsImageUrls,
+            supportsUrl: model.supportsUrl?.bind(model),
+            async doGenerate(options) {
+                const result = await model.doGenerate(options);
+                const { text, reasoning, toolCalls, finishReason, usage, providerMetadata } = result;
+                calls.push({
+                    stage,
+                    key: modelCallKey(options),
+                    prompt: options.prompt,
+                    response: { text, reasoning, toolCalls, finishReason, usage, providerMetadata },
+                });
+                return result;
+            },
+            async doStream() {
+                throw new Error('Streaming calls cannot be recorded.');
+            },
+        };
+    }
+
+    private replayModel(stage: ModelStage): LanguageModelV1 {
+        const recorded: Partial<RecordedModel> = this.fixture.models[stage] ?? {};
+        const session: FixtureSession = this;
+        return {
+            specificationVersion: 'v1',
+            provider: recorded.provider ?? 'fixture',
+            modelId: recorded.modelId ?? 'unrecorded',
+            defaultObjectGenerationMode: recorded.defaultObjectGenerationMode,
+            supportsStructuredOutputs: recorded.supportsStructuredOutputs,
+            async doGenerate(options) {
+                const key = modelCallKey(options);
+                const call = session.modelQueues.get(key)?.shift();
+                if (!call) session.fail(session.describeModelMismatch(stage, key, options));
+                return { ...call.response, rawCall: { rawPrompt: options.prompt, rawSettings: {} } };
+            },
+            async doStream() {
+                throw new Error('Streaming calls cannot be replayed.');
+            },
+        };
+    }
+
+    private describeModelMismatch(stage: ModelStage, key: string, options: LanguageModelV1CallOptions): string {
+        if (this.fixture.modelCalls.some((call) => call.key === key)) {
+            return `Fixture mismatch: the '${stage}' model was called with a recorded prompt more times than during recording.`;
+        }
+
+        const actual = JSON.stringify(options.prompt);
+        const candidates = this.fixture.modelCalls.filter((call) => call.stage === stage);
+        if (candidates.length === 0) {
+            return `Fixture mismatch: the '${stage}' model was called, but no '${stage}' calls were recorded.`;
+        }
+
+        // Report against the recorded prompt that shares the longest prefix with the actual one
+        const closest = candidates
+            .map((call) => JSON.stringify(call.prompt))
+            .reduce((best, prompt) => (commonPrefixLength(prompt, actual) > commonPrefixLength(best, actual) ? prompt : best));
+        const sameMode = candidates.some((call) => JSON.stringify(call.prompt) === actual);
+
+        return sameMode
+            ? `Fixture mismatch: the '${stage}' prompt matches a recording, but the tools or output schema changed.`
+            : `Fixture mismatch: the '${stage}' prompt no longer matches the recording; ${describeDifference(closest, actual)}`;
+    }
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+
+import { GenerationOptions, runGeneration } from '../pipeline/runGeneration';
+import { toJsonPointer } from '../utils/jsonPointer';
+import { FixtureSession } from './fixtureSession';
+import { Fixture, RecordedOutcome } from './types';
+
+export { FixtureSession } from './fixtureSession';
+export { Fixture, RecordedOutcome } from './types';
+
+// Maximum number of differing locations listed per replayed fixture
+const MAX_REPORTED_DIFFERENCES = 20;
+
+/**
+ * The result of replaying a fixture.
+ * `mismatches` lists model or tool calls that weren't in the recording;
+ * `differences` lists JSON pointers where the outcome differs from the recorded one.
+ */
+export interface ReplayReport {
+    passed: boolean;
+    mismatches: string[];
+    differences: string[];
+    outcome: RecordedOutcome;
+}
+
+/**
+ * Runs the pipeline for real, recording every model call and tool result.
+ * @returns A promise that resolves to the fixture (the run's outcome is included, errors too).
+ */
+export async function recordFixture(query: string, options: GenerationOptions = {}): Promise<Fixture> {
+    const session = FixtureSession.record(query, options);
+    return session.finish(await runWithSession(query, options, session));
+}
+
+/**
+ * Re-runs a recorded query offline, serving model calls and tool results from the fixture,
+ * and compares the outcome with the recorded one. Run metadata (cache statistics etc.) is not compared.
+ */
+export async function replayFixture(fixture: Fixture): Promise<ReplayReport> {
+    const session = FixtureSession.replay(fixture);
+    const outcome = await runWithSession(fixture.query, fixture.options, session);
+    const differences = fixture.outcome
+        ? diffJson(withoutMetadata(fixture.outcome), withoutMetadata(outcome)).slice(0, MAX_REPORTED_DIFFERENCES)
+        : [];
+
+    return {
+        passed: session.mismatches.length === 0 && differences.length === 0,
+        mismatches: session.mismatches,
+        differences,
+        outcome,
+    };
+}
+
+/**
+ * Reads a fixture file.
+ * @throws Throws an error if the file can't be read or isn't JSON.
+ */
+export function loadFixture(fixturePath: string): Fixture {
+    try {
+        return JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Failed to load fixture '${fixturePath}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Writes a fixture file, creating its directory if needed.
+ */
+export function saveFixture(fixturePath: string, fixture: Fixture): void {
+    fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+    fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n');
+}
+
+async function runWithSession(query: string, options: GenerationOptions, session: FixtureSession): Promise<RecordedOutcome> {
+    try {
+        return await runGeneration(query, options, { fixtures: session });
+    } catch (error) {
+        return { status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+function withoutMetadata(outcome: RecordedOutcome): unknown {
+    if (outcome.status !== 'succeeded') return outcome;
+    const { metadata, ...result } = outcome.result;
+    return { ...outcome, result };
+}
+
+/**
+ * Lists the JSON pointers at which two JSON values differ.
+ */
+function diffJson(expected: unknown, actual: unknown, segments: (string | number)[] = []): string[] {
+    if (expected === actual) return [];
+
+    const isObject = (value: unknown): value is Record<string, unknown> => value !== null && typeof value === 'object';
+    if (!isObject(expected) || !isObject(actual) || Array.isArray(expected) !== Array.isArray(actual)) {
+        return [toJsonPointer(...segments) || '/'];
+    }
+
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return Array.from(keys).flatMap((key) => diffJson(expected[key], actual[key], [...segments, key]));
+}
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { loadFixture, replayFixture } from '.';
+
+const FIXTURES_DIR = path.resolve(__dirname, '../../fixtures');
+
+// Settings that change which calls a run makes aren't part of a fixture; these are the ones they were recorded with
+beforeAll(() => {
+    Object.assign(process.env, {
+        SPEC_DISCOVERY: 'off',
+        QUALITY_GATE: 'on',
+        CACHE_BACKEND: 'none',
+        TRACE_STORE: 'none',
+        LOG_LEVEL: 'error',
+    });
+});
+
+const fixtureFiles = fs.readdirSync(FIXTURES_DIR).filter((file) => file.endsWith('.json')).sort();
+
+describe('recorded fixtures', () => {
+    it('has fixtures to replay', () => {
+        expect(fixtureFiles.length).toBeGreaterThan(0);
+    });
+
+    it.each(fixtureFiles)('%s replays offline with the recorded outcome', async (file) => {
+        const report = await replayFixture(loadFixture(path.join(FIXTURES_DIR, file)));
+
+        expect(report.mismatches).toEqual([]);
+        expect(report.differences).toEqual([]);
+        expect(report.passed).toBe(true);
+    });
+});
@@ -0,0 +1,61 @@
+import { LanguageModelV1 } from 'ai';
+
+import { ModelSpec, ModelStage } from '../config';
+import { GenerationOptions, GenerationOutcome } from '../pipeline/runGeneration';
+
+export const FIXTURE_VERSION = 1;
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+
+/**
+ * The model a stage used while recording. Replay mimics its object generation settings,
+ * since they change the prompt `generateObject` builds.
+ */
+export interface RecordedModel {
+    spec: ModelSpec;
+    provider: string;
+    modelId: string;
+    defaultObjectGenerationMode: LanguageModelV1['defaultObjectGenerationMode'];
+    supportsStructuredOutputs?: boolean;
+}
+
+/**
+ * One `doGenerate` call: the exact prompt sent (after the AI SDK's expansion) and the model's response.
+ * `key` hashes the prompt and call mode; replay serves responses by key.
+ */
+export interface RecordedModelCall {
+    stage: ModelStage;
+    key: string;
+    prompt: unknown;
+    response: Pick<GenerateResult, 'text' | 'reasoning' | 'toolCalls' | 'finishReason' | 'usage' | 'providerMetadata'>;
+}
+
+/**
+ * One agent tool execution and its result (or the message of the error it threw).
+ */
+export interface RecordedToolCall {
+    tool: string;
+    key: string;
+    args: unknown;
+    result?: unknown;
+    error?: string;
+}
+
+/**
+ * How the recorded run ended: its outcome, or the message of the error it threw.
+ */
+export type RecordedOutcome = GenerationOutcome | { status: 'error'; error: string };
+
+/**
+ * Everything needed to re-run a generation offline, and what it produced when recorded.
+ */
+export interface Fixture {
+    version: number;
+    query: string;
+    options: GenerationOptions;
+    recordedAt: string;
+    models: Partial<Record<ModelStage, RecordedModel>>;
+    modelCalls: RecordedModelCall[];
+    toolCalls: RecordedToolCall[];
+    outcome: RecordedOutcome | null;
+}
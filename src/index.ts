@@ -2,20 +2,30 @@
 import express, { Request, Response, Application } from 'express';
 import dotenv from 'dotenv';
 import asyncHandler from 'express-async-handler';
-import { z } from 'zod'; // For tool schemas
-import { generateText, tool, CoreTool, generateObject, Output } from 'ai'; // Core Vercel AI SDK components
-import { anthropic } from '@ai-sdk/anthropic'; // Import Anthropic provider
 
-// Import tool functions
-import { searchApiDocumentation } from './tools/searchApiDocumentation';
-import { readWebpageContent } from './tools/readWebpageContent';
-import { validateOpenAPISchema } from './tools/validateOpenAPISchema';
-import { evaluateAlignment } from './tools/evaluateAlignment';
-import { evaluateVeracity } from './tools/evaluateVeracity';
+// Import the pipeline and job handling
+import { runGeneration } from './pipeline/runGeneration';
+import { runExtension, validateBaseDocument } from './pipeline/runExtension';
+import { parseGenerationOptions } from './pipeline/options';
+import { DEFAULT_EVIDENCE_QUERY } from './evidence';
+import { InMemoryJobStore } from './jobs/inMemoryJobStore';
+import { JobRunner } from './jobs/jobRunner';
+import { Job, JobEvent, TERMINAL_JOB_STATUSES } from './jobs/jobStore';
+import { MockRegistry, MockServer } from './mock';
+import { InMemorySessionStore } from './sessions/inMemorySessionStore';
+import { SessionRunner, validateAnswers } from './sessions/sessionRunner';
+import { Session } from './sessions/sessionStore';
+import { DriftScheduler, hasDrift, runDriftCheck, sendDriftWebhook } from './drift';
+import { loadDriftConfig } from './config';
+import { domainPolicyViolation, privateAddressViolation } from './security';
+import { getTraceStore, parseRunQuery, RunTracer } from './tracing';
+import { createLogger } from './utils/logger';
 
 // Load environment variables from .env file
 dotenv.config();
 
+const log = createLogger('Server');
+
 // Initialize the Express application
 const app = express();
 
@@ -26,295 +36,523 @@ const PORT = process.env.PORT || 3000;
 // Middleware to parse JSON bodies
 app.use(express.json());
 
-// --- Define Tools for the Main Agent ---
-const agentTools: Record<string, CoreTool> = {
-    search_api_documentation: tool({
-        description: 'Search Google for relevant API documentation URLs based on a user query.',
-        parameters: z.object({
-            query: z.string().describe('The user query to search documentation for'),
-        }),
-        execute: async ({ query }) => searchApiDocumentation(query),
-    }),
-    read_webpage_content: tool({
-        description: 'Read the text content of a webpage given its URL. Returns HTML if Markdown fails.',
-        parameters: z.object({
-            url: z.string(),
-        }),
-        execute: async ({ url }) => readWebpageContent(url),
-    }),
-    validate_openapi_schema: tool({
-        description: 'Validate if a given string is a syntactically correct OpenAPI Specification (JSON format expected).',
-        parameters: z.object({
-            oas_json_string: z.string().describe('The potential OpenAPI specification as a JSON string'),
-        }),
-        execute: async ({ oas_json_string }) => validateOpenAPISchema(oas_json_string),
-    }),
-    evaluate_alignment: tool({
-        description: 'Evaluate how well a generated OAS aligns with the original user query (score 0.0-5.0).',
-        parameters: z.object({
-            user_query: z.string().describe('The original user query'),
-            generated_oas: z.union([z.string(), z.object({})]).describe('The generated OAS (JSON string or object)'),
-        }),
-        execute: async ({ user_query, generated_oas }) => evaluateAlignment(user_query, generated_oas),
-    }),
-    evaluate_veracity: tool({
-        description: 'Evaluate if a generated OAS accurately reflects current online documentation at a source URL.',
-        parameters: z.object({
-            generated_oas: z.union([z.string(), z.object({})]).describe('The generated OAS (JSON string or object)'),
-            source_url: z.union([z.string(), z.array(z.string())]),
-        }),
-        execute: async ({ generated_oas, source_url }) => evaluateVeracity(generated_oas, source_url),
-    }),
-};
+// Background generation jobs (in-memory: jobs are lost when the server restarts)
+const jobStore = new InMemoryJobStore();
+const jobRunner = new JobRunner(jobStore);
+
+// Mock servers for registered documents (in-memory, like jobs)
+const mockRegistry = new MockRegistry();
+
+// Conversational generation sessions (in-memory, like jobs)
+const sessionStore = new InMemorySessionStore();
+const sessionRunner = new SessionRunner(sessionStore);
+
+// Scheduled drift checks of the DRIFT_SPECS files (none unless configured)
+const driftConfig = loadDriftConfig();
+const driftScheduler = driftConfig.specFiles.length > 0 ? new DriftScheduler(driftConfig) : null;
 
 /**
- * POST /api/generate-openapi (Modified Workflow)
+ * POST /api/generate-openapi
+ * Generates every operation identified in the query and merges them into one OpenAPI document.
+ * Observed traffic (`evidence`: curl commands, HAR files, Postman collections) is used alongside the documentation.
  */
 app.post('/api/generate-openapi', asyncHandler(async (req: Request, res: Response) => {
-  const { query }: { query?: string } = req.body;
+  const { query = req.body.evidence !== undefined ? DEFAULT_EVIDENCE_QUERY : undefined }: { query?: string } = req.body;
 
+  // With evidence the query is optional: every observed operation is documented
   if (!query || typeof query !== 'string') {
     res.status(400).json({ error: "Missing or invalid 'query' in request body" });
     return;
   }
-  console.log(`Received query: ${query}`);
+  const options = parseGenerationOptions(req.body);
+  if ('error' in options) {
+    res.status(400).json({ error: options.error });
+    return;
+  }
+  // The run id is returned whatever the outcome, for looking up its trace
+  const tracer = RunTracer.create();
+  res.setHeader('X-Run-Id', tracer.id);
+  log.info('Received query', { run: tracer.id, query });
 
   try {
-    // --- Step 1: Intent Check (using Claude Sonnet & generateObject) ---
-    console.log('Performing intent check with Claude Sonnet...');
-    const intentCheckPrompt = `Does the following request ask for an OpenAPI specification or API definition?\n\nRequest: \"${query}\"`;
-    const intentSchema = z.object({
-        intent: z.enum(['yes', 'no']).describe("Whether the request is for an OAS ('yes' or 'no')") 
-    });
-    const intentResult = await generateObject({
-      model: anthropic('claude-3-7-sonnet-latest'), // Switched to Sonnet for potentially better structuring
-      prompt: intentCheckPrompt,
-      schema: intentSchema,
-    });
-    console.log('Intent check constrained response:', intentResult.object); 
-    if (intentResult.object.intent !== 'yes') { 
-      console.log('Intent check determined request is not for OAS. Returning empty response.');
-      // Return empty for non-OAS requests, maybe change this later?
-      res.status(200).json({}); 
-      return;
-    }
-    console.log('Intent check passed.');
-
-    // --- Step 2: Decompose Request into Operations (NEW) ---
-    console.log('Decomposing request into operations...');
-    const decompositionPrompt = `Based on the user query, identify the distinct, self-contained API operations or endpoints requested. Output ONLY a JSON object with a single key "operations" which is an array of strings. Each string should describe one specific operation clearly as well as the API provider (e.g., "Create a Stripe refund", "Retrieve a specific Stripe refund by ID", "List all Stripe refunds").\n\nUser Query: "${query}"`;
-    const decompositionSchema = z.object({ 
-        operations: z.array(z.string()).describe("List of distinct API operations requested") 
-    });
-    const decompositionResult = await generateObject({ 
-      model: anthropic('claude-3-7-sonnet-latest'), // Switched to Sonnet for potentially better structuring
-      prompt: decompositionPrompt, 
-      schema: decompositionSchema 
-    });
-    const requestedOperations = decompositionResult.object.operations;
-    
-    if (!requestedOperations || requestedOperations.length === 0) {
-        console.log("Could not decompose request into specific operations.");
+    const outcome = await runGeneration(query, options, { tracer });
+
+    switch (outcome.status) {
+      case 'not_openapi_request':
+        res.status(422).json({ error: outcome.refusal.explanation, refusal: outcome.refusal });
+        return;
+      case 'no_operations':
         res.status(400).json({ error: "Could not understand the specific API operations requested in the query."});
         return;
-    }
-    console.log("Decomposed Operations:", requestedOperations);
-
-    // --- Step 3: Process Only the First Operation ---
-    // Select only the first operation identified
-    const operation = requestedOperations[0];
-    let generatedOASString: string | null = null; // Store the successful OAS string
-    let processingError: { operation: string; error: string } | null = null; // Store potential error
-
-    // Define the expected schema for the OAS fragment - Used in Step 3b
-    // More detailed schema to provide better guidance
-    const oasFragmentSchema = z.object({
-        openapi: z.string().optional().describe("OpenAPI version string, e.g., '3.0.0' or '3.1.0'"),
-        info: z.object({
-            title: z.string().optional().describe("Title for this API fragment"),
-            version: z.string().optional().describe("Version string for this API fragment"),
-        }).passthrough().optional().describe("Basic information about the API fragment"),
-        paths: z.record( // Allows any string as path key (e.g., /v1/refunds)
-            z.record( // Allows any string as method key (e.g., 'post')
-                z.object({
-                    summary: z.string().optional(),
-                    description: z.string().optional(),
-                    operationId: z.string().optional(),
-                    parameters: z.array(z.object({}).passthrough()).optional().describe("Array of parameter objects (path, query, header, cookie)"),
-                    requestBody: z.object({}).passthrough().optional().describe("Request body definition (content, required)"),
-                    responses: z.record( // Allows any status code string as key (e.g., '200')
-                         z.object({}).passthrough() // Allows any valid response object structure
-                    ).optional().describe("Responses object mapping status codes to response definitions") ,
-                    security: z.array(z.record(z.array(z.string()))).optional().describe("Security requirements array")
-                }).passthrough() // Allow other standard operation fields (tags, etc.)
-            )
-        ).optional().describe("API paths and operations. Should contain one path and one method for the target operation."),
-        components: z.object({
-            schemas: z.record(z.object({}).passthrough()).optional().describe("Reusable schema definitions used in requestBody or responses"),
-            securitySchemes: z.record(z.object({}).passthrough()).optional().describe("Security scheme definitions (e.g., bearerAuth)")
-        }).passthrough().optional().describe("Reusable components like schemas and security schemes")
-    }).passthrough() // Allow other top-level OAS fields if needed
-    .describe("A valid OpenAPI 3.x JSON object fragment describing a single API operation, constructed from the provided text summary.");
-
-    // --- Step 3a: Information Gathering using generateText with Tools ---
-    console.log(`\n--- Starting Step 3a: Information Gathering for operation: ${operation} ---`);
-    let gatheredInformation: string | null = null;
-    try {
-        // System Prompt for Information Gathering (Even Stricter)
-        const infoGatheringSystemPrompt = `
-Objective: Gather comprehensive information needed to create an OpenAPI Specification (OAS 3.x) fragment for the specific API operation: '{operation}'.
-
-Process:
-1.  Understand the operation: '{operation}'.
-2.  Use available tools ('search_api_documentation', 'read_webpage_content') to find and read relevant documentation SPECIFICALLY for this operation. Focus ONLY on '{operation}'.
-3.  Extract key factual details from the tool results: HTTP method, full path, parameters (path, query, header, request body with types/descriptions), successful response schemas (e.g., 200 OK structure), and security requirements.
-4.  **CRITICAL OUTPUT REQUIREMENT:** Your final output MUST be ONLY the consolidated, factual text summary of the details extracted from the tool results. Do NOT include introductions, conclusions, explanations, apologies, or any conversational text (like "Okay, I found..." or "Let me check..."). Output ONLY the extracted facts. Example: "Operation: Create Refund. Method: POST. Path: /v1/refunds. Body params: amount (integer), charge (string),... Response(200): refund object with id, amount,...".
-`;
-        const currentInfoSystemPrompt = infoGatheringSystemPrompt.replace(/{operation}/g, operation);
-
-        const infoAgentResult = await generateText({
-            model: anthropic('claude-3-7-sonnet-latest'),
-            
-            system: currentInfoSystemPrompt,
-            prompt: `Gather all necessary details for the operation: "${operation}" using the available tools. Output the summarized information as plain text.`, 
-            // No mode, no experimental_output here
-            tools: agentTools,
-            maxSteps: 5, 
+      case 'failed':
+        res.status(500).json({
+            error: `Failed to generate OpenAPI specification for operation: ${outcome.failures.map((f) => f.operation).join(', ')}`,
+            details: outcome.failures.map((f) => f.error).join('\n'),
+            failures: outcome.failures,
         });
-
-        // --- START: Log the entire infoAgentResult (Re-added for debugging) --- 
-        console.log("--- Full infoAgentResult from Step 3a: ---");
-        console.log(JSON.stringify(infoAgentResult, null, 2));
-        console.log("--- End Full infoAgentResult --- ");
-        // --- END: Log the entire infoAgentResult --- 
-
-        // Use the text output directly, as the stricter prompt now seems to work
-        gatheredInformation = infoAgentResult.text.trim();
-        console.log("--- Gathered Information Text for Step 3b: ---");
-        console.log(gatheredInformation);
-        console.log("--- End Gathered Information Text --- ");
-
-        if (!gatheredInformation || gatheredInformation.length === 0) {
-            // Keep this check in case the text output is empty for some reason
-            throw new Error("Agent failed to produce a text summary in Step 3a.");
-        }
-
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`--- Error during Step 3a (Information Gathering) for "${operation}":`, errorMessage);
-        processingError = { operation, error: `Information Gathering Failed: ${errorMessage}` };
-        // Skip Step 3b if information gathering failed
-        gatheredInformation = null; 
+        return;
+      case 'succeeded':
+        res.status(200).json(outcome.result);
+        return;
     }
 
-    // --- Step 3b: Iterative Generation & Validation using generateText --- 
-    if (gatheredInformation) {
-        console.log(`\n--- Starting Step 3b: Iterative Generation & Validation for: ${operation} ---`);
-        try {
-            // Define a toolset containing only the validation tool for this step
-            const validationTool = { validate_openapi_schema: agentTools.validate_openapi_schema };
-            
-            // System Prompt for Iterative Validation
-            const iterativeValidationSystemPrompt = `
-Objective: Generate a valid OpenAPI Specification (OAS 3.x) JSON *string* for the operation based *only* on the provided information, ensuring it passes validation.
-
-Process:
-1.  Analyze the provided information.
-2.  Generate a complete OAS JSON *string* representing only the described operation.
-3.  Call the 'validate_openapi_schema' tool using the generated JSON string as the 'oas_json_string' parameter.
-4.  If the tool returns { isValid: false, error: ... }, analyze the error message.
-5.  Modify the JSON string to fix the validation error.
-6.  Call 'validate_openapi_schema' again with the corrected string.
-7.  Repeat steps 4-6 until the tool returns { isValid: true, error: null }.
-8.  **CRITICAL FINAL OUTPUT:** Once validation succeeds, your final output MUST be ONLY the validated JSON string itself. Do not include *any* other text, explanations, or confirmations (e.g., do not say "Validation passed. Here is the JSON:"). Just output the raw, valid JSON string starting with { and ending with }.
-`;
-
-            const validationAgentResult = await generateText({
-                model: anthropic('claude-3-7-sonnet-latest'), // Use Sonnet for better reasoning/iteration
-                system: iterativeValidationSystemPrompt,
-                prompt: `Generate and validate the OAS JSON string based on the following information:\n\nInformation:\n"""\n${gatheredInformation}\n"""`, 
-                tools: validationTool, // Only provide the validation tool
-                maxSteps: 10, // Allow more steps for potential iterations
-            });
-
-            // --- START: Extract Final Validated JSON Block --- 
-            const rawOutput = validationAgentResult.text.trim(); 
-
-            console.log(`--- Raw output from Step 3b (Validation) for \"${operation}\": ---`);
-            console.log(rawOutput);
-            console.log(`--- End raw output ---`);
-
-            let jsonString: string | null = null;
-            // Use regex to extract the JSON block as a final safeguard
-            const jsonMatch = rawOutput.match(/\{[\s\S]*\}/);
-            if (jsonMatch && jsonMatch[0]) {
-                jsonString = jsonMatch[0];
-                console.log("--- Extracted JSON string: ---");
-                console.log(jsonString);
-                console.log("--- End extracted JSON string ---");
-            } else {
-                console.error("Could not extract JSON block from final agent output.");
-                throw new Error(`Agent output did not contain a recognizable JSON block. Output: ${rawOutput}`);
-            }
-            
-            // We trust the iterative process handled validation, but parse one last time
-            let parsedOAS: any;
-            try {
-                 parsedOAS = JSON.parse(jsonString);
-            } catch (parseError) {
-                console.error("Failed to parse final extracted JSON string:", parseError);
-                 throw new Error(`Final extracted block was not valid JSON. Extracted: ${jsonString}`);
-            }
-            // --- END: Extract Final Validated JSON Block --- 
-
-            if (typeof parsedOAS !== 'object' || parsedOAS === null || Object.keys(parsedOAS).length === 0) {
-                throw new Error("Iterative generation resulted in an empty JSON object '{}'.");
-            }
-
-            generatedOASString = jsonString;
-            console.log(`--- Successfully generated and validated JSON via iteration for operation: ${operation} ---`);
-
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error(`--- Error during Step 3b (Iterative Generation & Validation) for "${operation}":`, errorMessage);
-            processingError = { operation, error: `Iterative Generation & Validation Failed: ${errorMessage}` };
-        }
-    }
-    // End of Step 3 processing
+  } catch (error) {
+    // Catch errors from intent check, decomposition, or unexpected issues
+    log.error('Error in /api/generate-openapi handler', { run: tracer.id, error });
+    res.status(500).json({ error: 'Internal Server Error during API processing.' });
+  }
+}));
 
-    // --- Step 4: Return Single Result or Error ---
-    console.log("\n--- Preparing final response ---");
+/**
+ * POST /api/extend-openapi
+ * Adds the operations the query asks for to an existing OpenAPI document (`spec`), reusing its
+ * components, and returns the updated document with a JSON Patch of the changes. Nothing already in the
+ * document is changed, so the patch only adds paths, operations and components.
+ */
+app.post('/api/extend-openapi', asyncHandler(async (req: Request, res: Response) => {
+  const { query, spec }: { query?: string; spec?: unknown } = req.body;
 
-    if (generatedOASString) {
-        // Parse the successful string back into an object for the final response
-        const finalSpec = JSON.parse(generatedOASString);
-        console.log(`Successfully generated OAS for operation: ${operation}`);
-        res.status(200).json({
-            generated_spec: finalSpec // Return single spec object
-        });
-    } else if (processingError) {
-        console.error(`Failed to generate OAS for operation: ${processingError.operation}`);
-        // Return the specific error encountered
-        res.status(500).json({
-            error: `Failed to generate OpenAPI specification for operation: ${processingError.operation}`,
-            details: processingError.error
-        });
-    } else {
-        // This case should ideally not be reached if decomposition worked,
-        // but included for robustness.
-        console.error("Unknown error: No OAS generated and no specific processing error recorded.");
+  if (!query || typeof query !== 'string') {
+    res.status(400).json({ error: "Missing or invalid 'query' in request body" });
+    return;
+  }
+  const specError = validateBaseDocument(spec);
+  if (specError) {
+    res.status(400).json({ error: `Missing or invalid 'spec' in request body: ${specError}` });
+    return;
+  }
+  if (req.body.evidence !== undefined || req.body.evidence_only !== undefined) {
+    res.status(400).json({ error: "'evidence' is not supported when extending a document" });
+    return;
+  }
+  // Both would rewrite the existing document, not just add to it
+  if (req.body.target_version !== undefined || req.body.add_examples !== undefined) {
+    res.status(400).json({ error: "'target_version' and 'add_examples' are not supported when extending a document" });
+    return;
+  }
+  const options = parseGenerationOptions(req.body);
+  if ('error' in options) {
+    res.status(400).json({ error: options.error });
+    return;
+  }
+  const tracer = RunTracer.create();
+  res.setHeader('X-Run-Id', tracer.id);
+  log.info('Received extension query', { run: tracer.id, query });
+
+  try {
+    const outcome = await runExtension(spec as Record<string, any>, query, options, { tracer });
+
+    switch (outcome.status) {
+      case 'no_operations':
+        res.status(400).json({ error: "Could not understand the specific API operations requested in the query."});
+        return;
+      case 'already_present':
+        // Nothing to add: the document comes back unchanged
+        res.status(200).json({ updated_spec: spec, patch: [], already_present: outcome.already_present });
+        return;
+      case 'failed':
         res.status(500).json({
-            error: 'An unexpected error occurred during processing.'
+            error: `Failed to generate OpenAPI specification for operation: ${outcome.failures.map((f) => f.operation).join(', ')}`,
+            details: outcome.failures.map((f) => f.error).join('\n'),
+            failures: outcome.failures,
         });
+        return;
+      case 'succeeded':
+        res.status(200).json(outcome.result);
+        return;
     }
 
   } catch (error) {
-    // Catch errors from intent check, decomposition, or unexpected issues
-    console.error('Error in /api/generate-openapi handler:', error);
+    log.error('Error in /api/extend-openapi handler', { run: tracer.id, error });
     res.status(500).json({ error: 'Internal Server Error during API processing.' });
   }
 }));
 
+/**
+ * Shapes a job for API responses. The event history is only served through the events stream.
+ */
+const toJobResponse = ({ events, ...job }: Job) => ({
+  ...job,
+  eventCount: events.length,
+  links: {
+    self: `/api/jobs/${job.id}`,
+    events: `/api/jobs/${job.id}/events`,
+    cancel: `/api/jobs/${job.id}/cancel`,
+  },
+});
+
+/**
+ * POST /api/jobs
+ * Starts a background generation job for the query and returns its id immediately.
+ */
+app.post('/api/jobs', asyncHandler(async (req: Request, res: Response) => {
+  const { query = req.body.evidence !== undefined ? DEFAULT_EVIDENCE_QUERY : undefined }: { query?: string } = req.body;
+
+  // With evidence the query is optional: every observed operation is documented
+  if (!query || typeof query !== 'string') {
+    res.status(400).json({ error: "Missing or invalid 'query' in request body" });
+    return;
+  }
+
+  const options = parseGenerationOptions(req.body);
+  if ('error' in options) {
+    res.status(400).json({ error: options.error });
+    return;
+  }
+
+  const job = await jobRunner.start(query, options);
+  log.info('Created job', { job: job.id, query });
+  res.status(202).location(`/api/jobs/${job.id}`).json(toJobResponse(job));
+}));
+
+/**
+ * GET /api/jobs/:id
+ * Returns the job status, and its result or error once finished.
+ */
+app.get('/api/jobs/:id', asyncHandler(async (req: Request, res: Response) => {
+  const job = await jobStore.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: `Job ${req.params.id} not found.` });
+    return;
+  }
+  res.status(200).json(toJobResponse(job));
+}));
+
+/**
+ * GET /api/jobs/:id/events
+ * Server-Sent Events stream of the job's progress. Past events are replayed first
+ * (after `Last-Event-ID` when reconnecting); the stream closes once the job finishes.
+ */
+app.get('/api/jobs/:id/events', asyncHandler(async (req: Request, res: Response) => {
+  const job = await jobStore.get(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: `Job ${req.params.id} not found.` });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  let lastSequence = Number(req.get('Last-Event-ID')) || 0;
+  const send = (event: JobEvent) => {
+    if (event.sequence <= lastSequence) return;
+    lastSequence = event.sequence;
+    res.write(`id: ${event.sequence}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === 'status' && TERMINAL_JOB_STATUSES.includes(event.status)) {
+      unsubscribe();
+      res.end();
+    }
+  };
+
+  // Subscribe before replaying so no event falls between the two; `send` skips duplicates
+  const unsubscribe = jobStore.subscribe(job.id, send);
+  req.on('close', unsubscribe);
+  job.events.forEach(send);
+}));
+
+/**
+ * POST /api/jobs/:id/cancel
+ * Cancels a queued or running job. Finished jobs are returned unchanged.
+ */
+app.post('/api/jobs/:id/cancel', asyncHandler(async (req: Request, res: Response) => {
+  const job = await jobRunner.cancel(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: `Job ${req.params.id} not found.` });
+    return;
+  }
+  res.status(200).json(toJobResponse(job));
+}));
+
+/**
+ * Shapes a session for API responses: the conversation is flattened into the operations identified so far
+ * and the questions answered.
+ */
+const toSessionResponse = ({ conversation, ...session }: Session) => ({
+  ...session,
+  operations: conversation.operations,
+  exchanges: conversation.exchanges,
+  links: {
+    self: `/api/sessions/${session.id}`,
+    answers: `/api/sessions/${session.id}/answers`,
+  },
+});
+
+/**
+ * POST /api/sessions
+ * Starts a conversational generation: same body as /api/generate-openapi, but an ambiguous query gets
+ * clarifying questions (status `needs_clarification`) instead of a guess. Responds once the first turn is over.
+ */
+app.post('/api/sessions', asyncHandler(async (req: Request, res: Response) => {
+  const { query = req.body.evidence !== undefined ? DEFAULT_EVIDENCE_QUERY : undefined }: { query?: string } = req.body;
+
+  // With evidence the query is optional: every observed operation is documented
+  if (!query || typeof query !== 'string') {
+    res.status(400).json({ error: "Missing or invalid 'query' in request body" });
+    return;
+  }
+  const options = parseGenerationOptions(req.body);
+  if ('error' in options) {
+    res.status(400).json({ error: options.error });
+    return;
+  }
+  log.info('Received session query', { query });
+
+  const session = await sessionRunner.start(query, options);
+  res.status(201).location(`/api/sessions/${session.id}`).json(toSessionResponse(session));
+}));
+
+/**
+ * GET /api/sessions/:id
+ * Returns the session: its status, open questions, and its result, refusal or error once finished.
+ */
+app.get('/api/sessions/:id', asyncHandler(async (req: Request, res: Response) => {
+  const session = await sessionStore.get(req.params.id);
+  if (!session) {
+    res.status(404).json({ error: `Session ${req.params.id} not found.` });
+    return;
+  }
+  res.status(200).json(toSessionResponse(session));
+}));
+
+/**
+ * POST /api/sessions/:id/answers
+ * Answers the session's open questions (`answers`: question id -> answer) and resumes generation,
+ * keeping the operations identified so far. Responds once the turn is over, possibly with more questions.
+ */
+app.post('/api/sessions/:id/answers', asyncHandler(async (req: Request, res: Response) => {
+  const session = await sessionStore.get(req.params.id);
+  if (!session) {
+    res.status(404).json({ error: `Session ${req.params.id} not found.` });
+    return;
+  }
+  if (session.status !== 'needs_clarification') {
+    res.status(409).json({ error: `Session ${session.id} is not waiting for answers (status: ${session.status}).` });
+    return;
+  }
+  const answersError = validateAnswers(req.body.answers, session.questions);
+  if (answersError) {
+    res.status(400).json({ error: `Invalid 'answers' in request body: ${answersError}` });
+    return;
+  }
+
+  const updated = await sessionRunner.answer(session, req.body.answers);
+  if (!updated) {
+    res.status(409).json({ error: `Session ${session.id} is not waiting for answers (status: running).` });
+    return;
+  }
+  res.status(200).json(toSessionResponse(updated));
+}));
+
+/**
+ * GET /api/runs
+ * Lists recent runs, newest first, with their usage and cost but without their timelines.
+ * Query parameters: `limit` (default 20), `status` and `kind`.
+ */
+app.get('/api/runs', asyncHandler(async (req: Request, res: Response) => {
+  const store = getTraceStore();
+  if (!store) {
+    res.status(404).json({ error: 'Run traces are not kept on this server (TRACE_STORE=none).' });
+    return;
+  }
+  const query = parseRunQuery(req.query);
+  if ('error' in query) {
+    res.status(400).json({ error: query.error });
+    return;
+  }
+  const runs = await store.list(query);
+  res.status(200).json({ runs: runs.map((run) => ({ ...run, links: { self: `/api/runs/${run.id}` } })) });
+}));
+
+/**
+ * GET /api/runs/:id
+ * Returns a run's trace: its stages, model calls (with token usage, latency and estimated cost) and tool calls.
+ */
+app.get('/api/runs/:id', asyncHandler(async (req: Request, res: Response) => {
+  const trace = await getTraceStore()?.get(req.params.id);
+  if (!trace) {
+    res.status(404).json({ error: `Run ${req.params.id} not found.` });
+    return;
+  }
+  res.status(200).json(trace);
+}));
+
+const isHttpUrl = (value: unknown): value is string => typeof value === 'string' && /^https?:\/\//.test(value);
+
+/**
+ * POST /api/drift-checks
+ * Checks a stored OpenAPI 3.x document (`spec`) against the documentation it was generated from and
+ * returns the drift report. Optional: `sources` (extra pages to check), `regenerate_all`, and `webhook_url`
+ * (receives the webhook payload if drift is found; the outcome is reported under `webhook`). The webhook
+ * URL must pass the READ_ALLOWED_DOMAINS / READ_BLOCKED_DOMAINS policy and resolve to public addresses only.
+ */
+app.post('/api/drift-checks', asyncHandler(async (req: Request, res: Response) => {
+  const { spec, sources, regenerate_all, webhook_url }: { spec?: unknown; sources?: unknown; regenerate_all?: unknown; webhook_url?: unknown } = req.body;
+
+  const specError = validateBaseDocument(spec);
+  if (specError) {
+    res.status(400).json({ error: `Missing or invalid 'spec' in request body: ${specError}` });
+    return;
+  }
+  if (sources !== undefined && !(Array.isArray(sources) && sources.every(isHttpUrl))) {
+    res.status(400).json({ error: "'sources' must be an array of http(s) URLs" });
+    return;
+  }
+  if (regenerate_all !== undefined && typeof regenerate_all !== 'boolean') {
+    res.status(400).json({ error: "'regenerate_all' must be a boolean" });
+    return;
+  }
+  if (webhook_url !== undefined && !isHttpUrl(webhook_url)) {
+    res.status(400).json({ error: "'webhook_url' must be an http(s) URL" });
+    return;
+  }
+  // The server posts to it, so a caller-supplied address is held to the same policy as pages it reads
+  const webhookViolation = webhook_url === undefined ? null : domainPolicyViolation(webhook_url);
+  if (webhookViolation) {
+    res.status(400).json({ error: `'webhook_url' is not allowed: ${webhookViolation}` });
+    return;
+  }
+  const webhookAddressViolation = webhook_url === undefined ? null : await privateAddressViolation(webhook_url);
+  if (webhookAddressViolation) {
+    res.status(400).json({ error: `'webhook_url' is not allowed: ${webhookAddressViolation}` });
+    return;
+  }
+  if (req.body.evidence !== undefined || req.body.evidence_only !== undefined) {
+    res.status(400).json({ error: "'evidence' is not supported when checking for drift" });
+    return;
+  }
+  const options = parseGenerationOptions(req.body);
+  if ('error' in options) {
+    res.status(400).json({ error: options.error });
+    return;
+  }
+  const tracer = RunTracer.create();
+  res.setHeader('X-Run-Id', tracer.id);
+  log.info('Received drift check', { run: tracer.id });
+
+  try {
+    const outcome = await runDriftCheck(spec as Record<string, any>, { sources, regenerateAll: regenerate_all }, options, { tracer });
+    if (outcome.status === 'no_operations') {
+      res.status(400).json({ error: 'The document has no operations to check.' });
+      return;
+    }
+    const { report } = outcome;
+    if (!webhook_url) {
+      res.status(200).json(report);
+      return;
+    }
+    if (!hasDrift(report)) {
+      res.status(200).json({ ...report, webhook: { url: webhook_url, status: 'not_sent', error: null } });
+      return;
+    }
+    const webhook = await sendDriftWebhook(webhook_url, report).then(
+      () => ({ url: webhook_url, status: 'sent', error: null }),
+      (error: Error) => ({ url: webhook_url, status: 'failed', error: error.message })
+    );
+    res.status(200).json({ ...report, webhook });
+  } catch (error) {
+    log.error('Error in /api/drift-checks handler', { run: tracer.id, error });
+    res.status(500).json({ error: 'Internal Server Error during drift check.' });
+  }
+}));
+
+/**
+ * GET /api/drift-checks
+ * Returns the latest scheduled check of every DRIFT_SPECS file.
+ */
+app.get('/api/drift-checks', (req: Request, res: Response) => {
+  if (!driftScheduler) {
+    res.status(404).json({ error: 'No scheduled drift checks on this server (DRIFT_SPECS is not set).' });
+    return;
+  }
+  res.status(200).json({ interval_hours: driftConfig.intervalHours, checks: driftScheduler.list() });
+});
+
+/**
+ * Shapes a mock server for API responses.
+ */
+const toMockResponse = ({ id, title, operations, createdAt }: MockServer) => ({
+  id,
+  title,
+  operations,
+  createdAt,
+  links: {
+    self: `/api/mocks/${id}`,
+    base_url: `/mocks/${id}`,
+  },
+});
+
+/**
+ * POST /api/mocks
+ * Registers an OpenAPI 3.x document (`spec`, or the result of a finished job with `job_id`) and serves
+ * a mock of it under /mocks/:id.
+ */
+app.post('/api/mocks', asyncHandler(async (req: Request, res: Response) => {
+  const { spec, job_id }: { spec?: unknown; job_id?: unknown } = req.body;
+
+  let document = spec;
+  if (job_id !== undefined) {
+    const job = typeof job_id === 'string' ? await jobStore.get(job_id) : null;
+    if (!job) {
+      res.status(404).json({ error: `Job ${job_id} not found.` });
+      return;
+    }
+    if (!job.result) {
+      res.status(409).json({ error: `Job ${job.id} has no generated document (status: ${job.status}).` });
+      return;
+    }
+    document = job.result.generated_spec;
+  }
+  const specError = validateBaseDocument(document);
+  if (specError) {
+    res.status(400).json({ error: `Missing or invalid 'spec' in request body: ${specError}` });
+    return;
+  }
+
+  const mock = mockRegistry.register(document as Record<string, any>);
+  res.status(201).location(`/api/mocks/${mock.id}`).json(toMockResponse(mock));
+}));
+
+/**
+ * GET /api/mocks/:id
+ * Returns a registered mock and the operations it serves.
+ */
+app.get('/api/mocks/:id', (req: Request, res: Response) => {
+  const mock = mockRegistry.get(req.params.id);
+  if (!mock) {
+    res.status(404).json({ error: `Mock ${req.params.id} not found.` });
+    return;
+  }
+  res.status(200).json(toMockResponse(mock));
+});
+
+/**
+ * DELETE /api/mocks/:id
+ * Stops serving a mock.
+ */
+app.delete('/api/mocks/:id', (req: Request, res: Response) => {
+  if (!mockRegistry.delete(req.params.id)) {
+    res.status(404).json({ error: `Mock ${req.params.id} not found.` });
+    return;
+  }
+  res.status(204).end();
+});
+
+/**
+ * ALL /mocks/:id/*
+ * The mock itself: requests are validated against the document and answered with example responses.
+ */
+app.use('/mocks/:id', (req: Request, res: Response, next) => {
+  const mock = mockRegistry.get(req.params.id);
+  if (!mock) {
+    res.status(404).json({ error: `Mock ${req.params.id} not found.` });
+    return;
+  }
+  mock.router(req, res, next);
+});
+
 /**
  * GET /health
  * Simple health check endpoint.
@@ -325,5 +563,6 @@ app.get('/health', (req: Request, res: Response) => {
 
 // Start the server and listen on the defined port
 app.listen(PORT, () => {
-  console.log(`Server listening on port ${PORT}`);
+  log.info(`Server listening on port ${PORT}`);
+  driftScheduler?.start();
 }); 
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+
+import { GenerationOptions } from '../pipeline/runGeneration';
+import { Job, JobEvent, JobEventInput, JobEventListener, JobStore, TERMINAL_JOB_STATUSES } from './jobStore';
+
+/**
+ * Process-local JobStore. Jobs are lost on restart.
+ * Once more than `maxJobs` jobs exist, the oldest finished jobs are evicted.
+ */
+export class InMemoryJobStore implements JobStore {
+    private readonly jobs = new Map<string, Job>();
+    private readonly emitter = new EventEmitter();
+
+    constructor(private readonly maxJobs = 100) {
+        // One listener per open SSE connection
+        this.emitter.setMaxListeners(0);
+    }
+
+    async create(query: string, options: GenerationOptions): Promise<Job> {
+        const now = new Date().toISOString();
+        const job: Job = {
+            id: randomUUID(),
+            query,
+            options,
+            status: 'queued',
+            createdAt: now,
+            updatedAt: now,
+            result: null,
+            error: null,
+            runId: null,
+            events: [],
+        };
+        this.jobs.set(job.id, job);
+        this.evict();
+        return job;
+    }
+
+    async get(id: string): Promise<Job | null> {
+        return this.jobs.get(id) ?? null;
+    }
+
+    async update(id: string, changes: Partial<Pick<Job, 'status' | 'result' | 'error' | 'runId'>>): Promise<Job> {
+        const job = this.require(id);
+        Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+        return job;
+    }
+
+    async appendEvent(id: string, event: JobEventInput): Promise<JobEvent> {
+        const job = this.require(id);
+        const recorded: JobEvent = { ...event, sequence: job.events.length + 1, timestamp: new Date().toISOString() };
+        job.events.push(recorded);
+        this.emitter.emit(id, recorded);
+        return recorded;
+    }
+
+    subscribe(id: string, listener: JobEventListener): () => void {
+        this.emitter.on(id, listener);
+        return () => this.emitter.off(id, listener);
+    }
+
+    private require(id: string): Job {
+        const job = this.jobs.get(id);
+        if (!job) throw new Error(`Job ${id} not found.`);
+        return job;
+    }
+
+    private evict(): void {
+        // Map iteration follows insertion order, so this walks oldest first
+        for (const [id, job] of this.jobs) {
+            if (this.jobs.size <= this.maxJobs) break;
+            if (TERMINAL_JOB_STATUSES.includes(job.status)) this.jobs.delete(id);
+        }
+    }
+}
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { InMemoryJobStore } from './inMemoryJobStore';
+import { JobRunner } from './jobRunner';
+import { Job, JobStore, TERMINAL_JOB_STATUSES } from './jobStore';
+
+// Decomposition finds no operations, so every job fails quickly without generating anything
+const SCRIPT = {
+    responses: [
+        { stage: 'intent', object: { intent: 'yes' }, repeat: true },
+        { stage: 'decomposition', object: { operations: [] }, repeat: true },
+    ],
+};
+
+/**
+ * An in-memory store that lets a test act just before a job's outcome is written.
+ */
+class PausingJobStore extends InMemoryJobStore {
+    beforeOutcome: ((id: string) => Promise<void>) | null = null;
+
+    async update(id: string, changes: Parameters<InMemoryJobStore['update']>[1]): Promise<Job> {
+        if ((changes.result || changes.error) && this.beforeOutcome) await this.beforeOutcome(id);
+        return super.update(id, changes);
+    }
+}
+
+const finished = (store: JobStore, id: string) => new Promise<void>((resolve) => {
+    const unsubscribe = store.subscribe(id, (event) => {
+        if (event.type === 'status' && TERMINAL_JOB_STATUSES.includes(event.status)) {
+            unsubscribe();
+            resolve();
+        }
+    });
+});
+
+let directory: string;
+
+beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'text-to-openapi-jobs-'));
+    fs.writeFileSync(path.join(directory, 'script.json'), JSON.stringify(SCRIPT));
+    Object.assign(process.env, {
+        MODEL_DEFAULT: 'mock',
+        MOCK_MODEL_SCRIPT: path.join(directory, 'script.json'),
+        CACHE_BACKEND: 'none',
+        TRACE_STORE: 'none',
+        LOG_LEVEL: 'error',
+    });
+});
+
+afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('JobRunner.cancel', () => {
+    it('is ignored once the run is recording its outcome', async () => {
+        const store = new PausingJobStore();
+        const runner = new JobRunner(store);
+        let cancelled: Job | null = null;
+        store.beforeOutcome = async (id) => {
+            // The in-memory store hands out its live job, so keep the job as the cancel saw it
+            cancelled = structuredClone(await runner.cancel(id));
+        };
+
+        const job = await runner.start('Document the refunds API');
+        await finished(store, job.id);
+
+        expect(cancelled).toMatchObject({ id: job.id, status: 'running' });
+        const stored = await store.get(job.id);
+        expect(stored).toMatchObject({ status: 'failed', error: { message: 'Could not understand the specific API operations requested in the query.' } });
+        expect(stored!.events.filter((event) => event.type === 'status').map((event) => 'status' in event && event.status)).toEqual(['running', 'failed']);
+    });
+
+    it('returns finished jobs unchanged', async () => {
+        const store = new InMemoryJobStore();
+        const runner = new JobRunner(store);
+        const job = await runner.start('Document the refunds API');
+        await finished(store, job.id);
+
+        await expect(runner.cancel(job.id)).resolves.toMatchObject({ status: 'failed' });
+        await expect(runner.cancel('missing')).resolves.toBeNull();
+    });
+});
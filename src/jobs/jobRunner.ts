@@ -0,0 +1,123 @@
+import { GenerationOptions, runGeneration } from '../pipeline/runGeneration';
+import { PipelineEvent } from '../pipeline/events';
+import { Job, JobStatus, JobStore, TERMINAL_JOB_STATUSES } from './jobStore';
+import { RunTracer } from '../tracing';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('JobRunner');
+
+/**
+ * Runs generation jobs in the background and records their progress in a JobStore.
+ * Abort controllers live here rather than in the store, since they only exist
+ * in the process that is running the job.
+ */
+export class JobRunner {
+    private readonly controllers = new Map<string, AbortController>();
+    // Jobs whose run is recording its outcome: a cancel arriving now is too late and is ignored
+    private readonly finishing = new Set<string>();
+
+    constructor(private readonly store: JobStore) {}
+
+    /**
+     * Creates a job for the query and starts running it without waiting for it to finish.
+     * @returns The newly created (queued) job.
+     */
+    async start(query: string, options: GenerationOptions = {}): Promise<Job> {
+        const job = await this.store.create(query, options);
+        const controller = new AbortController();
+        this.controllers.set(job.id, controller);
+
+        this.run(job.id, query, options, controller).catch((error) => {
+            log.error('Unexpected error while running job', { job: job.id, error });
+        });
+        return job;
+    }
+
+    /**
+     * Cancels a queued or running job. Jobs that already finished, or are recording their outcome,
+     * are returned unchanged.
+     * @returns The job, or null if no job with this id exists.
+     */
+    async cancel(id: string): Promise<Job | null> {
+        const job = await this.store.get(id);
+        const controller = this.controllers.get(id);
+        // No await between these checks and the abort, so the run can't start recording its outcome in between
+        if (!job || TERMINAL_JOB_STATUSES.includes(job.status) || this.finishing.has(id) || controller?.signal.aborted) return job;
+
+        log.info('Cancelling job', { job: id });
+        controller?.abort();
+        return this.setStatus(id, 'cancelled');
+    }
+
+    private async run(id: string, query: string, options: GenerationOptions, controller: AbortController): Promise<void> {
+        // Chain event writes so they are stored in the order the pipeline emitted them
+        let pendingEvents: Promise<unknown> = Promise.resolve();
+        const onEvent = (event: PipelineEvent) => {
+            pendingEvents = pendingEvents
+                .then(() => this.store.appendEvent(id, event))
+                .catch((error) => log.error('Failed to record event', { job: id, error }));
+        };
+
+        try {
+            const tracer = RunTracer.create();
+            await this.store.update(id, { runId: tracer.id });
+            if (controller.signal.aborted) return;
+            await this.setStatus(id, 'running');
+            const outcome = await runGeneration(query, options, { onEvent, abortSignal: controller.signal, tracer });
+            await pendingEvents;
+            if (!this.claimOutcome(id, controller)) return;
+
+            switch (outcome.status) {
+                case 'succeeded':
+                    await this.store.update(id, { result: outcome.result });
+                    await this.setStatus(id, 'succeeded');
+                    break;
+                case 'not_openapi_request':
+                    await this.store.update(id, { error: { message: outcome.refusal.explanation, refusal: outcome.refusal } });
+                    await this.setStatus(id, 'failed');
+                    break;
+                case 'no_operations':
+                    await this.store.update(id, { error: { message: 'Could not understand the specific API operations requested in the query.' } });
+                    await this.setStatus(id, 'failed');
+                    break;
+                case 'failed':
+                    await this.store.update(id, {
+                        error: {
+                            message: `Failed to generate OpenAPI specification for operation: ${outcome.failures.map((f) => f.operation).join(', ')}`,
+                            failures: outcome.failures,
+                        },
+                    });
+                    await this.setStatus(id, 'failed');
+                    break;
+            }
+        } catch (error) {
+            await pendingEvents;
+            // Cancellation already recorded the final status
+            if (!this.claimOutcome(id, controller)) return;
+
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            log.error('Job failed', { job: id, error: errorMessage });
+            await this.store.update(id, { error: { message: errorMessage } });
+            await this.setStatus(id, 'failed');
+        } finally {
+            this.controllers.delete(id);
+            this.finishing.delete(id);
+        }
+    }
+
+    /**
+     * Decides between the run's outcome and a cancel: the run may record its outcome unless the job was
+     * cancelled first, and once it may, later cancels are ignored.
+     */
+    private claimOutcome(id: string, controller: AbortController): boolean {
+        if (controller.signal.aborted) return false;
+        this.finishing.add(id);
+        return true;
+    }
+
+    private async setStatus(id: string, status: JobStatus): Promise<Job> {
+        const job = await this.store.update(id, { status });
+        await this.store.appendEvent(id, { type: 'status', status });
+        return job;
+    }
+}
@@ -0,0 +1,56 @@
+import { PipelineEvent } from '../pipeline/events';
+import { GenerationOptions, GenerationResult, OperationFailure } from '../pipeline/runGeneration';
+import { Refusal } from '../pipeline/clarification';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export const TERMINAL_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+/**
+ * An event recorded against a job: either a pipeline progress event or a job status change.
+ */
+export type JobEventInput = PipelineEvent | { type: 'status'; status: JobStatus };
+
+/**
+ * A recorded job event.
+ * `sequence` increases by one per event within a job and doubles as the SSE event id.
+ */
+export type JobEvent = JobEventInput & {
+    sequence: number;
+    timestamp: string;
+};
+
+/**
+ * Defines the structure of a generation job.
+ * `runId` identifies the trace of its run once it started (see `GET /api/runs/:id`).
+ */
+export interface Job {
+    id: string;
+    query: string;
+    options: GenerationOptions;
+    status: JobStatus;
+    createdAt: string;
+    updatedAt: string;
+    result: GenerationResult | null;
+    error: { message: string; failures?: OperationFailure[]; refusal?: Refusal } | null;
+    runId: string | null;
+    events: JobEvent[];
+}
+
+export type JobEventListener = (event: JobEvent) => void;
+
+/**
+ * Storage for generation jobs and their event history.
+ * Implementations must deliver events to subscribers in `sequence` order.
+ */
+export interface JobStore {
+    create(query: string, options: GenerationOptions): Promise<Job>;
+    get(id: string): Promise<Job | null>;
+    update(id: string, changes: Partial<Pick<Job, 'status' | 'result' | 'error' | 'runId'>>): Promise<Job>;
+    appendEvent(id: string, event: JobEventInput): Promise<JobEvent>;
+    /**
+     * Registers a listener for events appended after this call.
+     * @returns A function that removes the listener.
+     */
+    subscribe(id: string, listener: JobEventListener): () => void;
+}
@@ -0,0 +1,60 @@
+import { LINT_RULES } from './rules';
+import { LINT_SEVERITIES, LintFinding, LintRuleConfig, LintSeverity } from './types';
+
+export { LINT_RULES } from './rules';
+export { LintFinding, LintRuleConfig, LintSeverity } from './types';
+
+const SEVERITY_ORDER: Record<LintFinding['severity'], number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Checks a per-request rule configuration.
+ * @returns An error message, or null if every rule id and severity is known.
+ */
+export function validateLintRuleConfig(config: unknown): string | null {
+    if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+        return 'expected an object mapping rule ids to severities';
+    }
+    for (const [ruleId, severity] of Object.entries(config)) {
+        if (!LINT_RULES.some((rule) => rule.id === ruleId)) {
+            return `unknown rule '${ruleId}' (known rules: ${LINT_RULES.map((rule) => rule.id).join(', ')})`;
+        }
+        if (!(LINT_SEVERITIES as readonly string[]).includes(severity as string)) {
+            return `invalid severity '${severity}' for rule '${ruleId}' (expected one of ${LINT_SEVERITIES.join(', ')})`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Runs every enabled rule against an OpenAPI document.
+ * A rule that throws (e.g. on a wildly malformed document) is reported as an error finding
+ * rather than aborting the lint.
+ *
+ * @param spec - The parsed OpenAPI document.
+ * @param config - Optional severity overrides by rule id ('off' disables a rule).
+ * @returns Findings sorted by severity, then location.
+ */
+export function lintSpec(spec: Record<string, any>, config: LintRuleConfig = {}): LintFinding[] {
+    const findings: LintFinding[] = [];
+
+    for (const rule of LINT_RULES) {
+        const severity: LintSeverity = config[rule.id] ?? rule.defaultSeverity;
+        if (severity === 'off') continue;
+
+        try {
+            for (const violation of rule.check(spec)) {
+                findings.push({ ruleId: rule.id, severity, ...violation });
+            }
+        } catch (error) {
+            findings.push({
+                ruleId: rule.id,
+                severity: 'error',
+                message: `Rule failed to run: ${error instanceof Error ? error.message : String(error)}`,
+                location: '',
+            });
+        }
+    }
+
+    return findings.sort((a, b) =>
+        SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.location.localeCompare(b.location));
+}
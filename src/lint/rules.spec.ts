@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import { LINT_RULES, lintSpec } from '.';
+
+const OPERATION = '/paths/~1v1~1refunds~1{refund}/get';
+
+// Passes every rule; each case below breaks it in one way
+const PASSING: Record<string, any> = {
+    openapi: '3.0.3',
+    info: { title: 'Refunds API', version: '1.0.0' },
+    paths: {
+        '/v1/refunds/{refund}': {
+            get: {
+                operationId: 'retrieveRefund',
+                parameters: [{ name: 'refund', in: 'path', required: true, schema: { type: 'string' } }],
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    '200': { description: 'The refund.', content: { 'application/json': { schema: { $ref: '#/components/schemas/Refund' } } } },
+                },
+            },
+        },
+    },
+    components: {
+        schemas: { Refund: { type: 'object', properties: { id: { type: 'string' } } } },
+        securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+    },
+};
+
+const operation = (spec: Record<string, any>) => spec.paths['/v1/refunds/{refund}'].get;
+
+const CASES: [ruleId: string, severity: string, location: string, breakSpec: (spec: Record<string, any>) => void][] = [
+    ['path-params-declared', 'error', OPERATION, (spec) => {
+        operation(spec).parameters = [];
+    }],
+    ['path-params-in-template', 'error', `${OPERATION}/parameters/1`, (spec) => {
+        operation(spec).parameters.push({ name: 'charge', in: 'path', required: true, schema: { type: 'string' } });
+    }],
+    ['operation-id-required', 'warning', OPERATION, (spec) => {
+        delete operation(spec).operationId;
+    }],
+    ['operation-id-unique', 'error', '/paths/~1v1~1refunds/get/operationId', (spec) => {
+        const { parameters, ...withoutParameters } = operation(spec);
+        spec.paths['/v1/refunds'] = { get: withoutParameters };
+    }],
+    ['ref-resolves', 'error', `${OPERATION}/responses/200/content/application~1json/schema/$ref`, (spec) => {
+        operation(spec).responses['200'].content['application/json'].schema.$ref = '#/components/schemas/Missing';
+    }],
+    ['no-request-body-on-get', 'error', `${OPERATION}/requestBody`, (spec) => {
+        operation(spec).requestBody = { content: { 'application/json': { schema: { type: 'object' } } } };
+    }],
+    ['success-response-defined', 'warning', `${OPERATION}/responses`, (spec) => {
+        operation(spec).responses = { '404': { description: 'Not found.' } };
+    }],
+    ['response-schema-defined', 'warning', `${OPERATION}/responses/200`, (spec) => {
+        operation(spec).responses = { '200': { description: 'The refund.' } };
+    }],
+    ['parameter-schema-defined', 'error', `${OPERATION}/parameters/0`, (spec) => {
+        delete operation(spec).parameters[0].schema;
+    }],
+    ['security-scheme-defined', 'error', `${OPERATION}/security/0`, (spec) => {
+        operation(spec).security = [{ apiKey: [] }];
+    }],
+];
+
+describe('lint rules', () => {
+    it('keeps rule ids and default severities stable', () => {
+        expect(LINT_RULES.map(({ id, defaultSeverity }) => [id, defaultSeverity])).toEqual(CASES.map(([ruleId, severity]) => [ruleId, severity]));
+    });
+
+    it('finds nothing in a document that follows every rule', () => {
+        expect(lintSpec(PASSING)).toEqual([]);
+    });
+
+    it.each(CASES)('%s reports a minimal failing document', (ruleId, severity, location, breakSpec) => {
+        const spec = structuredClone(PASSING);
+        breakSpec(spec);
+
+        expect(lintSpec(spec)).toEqual([{ ruleId, severity, location, message: expect.any(String) }]);
+    });
+
+    it('applies configured severities and skips rules that are off', () => {
+        const spec = structuredClone(PASSING);
+        delete operation(spec).operationId;
+
+        expect(lintSpec(spec, { 'operation-id-required': 'error' })).toEqual([expect.objectContaining({ ruleId: 'operation-id-required', severity: 'error' })]);
+        expect(lintSpec(spec, { 'operation-id-required': 'off' })).toEqual([]);
+    });
+});
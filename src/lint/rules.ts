@@ -0,0 +1,228 @@
+import { LintRule, RuleViolation } from './types';
+import { resolveJsonPointer, toJsonPointer } from '../utils/jsonPointer';
+import { effectiveParameters, listOperations, pathTemplateNames } from '../utils/openapi';
+
+const pathParamsDeclared: LintRule = {
+    id: 'path-params-declared',
+    description: 'Every {template} segment in a path has a matching required path parameter.',
+    defaultSeverity: 'error',
+    check(spec) {
+        const violations: RuleViolation[] = [];
+        for (const entry of listOperations(spec)) {
+            const { path, method } = entry;
+            const declared = effectiveParameters(spec, entry).filter(({ parameter }) => parameter.in === 'path');
+            for (const name of pathTemplateNames(path)) {
+                const match = declared.find(({ parameter }) => parameter.name === name);
+                if (!match) {
+                    violations.push({
+                        message: `Path template parameter '{${name}}' is not declared as an 'in: path' parameter of ${method.toUpperCase()} ${path}.`,
+                        location: toJsonPointer('paths', path, method),
+                    });
+                } else if (match.parameter.required !== true) {
+                    violations.push({
+                        message: `Path parameter '${name}' must have 'required: true'.`,
+                        location: match.location,
+                    });
+                }
+            }
+        }
+        return violations;
+    },
+};
+
+const pathParamsInTemplate: LintRule = {
+    id: 'path-params-in-template',
+    description: "Every 'in: path' parameter appears as a {template} segment in its path.",
+    defaultSeverity: 'error',
+    check(spec) {
+        const violations: RuleViolation[] = [];
+        for (const entry of listOperations(spec)) {
+            const { path, method } = entry;
+            const templateNames = pathTemplateNames(path);
+            for (const { parameter, location } of effectiveParameters(spec, entry)) {
+                if (parameter.in === 'path' && !templateNames.includes(parameter.name)) {
+                    violations.push({
+                        message: `Path parameter '${parameter.name}' does not appear in the path '${path}'.`,
+                        location,
+                    });
+                }
+            }
+        }
+        return violations;
+    },
+};
+
+const operationIdRequired: LintRule = {
+    id: 'operation-id-required',
+    description: 'Every operation has an operationId.',
+    defaultSeverity: 'warning',
+    check(spec) {
+        return listOperations(spec)
+            .filter(({ operation }) => typeof operation.operationId !== 'string' || operation.operationId.trim() === '')
+            .map(({ path, method }) => ({
+                message: `${method.toUpperCase()} ${path} has no operationId.`,
+                location: toJsonPointer('paths', path, method),
+            }));
+    },
+};
+
+const operationIdUnique: LintRule = {
+    id: 'operation-id-unique',
+    description: 'No two operations share an operationId.',
+    defaultSeverity: 'error',
+    check(spec) {
+        const seen = new Map<string, string>();
+        const violations: RuleViolation[] = [];
+        for (const { path, method, operation } of listOperations(spec)) {
+            if (typeof operation.operationId !== 'string') continue;
+            const location = toJsonPointer('paths', path, method, 'operationId');
+            const first = seen.get(operation.operationId);
+            if (first) {
+                violations.push({ message: `operationId '${operation.operationId}' is already used at ${first}.`, location });
+            } else {
+                seen.set(operation.operationId, location);
+            }
+        }
+        return violations;
+    },
+};
+
+const refResolves: LintRule = {
+    id: 'ref-resolves',
+    description: 'Every local $ref points at something that exists in the document.',
+    defaultSeverity: 'error',
+    check(spec) {
+        const violations: RuleViolation[] = [];
+        const walk = (value: any, segments: (string | number)[]) => {
+            if (Array.isArray(value)) {
+                value.forEach((child, index) => walk(child, [...segments, index]));
+            } else if (value && typeof value === 'object') {
+                for (const [key, child] of Object.entries(value)) {
+                    if (key === '$ref' && typeof child === 'string') {
+                        if (child.startsWith('#') && resolveJsonPointer(spec, child) === undefined) {
+                            violations.push({ message: `$ref '${child}' does not resolve to anything in the document.`, location: toJsonPointer(...segments, '$ref') });
+                        }
+                    } else {
+                        walk(child, [...segments, key]);
+                    }
+                }
+            }
+        };
+        walk(spec, []);
+        return violations;
+    },
+};
+
+const noRequestBodyOnGet: LintRule = {
+    id: 'no-request-body-on-get',
+    description: 'GET and HEAD operations do not define a requestBody.',
+    defaultSeverity: 'error',
+    check(spec) {
+        return listOperations(spec)
+            .filter(({ method, operation }) => (method === 'get' || method === 'head') && operation.requestBody !== undefined)
+            .map(({ path, method }) => ({
+                message: `${method.toUpperCase()} ${path} defines a requestBody; send these fields as query parameters instead.`,
+                location: toJsonPointer('paths', path, method, 'requestBody'),
+            }));
+    },
+};
+
+const successResponseDefined: LintRule = {
+    id: 'success-response-defined',
+    description: 'Every operation documents at least one 2xx (or default) response.',
+    defaultSeverity: 'warning',
+    check(spec) {
+        return listOperations(spec)
+            .filter(({ operation }) => !Object.keys(operation.responses ?? {}).some((code) => /^2(\d\d|XX)$/i.test(code) || code === 'default'))
+            .map(({ path, method }) => ({
+                message: `${method.toUpperCase()} ${path} has no 2xx response.`,
+                location: toJsonPointer('paths', path, method, 'responses'),
+            }));
+    },
+};
+
+const responseSchemaDefined: LintRule = {
+    id: 'response-schema-defined',
+    description: 'Successful responses with a body (2xx except 204) declare content with a schema.',
+    defaultSeverity: 'warning',
+    check(spec) {
+        const violations: RuleViolation[] = [];
+        for (const { path, method, operation } of listOperations(spec)) {
+            if (method === 'head') continue;
+            for (const [code, raw] of Object.entries<any>(operation.responses ?? {})) {
+                if (!/^2(\d\d|XX)$/i.test(code) || code === '204') continue;
+                const response = raw?.$ref ? resolveJsonPointer(spec, raw.$ref) as any : raw;
+                const location = toJsonPointer('paths', path, method, 'responses', code);
+                const content = response?.content;
+                if (!content || Object.keys(content).length === 0) {
+                    violations.push({ message: `Response ${code} of ${method.toUpperCase()} ${path} has no content.`, location });
+                    continue;
+                }
+                for (const [mediaType, media] of Object.entries<any>(content)) {
+                    if (!media?.schema) {
+                        violations.push({
+                            message: `Response ${code} of ${method.toUpperCase()} ${path} has no schema for '${mediaType}'.`,
+                            location: toJsonPointer('paths', path, method, 'responses', code, 'content', mediaType),
+                        });
+                    }
+                }
+            }
+        }
+        return violations;
+    },
+};
+
+const parameterSchemaDefined: LintRule = {
+    id: 'parameter-schema-defined',
+    description: "Every parameter has a 'schema' or 'content'.",
+    defaultSeverity: 'error',
+    check(spec) {
+        const violations: RuleViolation[] = [];
+        for (const entry of listOperations(spec)) {
+            for (const { parameter, location } of effectiveParameters(spec, entry)) {
+                if (!parameter.schema && !parameter.content) {
+                    violations.push({ message: `Parameter '${parameter.name}' (in ${parameter.in}) has no schema.`, location });
+                }
+            }
+        }
+        return violations;
+    },
+};
+
+const securitySchemeDefined: LintRule = {
+    id: 'security-scheme-defined',
+    description: 'Every security requirement names a scheme defined in components.securitySchemes.',
+    defaultSeverity: 'error',
+    check(spec) {
+        const defined = new Set(Object.keys(spec.components?.securitySchemes ?? {}));
+        const violations: RuleViolation[] = [];
+        const checkRequirements = (requirements: any, base: (string | number)[]) => {
+            (Array.isArray(requirements) ? requirements : []).forEach((requirement: any, index: number) => {
+                for (const name of Object.keys(requirement ?? {})) {
+                    if (!defined.has(name)) {
+                        violations.push({ message: `Security scheme '${name}' is not defined in components.securitySchemes.`, location: toJsonPointer(...base, 'security', index) });
+                    }
+                }
+            });
+        };
+        checkRequirements(spec.security, []);
+        for (const { path, method, operation } of listOperations(spec)) checkRequirements(operation.security, ['paths', path, method]);
+        return violations;
+    },
+};
+
+/**
+ * All built-in rules. Rule ids must never change once released.
+ */
+export const LINT_RULES: LintRule[] = [
+    pathParamsDeclared,
+    pathParamsInTemplate,
+    operationIdRequired,
+    operationIdUnique,
+    refResolves,
+    noRequestBodyOnGet,
+    successResponseDefined,
+    responseSchemaDefined,
+    parameterSchemaDefined,
+    securitySchemeDefined,
+];
@@ -0,0 +1,37 @@
+export const LINT_SEVERITIES = ['error', 'warning', 'info', 'off'] as const;
+
+export type LintSeverity = typeof LINT_SEVERITIES[number];
+
+/**
+ * A single problem found by a lint rule.
+ */
+export interface LintFinding {
+    ruleId: string;
+    severity: Exclude<LintSeverity, 'off'>;
+    message: string;
+    location: string; // JSON pointer into the spec
+}
+
+/**
+ * A problem reported by a rule, before the configured severity is applied.
+ */
+export interface RuleViolation {
+    message: string;
+    location: string;
+}
+
+/**
+ * A deterministic check over an OpenAPI document.
+ * Rule ids are stable: clients use them to configure severities per request.
+ */
+export interface LintRule {
+    id: string;
+    description: string;
+    defaultSeverity: LintSeverity;
+    check(spec: Record<string, any>): RuleViolation[];
+}
+
+/**
+ * Per-request severity overrides, keyed by rule id. 'off' disables a rule.
+ */
+export type LintRuleConfig = Record<string, LintSeverity>;
@@ -0,0 +1,3 @@
+export { createMockRouter } from './mockRouter';
+export { MockRegistry, MockServer } from './mockRegistry';
+export { RequestValidationError } from './requestValidator';
@@ -0,0 +1,60 @@
+import { randomUUID } from 'crypto';
+import { Router } from 'express';
+
+import { listOperations } from '../utils/openapi';
+import { createMockRouter } from './mockRouter';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Mock');
+
+/**
+ * A registered mock: the document it serves, its operations (as `METHOD /path`) and its router.
+ */
+export interface MockServer {
+    id: string;
+    title: string | null;
+    operations: string[];
+    createdAt: string;
+    spec: Record<string, any>;
+    router: Router;
+}
+
+/**
+ * Process-local registry of mock servers. Mocks are lost on restart.
+ * Once more than `maxMocks` are registered, the oldest are removed.
+ */
+export class MockRegistry {
+    private readonly mocks = new Map<string, MockServer>();
+
+    constructor(private readonly maxMocks = 50) {}
+
+    /**
+     * Registers a document (see validateBaseDocument) and builds its router.
+     */
+    register(spec: Record<string, any>): MockServer {
+        const mock: MockServer = {
+            id: randomUUID(),
+            title: typeof spec.info?.title === 'string' ? spec.info.title : null,
+            operations: listOperations(spec).map(({ method, path }) => `${method.toUpperCase()} ${path}`),
+            createdAt: new Date().toISOString(),
+            spec,
+            router: createMockRouter(spec),
+        };
+        this.mocks.set(mock.id, mock);
+        // Maps iterate in insertion order, so the first keys are the oldest
+        for (const id of this.mocks.keys()) {
+            if (this.mocks.size <= this.maxMocks) break;
+            this.mocks.delete(id);
+        }
+        log.info('Registered mock', { mock: mock.id, operations: mock.operations.length });
+        return mock;
+    }
+
+    get(id: string): MockServer | null {
+        return this.mocks.get(id) ?? null;
+    }
+
+    delete(id: string): boolean {
+        return this.mocks.delete(id);
+    }
+}
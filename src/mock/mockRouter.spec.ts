@@ -0,0 +1,126 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { createMockRouter } from './mockRouter';
+
+const SPEC = {
+    openapi: '3.0.3',
+    info: { title: 'Refunds', version: '1.0.0' },
+    paths: {
+        '/refunds': {
+            get: {
+                parameters: [
+                    { name: 'charge', in: 'query', required: true, schema: { type: 'string' } },
+                    { name: 'limit', in: 'query', schema: { type: 'integer', maximum: 100 } },
+                ],
+                responses: { '200': { description: 'OK', content: { 'application/json': { example: { data: [] } } } } },
+            },
+            post: {
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: { $ref: '#/components/schemas/NewRefund' } } },
+                },
+                responses: { '201': { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Refund' } } } } },
+            },
+        },
+        '/refunds/{refund}': {
+            parameters: [{ name: 'refund', in: 'path', required: true, schema: { type: 'string' } }],
+            get: {
+                responses: {
+                    '200': { description: 'OK', content: { 'application/json': { example: { id: 're_123', amount: 100 } } } },
+                    '404': { description: 'Not found', content: { 'application/json': { example: { error: 'No such refund' } } } },
+                },
+            },
+        },
+    },
+    components: {
+        schemas: {
+            NewRefund: {
+                type: 'object',
+                required: ['charge'],
+                properties: { charge: { type: 'string' }, amount: { type: 'integer', minimum: 1 } },
+            },
+            Refund: { type: 'object', properties: { id: { type: 'string', example: 're_123' } } },
+        },
+    },
+};
+
+describe('createMockRouter', () => {
+    let server: http.Server;
+    let base: string;
+
+    beforeAll(async () => {
+        process.env.LOG_LEVEL = 'error';
+        server = http.createServer(express().use('/mock', createMockRouter(SPEC)));
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mock`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    const postJson = (path: string, body: unknown) =>
+        fetch(`${base}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+    it('answers valid requests with the documented or generated example', async () => {
+        const list = await fetch(`${base}/refunds?charge=ch_123&limit=10`);
+        expect(list.status).toBe(200);
+        expect(await list.json()).toEqual({ data: [] });
+
+        const created = await postJson('/refunds', { charge: 'ch_123', amount: 100 });
+        expect(created.status).toBe(201);
+        expect(await created.json()).toEqual({ id: 're_123' });
+
+        const missing = await fetch(`${base}/refunds/re_404`, { headers: { Prefer: 'code=404' } });
+        expect(missing.status).toBe(404);
+        expect(await missing.json()).toEqual({ error: 'No such refund' });
+    });
+
+    it('rejects a request missing a required parameter', async () => {
+        const res = await fetch(`${base}/refunds?limit=10`);
+        expect(res.status).toBe(400);
+        expect(await res.json()).toEqual({
+            error: 'Request validation failed',
+            details: [{ location: 'query.charge', message: 'is required' }],
+        });
+    });
+
+    it('rejects parameters that do not match their schema', async () => {
+        const res = await fetch(`${base}/refunds?charge=ch_123&limit=many`);
+        expect(res.status).toBe(400);
+        expect((await res.json()).details).toEqual([{ location: 'query.limit', message: 'must be integer' }]);
+    });
+
+    it('rejects a body of the wrong type', async () => {
+        const wrongType = await postJson('/refunds', { charge: 'ch_123', amount: '100' });
+        expect(wrongType.status).toBe(400);
+        expect((await wrongType.json()).details).toEqual([{ location: 'body.amount', message: 'must be integer' }]);
+
+        const notAnObject = await postJson('/refunds', ['ch_123']);
+        expect(notAnObject.status).toBe(400);
+        expect((await notAnObject.json()).details).toContainEqual({ location: 'body', message: 'must be object' });
+    });
+
+    it('rejects a missing body and an undocumented content type', async () => {
+        const noBody = await fetch(`${base}/refunds`, { method: 'POST' });
+        expect(noBody.status).toBe(400);
+        expect((await noBody.json()).details).toEqual([{ location: 'body', message: 'is required' }]);
+
+        const text = await fetch(`${base}/refunds`, { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body: 'ch_123' });
+        expect(text.status).toBe(415);
+        expect((await text.json()).details).toEqual([{ location: 'header.content-type', message: 'must be one of application/json' }]);
+    });
+
+    it('answers 404 for unknown paths and 405 for undocumented methods', async () => {
+        const unknown = await fetch(`${base}/charges`);
+        expect(unknown.status).toBe(404);
+        expect(await unknown.json()).toEqual({ error: 'No documented operation matches GET /charges' });
+
+        const wrongMethod = await fetch(`${base}/refunds/re_123`, { method: 'DELETE' });
+        expect(wrongMethod.status).toBe(405);
+        expect(wrongMethod.headers.get('allow')).toBe('GET');
+    });
+});
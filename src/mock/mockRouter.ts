@@ -0,0 +1,248 @@
+import express, { Request, Response, Router } from 'express';
+
+import { generateExample } from '../examples';
+import { resolveJsonPointer, toJsonPointer } from '../utils/jsonPointer';
+import { listOperations, OperationEntry } from '../utils/openapi';
+import { RequestValidationError, RequestValidator } from './requestValidator';
+
+const JSON_TYPE = /^application\/(.+\+)?json$/i;
+const FORM_TYPE = 'application/x-www-form-urlencoded';
+
+/**
+ * Follows a `$ref` to where it points, returning the target and its JSON pointer.
+ */
+function follow(spec: Record<string, any>, value: any, pointer: string): { value: any; pointer: string } {
+    for (let hops = 0; value?.$ref && typeof value.$ref === 'string' && hops < 10; hops++) {
+        pointer = value.$ref.replace(/^#/, '');
+        value = resolveJsonPointer(spec, value.$ref);
+    }
+    return { value, pointer };
+}
+
+/**
+ * Turns an OpenAPI path template into an Express (path-to-regexp 8) route: `{id}` becomes a quoted
+ * `:"id"` parameter and characters with a meaning in routes are escaped.
+ */
+function toExpressPath(path: string): string {
+    return path.split(/(\{[^}]+\})/).map((part) => {
+        const placeholder = part.match(/^\{([^}]+)\}$/);
+        if (placeholder) return `:"${placeholder[1].replace(/["\\]/g, '\\$&')}"`;
+        return part.replace(/[()[\]?+!*{}:\\]/g, '\\$&');
+    }).join('');
+}
+
+/**
+ * The regular expression a path template matches, used to tell "wrong method" (405) from "no such path" (404).
+ */
+const toPathPattern = (path: string) =>
+    new RegExp(`^${path.split(/\{[^}]+\}/).map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[^/]+')}/?$`);
+
+/**
+ * Literal segments sort before templated ones, so `/refunds/search` is tried before `/refunds/{id}`.
+ */
+function compareSpecificity(a: string, b: string): number {
+    const [segmentsA, segmentsB] = [a.split('/'), b.split('/')];
+    for (let i = 0; i < Math.min(segmentsA.length, segmentsB.length); i++) {
+        const [templatedA, templatedB] = [segmentsA[i].includes('{'), segmentsB[i].includes('{')];
+        if (templatedA !== templatedB) return templatedA ? 1 : -1;
+    }
+    return segmentsB.length - segmentsA.length;
+}
+
+/**
+ * Parses `Prefer: code=404, example=notFound` (the convention of other mock servers) to pick a documented response.
+ */
+function parsePreferences(header: string | undefined): { code?: string; example?: string } {
+    const preferences: Record<string, string> = {};
+    for (const part of (header ?? '').split(/[,;]/)) {
+        const [name, value] = part.split('=').map((s) => s.trim());
+        if (name && value) preferences[name.toLowerCase()] = value.replace(/^"|"$/g, '');
+    }
+    return { code: preferences.code, example: preferences.example };
+}
+
+const parseCookies = (header: string | undefined): Record<string, string> => Object.fromEntries((header ?? '').split(';')
+    .map((cookie) => cookie.trim().split('='))
+    .filter(([name]) => name)
+    .map(([name, ...value]) => [name, decodeURIComponent(value.join('='))]));
+
+/**
+ * Reads a parameter's raw value from the request: arrays for repeated query parameters, and
+ * comma-separated values split when the schema is an array (style form without explode, simple, ...).
+ */
+function readParameter(req: Request, parameter: Record<string, any>, schema: any): unknown {
+    let value: unknown;
+    switch (parameter.in) {
+        case 'path': value = req.params[parameter.name]; break;
+        case 'query': value = (req.query as Record<string, unknown>)[parameter.name]; break;
+        case 'header': value = req.headers[String(parameter.name).toLowerCase()]; break;
+        case 'cookie': value = parseCookies(req.headers.cookie)[parameter.name]; break;
+    }
+    const isArray = schema?.type === 'array' || (Array.isArray(schema?.type) && schema.type.includes('array'));
+    if (isArray && typeof value === 'string' && (parameter.in !== 'query' || parameter.explode === false)) {
+        const separator = parameter.style === 'spaceDelimited' ? ' ' : parameter.style === 'pipeDelimited' ? '|' : ',';
+        value = value.split(separator);
+    }
+    return value;
+}
+
+/**
+ * Picks the response for a request: the one `Prefer: code=...` names, else the first documented 2xx, else `default`,
+ * else the first one listed.
+ */
+function pickResponse(responses: Record<string, any>, preferred: string | undefined): { status: string; code: number } | null {
+    const statuses = Object.keys(responses ?? {});
+    if (statuses.length === 0) return null;
+    const status = (preferred && statuses.find((s) => s === preferred))
+        ?? statuses.filter((s) => /^2\d\d$/.test(s)).sort()[0]
+        ?? statuses.find((s) => /^2XX$/i.test(s))
+        ?? statuses.find((s) => s === 'default')
+        ?? statuses[0];
+    const code = /^\d{3}$/.test(status) ? Number(status) : /^[1-5]XX$/i.test(status) ? Number(status[0]) * 100 : preferred && /^\d{3}$/.test(preferred) ? Number(preferred) : 200;
+    return { status, code };
+}
+
+function exampleFrom(spec: Record<string, any>, media: any, name: string | undefined): unknown {
+    if (media?.example !== undefined) return media.example;
+    const examples = Object.entries<any>(media?.examples ?? {});
+    const chosen = (name && examples.find(([key]) => key === name)) || examples[0];
+    if (chosen) {
+        const example = follow(spec, chosen[1], '').value;
+        if (example?.value !== undefined) return example.value;
+    }
+    return media?.schema ? generateExample(media.schema, spec, 'response') : undefined;
+}
+
+/**
+ * Validates the request against the operation's parameters and request body.
+ */
+function validateRequest(req: Request, entry: OperationEntry, spec: Record<string, any>, validator: RequestValidator): { status: number; errors: RequestValidationError[] } {
+    const errors: RequestValidationError[] = [];
+    const parameters = new Map<string, { parameter: any; pointer: string }>();
+    const collect = (list: any, base: (string | number)[]) => (Array.isArray(list) ? list : []).forEach((raw: any, i: number) => {
+        const { value: parameter, pointer } = follow(spec, raw, toJsonPointer(...base, 'parameters', i));
+        if (parameter && typeof parameter === 'object') parameters.set(`${parameter.in}:${parameter.name}`, { parameter, pointer });
+    });
+    collect(entry.pathItem.parameters, ['paths', entry.path]);
+    collect(entry.operation.parameters, ['paths', entry.path, entry.method]);
+
+    for (const { parameter, pointer } of parameters.values()) {
+        const location = `${parameter.in}.${parameter.name}`;
+        const [mediaType] = Object.keys(parameter.content ?? {});
+        const schemaPointer = parameter.schema ? `${pointer}/schema` : mediaType ? `${pointer}${toJsonPointer('content', mediaType, 'schema')}` : null;
+        const schema = schemaPointer ? follow(spec, resolveJsonPointer(spec, schemaPointer), schemaPointer).value : undefined;
+        let value = readParameter(req, parameter, schema);
+        if (value === undefined || value === '') {
+            if (parameter.required || parameter.in === 'path') errors.push({ location, message: 'is required' });
+            continue;
+        }
+        if (mediaType && typeof value === 'string' && JSON_TYPE.test(mediaType)) {
+            try {
+                value = JSON.parse(value);
+            } catch {
+                errors.push({ location, message: 'must be JSON' });
+                continue;
+            }
+        }
+        if (schemaPointer) errors.push(...validator.validateParameter(schemaPointer, value, location).errors);
+    }
+
+    const { value: requestBody, pointer: bodyPointer } = follow(spec, entry.operation.requestBody, toJsonPointer('paths', entry.path, entry.method, 'requestBody'));
+    if (requestBody && typeof requestBody === 'object') {
+        const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+        const hasBody = Number(req.headers['content-length'] ?? 0) > 0 || req.headers['transfer-encoding'] !== undefined;
+        if (!hasBody) {
+            if (requestBody.required) errors.push({ location: 'body', message: 'is required' });
+        } else {
+            const types = Object.keys(requestBody.content ?? {});
+            const mediaType = types.find((type) => type.toLowerCase() === contentType)
+                ?? types.find((type) => type.endsWith('/*') && contentType?.startsWith(type.slice(0, -1).toLowerCase()))
+                ?? types.find((type) => type === '*/*');
+            if (types.length > 0 && !mediaType) {
+                return { status: 415, errors: [{ location: 'header.content-type', message: `must be one of ${types.join(', ')}` }] };
+            }
+            const media = mediaType ? requestBody.content[mediaType] : null;
+            if (media?.schema && (JSON_TYPE.test(contentType ?? '') || contentType === FORM_TYPE)) {
+                const schemaPointer = `${bodyPointer}${toJsonPointer('content', mediaType!, 'schema')}`;
+                errors.push(...validator.validateBody(schemaPointer, req.body, contentType === FORM_TYPE));
+            }
+        }
+    }
+    return { status: 400, errors };
+}
+
+function sendResponse(req: Request, res: Response, entry: OperationEntry, spec: Record<string, any>): void {
+    const preferences = parsePreferences(req.headers.prefer as string | undefined);
+    const picked = pickResponse(entry.operation.responses, preferences.code);
+    if (!picked) {
+        res.status(501).json({ error: `The operation ${entry.method.toUpperCase()} ${entry.path} documents no responses` });
+        return;
+    }
+    const response = follow(spec, entry.operation.responses[picked.status], '').value ?? {};
+
+    for (const [name, raw] of Object.entries<any>(response.headers ?? {})) {
+        if (name.toLowerCase() === 'content-type') continue;
+        const header = follow(spec, raw, '').value;
+        const value = header?.example ?? exampleFrom(spec, { examples: header?.examples, schema: header?.schema }, undefined);
+        if (value !== undefined && value !== null) res.setHeader(name, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
+
+    const types = Object.keys(response.content ?? {});
+    if (types.length === 0) {
+        res.status(picked.code).end();
+        return;
+    }
+    const type = req.accepts(types) || types[0];
+    const body = exampleFrom(spec, response.content[type], preferences.example);
+    res.status(picked.code);
+    if (body === undefined) {
+        res.end();
+    } else if (JSON_TYPE.test(type) || typeof body !== 'string') {
+        res.type(type.includes('*') ? 'application/json' : type).send(JSON.stringify(body));
+    } else {
+        res.type(type.includes('*') ? 'text/plain' : type).send(body);
+    }
+}
+
+/**
+ * Creates an Express router that mocks an OpenAPI 3.x document: a route for every operation, which
+ * validates the path, query, header and cookie parameters and the request body (400, or 415 for an
+ * undocumented content type), then answers with an example of a documented response. The response is
+ * the first 2xx by default; clients pick another with `Prefer: code=404` and a named example with
+ * `Prefer: example=<name>`. Examples come from the document, or are generated from the schema.
+ * Unknown paths get 404, and known paths with another method 405.
+ *
+ * @param spec - The OpenAPI 3.x document to serve.
+ * @returns The router, to mount anywhere.
+ */
+export function createMockRouter(spec: Record<string, any>): Router {
+    const validator = new RequestValidator(spec);
+    const router = express.Router();
+    router.use(express.json({ type: ['application/json', 'application/*+json'] }));
+    router.use(express.urlencoded({ extended: false }));
+    router.use(express.text({ type: ['text/*', 'application/xml'] }));
+
+    const operations = listOperations(spec).sort((a, b) => compareSpecificity(a.path, b.path));
+    for (const entry of operations) {
+        (router as any)[entry.method](toExpressPath(entry.path), (req: Request, res: Response) => {
+            const { status, errors } = validateRequest(req, entry, spec, validator);
+            if (errors.length > 0) {
+                res.status(status).json({ error: 'Request validation failed', details: errors });
+                return;
+            }
+            sendResponse(req, res, entry, spec);
+        });
+    }
+
+    const patterns = operations.map((entry) => ({ pattern: toPathPattern(entry.path), method: entry.method }));
+    router.use((req: Request, res: Response) => {
+        const allowed = Array.from(new Set(patterns.filter(({ pattern }) => pattern.test(req.path)).map(({ method }) => method.toUpperCase())));
+        if (allowed.length > 0) {
+            res.status(405).setHeader('Allow', allowed.join(', '));
+            res.json({ error: `Method ${req.method} is not documented for ${req.path}` });
+            return;
+        }
+        res.status(404).json({ error: `No documented operation matches ${req.method} ${req.path}` });
+    });
+    return router;
+}
@@ -0,0 +1,85 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+
+import { convertSpec } from '../conversion';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Mock');
+
+/**
+ * One reason a request doesn't match its operation, e.g. `{ location: 'query.limit', message: 'must be integer' }`.
+ */
+export interface RequestValidationError {
+    location: string;
+    message: string;
+}
+
+// Base URI under which the document is registered, so schemas are compiled by their JSON pointer
+const SPEC_ID = 'https://text-to-openapi.local/mock-spec.json';
+
+const describeErrors = (errors: ErrorObject[] | null | undefined, location: string, stripPrefix = ''): RequestValidationError[] =>
+    (errors ?? []).map((error) => {
+        const path = error.instancePath.startsWith(stripPrefix) ? error.instancePath.slice(stripPrefix.length) : error.instancePath;
+        const property = error.keyword === 'required' ? `/${error.params.missingProperty}`
+            : error.keyword === 'additionalProperties' ? `/${error.params.additionalProperty}` : '';
+        const at = `${path}${property}`.split('/').filter(Boolean).join('.');
+        return { location: at ? `${location}.${at}` : location, message: error.message ?? 'is invalid' };
+    });
+
+/**
+ * Validates request values against the schemas of one OpenAPI document. The document is converted to 3.1
+ * (JSON Schema 2020-12) first, so 3.0 constructs such as `nullable` and boolean exclusive bounds validate the same way.
+ * Schemas are compiled on first use; a schema that can't be compiled is logged and not enforced.
+ */
+export class RequestValidator {
+    // Parameters and form fields arrive as strings, so they are validated with type coercion
+    private readonly coercing: Ajv2020;
+    private readonly strict: Ajv2020;
+    private readonly compiled = new Map<string, ValidateFunction | null>();
+
+    constructor(spec: Record<string, any>) {
+        const converted = convertSpec(spec, '3.1.0').spec;
+        const options = { strict: false, allErrors: true, validateFormats: false, validateSchema: false, logger: false as const };
+        this.coercing = new Ajv2020({ ...options, coerceTypes: 'array' });
+        this.strict = new Ajv2020(options);
+        for (const ajv of [this.coercing, this.strict]) ajv.addSchema({ ...converted, $id: SPEC_ID });
+    }
+
+    /**
+     * Validates a string value (or values) from the URL, headers or cookies, coercing it to the schema's type.
+     *
+     * @param schemaPointer - JSON pointer of the parameter's schema in the document.
+     * @returns The coerced value and the errors (none if the schema can't be compiled).
+     */
+    validateParameter(schemaPointer: string, value: unknown, location: string): { value: unknown; errors: RequestValidationError[] } {
+        const validate = this.compile(this.coercing, schemaPointer, true);
+        if (!validate) return { value, errors: [] };
+        // Coercion replaces the value in its parent, hence the holder object
+        const holder = { value };
+        const valid = Boolean(validate(holder));
+        return { value: holder.value, errors: valid ? [] : describeErrors(validate.errors, location, '/value') };
+    }
+
+    /**
+     * Validates a request body. Form bodies are coerced like parameters; JSON bodies must match exactly.
+     */
+    validateBody(schemaPointer: string, body: unknown, coerce: boolean): RequestValidationError[] {
+        const validate = this.compile(coerce ? this.coercing : this.strict, schemaPointer, coerce);
+        if (!validate) return [];
+        const holder = { value: body };
+        return validate(holder) ? [] : describeErrors(validate.errors, 'body', '/value');
+    }
+
+    private compile(ajv: Ajv2020, schemaPointer: string, coerce: boolean): ValidateFunction | null {
+        const key = `${coerce ? 'coerce' : 'strict'} ${schemaPointer}`;
+        if (!this.compiled.has(key)) {
+            const ref = `${SPEC_ID}#${schemaPointer.split('/').map(encodeURIComponent).join('/')}`;
+            try {
+                this.compiled.set(key, ajv.compile({ type: 'object', properties: { value: { $ref: ref } } }));
+            } catch (error) {
+                log.warn('Not validating a schema', { schema: schemaPointer, error });
+                this.compiled.set(key, null);
+            }
+        }
+        return this.compiled.get(key)!;
+    }
+}
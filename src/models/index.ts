@@ -0,0 +1,120 @@
+import { LanguageModelV1 } from 'ai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+
+import { checkModelSpec, loadModelConfig, MODEL_STAGES, ModelConfig, ModelSpec, ModelStage, parseModelSpec } from '../config';
+import { loadMockScript, ScriptedMockModel } from './scriptedMockModel';
+import { FixtureSession } from '../fixtures/fixtureSession';
+import { RunTracer } from '../tracing';
+
+export { ModelSpec, ModelStage } from '../config';
+
+/**
+ * Per-request model overrides: a model for specific stages, and/or a `default` for every other stage.
+ */
+export type ModelOverrides = Partial<Record<ModelStage | 'default', ModelSpec>>;
+
+/**
+ * The per-run settings that affect model selection (a subset of the pipeline context).
+ */
+export interface ModelContext {
+    models?: ModelOverrides;
+    fixtures?: FixtureSession;
+    tracer?: RunTracer;
+}
+
+// Configuration and the OpenAI-compatible provider are created on first use (after dotenv has run)
+let modelConfig: ModelConfig | null = null;
+let openAICompatible: ReturnType<typeof createOpenAICompatible> | null = null;
+
+function getModelConfig(): ModelConfig {
+    if (!modelConfig) modelConfig = loadModelConfig();
+    return modelConfig;
+}
+
+/**
+ * Returns the model reference a stage resolves to, in order of precedence:
+ * the request's override for the stage, the request's `default`, then the configured model for the stage.
+ */
+export function resolveModelSpec(stage: ModelStage, overrides?: ModelOverrides): ModelSpec {
+    return overrides?.[stage] ?? overrides?.default ?? getModelConfig().stages[stage];
+}
+
+/**
+ * Returns the model reference for every stage, for reporting which models a run used.
+ */
+export function resolveModelSpecs(overrides?: ModelOverrides): Record<ModelStage, ModelSpec> {
+    return Object.fromEntries(MODEL_STAGES.map((stage) => [stage, resolveModelSpec(stage, overrides)])) as Record<ModelStage, ModelSpec>;
+}
+
+/**
+ * Creates the language model for a pipeline stage.
+ * A new instance is returned per call; for the mock provider this gives each call its own script cursor.
+ * When the run is recording or replaying a fixture, the model is routed through the fixture session,
+ * and when it is traced, each call is recorded in the trace.
+ *
+ * @param stage - The pipeline stage the model is used for.
+ * @param context - Optional per-request overrides, fixture session and tracer.
+ * @returns The language model to pass to `generateText` / `generateObject`.
+ * @throws Throws an error if the selected provider isn't configured.
+ */
+export function getModel(stage: ModelStage, context?: ModelContext): LanguageModelV1 {
+    const spec = resolveModelSpec(stage, context?.models);
+    const model = context?.fixtures
+        ? context.fixtures.model(stage, spec, () => createModel(stage, spec))
+        : createModel(stage, spec);
+    return context?.tracer ? context.tracer.model(stage, spec, model) : model;
+}
+
+function createModel(stage: ModelStage, spec: ModelSpec): LanguageModelV1 {
+    const { provider, modelId } = parseModelSpec(spec);
+    const config = getModelConfig();
+
+    switch (provider) {
+        case 'openai-compatible':
+            if (!config.openAICompatibleBaseUrl) {
+                throw new Error('Configuration error: OPENAI_COMPATIBLE_BASE_URL is required for openai-compatible models.');
+            }
+            if (!openAICompatible) {
+                openAICompatible = createOpenAICompatible({
+                    name: 'openai-compatible',
+                    baseURL: config.openAICompatibleBaseUrl,
+                    apiKey: config.openAICompatibleApiKey,
+                });
+            }
+            return openAICompatible.chatModel(modelId);
+        case 'mock':
+            if (!config.mockScriptPath) {
+                throw new Error('Configuration error: MOCK_MODEL_SCRIPT is required for mock models.');
+            }
+            return new ScriptedMockModel(stage, loadMockScript(config.mockScriptPath), modelId || undefined);
+        default:
+            return anthropic(modelId);
+    }
+}
+
+/**
+ * Checks per-request model overrides.
+ * @returns An error message, or null if every stage is known and every model reference is usable.
+ */
+export function validateModelOverrides(overrides: unknown): string | null {
+    if (overrides === null || typeof overrides !== 'object' || Array.isArray(overrides)) {
+        return 'expected an object mapping stages to models';
+    }
+    const config = getModelConfig();
+    for (const [stage, spec] of Object.entries(overrides)) {
+        if (stage !== 'default' && !(MODEL_STAGES as readonly string[]).includes(stage)) {
+            return `unknown stage '${stage}' (known stages: default, ${MODEL_STAGES.join(', ')})`;
+        }
+        const error = checkModelSpec(spec);
+        if (error) return `'${stage}' ${error}`;
+        const { provider } = parseModelSpec(spec as string);
+        if (provider === 'openai-compatible' && !config.openAICompatibleBaseUrl) {
+            return `'${stage}' uses the openai-compatible provider, which is not configured on this server`;
+        }
+        if (provider === 'mock' && !config.mockScriptPath) {
+            return `'${stage}' uses the mock provider, which is not configured on this server`;
+        }
+    }
+    return null;
+}
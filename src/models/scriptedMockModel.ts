@@ -0,0 +1,114 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { LanguageModelV1, LanguageModelV1CallOptions } from 'ai';
+
+const scriptSchema = z.object({
+    responses: z.array(z.object({
+        stage: z.string().optional(),
+        match: z.string().optional(),
+        text: z.string().optional(),
+        object: z.unknown().optional(),
+        toolCalls: z.array(z.object({
+            toolName: z.string(),
+            args: z.record(z.unknown()),
+        })).optional(),
+        repeat: z.boolean().optional(),
+    })),
+});
+
+/**
+ * A mock model script: canned responses, each optionally restricted to a pipeline stage
+ * and to prompts containing a `match` substring.
+ */
+export type MockScript = z.infer<typeof scriptSchema>;
+type MockResponse = MockScript['responses'][number];
+
+const scriptsByPath = new Map<string, MockScript>();
+
+/**
+ * Reads and validates a mock script file. Scripts are cached by path for the life of the process.
+ * @throws Throws an error if the file can't be read or doesn't match the script format.
+ */
+export function loadMockScript(scriptPath: string): MockScript {
+    let script = scriptsByPath.get(scriptPath);
+    if (!script) {
+        try {
+            script = scriptSchema.parse(JSON.parse(fs.readFileSync(scriptPath, 'utf8')));
+        } catch (error) {
+            throw new Error(`Failed to load mock model script '${scriptPath}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+        scriptsByPath.set(scriptPath, script);
+    }
+    return script;
+}
+
+/**
+ * Flattens a prompt to the text the `match` conditions are tested against.
+ */
+function promptText(prompt: LanguageModelV1CallOptions['prompt']): string {
+    return prompt
+        .map((message) => typeof message.content === 'string'
+            ? message.content
+            : message.content.map((part) => {
+                if (part.type === 'text') return part.text;
+                if (part.type === 'tool-result') return JSON.stringify(part.result);
+                return '';
+            }).join('\n'))
+        .join('\n');
+}
+
+/**
+ * A language model that replays scripted responses instead of calling a provider, so the pipeline
+ * can run deterministically with no API keys.
+ *
+ * Each call returns the first unused response whose `stage` (if set) is this model's stage and whose
+ * `match` (if set) appears in the prompt. Responses are used once per model instance unless marked
+ * `repeat`, so a multi-step tool loop can script a tool call followed by the final answer.
+ * `object` responses are returned as JSON text for `generateObject`.
+ */
+export class ScriptedMockModel implements LanguageModelV1 {
+    readonly specificationVersion = 'v1';
+    readonly provider = 'mock';
+    readonly defaultObjectGenerationMode = 'json';
+    readonly modelId: string;
+    private used = new Set<MockResponse>();
+    private callCount = 0;
+
+    constructor(private stage: string, private script: MockScript, modelId: string = 'scripted') {
+        this.modelId = modelId;
+    }
+
+    async doGenerate(options: LanguageModelV1CallOptions) {
+        const text = promptText(options.prompt);
+        const response = this.script.responses.find((candidate) =>
+            !this.used.has(candidate) &&
+            (!candidate.stage || candidate.stage === this.stage) &&
+            (!candidate.match || text.includes(candidate.match)));
+
+        if (!response) {
+            throw new Error(`Mock model script has no response left for stage '${this.stage}'.`);
+        }
+        if (!response.repeat) this.used.add(response);
+
+        const toolCalls = response.toolCalls?.map(({ toolName, args }) => ({
+            toolCallType: 'function' as const,
+            toolCallId: `mock-call-${++this.callCount}`,
+            toolName,
+            args: JSON.stringify(args),
+        }));
+        const output = response.text ?? (response.object !== undefined ? JSON.stringify(response.object) : undefined);
+
+        return {
+            text: output,
+            toolCalls,
+            finishReason: toolCalls?.length ? 'tool-calls' as const : 'stop' as const,
+            // Rough estimate (4 characters per token) so usage reporting has something to show
+            usage: { promptTokens: Math.ceil(text.length / 4), completionTokens: Math.ceil((output ?? '').length / 4) },
+            rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+        };
+    }
+
+    async doStream(): Promise<never> {
+        throw new Error('The mock model does not support streaming.');
+    }
+}
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { tool } from 'ai';
+
+// Import tool functions
+import { searchApiDocumentation } from '../tools/searchApiDocumentation';
+import { readWebpageContent } from '../tools/readWebpageContent';
+import { validateOpenAPISchema } from '../tools/validateOpenAPISchema';
+import { lintOpenAPISchema } from '../tools/lintOpenAPISchema';
+import { evaluateAlignment } from '../tools/evaluateAlignment';
+import { evaluateVeracity } from '../tools/evaluateVeracity';
+import { emit, PipelineContext } from './events';
+import { LintRuleConfig } from '../lint';
+import { getModel } from '../models';
+import { withComponentsFrom } from '../utils/openapi';
+import { loadContentConfig, loadSecurityConfig } from '../config';
+import { ContentTarget, selectRelevantContent } from '../content';
+import { markUntrusted, readPolicyViolation, sanitizePage } from '../security';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Tool: readWebpageContent');
+
+/**
+ * Runs Swagger Parser validation and the semantic linter together, so the generation loop
+ * keeps iterating until both pass. Lint warnings are returned but don't fail validation.
+ */
+async function validateAndLint(oasJsonString: string, lintRules?: LintRuleConfig) {
+    const validation = await validateOpenAPISchema(oasJsonString);
+    const lint = await lintOpenAPISchema(oasJsonString, lintRules);
+    const lintErrors = lint.findings.filter((f) => f.severity === 'error');
+    const lintError = lintErrors.length > 0
+        ? `Lint errors: ${lintErrors.map((f) => `[${f.ruleId}] ${f.message} (at ${f.location})`).join('; ')}`
+        : null;
+
+    return {
+        isValid: validation.isValid && lintErrors.length === 0,
+        error: validation.error ?? lint.error ?? lintError,
+        lint: lint.findings,
+    };
+}
+
+/**
+ * When extending a document, adds its components to the fragment being validated so `$ref`s to
+ * existing components resolve. Strings that don't parse are left for the validator to report.
+ */
+function withBaseComponents(oasJsonString: string, baseSpec?: Record<string, any>): string {
+    if (!baseSpec) return oasJsonString;
+    try {
+        const fragment = JSON.parse(oasJsonString);
+        if (!fragment || typeof fragment !== 'object' || Array.isArray(fragment)) return oasJsonString;
+        return JSON.stringify(withComponentsFrom(fragment, baseSpec));
+    } catch {
+        return oasJsonString;
+    }
+}
+
+/**
+ * Removes instruction-like text from a page before the agent sees it, unless INJECTION_FILTER is off.
+ * Removals are logged and collected for the run's result.
+ */
+function filterPage(content: string, url: string, context?: PipelineContext, target?: ContentTarget): string {
+    if (!loadSecurityConfig().injectionFilter) return content;
+    const { text, findings } = sanitizePage(content);
+    const operation = target?.operation ?? null;
+    // Reading further pages of sections filters the same page again
+    const reported = context?.filteredContent?.some((filtered) => filtered.url === url && filtered.operation === operation);
+    if (findings.length > 0 && !reported) {
+        const rules = Array.from(new Set(findings.map(({ rule }) => rule)));
+        log.warn('Removed instruction-like text from page', { run: context?.tracer?.id, operation, url, rules });
+        context?.filteredContent?.push({ url, operation, findings });
+        emit(context, { type: 'content_filtered', operation, url, rules });
+    }
+    return text;
+}
+
+/**
+ * Runs a tool under the run's tracer, if any, so its timing, arguments and result size are recorded.
+ */
+export function withTrace<T>(context: PipelineContext | undefined, tool: string, args: unknown, execute: () => Promise<T>): Promise<T> {
+    return context?.tracer ? context.tracer.tool(tool, args, execute) : execute();
+}
+
+function withRecording<T>(context: PipelineContext | undefined, tool: string, args: unknown, execute: () => Promise<T>): Promise<T> {
+    return context?.fixtures ? context.fixtures.tool(tool, args, execute) : execute();
+}
+
+/**
+ * Runs a tool through the run's fixture session, if any, so its result is recorded or replayed (and traced).
+ * Validation isn't routed through here: it is offline and deterministic, and its result feeds the
+ * next prompt, so replay notices when the validator's behaviour changes.
+ */
+export function withFixtures<T>(context: PipelineContext | undefined, tool: string, args: unknown, execute: () => Promise<T>): Promise<T> {
+    return withTrace(context, tool, args, () => withRecording(context, tool, args, execute));
+}
+
+// --- Define Tools for the Main Agent ---
+// Created per run (and per operation) so tool calls see that run's cache, lint, model and fixture settings,
+// and pages are cut down to the sections relevant to the operation being documented
+export const createAgentTools = (context?: PipelineContext, target?: ContentTarget) => ({
+    search_api_documentation: tool({
+        description: 'Search for relevant API documentation URLs based on a user query (web search or the local docs corpus, depending on configuration).',
+        parameters: z.object({
+            query: z.string().describe('The user query to search documentation for'),
+        }),
+        execute: async ({ query }) =>
+            withFixtures(context, 'search_api_documentation', { query }, () => searchApiDocumentation(query, context?.cache)),
+    }),
+    read_webpage_content: tool({
+        description: 'Read the text content of a webpage given its URL (http(s), or file:// URLs returned by the local docs corpus). ' +
+            'Long pages are returned as their sections most relevant to the operation, a page of sections at a time; ' +
+            "the note at the top of the result says how to read the next page if the details you need aren't there.",
+        parameters: z.object({
+            url: z.string(),
+            page: z.number().int().min(1).optional().describe('Page of sections to read (default 1, the most relevant ones)'),
+        }),
+        execute: async ({ url, page }) =>
+            withTrace(context, 'read_webpage_content', { url, page }, async () => {
+                // Returned rather than thrown, so the agent can pick another page
+                const violation = readPolicyViolation(url);
+                if (violation) return { error: `Cannot read ${url}: ${violation}` };
+                // Fixtures record the page as read, so replays exercise the filtering and section selection too
+                const content = await withRecording(context, 'read_webpage_content', { url }, () => readWebpageContent(url, context?.cache));
+                const text = filterPage(content, url, context, target);
+                const { pageTokenBudget } = loadContentConfig();
+                const selected = target && pageTokenBudget > 0 ? selectRelevantContent(text, { url, target, tokenBudget: pageTokenBudget, page }) : text;
+                return markUntrusted(selected, url);
+            }),
+    }),
+    validate_openapi_schema: tool({
+        description: 'Validate if a given string is a syntactically correct OpenAPI Specification (JSON format expected) and lint it for semantic problems (undeclared path parameters, missing operationIds, dangling $refs, request bodies on GET, responses without schemas).',
+        parameters: z.object({
+            oas_json_string: z.string().describe('The potential OpenAPI specification as a JSON string'),
+        }),
+        execute: async ({ oas_json_string }) =>
+            withTrace(context, 'validate_openapi_schema', { oas_json_string }, () =>
+                validateAndLint(withBaseComponents(oas_json_string, context?.baseSpec), context?.lintRules)),
+    }),
+    evaluate_alignment: tool({
+        description: 'Evaluate how well a generated OAS aligns with the original user query (score 0.0-5.0).',
+        parameters: z.object({
+            user_query: z.string().describe('The original user query'),
+            generated_oas: z.union([z.string(), z.object({})]).describe('The generated OAS (JSON string or object)'),
+        }),
+        execute: async ({ user_query, generated_oas }) =>
+            withFixtures(context, 'evaluate_alignment', { user_query, generated_oas }, () =>
+                evaluateAlignment(user_query, generated_oas, getModel('alignment', context))),
+    }),
+    evaluate_veracity: tool({
+        description: 'Check a generated OAS against the documentation at the source URL(s) and list each discrepancy (JSON pointer, what the spec and the documentation say, severity).',
+        parameters: z.object({
+            generated_oas: z.union([z.string(), z.object({})]).describe('The generated OAS (JSON string or object)'),
+            source_url: z.union([z.string(), z.array(z.string())]),
+        }),
+        execute: async ({ generated_oas, source_url }) =>
+            withFixtures(context, 'evaluate_veracity', { generated_oas, source_url }, () =>
+                evaluateVeracity(generated_oas, source_url, context?.cache, getModel('veracity', context))),
+    }),
+});
+
+export type AgentTools = ReturnType<typeof createAgentTools>;
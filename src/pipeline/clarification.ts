@@ -0,0 +1,69 @@
+import { quoteUserInput } from '../security';
+
+/**
+ * Why the pipeline declined a query.
+ * - `not_an_api_request`: the query doesn't ask for an API description at all.
+ * - `unsupported_api_style`: the API isn't HTTP-based (GraphQL, gRPC, SOAP, ...), so OpenAPI can't describe it.
+ * - `no_public_api`: the product has no API that could be documented from public sources.
+ */
+export const REFUSAL_REASONS = ['not_an_api_request', 'unsupported_api_style', 'no_public_api'] as const;
+export type RefusalReason = (typeof REFUSAL_REASONS)[number];
+
+export interface Refusal {
+    reason: RefusalReason;
+    // One sentence for the user
+    explanation: string;
+}
+
+export const DEFAULT_REFUSAL: Refusal = {
+    reason: 'not_an_api_request',
+    explanation: 'The query does not ask for an OpenAPI specification or API definition.',
+};
+
+/**
+ * A question asked instead of guessing, with likely answers (`options`, empty for free text).
+ * Ids (`Q1`, `Q2`, ...) are unique within a conversation.
+ */
+export interface ClarifyingQuestion {
+    id: string;
+    question: string;
+    options: string[];
+}
+
+/**
+ * A question asked in an earlier turn and the user's answer (null if they left it unanswered).
+ */
+export interface ClarificationExchange {
+    id: string;
+    question: string;
+    answer: string | null;
+}
+
+/**
+ * What a conversational run carries from one turn to the next: the operations decomposition has
+ * identified so far, and the questions asked and answered.
+ */
+export interface Conversation {
+    operations: string[];
+    exchanges: ClarificationExchange[];
+    // Number of turns that ended with questions
+    rounds: number;
+}
+
+// Added to the decomposition prompt in a conversation, while questions may still be asked
+export const CLARIFICATION_INSTRUCTION = 'The JSON object also has a "questions" array. If the query is ambiguous in a way that changes ' +
+    'what should be documented (which provider or product, which API version, REST or GraphQL, which resources), do not guess: ask about it there, ' +
+    'each with a few likely answers in "options" (empty for a free-text answer), and list in "operations" only what is already clear. ' +
+    'Do not ask about details the provider\'s documentation settles, such as parameters, fields or authentication. ' +
+    'If nothing is ambiguous, "questions" is empty.';
+
+/**
+ * Describes the conversation so far for the decomposition prompt. Answers are the user's words, so each is
+ * quoted like the request itself.
+ */
+export function describeConversation(conversation: Conversation): string {
+    const exchanges = conversation.exchanges.map(({ question, answer }) =>
+        `Q: ${question}\nA:${answer === null ? ' (no answer; use your best judgement)' : `\n${quoteUserInput(answer)}`}`);
+    return `Operations identified so far:\n${conversation.operations.map((operation) => `- ${operation}`).join('\n') || '(none)'}\n\n` +
+        `Clarifications from the user:\n${exchanges.join('\n\n') || '(none)'}`;
+}
@@ -0,0 +1,84 @@
+import { CacheOptions } from '../cache';
+import { LintRuleConfig } from '../lint';
+import { ModelOverrides } from '../models';
+import { FixtureSession } from '../fixtures/fixtureSession';
+import { QualityGateConfig } from '../config';
+import { OutputFormat, TargetVersion } from '../conversion';
+import { ObservedOperation } from '../evidence';
+import { ClarifyingQuestion } from './clarification';
+import { RunTracer, TraceStage } from '../tracing';
+import { FilteredContent } from '../security';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Pipeline');
+
+/**
+ * Progress events emitted while the pipeline runs.
+ * Consumers (e.g. the job API's SSE stream) receive them in the order they happen;
+ * events for different operations may interleave because operations run in parallel.
+ */
+export type PipelineEvent =
+    | { type: 'intent'; intent: 'yes' | 'no' }
+    | { type: 'clarification'; questions: ClarifyingQuestion[] }
+    | { type: 'decomposition'; operations: string[] }
+    | { type: 'operation_started'; operation: string }
+    | { type: 'spec_discovered'; operation: string; url: string; origin: 'mirror' | 'registry' | 'link'; method: string; path: string }
+    | { type: 'tool_call'; operation: string; tool: string; args: unknown; resultSize: number }
+    | { type: 'content_filtered'; operation: string | null; url: string; rules: string[] }
+    | { type: 'validation_attempt'; operation: string; attempt: number; isValid: boolean; error: string | null }
+    | { type: 'quality_check'; operation: string; attempt: number; alignment: number | null; veracity: boolean | null; passed: boolean; error: string | null }
+    | { type: 'operation_finished'; operation: string; status: 'succeeded' | 'failed'; error: string | null }
+    | { type: 'final'; spec: Record<string, any> };
+
+export type PipelineEventListener = (event: PipelineEvent) => void;
+
+/**
+ * Per-run hooks and settings threaded through the pipeline stages.
+ */
+export interface PipelineContext {
+    onEvent?: PipelineEventListener;
+    abortSignal?: AbortSignal;
+    cache?: CacheOptions;
+    lintRules?: LintRuleConfig;
+    models?: ModelOverrides;
+    fixtures?: FixtureSession;
+    qualityGate?: QualityGateConfig;
+    // The document being extended, when the run adds operations to an existing spec
+    baseSpec?: Record<string, any>;
+    // Version the merged document is converted to, and whether it is also returned as YAML
+    targetVersion?: TargetVersion;
+    outputFormat?: OutputFormat;
+    // Observed traffic matched to each decomposed operation, and whether it replaces search, scraping and discovery
+    evidence?: Record<string, ObservedOperation[]>;
+    evidenceOnly?: boolean;
+    // Pages the gathering agent is pointed at first, by operation (a drift check re-reads the pages a spec was generated from)
+    sourceHints?: Record<string, string[]>;
+    // Whether generated examples are added to bodies and responses without one
+    addExamples?: boolean;
+    // Whether a TypeScript client is generated from the merged document
+    typescriptClient?: boolean;
+    // Records the run's stages and model and tool calls (scoped to the operation inside per-operation steps)
+    tracer?: RunTracer;
+    // Instruction-like text removed from the pages read during the run, reported with the result
+    filteredContent?: FilteredContent[];
+}
+
+/**
+ * Emits an event to the context listener, if any.
+ * Listener errors are logged and swallowed so a broken consumer can't fail the run.
+ */
+export function emit(context: PipelineContext | undefined, event: PipelineEvent): void {
+    if (!context?.onEvent) return;
+    try {
+        context.onEvent(event);
+    } catch (error) {
+        log.error('Event listener failed', { event: event.type, error });
+    }
+}
+
+/**
+ * Runs a step as a stage of the run's trace, if it is traced.
+ */
+export function inStage<T>(context: PipelineContext | undefined, stage: TraceStage, run: () => Promise<T>): Promise<T> {
+    return context?.tracer ? context.tracer.stage(stage, run) : run();
+}
@@ -0,0 +1,28 @@
+/**
+ * Maps over items with an async function, running at most `limit` calls at a time.
+ * Results keep the order of the input items regardless of completion order.
+ *
+ * @param items - The items to process.
+ * @param limit - The maximum number of concurrent calls (values below 1 are treated as 1).
+ * @param fn - The async function applied to each item.
+ * @returns A promise that resolves to the results in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    const workerCount = Math.min(Math.max(1, Math.floor(limit) || 1), items.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
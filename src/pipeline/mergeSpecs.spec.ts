@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+
+import { extendSpec, mergeSpecs } from './mergeSpecs';
+import { createJsonPatch } from '../utils/jsonPatch';
+
+const BEARER = { bearerAuth: { type: 'http', scheme: 'bearer' } };
+const REFUND = { type: 'object', properties: { id: { type: 'string' }, amount: { type: 'integer' } }, required: ['id'] };
+
+// A document with top-level security and servers, which extending must leave alone
+const BASE = {
+    openapi: '3.0.3',
+    info: { title: 'Refunds API', version: '2024-01-01' },
+    servers: [{ url: 'https://api.example.com' }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+        '/v1/refunds/{refund}': {
+            parameters: [{ name: 'refund', in: 'path', required: true, schema: { type: 'string' } }],
+            get: {
+                operationId: 'retrieveRefund',
+                responses: { '200': { description: 'The refund.', content: { 'application/json': { schema: { $ref: '#/components/schemas/Refund' } } } } },
+            },
+        },
+    },
+    components: { schemas: { Refund: REFUND }, securitySchemes: BEARER },
+};
+
+const fragment = (path: string, method: string, operation: Record<string, any>, extra: Record<string, any> = {}) => ({
+    openapi: '3.0.3',
+    info: { title: 'Generated', version: '1.0.0' },
+    servers: [{ url: 'https://other.example.com' }],
+    paths: { [path]: { [method]: operation } },
+    ...extra,
+});
+
+const refundResponse = (ref = '#/components/schemas/Refund') =>
+    ({ '200': { description: 'The refund.', content: { 'application/json': { schema: { $ref: ref } } } } });
+
+describe('mergeSpecs', () => {
+    it('keeps the first definition of a method and path, and combines provenance of identical ones', () => {
+        const create = { operationId: 'createRefund', responses: refundResponse() };
+        const { spec, conflicts } = mergeSpecs([
+            { operation: 'Create a refund', spec: fragment('/v1/refunds', 'post', { ...create, 'x-source': [{ url: 'https://a.example' }] }) },
+            { operation: 'Create a refund again', spec: fragment('/v1/refunds', 'post', { ...create, 'x-source': [{ url: 'https://b.example' }] }) },
+            { operation: 'Create a refund differently', spec: fragment('/v1/refunds', 'post', { operationId: 'makeRefund', responses: { '201': { description: 'Created.' } } }) },
+        ]);
+
+        expect(spec.paths['/v1/refunds'].post.operationId).toBe('createRefund');
+        expect(spec.paths['/v1/refunds'].post['x-source']).toEqual([{ url: 'https://a.example' }, { url: 'https://b.example' }]);
+        expect(conflicts).toEqual([{
+            operation: 'Create a refund differently',
+            location: '/paths/~1v1~1refunds/post',
+            resolution: "Dropped; kept the existing definition from 'Create a refund'.",
+        }]);
+    });
+
+    it('merges equivalent path templates and renames their path parameters', () => {
+        const { spec, conflicts } = mergeSpecs([
+            { operation: 'Retrieve', spec: fragment('/v1/refunds/{refund}', 'get', { operationId: 'retrieveRefund', responses: refundResponse() }) },
+            { operation: 'Update', spec: fragment('/v1/refunds/{id}', 'post', {
+                operationId: 'updateRefund',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: refundResponse(),
+            }) },
+        ]);
+
+        expect(Object.keys(spec.paths)).toEqual(['/v1/refunds/{refund}']);
+        expect(spec.paths['/v1/refunds/{refund}'].post.parameters).toEqual([{ name: 'refund', in: 'path', required: true, schema: { type: 'string' } }]);
+        expect(conflicts).toEqual([expect.objectContaining({ location: '/paths/~1v1~1refunds~1{refund}', operation: 'Update' })]);
+    });
+
+    it('suffixes clashing operationIds', () => {
+        const { spec, conflicts } = mergeSpecs([
+            { operation: 'List refunds', spec: fragment('/v1/refunds', 'get', { operationId: 'list', responses: {} }) },
+            { operation: 'List charges', spec: fragment('/v1/charges', 'get', { operationId: 'list', responses: {} }) },
+        ]);
+
+        expect(spec.paths['/v1/charges'].get.operationId).toBe('list_2');
+        expect(conflicts).toEqual([expect.objectContaining({ location: '/paths/~1v1~1charges/get/operationId' })]);
+    });
+
+    it('reuses identical components and renames conflicting ones along with everything that references them', () => {
+        const list = { type: 'object', properties: { data: { type: 'array', items: { $ref: '#/components/schemas/Refund' } } } };
+        const { spec, conflicts } = mergeSpecs([
+            { operation: 'Retrieve', spec: fragment('/v1/refunds/{refund}', 'get', { responses: refundResponse() }, {
+                components: { schemas: { Refund: { ...REFUND, 'x-source': [{ url: 'https://a.example' }] }, RefundList: list } },
+            }) },
+            { operation: 'Retrieve again', spec: fragment('/v1/refunds/{id}/details', 'get', { responses: refundResponse() }, {
+                components: { schemas: { Refund: { ...REFUND, 'x-source': [{ url: 'https://b.example' }] } } },
+            }) },
+            // A different Refund: RefundList refers to it, so it no longer matches the first RefundList either
+            { operation: 'Legacy', spec: fragment('/v0/refunds', 'get', { responses: refundResponse('#/components/schemas/RefundList') }, {
+                components: { schemas: { Refund: { type: 'object', properties: { legacy_id: { type: 'integer' } } }, RefundList: list } },
+            }) },
+        ]);
+
+        expect(spec.components.schemas.Refund['x-source']).toEqual([{ url: 'https://a.example' }, { url: 'https://b.example' }]);
+        expect(spec.components.schemas.Refund_2.properties).toEqual({ legacy_id: { type: 'integer' } });
+        expect(spec.components.schemas.RefundList_2.properties.data.items.$ref).toBe('#/components/schemas/Refund_2');
+        expect(spec.paths['/v0/refunds'].get.responses['200'].content['application/json'].schema.$ref).toBe('#/components/schemas/RefundList_2');
+        expect(conflicts.map(({ location }) => location)).toEqual(['/components/schemas/Refund', '/components/schemas/RefundList']);
+    });
+
+    it('renames a conflicting security scheme in the requirements that use it', () => {
+        const { spec } = mergeSpecs([
+            { operation: 'A', spec: fragment('/a', 'get', { responses: {} }, { security: [{ auth: [] }], components: { securitySchemes: { auth: BEARER.bearerAuth } } }) },
+            { operation: 'B', spec: fragment('/b', 'get', { responses: {}, security: [{ auth: [] }] }, {
+                components: { securitySchemes: { auth: { type: 'apiKey', in: 'header', name: 'X-Api-Key' } } },
+            }) },
+        ]);
+
+        expect(spec.components.securitySchemes.auth_2).toEqual({ type: 'apiKey', in: 'header', name: 'X-Api-Key' });
+        expect(spec.paths['/a'].get.security).toEqual([{ auth: [] }]);
+        expect(spec.paths['/b'].get.security).toEqual([{ auth_2: [] }]);
+        expect(spec.security).toBeUndefined();
+    });
+
+    it('hoists security to the top level only when every operation shares it', () => {
+        const bearer = { security: [{ bearerAuth: [] }], components: { securitySchemes: BEARER } };
+        const shared = mergeSpecs([
+            { operation: 'A', spec: fragment('/a', 'get', { responses: {} }, bearer) },
+            { operation: 'B', spec: fragment('/b', 'get', { responses: {}, security: [{ bearerAuth: [] }] }, { components: { securitySchemes: BEARER } }) },
+        ]).spec;
+        expect(shared.security).toEqual([{ bearerAuth: [] }]);
+        expect(shared.paths['/a'].get.security).toBeUndefined();
+        expect(shared.paths['/b'].get.security).toBeUndefined();
+
+        const mixed = mergeSpecs([
+            { operation: 'A', spec: fragment('/a', 'get', { responses: {} }, bearer) },
+            { operation: 'B', spec: fragment('/b', 'get', { responses: {} }) },
+        ]).spec;
+        expect(mixed.security).toBeUndefined();
+        expect(mixed.paths['/a'].get.security).toEqual([{ bearerAuth: [] }]);
+        expect(mixed.paths['/b'].get.security).toBeUndefined();
+    });
+
+    it('keeps the first OpenAPI version and reports the others', () => {
+        const { spec, conflicts } = mergeSpecs([
+            { operation: 'A', spec: fragment('/a', 'get', { responses: {} }) },
+            { operation: 'B', spec: { ...fragment('/b', 'get', { responses: {} }), openapi: '3.1.0' } },
+        ]);
+
+        expect(spec.openapi).toBe('3.0.3');
+        expect(conflicts).toEqual([{ operation: 'B', location: '/openapi', resolution: 'Kept version 3.0.3; fragment declared 3.1.0.' }]);
+    });
+});
+
+describe('extendSpec', () => {
+    it('only adds the new paths and components to a document with top-level security', () => {
+        const cancel = fragment('/v1/refunds/{id}/cancel', 'post', {
+            operationId: 'cancelRefund',
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: { '200': { description: 'The canceled refund.', content: { 'application/json': { schema: { $ref: '#/components/schemas/Refund' } } } } },
+            'x-source': [{ url: 'https://docs.example.com/refunds/cancel' }],
+        }, {
+            security: [{ bearerAuth: [] }],
+            components: { schemas: { Refund: REFUND, CancelReason: { type: 'string', enum: ['duplicate'] } }, securitySchemes: BEARER },
+        });
+        const list = fragment('/v1/refunds', 'get', {
+            operationId: 'listRefunds',
+            security: [{ apiKey: [] }],
+            responses: { '200': { description: 'A page of refunds.' } },
+        }, { components: { securitySchemes: { apiKey: { type: 'apiKey', in: 'header', name: 'X-Api-Key' } } } });
+        const base = structuredClone(BASE);
+
+        const { spec } = extendSpec({ operation: '(existing document)', spec: base }, [
+            { operation: 'Cancel a refund', spec: cancel },
+            { operation: 'List refunds', spec: list },
+        ]);
+        const patch = createJsonPatch(BASE, spec);
+
+        expect(base).toEqual(BASE);
+        expect(patch.map(({ op, path }) => `${op} ${path}`).sort()).toEqual([
+            'add /components/schemas/CancelReason',
+            'add /components/securitySchemes/apiKey',
+            'add /paths/~1v1~1refunds',
+            'add /paths/~1v1~1refunds~1{id}~1cancel',
+        ]);
+        // The new operation with the document's requirements inherits them; the other states its own
+        expect(spec.paths['/v1/refunds/{id}/cancel'].post.security).toBeUndefined();
+        expect(spec.paths['/v1/refunds'].get.security).toEqual([{ apiKey: [] }]);
+        expect(spec.components.schemas.Refund).toEqual(REFUND);
+    });
+
+    it('adds a new method to an existing path item with the path-level parameters it lacks', () => {
+        const update = fragment('/v1/refunds/{id}', 'post', {
+            operationId: 'updateRefund',
+            responses: { '200': { description: 'The updated refund.' } },
+        });
+        update.paths['/v1/refunds/{id}'].parameters = [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+            { name: 'Stripe-Account', in: 'header', schema: { type: 'string' } },
+        ];
+
+        const { spec } = extendSpec({ operation: '(existing document)', spec: BASE }, [{ operation: 'Update a refund', spec: update }]);
+
+        expect(createJsonPatch(BASE, spec)).toEqual([
+            { op: 'add', path: '/paths/~1v1~1refunds~1{refund}/post', value: expect.objectContaining({ operationId: 'updateRefund' }) },
+        ]);
+        expect(spec.paths['/v1/refunds/{refund}'].post.parameters).toEqual([{ name: 'Stripe-Account', in: 'header', schema: { type: 'string' } }]);
+        expect(spec.paths['/v1/refunds/{refund}'].parameters).toEqual(BASE.paths['/v1/refunds/{refund}'].parameters);
+    });
+
+    it('renames new components and operationIds that clash with the document', () => {
+        const other = fragment('/v1/charges/{charge}/refund', 'post', {
+            operationId: 'retrieveRefund',
+            responses: { '200': { description: 'The refund.', content: { 'application/json': { schema: { $ref: '#/components/schemas/Refund' } } } } },
+        }, { components: { schemas: { Refund: { type: 'object', properties: { charge: { type: 'string' } } } } } });
+
+        const { spec, conflicts } = extendSpec({ operation: '(existing document)', spec: BASE }, [{ operation: 'Refund a charge', spec: other }]);
+
+        const operation = spec.paths['/v1/charges/{charge}/refund'].post;
+        expect(operation.operationId).toBe('retrieveRefund_2');
+        expect(operation.responses['200'].content['application/json'].schema.$ref).toBe('#/components/schemas/Refund_2');
+        expect(spec.components.schemas.Refund).toEqual(REFUND);
+        expect(conflicts.map(({ location }) => location)).toEqual(
+            expect.arrayContaining(['/components/schemas/Refund', '/paths/~1v1~1charges~1{charge}~1refund/post/operationId'])
+        );
+    });
+});
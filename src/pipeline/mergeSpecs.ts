@@ -0,0 +1,398 @@
+import { isDeepStrictEqual } from 'util';
+
+import { toJsonPointer } from '../utils/jsonPointer';
+import { HTTP_METHODS, pathTemplateNames, normalizePathTemplate } from '../utils/openapi';
+
+/**
+ * Describes a naming or content collision found while merging fragments, and how it was resolved.
+ */
+export interface MergeConflict {
+    operation: string;
+    location: string; // JSON pointer into the merged spec
+    resolution: string;
+}
+
+/**
+ * Defines the structure for the merge result.
+ */
+export interface MergeResult {
+    spec: Record<string, any>;
+    conflicts: MergeConflict[];
+}
+
+/**
+ * A single-operation OAS fragment tagged with the decomposed operation that produced it.
+ */
+export interface OperationFragment {
+    operation: string;
+    spec: Record<string, any>;
+}
+
+type Renames = Record<string, Record<string, string>>;
+
+const COMPONENT_SECTIONS = [
+    'schemas', 'responses', 'parameters', 'examples', 'requestBodies',
+    'headers', 'securitySchemes', 'links', 'callbacks', 'pathItems',
+];
+
+const DEFAULT_OPENAPI_VERSION = '3.0.0';
+const DEFAULT_INFO = { title: 'Generated API', version: '1.0.0' };
+
+const PROVENANCE_KEY = 'x-source';
+
+/**
+ * Returns a deep copy without `x-source` extensions, so definitions backed by different
+ * documentation pages still compare as equal.
+ */
+function stripProvenance(value: any): any {
+    if (Array.isArray(value)) return value.map(stripProvenance);
+    if (value === null || typeof value !== 'object') return value;
+    return Object.fromEntries(
+        Object.entries(value).filter(([key]) => key !== PROVENANCE_KEY).map(([key, child]) => [key, stripProvenance(child)])
+    );
+}
+
+const sameDefinition = (a: any, b: any) => isDeepStrictEqual(stripProvenance(a), stripProvenance(b));
+
+/**
+ * Adds the incoming definition's top-level `x-source` references to the existing definition.
+ */
+function mergeProvenance(existing: any, incoming: any): void {
+    const incomingRefs = incoming?.[PROVENANCE_KEY];
+    if (!Array.isArray(incomingRefs) || !existing || typeof existing !== 'object') return;
+    const refs: any[] = existing[PROVENANCE_KEY] ?? [];
+    for (const ref of incomingRefs) {
+        if (!refs.some((r) => isDeepStrictEqual(r, ref))) refs.push(ref);
+    }
+    existing[PROVENANCE_KEY] = refs;
+}
+
+/**
+ * Returns a deep copy of the fragment with component names renamed, and every `$ref`
+ * and security requirement pointing at a renamed component updated to match.
+ */
+function applyRenames(fragment: Record<string, any>, renames: Renames): Record<string, any> {
+    const rewrite = (value: any): any => {
+        if (Array.isArray(value)) return value.map(rewrite);
+        if (value === null || typeof value !== 'object') return value;
+        const copy: Record<string, any> = {};
+        for (const [key, child] of Object.entries(value)) {
+            if (key === '$ref' && typeof child === 'string') {
+                const match = child.match(/^#\/components\/([^/]+)\/([^/]+)(.*)$/);
+                const renamed = match && renames[match[1]]?.[match[2]];
+                copy[key] = renamed ? `#/components/${match![1]}/${renamed}${match![3]}` : child;
+            } else {
+                copy[key] = rewrite(child);
+            }
+        }
+        return copy;
+    };
+
+    const result = rewrite(fragment);
+
+    for (const [section, names] of Object.entries(renames)) {
+        const definitions = result.components?.[section];
+        if (!definitions) continue;
+        result.components[section] = Object.fromEntries(
+            Object.entries(definitions).map(([name, definition]) => [names[name] ?? name, definition])
+        );
+    }
+
+    const schemeRenames = renames.securitySchemes;
+    if (schemeRenames) {
+        const renameRequirements = (requirements: any) =>
+            Array.isArray(requirements)
+                ? requirements.map((requirement: Record<string, string[]>) =>
+                    Object.fromEntries(Object.entries(requirement).map(([name, scopes]) => [schemeRenames[name] ?? name, scopes])))
+                : requirements;
+        if (result.security) result.security = renameRequirements(result.security);
+        for (const pathItem of Object.values<any>(result.paths ?? {})) {
+            for (const method of HTTP_METHODS) {
+                if (pathItem?.[method]?.security) pathItem[method].security = renameRequirements(pathItem[method].security);
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Works out which components of the incoming fragment must be renamed so they don't clash
+ * with differently-defined components already in the merged spec.
+ * Components that are identical (after renaming their own references) are reused instead.
+ * Renaming one component can change the content of others that reference it, so this
+ * repeats until no new renames are needed.
+ */
+function resolveComponentRenames(merged: Record<string, any>, fragment: Record<string, any>): Renames {
+    const renames: Renames = {};
+    const suffixes: Record<string, number> = {};
+
+    for (let changed = true; changed;) {
+        changed = false;
+        const candidate = applyRenames(fragment, renames);
+
+        for (const section of COMPONENT_SECTIONS) {
+            const incomingNames = Object.keys(fragment.components?.[section] ?? {});
+            for (const name of incomingNames) {
+                const target = renames[section]?.[name] ?? name;
+                const existing = merged.components?.[section]?.[target];
+                if (existing === undefined || sameDefinition(existing, candidate.components[section][target])) continue;
+
+                // Pick the next suffixed name that isn't already taken by the fragment itself
+                const key = `${section}/${name}`;
+                const taken = new Set([...incomingNames, ...Object.values(renames[section] ?? {})]);
+                let next: string;
+                do {
+                    suffixes[key] = (suffixes[key] ?? 1) + 1;
+                    next = `${name}_${suffixes[key]}`;
+                } while (taken.has(next));
+
+                renames[section] = { ...renames[section], [name]: next };
+                changed = true;
+            }
+        }
+    }
+
+    return renames;
+}
+
+/**
+ * Merges single-operation OAS fragments into one OpenAPI document.
+ * - Components that are identical across fragments are deduplicated (their `x-source`
+ *   provenance is combined); differing components with the same name are renamed
+ *   (`Refund` -> `Refund_2`) and their references rewritten.
+ * - Operations on equivalent paths (same template, different parameter names) share one path item.
+ * - Duplicate operations are deduplicated; a second, different definition of the same
+ *   method and path is dropped in favour of the first.
+ * - Clashing `operationId`s are suffixed to stay unique.
+ * - Top-level `security` is pushed down to each fragment's operations, then hoisted back
+ *   up if every operation in the merged spec ends up with the same requirements.
+ * Every resolved collision is reported in the returned conflicts list.
+ *
+ * @param fragments - The fragments to merge, in the order they should take precedence.
+ * @returns The merged spec and the conflicts that were resolved along the way.
+ */
+export function mergeSpecs(fragments: OperationFragment[]): MergeResult {
+    const conflicts: MergeConflict[] = [];
+    const merged: Record<string, any> = {
+        openapi: fragments.find((f) => typeof f.spec.openapi === 'string')?.spec.openapi ?? DEFAULT_OPENAPI_VERSION,
+        info: { ...DEFAULT_INFO, ...(fragments.find((f) => f.spec.info)?.spec.info ?? {}) },
+        paths: {},
+        components: {},
+    };
+    const pathOwners = new Map<string, string>();
+    const operationIds = new Set<string>();
+
+    for (const { operation, spec } of fragments) {
+        if (spec.openapi && spec.openapi !== merged.openapi) {
+            conflicts.push({ operation, location: '/openapi', resolution: `Kept version ${merged.openapi}; fragment declared ${spec.openapi}.` });
+        }
+
+        const renames = resolveComponentRenames(merged, spec);
+        for (const [section, names] of Object.entries(renames)) {
+            for (const [from, to] of Object.entries(names)) {
+                conflicts.push({
+                    operation,
+                    location: toJsonPointer('components', section, from),
+                    resolution: `Renamed to '${to}' because a different definition already exists.`,
+                });
+            }
+        }
+        const fragment = applyRenames(spec, renames);
+
+        // --- Components: add what isn't already there (identical ones are reused) ---
+        for (const section of COMPONENT_SECTIONS) {
+            for (const [name, definition] of Object.entries(fragment.components?.[section] ?? {})) {
+                merged.components[section] ??= {};
+                if (merged.components[section][name]) {
+                    mergeProvenance(merged.components[section][name], definition);
+                } else {
+                    merged.components[section][name] = definition;
+                }
+            }
+        }
+
+        // --- Paths ---
+        for (const [incomingPath, incomingItem] of Object.entries<any>(fragment.paths ?? {})) {
+            if (!incomingItem || typeof incomingItem !== 'object') continue;
+
+            const equivalentPath = Object.keys(merged.paths).find(
+                (p) => normalizePathTemplate(p) === normalizePathTemplate(incomingPath)
+            );
+            const pathKey = equivalentPath ?? incomingPath;
+            let pathItem = incomingItem;
+
+            if (equivalentPath && equivalentPath !== incomingPath) {
+                pathItem = renamePathParameters(incomingItem, pathTemplateNames(incomingPath), pathTemplateNames(equivalentPath));
+                conflicts.push({
+                    operation,
+                    location: toJsonPointer('paths', pathKey),
+                    resolution: `Merged '${incomingPath}' into equivalent path '${equivalentPath}'.`,
+                });
+            }
+
+            const target = (merged.paths[pathKey] ??= {});
+            for (const [key, value] of Object.entries<any>(pathItem)) {
+                if (!HTTP_METHODS.includes(key)) {
+                    if (key === 'parameters' && Array.isArray(value)) {
+                        target.parameters = mergeParameters(target.parameters ?? [], value);
+                    } else {
+                        target[key] ??= value;
+                    }
+                    continue;
+                }
+
+                const location = toJsonPointer('paths', pathKey, key);
+                const operationObject = { ...value };
+                if (fragment.security && !operationObject.security) operationObject.security = fragment.security;
+
+                if (target[key]) {
+                    if (sameDefinition(stripOperationId(target[key]), stripOperationId(operationObject))) {
+                        mergeProvenance(target[key], operationObject);
+                    } else {
+                        conflicts.push({
+                            operation,
+                            location,
+                            resolution: `Dropped; kept the existing definition from '${pathOwners.get(location)}'.`,
+                        });
+                    }
+                    continue;
+                }
+
+                if (typeof operationObject.operationId === 'string') {
+                    const original = operationObject.operationId;
+                    let candidate = original;
+                    for (let n = 2; operationIds.has(candidate); n++) candidate = `${original}_${n}`;
+                    if (candidate !== original) {
+                        operationObject.operationId = candidate;
+                        conflicts.push({ operation, location: `${location}/operationId`, resolution: `Renamed operationId '${original}' to '${candidate}'.` });
+                    }
+                    operationIds.add(candidate);
+                }
+
+                target[key] = operationObject;
+                pathOwners.set(location, operation);
+            }
+        }
+
+        // --- Remaining top-level fields ---
+        for (const server of fragment.servers ?? []) {
+            merged.servers ??= [];
+            if (!merged.servers.some((s: any) => isDeepStrictEqual(s, server))) merged.servers.push(server);
+        }
+        for (const tag of fragment.tags ?? []) {
+            merged.tags ??= [];
+            if (!merged.tags.some((t: any) => t?.name === tag?.name)) merged.tags.push(tag);
+        }
+        for (const [key, value] of Object.entries(fragment)) {
+            if (['openapi', 'info', 'paths', 'components', 'servers', 'tags', 'security'].includes(key)) continue;
+            merged[key] ??= value;
+        }
+    }
+
+    hoistSharedSecurity(merged);
+    if (Object.keys(merged.components).length === 0) delete merged.components;
+
+    return { spec: merged, conflicts };
+}
+
+/**
+ * Merges fragments into an existing document without changing anything already in it. The fragments are
+ * merged against the document as in mergeSpecs, so they reuse its components and clashing component names,
+ * paths and operationIds are resolved the same way; then only the operations and components the document
+ * didn't have are copied into it. Its top-level fields (`info`, `servers`, `security`, ...) are kept as they are.
+ * - A new operation on an existing path gets the fragment's path-level parameters the path item lacks.
+ * - A new operation lists its security requirements unless it shares the document's top-level ones.
+ *
+ * @param base - The existing document, tagged with the name its conflicts are reported under. It isn't modified.
+ * @param fragments - The new fragments, in the order they should take precedence.
+ * @returns The extended copy of the document and the conflicts that were resolved along the way.
+ */
+export function extendSpec(base: OperationFragment, fragments: OperationFragment[]): MergeResult {
+    const { spec: merged, conflicts } = mergeSpecs([{ ...base, spec: structuredClone(base.spec) }, ...fragments]);
+    const spec = structuredClone(base.spec);
+
+    for (const [pathKey, mergedItem] of Object.entries<any>(merged.paths)) {
+        const existingItem = spec.paths?.[pathKey];
+        const methods = HTTP_METHODS.filter((method) => mergedItem[method] && !existingItem?.[method]);
+        if (methods.length === 0) continue;
+
+        spec.paths ??= {};
+        const target = existingItem ?? (spec.paths[pathKey] = Object.fromEntries(
+            Object.entries(mergedItem).filter(([key]) => !HTTP_METHODS.includes(key))
+        ));
+        const identify = (p: any) => (p?.$ref ? `ref:${p.$ref}` : `${p?.in}:${p?.name}`);
+        const existingParameters = new Set((target.parameters ?? []).map(identify));
+        const missingParameters = (mergedItem.parameters ?? []).filter((p: any) => !existingParameters.has(identify(p)));
+
+        for (const method of methods) {
+            const operationObject = { ...mergedItem[method] };
+            if (missingParameters.length > 0) operationObject.parameters = mergeParameters(operationObject.parameters ?? [], missingParameters);
+            // Merging may have hoisted the requirements to the top level; restate them unless the document has the same
+            const security = operationObject.security ?? merged.security;
+            if (security !== undefined && !isDeepStrictEqual(security, spec.security)) {
+                operationObject.security = security;
+            } else {
+                delete operationObject.security;
+            }
+            target[method] = operationObject;
+        }
+    }
+
+    for (const [section, definitions] of Object.entries<any>(merged.components ?? {})) {
+        for (const [name, definition] of Object.entries(definitions)) {
+            if (spec.components?.[section]?.[name] !== undefined) continue;
+            spec.components ??= {};
+            spec.components[section] ??= {};
+            spec.components[section][name] = definition;
+        }
+    }
+
+    return { spec, conflicts };
+}
+
+/**
+ * Renames the path parameters of a path item (path-level and operation-level) by template position.
+ */
+function renamePathParameters(pathItem: Record<string, any>, fromNames: string[], toNames: string[]): Record<string, any> {
+    const mapping = new Map(fromNames.map((name, i) => [name, toNames[i]]));
+    const renameList = (parameters: any) =>
+        Array.isArray(parameters)
+            ? parameters.map((p: any) => (p?.in === 'path' && mapping.has(p.name) ? { ...p, name: mapping.get(p.name) } : p))
+            : parameters;
+
+    const copy: Record<string, any> = { ...pathItem, parameters: renameList(pathItem.parameters) };
+    if (copy.parameters === undefined) delete copy.parameters;
+    for (const method of HTTP_METHODS) {
+        if (copy[method]?.parameters) copy[method] = { ...copy[method], parameters: renameList(copy[method].parameters) };
+    }
+    return copy;
+}
+
+/**
+ * Unions two parameter lists, identifying parameters by `in` + `name` (or by `$ref`).
+ */
+function mergeParameters(existing: any[], incoming: any[]): any[] {
+    const identify = (p: any) => (p?.$ref ? `ref:${p.$ref}` : `${p?.in}:${p?.name}`);
+    const seen = new Set(existing.map(identify));
+    return [...existing, ...incoming.filter((p) => !seen.has(identify(p)))];
+}
+
+function stripOperationId(operationObject: Record<string, any>): Record<string, any> {
+    const { operationId, ...rest } = operationObject;
+    return rest;
+}
+
+/**
+ * Moves per-operation security requirements to the top level when all operations agree.
+ */
+function hoistSharedSecurity(spec: Record<string, any>): void {
+    const operations = Object.values<any>(spec.paths).flatMap((item) =>
+        HTTP_METHODS.filter((m) => item[m]).map((m) => item[m])
+    );
+    if (operations.length === 0 || !operations[0].security) return;
+    if (!operations.every((op) => isDeepStrictEqual(op.security, operations[0].security))) return;
+
+    spec.security = operations[0].security;
+    for (const op of operations) delete op.security;
+}
@@ -0,0 +1,88 @@
+import { LintRuleConfig, validateLintRuleConfig } from '../lint';
+import { ModelOverrides, validateModelOverrides } from '../models';
+import { OUTPUT_FORMATS, OutputFormat, TARGET_VERSIONS, TargetVersion } from '../conversion';
+import { EvidenceInput, ObservedOperation, parseEvidence, validateEvidenceInputs } from '../evidence';
+import { parseQualityGateOptions } from './qualityGate';
+import { GenerationOptions } from './runGeneration';
+
+/**
+ * Reads the optional generation options from a request body (or the equivalent command-line flags).
+ * - `bypass_cache` (boolean): fetch fresh search results and pages instead of using the cache.
+ * - `lint_rules` (object): linter severity overrides, e.g. `{ "operation-id-required": "off" }`.
+ * - `models` (object): models by pipeline stage, e.g. `{ "generation": "openai-compatible:qwen2.5-coder" }`.
+ * - `quality_gate` (object): gate overrides, e.g. `{ "min_alignment": 3.5, "max_retries": 2 }`.
+ * - `target_version` (string): convert the document to '3.0.3', '3.1.0' or '2.0'.
+ * - `output_format` (string): 'json' (default) or 'yaml', which adds the YAML text as `spec_yaml`.
+ * - `all_operations` (boolean): generate every operation of the resources the query mentions.
+ * - `evidence` (array): observed traffic as `{ type: 'curl' | 'har' | 'postman', content, name? }` artifacts,
+ *   parsed here so a malformed artifact is reported as a client error.
+ * - `evidence_only` (boolean): generate from the evidence alone, without search, scraping or published specs.
+ * - `add_examples` (boolean): generate examples for request bodies and responses that have none.
+ * - `typescript_client` (boolean): also return a TypeScript client for the document as `client_ts`.
+ *
+ * @param body - The options, with snake_case names.
+ * @param source - Where the options come from, for error messages.
+ * @returns The GenerationOptions, or an error message naming the invalid option.
+ */
+export function parseGenerationOptions(body: Record<string, unknown>, source = 'request body'): GenerationOptions | { error: string } {
+    const { bypass_cache, lint_rules, models, quality_gate, target_version, output_format, all_operations, evidence, evidence_only, add_examples, typescript_client } = body;
+    if (bypass_cache !== undefined && typeof bypass_cache !== 'boolean') {
+        return { error: `Invalid 'bypass_cache' in ${source}: expected a boolean` };
+    }
+    if (lint_rules !== undefined) {
+        const lintError = validateLintRuleConfig(lint_rules);
+        if (lintError) return { error: `Invalid 'lint_rules' in ${source}: ${lintError}` };
+    }
+    if (models !== undefined) {
+        const modelError = validateModelOverrides(models);
+        if (modelError) return { error: `Invalid 'models' in ${source}: ${modelError}` };
+    }
+    const qualityGate = quality_gate === undefined ? undefined : parseQualityGateOptions(quality_gate);
+    if (qualityGate && 'error' in qualityGate) {
+        return { error: `Invalid 'quality_gate' in ${source}: ${qualityGate.error}` };
+    }
+    if (target_version !== undefined && !TARGET_VERSIONS.includes(target_version as TargetVersion)) {
+        return { error: `Invalid 'target_version' in ${source}: expected one of ${TARGET_VERSIONS.join(', ')}` };
+    }
+    if (output_format !== undefined && !OUTPUT_FORMATS.includes(output_format as OutputFormat)) {
+        return { error: `Invalid 'output_format' in ${source}: expected one of ${OUTPUT_FORMATS.join(', ')}` };
+    }
+    if (all_operations !== undefined && typeof all_operations !== 'boolean') {
+        return { error: `Invalid 'all_operations' in ${source}: expected a boolean` };
+    }
+    let observedOperations: ObservedOperation[] | undefined;
+    if (evidence !== undefined) {
+        const evidenceError = validateEvidenceInputs(evidence);
+        if (evidenceError) return { error: `Invalid 'evidence' in ${source}: ${evidenceError}` };
+        try {
+            observedOperations = parseEvidence(evidence as EvidenceInput[]);
+        } catch (error) {
+            return { error: `Invalid 'evidence' in ${source}: ${error instanceof Error ? error.message : String(error)}` };
+        }
+    }
+    if (evidence_only !== undefined && typeof evidence_only !== 'boolean') {
+        return { error: `Invalid 'evidence_only' in ${source}: expected a boolean` };
+    }
+    if (evidence_only && !observedOperations) {
+        return { error: `Invalid 'evidence_only' in ${source}: requires 'evidence'` };
+    }
+    if (add_examples !== undefined && typeof add_examples !== 'boolean') {
+        return { error: `Invalid 'add_examples' in ${source}: expected a boolean` };
+    }
+    if (typescript_client !== undefined && typeof typescript_client !== 'boolean') {
+        return { error: `Invalid 'typescript_client' in ${source}: expected a boolean` };
+    }
+    return {
+        bypassCache: bypass_cache,
+        lintRules: lint_rules as LintRuleConfig | undefined,
+        models: models as ModelOverrides | undefined,
+        qualityGate,
+        targetVersion: target_version as TargetVersion | undefined,
+        outputFormat: output_format as OutputFormat | undefined,
+        allOperations: all_operations,
+        evidence: observedOperations,
+        evidenceOnly: evidence_only,
+        addExamples: add_examples,
+        typescriptClient: typescript_client,
+    };
+}
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import { generateObject } from 'ai';
+
+import { PipelineContext } from './events';
+import { HTTP_METHODS } from '../utils/openapi';
+import { getModel } from '../models';
+import { UNTRUSTED_CONTENT_NOTICE } from '../security';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Provenance');
+
+// Per-page cap on documentation text sent to the extraction prompt
+const MAX_PAGE_CHARS = 30000;
+
+/**
+ * A documentation page read by the `read_webpage_content` tool during information gathering.
+ */
+export interface SourceDocument {
+    url: string;
+    content: string;
+}
+
+/**
+ * One extracted fact and the documentation excerpt that backs it.
+ * `verified` is true when the excerpt was found verbatim (ignoring whitespace and case) in the page.
+ */
+export interface ProvenanceFact {
+    kind: 'operation' | 'parameter' | 'requestBody' | 'response' | 'schema' | 'field';
+    name?: string;
+    parent?: string;
+    statement: string;
+    sourceUrl: string;
+    excerpt: string;
+    verified: boolean;
+}
+
+/**
+ * The value of an `x-source` vendor extension.
+ */
+export interface SourceReference {
+    url: string;
+    excerpt?: string;
+    verified?: boolean;
+}
+
+const factsSchema = z.object({
+    facts: z.array(z.object({
+        kind: z.enum(['operation', 'parameter', 'requestBody', 'response', 'schema', 'field'])
+            .describe("What the fact describes: 'operation' (method/path/summary/security), 'parameter', 'requestBody', 'response', 'schema' (a named object), or 'field' (a property of an object)"),
+        name: z.string().optional().describe("Parameter name, response status code (e.g. '200'), schema name, or field name. Omit for 'operation' and 'requestBody'."),
+        parent: z.string().optional().describe("For 'field': the name of the object the field belongs to, if known"),
+        statement: z.string().describe("The fact, e.g. 'amount is an optional integer body parameter'"),
+        sourceUrl: z.string().describe("The URL of the page the excerpt was copied from (must be one of the provided pages)"),
+        excerpt: z.string().describe("A short passage copied VERBATIM from that page which states the fact"),
+    })),
+});
+
+/**
+ * Normalizes text for excerpt matching: whitespace runs collapsed, case folded.
+ */
+export const normalizeForMatch = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Asks the model to tie each fact in the gathered summary to a verbatim excerpt from the pages
+ * that were actually read, then checks each excerpt against the page text.
+ * Facts citing a URL that wasn't read are dropped. Extraction failures are logged and yield no facts,
+ * so missing provenance never fails the operation.
+ *
+ * @param operation - The operation being generated.
+ * @param summary - The Step 3a text summary.
+ * @param sources - The pages read during Step 3a.
+ * @param context - Optional abort signal and model overrides for this run.
+ * @returns A promise that resolves to the extracted facts.
+ */
+export async function extractProvenance(
+    operation: string,
+    summary: string,
+    sources: SourceDocument[],
+    context?: PipelineContext
+): Promise<ProvenanceFact[]> {
+    if (sources.length === 0) return [];
+
+    const pages = sources
+        .map(({ url, content }) => `<page url="${url}">\n${content.slice(0, MAX_PAGE_CHARS)}\n</page>`)
+        .join('\n\n');
+
+    try {
+        const { object } = await generateObject({
+            model: getModel('provenance', context),
+            schema: factsSchema,
+            system: `You link extracted API facts to their documentation sources. For every fact in the summary (method, path, each parameter, request body, each response, each object and field), find the passage in the provided pages that states it and copy it VERBATIM as the excerpt. Only cite the provided pages. Skip facts you cannot find in the pages. ${UNTRUSTED_CONTENT_NOTICE}`,
+            prompt: `Operation: ${operation}\n\nSummary:\n"""\n${summary}\n"""\n\nPages:\n${pages}`,
+            abortSignal: context?.abortSignal,
+        });
+
+        const pagesByUrl = new Map(sources.map((s) => [s.url, normalizeForMatch(s.content)]));
+        const facts = object.facts
+            .filter((fact) => pagesByUrl.has(fact.sourceUrl))
+            .map((fact) => ({
+                ...fact,
+                verified: pagesByUrl.get(fact.sourceUrl)!.includes(normalizeForMatch(fact.excerpt)),
+            }));
+        log.info('Extracted provenance', { operation, facts: facts.length, verified: facts.filter((f) => f.verified).length });
+        return facts;
+
+    } catch (error) {
+        if (context?.abortSignal?.aborted) throw error;
+        log.error('Failed to extract provenance', { operation, error });
+        return [];
+    }
+}
+
+/**
+ * Adds `x-source` vendor extensions to a generated spec:
+ * - operations: facts of kind 'operation', or every page read if there are none;
+ * - parameters: facts of kind 'parameter' with the same name;
+ * - request bodies and responses: facts of kind 'requestBody' / 'response' (matched by status code);
+ * - `components.schemas` entries: facts of kind 'schema' with the same name (case-insensitive);
+ * - object properties (in components and inline schemas): facts of kind 'field' with the same
+ *   name, and the same parent where the fact names one.
+ * The spec is modified in place.
+ *
+ * @param spec - The generated OAS fragment.
+ * @param facts - The facts extracted for this operation.
+ * @param sources - The pages read for this operation.
+ */
+export function attachProvenance(spec: Record<string, any>, facts: ProvenanceFact[], sources: SourceDocument[]): void {
+    const refs = (matching: ProvenanceFact[]): SourceReference[] =>
+        matching.map(({ sourceUrl, excerpt, verified }) => ({ url: sourceUrl, excerpt, verified }));
+    const byKind = (kind: ProvenanceFact['kind'], name?: string) =>
+        facts.filter((f) => f.kind === kind && (name === undefined || f.name?.toLowerCase() === name.toLowerCase()));
+    const setSource = (target: any, references: SourceReference[]) => {
+        if (target && typeof target === 'object' && !target.$ref && references.length > 0) target['x-source'] = references;
+    };
+
+    const attachToSchema = (schema: any, schemaName?: string) => {
+        if (!schema || typeof schema !== 'object' || schema.$ref) return;
+        for (const [propertyName, property] of Object.entries<any>(schema.properties ?? {})) {
+            const matching = byKind('field', propertyName).filter(
+                (f) => !f.parent || !schemaName || f.parent.toLowerCase() === schemaName.toLowerCase()
+            );
+            setSource(property, refs(matching));
+            attachToSchema(property, propertyName);
+        }
+        attachToSchema(schema.items, schemaName);
+        for (const key of ['allOf', 'oneOf', 'anyOf']) {
+            for (const member of schema[key] ?? []) attachToSchema(member, schemaName);
+        }
+    };
+
+    const attachToContent = (content: any) => {
+        for (const media of Object.values<any>(content ?? {})) attachToSchema(media?.schema);
+    };
+
+    const operationRefs = byKind('operation').length > 0
+        ? refs(byKind('operation'))
+        : sources.map(({ url }) => ({ url }));
+
+    for (const pathItem of Object.values<any>(spec.paths ?? {})) {
+        for (const parameter of pathItem?.parameters ?? []) setSource(parameter, refs(byKind('parameter', parameter?.name)));
+
+        for (const method of HTTP_METHODS) {
+            const operationObject = pathItem?.[method];
+            if (!operationObject) continue;
+
+            setSource(operationObject, operationRefs);
+            for (const parameter of operationObject.parameters ?? []) {
+                setSource(parameter, refs(byKind('parameter', parameter?.name)));
+                attachToSchema(parameter?.schema);
+            }
+            if (operationObject.requestBody) {
+                setSource(operationObject.requestBody, refs(byKind('requestBody')));
+                attachToContent(operationObject.requestBody.content);
+            }
+            for (const [status, response] of Object.entries<any>(operationObject.responses ?? {})) {
+                setSource(response, refs(byKind('response', status)));
+                attachToContent(response?.content);
+            }
+        }
+    }
+
+    for (const [schemaName, schema] of Object.entries<any>(spec.components?.schemas ?? {})) {
+        setSource(schema, refs(byKind('schema', schemaName)));
+        attachToSchema(schema, schemaName);
+    }
+}
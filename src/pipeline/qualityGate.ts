@@ -0,0 +1,135 @@
+import { loadQualityGateConfig, QualityGateConfig } from '../config';
+import { evaluateAlignment } from '../tools/evaluateAlignment';
+import { evaluateVeracity, VeracityDiscrepancy } from '../tools/evaluateVeracity';
+import { getModel } from '../models';
+import { withFixtures } from './agentTools';
+import { PipelineContext } from './events';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('QualityGate');
+
+export { QualityGateConfig } from '../config';
+
+/**
+ * The gate's verdict on one generated spec.
+ * `veracity` is null when no documentation pages were read, in which case it can't block the spec;
+ * otherwise it lists each discrepancy with the documentation (only 'error' ones make it inaccurate).
+ * `error` is set when an evaluator call failed; the spec then doesn't pass.
+ */
+export interface QualityEvaluation {
+    alignment: { score: number; reasoning: string | null } | null;
+    veracity: { isAccurate: boolean; reasoning: string | null; discrepancies: VeracityDiscrepancy[] } | null;
+    passed: boolean;
+    error: string | null;
+}
+
+/**
+ * The gate results reported for an operation: the evaluation of the spec that was returned,
+ * and how many generation attempts were made.
+ */
+export interface QualityReport extends QualityEvaluation {
+    attempts: number;
+}
+
+/**
+ * Resolves the gate settings for a run: environment defaults, overridden by the request.
+ */
+export function resolveQualityGate(overrides?: Partial<QualityGateConfig>): QualityGateConfig {
+    return { ...loadQualityGateConfig(), ...overrides };
+}
+
+/**
+ * Reads per-request gate overrides (`enabled`, `min_alignment`, `require_veracity`, `max_retries`).
+ */
+export function parseQualityGateOptions(value: unknown): Partial<QualityGateConfig> | { error: string } {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return { error: 'expected an object' };
+    }
+    const { enabled, min_alignment, require_veracity, max_retries, ...unknown } = value as Record<string, unknown>;
+    const unknownKeys = Object.keys(unknown);
+    if (unknownKeys.length > 0) {
+        return { error: `unknown setting '${unknownKeys[0]}' (expected enabled, min_alignment, require_veracity, max_retries)` };
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') return { error: "'enabled' must be a boolean" };
+    if (require_veracity !== undefined && typeof require_veracity !== 'boolean') return { error: "'require_veracity' must be a boolean" };
+    if (min_alignment !== undefined && !(typeof min_alignment === 'number' && min_alignment >= 0 && min_alignment <= 5)) {
+        return { error: "'min_alignment' must be a number between 0 and 5" };
+    }
+    if (max_retries !== undefined && !(Number.isInteger(max_retries) && (max_retries as number) >= 0)) {
+        return { error: "'max_retries' must be a non-negative integer" };
+    }
+
+    const options: Partial<QualityGateConfig> = {};
+    if (enabled !== undefined) options.enabled = enabled;
+    if (min_alignment !== undefined) options.minAlignment = min_alignment as number;
+    if (require_veracity !== undefined) options.requireVeracity = require_veracity;
+    if (max_retries !== undefined) options.maxRetries = max_retries as number;
+    return options;
+}
+
+/**
+ * Scores a generated spec with the alignment evaluator (against the operation description) and the
+ * veracity evaluator (against the pages read while gathering information), in parallel.
+ *
+ * @param operation - The operation description the spec was generated for.
+ * @param spec - The generated OAS fragment.
+ * @param sourceUrls - The documentation pages read for this operation.
+ * @param gate - The thresholds to apply.
+ * @param context - Optional run context (model overrides, cache, fixtures, abort signal).
+ * @returns A promise that resolves to the evaluation. Evaluator failures are reported, not thrown.
+ */
+export async function evaluateQuality(
+    operation: string,
+    spec: Record<string, any>,
+    sourceUrls: string[],
+    gate: QualityGateConfig,
+    context?: PipelineContext
+): Promise<QualityEvaluation> {
+    try {
+        const [alignment, veracity] = await Promise.all([
+            withFixtures(context, 'evaluate_alignment', { user_query: operation, generated_oas: spec }, () =>
+                evaluateAlignment(operation, spec, getModel('alignment', context))),
+            sourceUrls.length > 0
+                ? withFixtures(context, 'evaluate_veracity', { generated_oas: spec, source_url: sourceUrls }, () =>
+                    evaluateVeracity(spec, sourceUrls, context?.cache, getModel('veracity', context)))
+                : Promise.resolve(null),
+        ]);
+
+        const passed = alignment.score >= gate.minAlignment && (!gate.requireVeracity || veracity === null || veracity.is_accurate);
+        return {
+            alignment: { score: alignment.score, reasoning: alignment.reasoning ?? null },
+            veracity: veracity && {
+                isAccurate: veracity.is_accurate,
+                reasoning: veracity.reasoning ?? null,
+                discrepancies: veracity.discrepancies,
+            },
+            passed,
+            error: null,
+        };
+    } catch (error) {
+        if (context?.abortSignal?.aborted) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        log.error('Evaluation failed', { operation, error: message });
+        return { alignment: null, veracity: null, passed: false, error: message };
+    }
+}
+
+/**
+ * Turns a failed evaluation into instructions for the next generation attempt.
+ */
+export function describeQualityFeedback(operation: string, spec: Record<string, any>, evaluation: QualityEvaluation, gate: QualityGateConfig): string {
+    const findings: string[] = [];
+    if (evaluation.alignment && evaluation.alignment.score < gate.minAlignment) {
+        findings.push(`- Alignment with "${operation}" scored ${evaluation.alignment.score}/5 (minimum ${gate.minAlignment}). ${evaluation.alignment.reasoning ?? ''}`.trim());
+    }
+    if (gate.requireVeracity && evaluation.veracity && !evaluation.veracity.isAccurate) {
+        findings.push(`- The spec does not match the documentation. ${evaluation.veracity.reasoning ?? ''}`.trim());
+        for (const d of evaluation.veracity.discrepancies) {
+            findings.push(`  - [${d.severity}] At ${d.pointer}: the spec says ${d.spec_says}, but ${d.source_url} says ${d.documentation_says}`);
+        }
+    }
+
+    return `A previous attempt passed validation but failed the quality review:\n${findings.join('\n')}\n\n` +
+        `Previous attempt:\n\`\`\`json\n${JSON.stringify(spec, null, 2)}\n\`\`\`\n\n` +
+        `Fix these problems using only the information above. Describe only the requested operation and don't invent fields.`;
+}
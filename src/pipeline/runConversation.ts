@@ -0,0 +1,74 @@
+import { checkIntent, createRunContext, decomposeQuery, generateAndMerge, GenerationOptions, GenerationOutcome } from './runGeneration';
+import { emit, inStage, PipelineContext } from './events';
+import { ClarifyingQuestion, Conversation } from './clarification';
+import { loadClarificationConfig } from '../config';
+import { traceRun } from '../tracing';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Clarification');
+
+/**
+ * Defines the possible outcomes of one turn of a conversation: those of a generation run, or
+ * `needs_clarification` with the questions for the user and the operations identified so far.
+ */
+export type ConversationOutcome =
+    | GenerationOutcome
+    | { status: 'needs_clarification'; questions: ClarifyingQuestion[]; operations: string[] };
+
+/**
+ * Runs one turn of a conversational generation: like runGeneration, except that decomposition may ask
+ * clarifying questions instead of guessing when the query is ambiguous. The caller records the answers in
+ * the conversation and runs another turn; the intent check only runs on the first turn, and later turns
+ * refine the operations identified so far. After MAX_CLARIFICATION_ROUNDS rounds of questions (see
+ * loadClarificationConfig), decomposition has to settle on operations. Each turn is traced as a run of its own.
+ *
+ * @param query - The user's natural-language request, as first sent.
+ * @param conversation - The operations identified and the questions answered so far (empty on the first turn).
+ * @param options - Per-request options.
+ * @param callerContext - Optional progress listener, abort signal, fixture session and tracer for this turn.
+ * @returns A promise that resolves to the ConversationOutcome.
+ * @throws Throws if a model call in the intent or decomposition step fails, if the run is aborted, or if
+ *   MAX_CLARIFICATION_ROUNDS is invalid.
+ */
+export async function runConversationTurn(
+    query: string,
+    conversation: Conversation,
+    options: GenerationOptions = {},
+    callerContext?: PipelineContext
+): Promise<ConversationOutcome> {
+    const { maxRounds } = loadClarificationConfig();
+    const { context, cacheStats } = createRunContext(options, callerContext);
+    const runLog = log.child({ run: context.tracer!.id });
+
+    return traceRun<ConversationOutcome>(context.tracer!, 'conversation', query, async () => {
+        // --- Step 1: Intent Check (answers to questions don't change what was asked) ---
+        if (conversation.rounds === 0) {
+            const refusal = await inStage(context, 'intent', () => checkIntent(query, options, context));
+            if (refusal) return { status: 'not_openapi_request', refusal };
+        }
+
+        // --- Step 2: Decompose, or Ask ---
+        const allowQuestions = conversation.rounds < maxRounds;
+        const { operations, questions } = await inStage(context, 'decomposition', () =>
+            decomposeQuery(query, options, context, conversation, allowQuestions));
+        if (questions.length > 0) {
+            const numbered = questions.map(({ question, options: answers }, i) => ({
+                id: `Q${conversation.exchanges.length + i + 1}`,
+                question: question.trim(),
+                options: answers.map((answer) => answer.trim()).filter(Boolean),
+            }));
+            runLog.info('Asking clarifying questions', { questions: numbered.map((q) => q.question) });
+            emit(context, { type: 'clarification', questions: numbered });
+            return { status: 'needs_clarification', questions: numbered, operations };
+        }
+        if (operations.length === 0) {
+            runLog.warn('Could not decompose request into specific operations');
+            return { status: 'no_operations' };
+        }
+        runLog.info('Decomposed operations', { operations });
+        emit(context, { type: 'decomposition', operations });
+
+        // --- Steps 3-4: Generate and Merge ---
+        return generateAndMerge(operations, context, cacheStats);
+    });
+}
@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { generateObject } from 'ai';
+
+import { ALL_OPERATIONS_INSTRUCTION, createRunContext, generateAndMerge, GenerationOptions, GenerationResult, OperationFailure } from './runGeneration';
+import { emit, inStage, PipelineContext } from './events';
+import { getModel } from '../models';
+import { listOperations } from '../utils/openapi';
+import { createJsonPatch, JsonPatchOperation } from '../utils/jsonPatch';
+import { traceRun } from '../tracing';
+import { quoteUserInput, USER_INPUT_NOTICE } from '../security';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Extension');
+
+/**
+ * The successful result of an extension run, as returned to API clients.
+ * `updated_spec` is the existing document with the new operations merged in, and `patch` is the
+ * RFC 6902 JSON Patch that turns the existing document into it. `already_present` lists requested
+ * operations the document already had (as `METHOD /path`), which were not regenerated.
+ */
+export interface ExtensionResult extends Omit<GenerationResult, 'generated_spec'> {
+    updated_spec: Record<string, any>;
+    patch: JsonPatchOperation[];
+    already_present: string[];
+}
+
+/**
+ * Defines the possible outcomes of an extension run.
+ * - `no_operations`: decomposition found no operations in the query.
+ * - `already_present`: every requested operation is already in the document; nothing was generated.
+ * - `failed`: every missing operation failed.
+ * - `succeeded`: at least one operation was added; the rest are listed as failures.
+ */
+export type ExtensionOutcome =
+    | { status: 'no_operations' }
+    | { status: 'already_present'; already_present: string[] }
+    | { status: 'failed'; failures: OperationFailure[] }
+    | { status: 'succeeded'; result: ExtensionResult };
+
+/**
+ * Checks that a document can be extended: an OpenAPI 3.x document as a JSON object.
+ * @returns An error message, or null if the document is usable.
+ */
+export function validateBaseDocument(document: unknown): string | null {
+    if (document === null || typeof document !== 'object' || Array.isArray(document)) {
+        return 'expected an OpenAPI document object';
+    }
+    const { openapi, paths } = document as Record<string, unknown>;
+    if (typeof openapi !== 'string' || !openapi.startsWith('3.')) {
+        return "expected an OpenAPI 3.x document (with an 'openapi' version such as '3.0.3')";
+    }
+    if (paths !== undefined && (paths === null || typeof paths !== 'object' || Array.isArray(paths))) {
+        return "'paths' must be an object";
+    }
+    return null;
+}
+
+/**
+ * Extends an existing OpenAPI document with the operations a natural-language query asks for:
+ * decomposition (told which operations already exist, so only missing ones are generated),
+ * per-operation generation against the document's components, merge into the document, and
+ * validation of the merged result. There is no intent check: asking to extend a document is explicit.
+ * The run is traced like a generation run.
+ *
+ * @param document - The existing OpenAPI 3.x document (see validateBaseDocument). It isn't modified.
+ * @param query - The user's natural-language request, e.g. "add the refund cancel endpoint".
+ * @param options - Per-request options.
+ * @param callerContext - Optional progress listener, abort signal, fixture session and tracer for this run.
+ * @returns A promise that resolves to the ExtensionOutcome.
+ * @throws Throws if the decomposition model call fails, or if the run is aborted.
+ */
+export async function runExtension(
+    document: Record<string, any>,
+    query: string,
+    options: GenerationOptions = {},
+    callerContext?: PipelineContext
+): Promise<ExtensionOutcome> {
+    const { context, cacheStats } = createRunContext(options, { ...callerContext, baseSpec: document });
+    const runLog = log.child({ run: context.tracer!.id });
+
+    return traceRun<ExtensionOutcome>(context.tracer!, 'extension', query, async () => {
+        // --- Step 2: Decompose Request into Missing Operations ---
+        const { operations: requestedOperations, already_present: alreadyPresent } = await inStage(context, 'decomposition', () =>
+            decomposeMissingOperations(document, query, options, context));
+
+        if (requestedOperations.length === 0) {
+            if (alreadyPresent.length > 0) {
+                runLog.info('Every requested operation is already in the document', { alreadyPresent });
+                return { status: 'already_present', already_present: alreadyPresent };
+            }
+            runLog.warn('Could not decompose extension request into specific operations');
+            return { status: 'no_operations' };
+        }
+        runLog.info('Decomposed missing operations', { operations: requestedOperations, alreadyPresent });
+        emit(context, { type: 'decomposition', operations: requestedOperations });
+
+        // --- Steps 3-4: Generate, Merge into the Document, Validate ---
+        const outcome = await generateAndMerge(requestedOperations, context, cacheStats);
+        if (outcome.status === 'failed') return outcome;
+
+        const { generated_spec: updatedSpec, ...result } = outcome.result;
+        return {
+            status: 'succeeded',
+            result: {
+                ...result,
+                updated_spec: updatedSpec,
+                patch: createJsonPatch(document, updatedSpec),
+                already_present: alreadyPresent,
+            },
+        };
+    });
+}
+
+/**
+ * Step 2 of an extension run: decomposes the query into the operations the document is missing,
+ * and those it already contains.
+ */
+async function decomposeMissingOperations(
+    document: Record<string, any>,
+    query: string,
+    options: GenerationOptions,
+    context: PipelineContext
+): Promise<{ operations: string[]; already_present: string[] }> {
+    log.debug('Decomposing extension request into missing operations', { run: context.tracer?.id });
+    const existingOperations = listOperations(document).map(({ method, path, operation }) =>
+        `- ${method.toUpperCase()} ${path}${operation.summary ? `: ${operation.summary}` : ''}`);
+    const decompositionPrompt = `The user wants to add operations to an existing OpenAPI document${document.info?.title ? ` ("${document.info.title}")` : ''}. ` +
+        `Based on the user query, identify the distinct, self-contained API operations or endpoints requested. ` +
+        `Output ONLY a JSON object with two arrays of strings. In "operations", list each requested operation the document does NOT already contain, ` +
+        `describing it clearly as well as the API provider (e.g., "Cancel a Stripe refund"). ` +
+        `In "already_present", list each requested operation the document already contains, as "METHOD /path" from the list below.${options.allOperations ? ` ${ALL_OPERATIONS_INSTRUCTION}` : ''}\n\n` +
+        `Existing operations:\n${existingOperations.join('\n') || '(none)'}\n\n${USER_INPUT_NOTICE}\n${quoteUserInput(query)}`;
+    const decompositionSchema = z.object({
+        operations: z.array(z.string()).describe('Requested operations missing from the document'),
+        already_present: z.array(z.string()).describe('Requested operations the document already contains'),
+    });
+    const decompositionResult = await generateObject({
+        model: getModel('decomposition', context),
+        prompt: decompositionPrompt,
+        schema: decompositionSchema,
+        abortSignal: context.abortSignal,
+    });
+    return decompositionResult.object;
+}
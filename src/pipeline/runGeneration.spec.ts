@@ -0,0 +1,38 @@
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { runGeneration } from './runGeneration';
+
+const MOCK_SCRIPTS_DIR = path.resolve(__dirname, '../../mock-scripts');
+
+// The whole pipeline, offline: scripted models and the local docs corpus
+beforeAll(() => {
+    Object.assign(process.env, {
+        MODEL_DEFAULT: 'mock',
+        MOCK_MODEL_SCRIPT: path.join(MOCK_SCRIPTS_DIR, 'stripe-refunds.json'),
+        SEARCH_PROVIDER: 'local',
+        LOCAL_DOCS_DIR: path.join(MOCK_SCRIPTS_DIR, 'docs'),
+        CACHE_BACKEND: 'none',
+        SPEC_DISCOVERY: 'off',
+        TRACE_STORE: 'none',
+        LOG_LEVEL: 'error',
+    });
+});
+
+describe('runGeneration with the scripted mock model', () => {
+    it('generates, validates and gates the scripted operation', async () => {
+        const outcome = await runGeneration('Create a Stripe refund');
+
+        expect(outcome.status).toBe('succeeded');
+        if (outcome.status !== 'succeeded') return;
+        const { result } = outcome;
+        expect(result.operations).toEqual([
+            expect.objectContaining({ operation: 'Create a refund (POST /v1/refunds, Stripe)', status: 'succeeded', origin: 'llm_synthesis' }),
+        ]);
+        expect(result.validation.isValid).toBe(true);
+        expect(result.quality_gate.passed).toBe(true);
+        expect(result.generated_spec.paths['/v1/refunds'].post.operationId).toBe('createRefund');
+        expect(result.generated_spec.components.schemas.Refund.required).toContain('status');
+        expect(result.metadata.models.generation).toBe('mock');
+    });
+});
@@ -0,0 +1,458 @@
+import { z } from 'zod';
+import { generateObject } from 'ai';
+
+import { validateOpenAPISchema } from '../tools/validateOpenAPISchema';
+import { generateOperationSpec, OperationOrigin, OperationResult } from './generateOperationSpec';
+import { PublishedSource } from '../discovery';
+import { extendSpec, mergeSpecs, MergeConflict } from './mergeSpecs';
+import { mapWithConcurrency } from './mapWithConcurrency';
+import { emit, inStage, PipelineContext } from './events';
+import { CacheStats, createCacheStats } from '../cache';
+import { lintSpec, LintFinding, LintRuleConfig } from '../lint';
+import { QualityGateConfig, QualityReport, resolveQualityGate } from './qualityGate';
+import { convertSpec, OutputFormat, serializeSpec, TargetVersion } from '../conversion';
+import { getModel, ModelOverrides, ModelSpec, ModelStage, resolveModelSpec, resolveModelSpecs } from '../models';
+import { ObservedOperation, summarizeEvidence } from '../evidence';
+import { addExamples } from '../examples';
+import { generateTypeScriptClient } from '../codegen';
+import { RunTracer, traceRun } from '../tracing';
+import { FilteredContent, findUnsourcedUrls, findUrls, markUntrusted, quoteUserInput, UNTRUSTED_CONTENT_NOTICE, UnsourcedUrl, USER_INPUT_NOTICE } from '../security';
+import { createLogger } from '../utils/logger';
+import { CLARIFICATION_INSTRUCTION, ClarifyingQuestion, Conversation, DEFAULT_REFUSAL, describeConversation, Refusal, REFUSAL_REASONS } from './clarification';
+
+const log = createLogger('Pipeline');
+
+// Maximum number of decomposed operations generated in parallel
+// Each operation runs its own agent loops, so keep this low to stay within provider rate limits
+export const OPERATION_CONCURRENCY = Number(process.env.OPERATION_CONCURRENCY) || 2;
+
+// Name under which merge conflicts with the document being extended are reported
+export const EXISTING_DOCUMENT = '(existing document)';
+
+// Added to the decomposition prompt when every operation of the mentioned resources is wanted
+export const ALL_OPERATIONS_INSTRUCTION = 'Include every operation the provider offers for the resources the query mentions ' +
+    '(e.g. create, retrieve, update, delete, list and resource-specific actions), not only the ones it names explicitly.';
+
+/**
+ * Per-request options for a generation run.
+ * - `bypassCache`: ignore cached search results and pages (fresh results still refresh the cache).
+ * - `lintRules`: severity overrides for the semantic linter, by rule id.
+ * - `models`: models to use instead of the configured ones, by pipeline stage (or `default`).
+ * - `qualityGate`: overrides for the alignment/veracity gate settings (see QUALITY_* environment variables).
+ * - `targetVersion`: convert the merged document to this version (it is otherwise returned as merged).
+ * - `outputFormat`: 'yaml' also returns the document serialized as YAML.
+ * - `allOperations`: decompose the query into every operation of the resources it mentions.
+ * - `evidence`: operations observed in curl commands, HAR files or Postman collections, used alongside the documentation.
+ * - `evidenceOnly`: generate from the evidence alone (no search, scraping or published-spec discovery).
+ * - `addExamples`: fill in schema-based examples for request bodies and responses that have none.
+ * - `typescriptClient`: also return a TypeScript client (zod schemas and a fetch function per operation).
+ */
+export interface GenerationOptions {
+    bypassCache?: boolean;
+    lintRules?: LintRuleConfig;
+    models?: ModelOverrides;
+    qualityGate?: Partial<QualityGateConfig>;
+    targetVersion?: TargetVersion;
+    outputFormat?: OutputFormat;
+    allOperations?: boolean;
+    evidence?: ObservedOperation[];
+    evidenceOnly?: boolean;
+    addExamples?: boolean;
+    typescriptClient?: boolean;
+}
+
+/**
+ * A documentation page read during generation, and the operations it was read for.
+ */
+export interface SourceSummary {
+    url: string;
+    operations: string[];
+}
+
+/**
+ * How the merged document was converted to the requested target version.
+ */
+export interface ConversionSummary {
+    from: string;
+    to: TargetVersion;
+    warnings: string[];
+}
+
+export interface OperationFailure {
+    operation: string;
+    error: string;
+}
+
+/**
+ * The successful result of a generation run, as returned to API clients.
+ * `validation` is for the returned document, i.e. after conversion when a target version was requested.
+ * `spec_yaml` is only set when YAML output was requested.
+ * `examples_added` lists the media types (as JSON pointers in the merged document) that got a generated example;
+ * it is null when examples weren't requested.
+ * `client_ts` is only set when a TypeScript client was requested; it is generated from the merged document
+ * (before conversion), so it is the same whatever the target version.
+ * An operation's `evidence` lists the observed operations (`METHOD /path`) it was generated from, if any.
+ * `security.filtered_content` lists the instruction-like text removed from the pages read, and
+ * `security.unsourced_urls` the URLs in the returned document on sites none of its sources are on.
+ * `metadata.run_id` identifies the run's trace (see `GET /api/runs/:id`).
+ */
+export interface GenerationResult {
+    generated_spec: Record<string, any>;
+    spec_yaml?: string;
+    client_ts?: string;
+    conversion: ConversionSummary | null;
+    examples_added: string[] | null;
+    operations: {
+        operation: string;
+        status: 'succeeded' | 'failed';
+        origin: OperationOrigin;
+        published_source: PublishedSource | null;
+        quality: QualityReport | null;
+        evidence: string[];
+    }[];
+    failures: OperationFailure[];
+    conflicts: MergeConflict[];
+    validation: { isValid: boolean; error: string | null };
+    lint: LintFinding[];
+    quality_gate: QualityGateConfig & { passed: boolean | null };
+    sources: SourceSummary[];
+    security: {
+        filtered_content: FilteredContent[];
+        unsourced_urls: UnsourcedUrl[];
+    };
+    metadata: {
+        run_id: string | null;
+        cache: CacheStats;
+        models: Record<ModelStage, ModelSpec>;
+    };
+}
+
+/**
+ * Defines the possible outcomes of a generation run.
+ * - `not_openapi_request`: the intent check decided the query isn't asking for a spec; `refusal` says why.
+ * - `no_operations`: decomposition found no operations in the query.
+ * - `failed`: every operation failed.
+ * - `succeeded`: at least one operation was generated; the rest are listed as failures.
+ */
+export type GenerationOutcome =
+    | { status: 'not_openapi_request'; refusal: Refusal }
+    | { status: 'no_operations' }
+    | { status: 'failed'; failures: OperationFailure[] }
+    | { status: 'succeeded'; result: GenerationResult };
+
+/**
+ * Runs the full pipeline for a natural-language query:
+ * intent check, decomposition, per-operation generation (bounded parallelism) and merge.
+ * The run is traced (see traceRun), under the caller's tracer if the context has one.
+ *
+ * @param query - The user's natural-language request.
+ * @param options - Per-request options.
+ * @param callerContext - Optional progress listener, abort signal, fixture session and tracer for this run.
+ * @returns A promise that resolves to the GenerationOutcome.
+ * @throws Throws if a model call in the intent or decomposition step fails (including an unconfigured
+ * model provider), or if the run is aborted.
+ */
+export async function runGeneration(
+    query: string,
+    options: GenerationOptions = {},
+    callerContext?: PipelineContext
+): Promise<GenerationOutcome> {
+    const { context, cacheStats } = createRunContext(options, callerContext);
+
+    return traceRun<GenerationOutcome>(context.tracer!, 'generation', query, async () => {
+        // --- Step 1: Intent Check ---
+        const refusal = await inStage(context, 'intent', () => checkIntent(query, options, context));
+        if (refusal) return { status: 'not_openapi_request', refusal };
+
+        // --- Step 2: Decompose Request into Operations ---
+        const { operations: requestedOperations } = await inStage(context, 'decomposition', () => decomposeQuery(query, options, context));
+        if (requestedOperations.length === 0) {
+            log.warn('Could not decompose request into specific operations', { run: context.tracer!.id });
+            return { status: 'no_operations' };
+        }
+        log.info('Decomposed operations', { run: context.tracer!.id, operations: requestedOperations });
+        emit(context, { type: 'decomposition', operations: requestedOperations });
+
+        return generateAndMerge(requestedOperations, context, cacheStats);
+    });
+}
+
+/**
+ * Step 1: asks the intent model whether the query is a request for an API description.
+ *
+ * @returns Why the query is declined, or null if it is a request for a spec.
+ */
+export async function checkIntent(query: string, options: GenerationOptions, context: PipelineContext): Promise<Refusal | null> {
+    const runLog = log.child({ run: context.tracer?.id });
+    runLog.debug('Checking intent', { model: resolveModelSpec('intent', options.models) });
+    const intentCheckPrompt = `Does the following request ask for an OpenAPI specification or API definition? ${USER_INPUT_NOTICE}\n\n${quoteUserInput(query)}`;
+    const intentSchema = z.object({
+        intent: z.enum(['yes', 'no']).describe("Whether the request is for an OAS ('yes' or 'no')"),
+        refusal_reason: z.enum(REFUSAL_REASONS).optional().describe(
+            "When 'no': 'not_an_api_request', 'unsupported_api_style' (GraphQL, gRPC, SOAP or another API OpenAPI can't describe) or 'no_public_api'"),
+        explanation: z.string().optional().describe("When 'no': one sentence for the user explaining why"),
+    });
+    const intentResult = await generateObject({
+        model: getModel('intent', context),
+        prompt: intentCheckPrompt,
+        schema: intentSchema,
+        abortSignal: context.abortSignal,
+    });
+    emit(context, { type: 'intent', intent: intentResult.object.intent });
+    if (intentResult.object.intent !== 'yes') {
+        const { refusal_reason: reason, explanation } = intentResult.object;
+        const refusal = { reason: reason ?? DEFAULT_REFUSAL.reason, explanation: explanation?.trim() || DEFAULT_REFUSAL.explanation };
+        runLog.info('Intent check declined the query', { ...refusal });
+        return refusal;
+    }
+    runLog.debug('Intent check passed');
+    return null;
+}
+
+/**
+ * Step 2: decomposes the query into operations, matched to the evidence when the request has some.
+ * In a conversation, the model also sees the operations identified so far and the user's answers, and with
+ * `allowQuestions` it may return clarifying questions instead of guessing.
+ *
+ * @param conversation - The conversation so far, or undefined outside of one.
+ * @param allowQuestions - Whether the model may ask questions; otherwise `questions` is always empty.
+ * @returns The operations, and the questions (without ids) for the user.
+ */
+export async function decomposeQuery(
+    query: string,
+    options: GenerationOptions,
+    context: PipelineContext,
+    conversation?: Conversation,
+    allowQuestions = false
+): Promise<{ operations: string[]; questions: ClarifyingQuestionDraft[] }> {
+    log.debug('Decomposing request into operations', { run: context.tracer?.id });
+    const dialogue = conversation
+        ? `\n\n${allowQuestions ? CLARIFICATION_INSTRUCTION : 'Do not ask any more questions: decide with what you know.'}\n\n${describeConversation(conversation)}`
+        : '';
+    if (options.evidence) return decomposeWithEvidence(query, options.evidence, options.allOperations, context, dialogue, allowQuestions);
+
+    const decompositionPrompt = `Based on the user query, identify the distinct, self-contained API operations or endpoints requested. Output ONLY a JSON object with a single key "operations" which is an array of strings. Each string should describe one specific operation clearly as well as the API provider (e.g., "Create a Stripe refund", "Retrieve a specific Stripe refund by ID", "List all Stripe refunds").${options.allOperations ? ` ${ALL_OPERATIONS_INSTRUCTION}` : ''}${dialogue}\n\n${USER_INPUT_NOTICE}\n${quoteUserInput(query)}`;
+    const decompositionSchema = z.object({
+        operations: z.array(z.string()).describe("List of distinct API operations requested")
+    });
+    const decompositionResult = await generateObject({
+        model: getModel('decomposition', context),
+        prompt: decompositionPrompt,
+        // Questions are only part of the schema when they may be asked, so one-shot runs never stop to ask
+        schema: allowQuestions ? decompositionSchema.extend({ questions: QUESTIONS_SCHEMA }) : decompositionSchema,
+        abortSignal: context.abortSignal,
+    });
+    const { operations, questions = [] } = decompositionResult.object as { operations: string[]; questions?: ClarifyingQuestionDraft[] };
+    return { operations, questions };
+}
+
+type ClarifyingQuestionDraft = Omit<ClarifyingQuestion, 'id'>;
+
+const QUESTIONS_SCHEMA = z.array(z.object({
+    question: z.string(),
+    options: z.array(z.string()).describe('Likely answers; empty for a free-text answer'),
+})).describe('Clarifying questions for the user; empty when the query is clear');
+
+/**
+ * Step 2 when the request has evidence: the model is shown the observed operations and says which of them
+ * each decomposed operation corresponds to, so generation can be given the matching traffic.
+ * The matches are stored in `context.evidence`.
+ */
+async function decomposeWithEvidence(
+    query: string,
+    evidence: ObservedOperation[],
+    allOperations: boolean | undefined,
+    context: PipelineContext,
+    dialogue: string,
+    allowQuestions: boolean
+): Promise<{ operations: string[]; questions: ClarifyingQuestionDraft[] }> {
+    const decompositionPrompt = `Based on the user query and the API traffic the user observed, identify the distinct, self-contained API operations or endpoints requested. ` +
+        `Output ONLY a JSON object with a single key "operations" which is an array of objects. In each, "description" describes one specific operation clearly ` +
+        `as well as the API provider (e.g., "Create a Stripe refund"), and "evidence" lists the ids of the observed operations it corresponds to (empty if none). ` +
+        `Unless the query says otherwise, include every observed operation, each in exactly one operation.${allOperations ? ` ${ALL_OPERATIONS_INSTRUCTION}` : ''}${dialogue}\n\n` +
+        `Observed operations:\n${markUntrusted(summarizeEvidence(evidence), 'observed traffic')}\n\n${UNTRUSTED_CONTENT_NOTICE}\n\n${USER_INPUT_NOTICE}\n${quoteUserInput(query)}`;
+    const decompositionSchema = z.object({
+        operations: z.array(z.object({
+            description: z.string(),
+            evidence: z.array(z.string()).describe('Ids of the observed operations, e.g. "E1"'),
+        })).describe("List of distinct API operations requested")
+    });
+    const decompositionResult = await generateObject({
+        model: getModel('decomposition', context),
+        prompt: decompositionPrompt,
+        schema: allowQuestions ? decompositionSchema.extend({ questions: QUESTIONS_SCHEMA }) : decompositionSchema,
+        abortSignal: context.abortSignal,
+    });
+    const { operations, questions = [] } = decompositionResult.object as z.infer<typeof decompositionSchema> & { questions?: ClarifyingQuestionDraft[] };
+
+    const byId = new Map(evidence.map((observed) => [observed.id, observed]));
+    const matched = new Set<string>();
+    context.evidence = {};
+    for (const { description, evidence: ids } of operations) {
+        const observed = ids.map((id) => byId.get(id.trim())).filter((o): o is ObservedOperation => o !== undefined);
+        observed.forEach((o) => matched.add(o.id));
+        context.evidence[description] = [...(context.evidence[description] ?? []), ...observed];
+    }
+    const unmatched = evidence.filter((observed) => !matched.has(observed.id));
+    if (unmatched.length > 0) {
+        log.warn('Observed operations not used by any operation', {
+            run: context.tracer?.id,
+            evidence: unmatched.map((o) => `${o.id} ${o.method.toUpperCase()} ${o.path}`),
+        });
+    }
+    return { operations: Object.keys(context.evidence), questions };
+}
+
+/**
+ * Builds the context for one run: the caller's hooks plus the run's cache, lint, model and gate settings,
+ * and a tracer unless the caller brought one.
+ */
+export function createRunContext(options: GenerationOptions, callerContext?: PipelineContext): { context: PipelineContext; cacheStats: CacheStats } {
+    const cacheStats = createCacheStats();
+    const context: PipelineContext = {
+        ...callerContext,
+        cache: { bypass: options.bypassCache, stats: cacheStats },
+        lintRules: options.lintRules,
+        models: options.models,
+        qualityGate: resolveQualityGate(options.qualityGate),
+        targetVersion: options.targetVersion,
+        outputFormat: options.outputFormat,
+        evidenceOnly: options.evidenceOnly,
+        addExamples: options.addExamples,
+        typescriptClient: options.typescriptClient,
+        tracer: callerContext?.tracer ?? RunTracer.create(),
+        filteredContent: [],
+    };
+    return { context, cacheStats };
+}
+
+/**
+ * Runs Steps 3-4 for the decomposed operations: per-operation generation (bounded parallelism),
+ * merge, generated examples (if requested), linting of the merged document, conversion to the requested target version, and validation
+ * of the document that is returned (and a TypeScript client, if requested).
+ * When the context has a `baseSpec`, the fragments are merged into it (see extendSpec): its paths and
+ * components take precedence, and only the new operations and components are added to it.
+ *
+ * @param requestedOperations - The operations found by decomposition.
+ * @param context - The run context (see createRunContext).
+ * @param cacheStats - The run's cache counters, reported in the result metadata.
+ * @returns A promise that resolves to the `failed` or `succeeded` outcome.
+ */
+export async function generateAndMerge(
+    requestedOperations: string[],
+    context: PipelineContext,
+    cacheStats: CacheStats
+): Promise<Extract<GenerationOutcome, { status: 'failed' | 'succeeded' }>> {
+    const runLog = log.child({ run: context.tracer?.id });
+    // --- Step 3: Process Every Operation (bounded parallelism) ---
+    runLog.info('Generating operations', { operations: requestedOperations.length, concurrency: OPERATION_CONCURRENCY });
+    const operationResults = await mapWithConcurrency(requestedOperations, OPERATION_CONCURRENCY, (operation) => {
+        context.abortSignal?.throwIfAborted();
+        return generateOperationSpec(operation, context);
+    });
+
+    const succeeded = operationResults.filter((r): r is OperationResult & { spec: Record<string, any> } => r.spec !== null);
+    const failures = operationResults
+        .filter((r): r is OperationResult & { error: string } => r.error !== null)
+        .map(({ operation, error }) => ({ operation, error }));
+
+    if (succeeded.length === 0) {
+        runLog.error('Every operation failed', { operations: failures.length });
+        return { status: 'failed', failures };
+    }
+
+    const { conflicts, examples, mergedSpec, lint, conversion, finalSpec, validation } = await inStage(context, 'merge', async () => {
+        // --- Step 4: Merge Results ---
+        const merged = context.baseSpec
+            ? extendSpec({ operation: EXISTING_DOCUMENT, spec: context.baseSpec }, succeeded)
+            : mergeSpecs(succeeded);
+        const examples = context.addExamples ? addExamples(merged.spec) : null;
+        const mergedSpec = examples?.spec ?? merged.spec;
+        // Whatever the generation loop couldn't fix (mostly warnings) is reported with the spec
+        const lint = lintSpec(mergedSpec, context.lintRules);
+
+        // --- Step 5: Convert to the requested version ---
+        const conversion = context.targetVersion ? convertSpec(mergedSpec, context.targetVersion) : null;
+        const finalSpec = conversion?.spec ?? mergedSpec;
+        // Re-validate: each fragment passed on its own, but the merged (and converted) document must too
+        const validation = await validateOpenAPISchema(JSON.stringify(finalSpec));
+        if (!validation.isValid) {
+            runLog.warn(`${conversion ? `Converted (${conversion.to})` : 'Merged'} specification failed validation`, { error: validation.error });
+        }
+        return { conflicts: merged.conflicts, examples, mergedSpec, lint, conversion, finalSpec, validation };
+    });
+
+    const unsourcedUrls = findUnsourcedUrls(finalSpec, sourceUrls(operationResults, context));
+    if (unsourcedUrls.length > 0) {
+        runLog.warn('Specification has URLs on sites none of its sources are on', { urls: unsourcedUrls.map(({ url }) => url) });
+    }
+
+    runLog.info('Generated operations', { succeeded: succeeded.length, operations: operationResults.length });
+    emit(context, { type: 'final', spec: finalSpec });
+
+    return {
+        status: 'succeeded',
+        result: {
+            generated_spec: finalSpec,
+            ...(context.outputFormat === 'yaml' ? { spec_yaml: serializeSpec(finalSpec, 'yaml') } : {}),
+            ...(context.typescriptClient ? { client_ts: generateTypeScriptClient(mergedSpec) } : {}),
+            conversion: conversion && { from: conversion.from, to: conversion.to, warnings: conversion.warnings },
+            examples_added: examples?.added ?? null,
+            operations: operationResults.map(({ operation, error, origin, publishedSource, quality }) => ({
+                operation,
+                status: error ? 'failed' : 'succeeded',
+                origin,
+                published_source: publishedSource,
+                quality,
+                evidence: (context.evidence?.[operation] ?? []).map((observed) => `${observed.method.toUpperCase()} ${observed.path}`),
+            })),
+            failures,
+            conflicts,
+            validation,
+            lint,
+            quality_gate: {
+                ...context.qualityGate!,
+                // Whether every synthesized operation passed (null when the gate is off); published ones aren't gated
+                passed: context.qualityGate!.enabled
+                    ? succeeded.every((r) => r.origin === 'official_spec' || r.quality?.passed)
+                    : null,
+            },
+            sources: summarizeSources(operationResults),
+            security: {
+                filtered_content: context.filteredContent ?? [],
+                unsourced_urls: unsourcedUrls,
+            },
+            metadata: {
+                run_id: context.tracer?.id ?? null,
+                cache: cacheStats,
+                models: resolveModelSpecs(context.models),
+            },
+        },
+    };
+}
+
+/**
+ * Everything the document was built from that can vouch for a URL in it: the pages read, the published specs
+ * (and the URLs in the operations taken from them), the servers seen in the evidence and the document being extended.
+ */
+function sourceUrls(operationResults: OperationResult[], context: PipelineContext): string[] {
+    return [
+        ...operationResults.flatMap(({ sources }) => sources.map(({ url }) => url)),
+        ...operationResults.flatMap(({ origin, publishedSource, spec }) =>
+            origin === 'official_spec' && publishedSource ? [publishedSource.url, ...findUrls(spec).map(({ url }) => url)] : []),
+        ...Object.values(context.evidence ?? {}).flat().flatMap(({ servers }) => servers),
+        ...(context.baseSpec ? findUrls(context.baseSpec).map(({ url }) => url) : []),
+    ];
+}
+
+function summarizeSources(operationResults: OperationResult[]): SourceSummary[] {
+    const byUrl = new Map<string, SourceSummary>();
+    for (const { operation, sources } of operationResults) {
+        for (const { url } of sources) {
+            const summary = byUrl.get(url) ?? { url, operations: [] };
+            if (!summary.operations.includes(operation)) summary.operations.push(operation);
+            byUrl.set(url, summary);
+        }
+    }
+    return Array.from(byUrl.values());
+}
@@ -0,0 +1,69 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { FetchReaderProvider } from './fetchReaderProvider';
+import { domainPolicyViolation } from '../security';
+
+const POLICY = { allowedDomains: [], blockedDomains: ['blocked.test'], injectionFilter: true };
+
+describe('domainPolicyViolation', () => {
+    it('rejects every scheme but http(s)', () => {
+        expect(domainPolicyViolation('file:///etc/passwd', POLICY)).toMatch(/only http\(s\) URLs/);
+        expect(domainPolicyViolation('ftp://docs.example.com/api', POLICY)).toMatch(/only http\(s\) URLs/);
+        expect(domainPolicyViolation('data:text/plain,hello', POLICY)).toMatch(/only http\(s\) URLs/);
+        expect(domainPolicyViolation('not a url', POLICY)).toMatch(/not a valid URL/);
+        expect(domainPolicyViolation('https://docs.example.com/api', POLICY)).toBeNull();
+    });
+
+    it('applies the allow and block lists to subdomains', () => {
+        expect(domainPolicyViolation('https://api.blocked.test/', POLICY)).toMatch(/blocked/);
+        const allowOnly = { ...POLICY, allowedDomains: ['stripe.com'] };
+        expect(domainPolicyViolation('https://docs.stripe.com/api', allowOnly)).toBeNull();
+        expect(domainPolicyViolation('https://stripe.com.evil.example/', allowOnly)).toMatch(/not an allowed domain/);
+    });
+});
+
+describe('FetchReaderProvider', () => {
+    let server: http.Server;
+    let base: string;
+
+    beforeAll(async () => {
+        process.env.LOG_LEVEL = 'error';
+        process.env.READ_BLOCKED_DOMAINS = 'blocked.test';
+        server = http.createServer((req, res) => {
+            const redirects: Record<string, string> = {
+                '/moved': '/docs',
+                '/to-blocked': 'http://api.blocked.test/docs',
+                '/to-file': 'file:///etc/passwd',
+                '/loop': '/loop',
+            };
+            if (redirects[req.url!]) {
+                res.writeHead(302, { Location: redirects[req.url!] }).end();
+            } else {
+                res.writeHead(200, { 'Content-Type': 'text/plain' }).end('Refunds documentation');
+            }
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    const reader = new FetchReaderProvider(5000);
+
+    it('follows redirects to allowed hosts', async () => {
+        await expect(reader.read(`${base}/moved`)).resolves.toBe('Refunds documentation');
+    });
+
+    it('fails when a redirect leads to a blocked host or another scheme', async () => {
+        await expect(reader.read(`${base}/to-blocked`)).rejects.toThrow(/redirect to http:\/\/api\.blocked\.test\/docs is not allowed/);
+        await expect(reader.read(`${base}/to-file`)).rejects.toThrow(/redirect to file:\/\/\/etc\/passwd is not allowed/);
+    });
+
+    it('gives up after too many redirects', async () => {
+        await expect(reader.read(`${base}/loop`)).rejects.toThrow(/more than 5 redirects/);
+    });
+});
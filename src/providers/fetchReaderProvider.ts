@@ -0,0 +1,67 @@
+import { ReaderProvider } from './types';
+import { htmlToMarkdown, looksLikeHtml } from './htmlToMarkdown';
+import { createLogger } from '../utils/logger';
+import { domainPolicyViolation } from '../security/domains';
+
+const log = createLogger('FetchReaderProvider');
+
+// Redirects followed per read
+const MAX_REDIRECTS = 5;
+
+/**
+ * Reads webpages with a plain HTTP GET and converts HTML responses to Markdown.
+ * Needs no API key, but cannot render pages that build their content with JavaScript.
+ * Redirects are followed by hand, so every hop is held to the READ_ALLOWED_DOMAINS / READ_BLOCKED_DOMAINS policy.
+ */
+export class FetchReaderProvider implements ReaderProvider {
+    readonly name = 'fetch';
+    readonly cacheable = true;
+
+    constructor(private readonly timeoutMs: number) {}
+
+    async read(url: string): Promise<string> {
+        // One deadline for the whole chain of redirects
+        const signal = AbortSignal.timeout(this.timeoutMs);
+        let location = url;
+        let response = await this.get(url, location, signal);
+        for (let hops = 0; response.status >= 300 && response.status < 400 && response.headers.has('location'); hops++) {
+            if (hops === MAX_REDIRECTS) {
+                throw new Error(`Fetch failed for ${url}: more than ${MAX_REDIRECTS} redirects`);
+            }
+            location = new URL(response.headers.get('location')!, location).href;
+            const violation = domainPolicyViolation(location);
+            if (violation) {
+                throw new Error(`Fetch failed for ${url}: redirect to ${location} is not allowed: ${violation}`);
+            }
+            log.debug('Following redirect', { url, location, status: response.status });
+            response = await this.get(url, location, signal);
+        }
+
+        if (!response.ok) {
+            throw new Error(`Fetch failed for ${url}: HTTP ${response.status} ${response.statusText}`);
+        }
+
+        const body = await response.text();
+        if (looksLikeHtml(body, response.headers.get('content-type'))) {
+            return htmlToMarkdown(body);
+        }
+        // Markdown, plain text, JSON/YAML specs etc. are already readable as-is
+        return body;
+    }
+
+    private async get(url: string, location: string, signal: AbortSignal): Promise<Response> {
+        try {
+            return await fetch(location, {
+                headers: {
+                    'User-Agent': 'text-to-openapi (+https://github.com/blooming-generation/text-to-openapi)',
+                    Accept: 'text/html,application/xhtml+xml,text/markdown,text/plain;q=0.9,*/*;q=0.8',
+                },
+                redirect: 'manual',
+                signal,
+            });
+        } catch (error) {
+            log.error('Request failed', { url, location, error });
+            throw new Error(`Fetch failed for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
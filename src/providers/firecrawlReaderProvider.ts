@@ -0,0 +1,57 @@
+// Import the FirecrawlApp client
+import FirecrawlApp from '@mendable/firecrawl-js';
+
+import { ReaderProvider } from './types';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('FirecrawlReaderProvider');
+
+/**
+ * Reads webpages through the Firecrawl scraping API.
+ */
+export class FirecrawlReaderProvider implements ReaderProvider {
+  readonly name = 'firecrawl';
+  readonly cacheable = true;
+  private readonly app: FirecrawlApp;
+
+  /**
+   * @throws Throws an error if the Firecrawl API key is missing.
+   */
+  constructor(apiKey: string | undefined) {
+    if (!apiKey) {
+      // Throw error clearly if API key is missing
+      throw new Error("Configuration error: FIRECRAWL_API_KEY environment variable is not set.");
+    }
+    this.app = new FirecrawlApp({ apiKey });
+  }
+
+  async read(url: string): Promise<string> {
+    try {
+      // Assume scrapeUrl returns the 'data' object directly on success,
+      // or throws an error on failure (common SDK pattern).
+      // We'll use 'any' again due to uncertainty about the exact success/error shape.
+      const scrapeData: any = await this.app.scrapeUrl(url);
+
+      // Check if the returned object has the 'markdown' property.
+      if (scrapeData && typeof scrapeData.markdown === 'string') {
+          return scrapeData.markdown;
+      }
+      // Optional: Check for HTML as a fallback if markdown wasn't requested or available
+      else if (scrapeData && typeof scrapeData.html === 'string') {
+          log.warn('Markdown content not found, returning HTML instead', { url });
+          return scrapeData.html; // Return HTML if markdown is missing
+      }
+      else {
+          // If we get here, the scrape succeeded but didn't return markdown or html in the expected format.
+          log.error('Firecrawl scrape succeeded but returned an unexpected data structure', { url, keys: Object.keys(scrapeData ?? {}) });
+          throw new Error(`Firecrawl scrape for ${url} returned unexpected data structure.`);
+      }
+
+    } catch (error) {
+      // Catch errors thrown by FirecrawlApp (e.g., network errors, API errors, scraping failures)
+      log.error('Firecrawl scrape failed', { url, error });
+      // Re-throw the error with context
+      throw new Error(`Firecrawl processing failed for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
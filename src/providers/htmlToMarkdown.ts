@@ -0,0 +1,33 @@
+import TurndownService from 'turndown';
+
+const TURNDOWN_OPTIONS: TurndownService.Options = {
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '*',
+};
+
+const turndown = new TurndownService(TURNDOWN_OPTIONS);
+// Drop elements that never carry documentation content
+turndown.remove(['script', 'style', 'noscript', 'iframe', 'template']);
+
+// Also drops site navigation, headers and footers. Not used by the readers: discovery looks for spec links there.
+const mainContentTurndown = new TurndownService(TURNDOWN_OPTIONS);
+mainContentTurndown.remove(['script', 'style', 'noscript', 'iframe', 'template', 'nav', 'header', 'footer', 'aside', 'form', 'button']);
+
+/**
+ * Converts an HTML document or fragment to Markdown.
+ * @param html - The HTML to convert.
+ * @param options - With `mainContentOnly`, navigation, headers, footers, sidebars and forms are left out.
+ * @returns The Markdown text.
+ */
+export function htmlToMarkdown(html: string, options: { mainContentOnly?: boolean } = {}): string {
+    return (options.mainContentOnly ? mainContentTurndown : turndown).turndown(html).trim();
+}
+
+/**
+ * Returns true if the content type (or, without one, the content itself) looks like HTML.
+ */
+export function looksLikeHtml(content: string, contentType?: string | null): boolean {
+    if (contentType) return /html/i.test(contentType);
+    return /^\s*(<!doctype html|<html[\s>])/i.test(content);
+}
@@ -0,0 +1,58 @@
+import { loadProviderConfig } from '../config';
+import { SearchProvider, ReaderProvider } from './types';
+import { SerpApiSearchProvider } from './serpApiSearchProvider';
+import { FirecrawlReaderProvider } from './firecrawlReaderProvider';
+import { FetchReaderProvider } from './fetchReaderProvider';
+import { LocalDocsCorpus } from './localDocsCorpus';
+
+export { SearchProvider, ReaderProvider } from './types';
+
+// Providers are created on first use (after dotenv has run) and reused afterwards.
+// A provider whose constructor throws (e.g. missing API key) is not cached, so fixing
+// the configuration takes effect on the next call.
+let searchProvider: SearchProvider | null = null;
+let readerProvider: ReaderProvider | null = null;
+let localDocsCorpus: LocalDocsCorpus | null | undefined;
+
+/**
+ * Returns the configured documentation search provider (SEARCH_PROVIDER).
+ */
+export function getSearchProvider(): SearchProvider {
+    if (!searchProvider) {
+        const config = loadProviderConfig();
+        searchProvider = config.search === 'local'
+            ? requireLocalDocsCorpus()
+            : new SerpApiSearchProvider(config.serpApiKey);
+    }
+    return searchProvider;
+}
+
+/**
+ * Returns the configured webpage reader provider (READER_PROVIDER).
+ */
+export function getReaderProvider(): ReaderProvider {
+    if (!readerProvider) {
+        const config = loadProviderConfig();
+        readerProvider = config.reader === 'fetch'
+            ? new FetchReaderProvider(config.fetchTimeoutMs)
+            : new FirecrawlReaderProvider(config.firecrawlApiKey);
+    }
+    return readerProvider;
+}
+
+/**
+ * Returns the local docs corpus if LOCAL_DOCS_DIR is set, otherwise null.
+ * The corpus serves `file://` URLs regardless of which search provider is selected.
+ */
+export function getLocalDocsCorpus(): LocalDocsCorpus | null {
+    if (localDocsCorpus === undefined) {
+        const { localDocsDir } = loadProviderConfig();
+        localDocsCorpus = localDocsDir ? new LocalDocsCorpus(localDocsDir) : null;
+    }
+    return localDocsCorpus;
+}
+
+function requireLocalDocsCorpus(): LocalDocsCorpus {
+    // Let the LocalDocsCorpus constructor report the missing directory
+    return getLocalDocsCorpus() ?? new LocalDocsCorpus(undefined);
+}
@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+import { ReaderProvider, SearchProvider } from './types';
+import { htmlToMarkdown } from './htmlToMarkdown';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('LocalDocsCorpus');
+
+const DOC_EXTENSIONS = new Set(['.md', '.markdown', '.mdx', '.html', '.htm', '.txt']);
+const HTML_EXTENSIONS = new Set(['.html', '.htm']);
+
+// BM25 tuning: standard defaults
+const K1 = 1.2;
+const B = 0.75;
+const MAX_RESULTS = 5;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+    'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with', 'api', 'documentation', 'docs',
+]);
+
+interface CorpusDocument {
+    url: string;
+    length: number;
+    termFrequencies: Map<string, number>;
+}
+
+interface CorpusIndex {
+    documents: CorpusDocument[];
+    documentFrequencies: Map<string, number>;
+    averageLength: number;
+}
+
+/**
+ * Splits text into lowercase search terms. Paths like `/v1/refunds/{id}` yield `v1`, `refunds`, `id`.
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * A directory of Markdown/HTML documentation files, searchable with a BM25 keyword index.
+ * Documents are addressed by `file://` URLs, and only files inside the corpus directory can be read.
+ * The index is built on first search and kept for the life of the process.
+ */
+export class LocalDocsCorpus implements SearchProvider, ReaderProvider {
+    readonly name = 'local';
+    readonly cacheable = false;
+    private readonly root: string;
+    private index: Promise<CorpusIndex> | null = null;
+
+    /**
+     * @throws Throws an error if no corpus directory is configured.
+     */
+    constructor(directory: string | undefined) {
+        if (!directory) {
+            throw new Error("Configuration error: LOCAL_DOCS_DIR environment variable is not set.");
+        }
+        this.root = path.resolve(directory);
+    }
+
+    async search(query: string): Promise<string[]> {
+        const { documents, documentFrequencies, averageLength } = await this.getIndex();
+        const queryTerms = Array.from(new Set(tokenize(query)));
+
+        const scored = documents.map((doc) => {
+            let score = 0;
+            for (const term of queryTerms) {
+                const tf = doc.termFrequencies.get(term);
+                if (!tf) continue;
+                const df = documentFrequencies.get(term) ?? 0;
+                const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+                score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+            }
+            return { url: doc.url, score };
+        });
+
+        return scored
+            .filter((result) => result.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_RESULTS)
+            .map((result) => result.url);
+    }
+
+    /**
+     * Returns true if the URL points into this corpus.
+     */
+    contains(url: string): boolean {
+        if (!url.startsWith('file:')) return false;
+        let relative: string;
+        try {
+            relative = path.relative(this.root, fileURLToPath(url));
+        } catch {
+            // Not a local file path, e.g. file://host/...
+            return false;
+        }
+        return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+    }
+
+    async read(url: string): Promise<string> {
+        if (!this.contains(url)) {
+            throw new Error(`${url} is not inside the local docs corpus (${this.root}).`);
+        }
+        return this.readFile(fileURLToPath(url));
+    }
+
+    private async readFile(filePath: string): Promise<string> {
+        const content = await fs.readFile(filePath, 'utf8');
+        return HTML_EXTENSIONS.has(path.extname(filePath).toLowerCase()) ? htmlToMarkdown(content) : content;
+    }
+
+    private getIndex(): Promise<CorpusIndex> {
+        if (!this.index) {
+            this.index = this.buildIndex().catch((error) => {
+                // Don't cache a failed build, so a fixed directory is picked up on the next search
+                this.index = null;
+                throw new Error(`Failed to index local docs corpus at ${this.root}: ${error instanceof Error ? error.message : String(error)}`);
+            });
+        }
+        return this.index;
+    }
+
+    private async buildIndex(): Promise<CorpusIndex> {
+        const files = await listDocFiles(this.root);
+        const documents: CorpusDocument[] = [];
+        const documentFrequencies = new Map<string, number>();
+
+        for (const filePath of files) {
+            // Index the path too: file names are often the best hint ("create-refund.md")
+            const terms = tokenize(`${path.relative(this.root, filePath)}\n${await this.readFile(filePath)}`);
+            const termFrequencies = new Map<string, number>();
+            for (const term of terms) termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+            for (const term of termFrequencies.keys()) documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+            documents.push({ url: pathToFileURL(filePath).href, length: terms.length, termFrequencies });
+        }
+
+        const totalLength = documents.reduce((sum, doc) => sum + doc.length, 0);
+        log.info('Indexed the docs corpus', { documents: documents.length, root: this.root });
+        return { documents, documentFrequencies, averageLength: totalLength / Math.max(documents.length, 1) || 1 };
+    }
+}
+
+async function listDocFiles(directory: string): Promise<string[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await listDocFiles(fullPath));
+        } else if (entry.isFile() && DOC_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+            files.push(fullPath);
+        }
+    }
+    return files.sort();
+}
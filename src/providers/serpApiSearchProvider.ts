@@ -0,0 +1,44 @@
+// Import the SerpAPI client library
+import { getJson } from "serpapi";
+
+import { SearchProvider } from './types';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('SerpApiSearchProvider');
+
+/**
+ * Searches Google for API documentation using SerpAPI.
+ */
+export class SerpApiSearchProvider implements SearchProvider {
+  readonly name = 'serpapi';
+  readonly cacheable = true;
+
+  /**
+   * @throws Throws an error if the SerpAPI key is missing.
+   */
+  constructor(private readonly apiKey: string | undefined) {
+    if (!apiKey) {
+      throw new Error("SERPAPI_API_KEY environment variable is not set.");
+    }
+  }
+
+  async search(query: string): Promise<string[]> {
+    try {
+      // Perform the search using SerpAPI
+      // We add "API documentation" to focus the search
+      const response = await getJson({
+        api_key: this.apiKey,
+        engine: "google",
+        q: `${query} API documentation`,
+        num: 5, // Limit to top 5 results for relevance
+      });
+
+      // Extract organic result URLs
+      return response.organic_results?.map((result: any) => result.link) || [];
+
+    } catch (error) {
+      log.error('Search failed', { error });
+      throw new Error(`SerpAPI search failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * A backend that finds documentation pages for a query.
+ */
+export interface SearchProvider {
+    readonly name: string;
+    /** Whether results may be stored in the shared cache (false for cheap, local backends). */
+    readonly cacheable: boolean;
+    /**
+     * @param query - The natural language query describing the desired API functionality.
+     * @returns A promise that resolves to an array of documentation URLs, best match first.
+     */
+    search(query: string): Promise<string[]>;
+}
+
+/**
+ * A backend that reads a documentation page and returns its main content.
+ */
+export interface ReaderProvider {
+    readonly name: string;
+    /** Whether results may be stored in the shared cache (false for cheap, local backends). */
+    readonly cacheable: boolean;
+    /**
+     * @param url - The URL of the page to read.
+     * @returns A promise that resolves to the page content, as Markdown where possible.
+     */
+    read(url: string): Promise<string>;
+}
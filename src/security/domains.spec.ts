@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import { privateAddressViolation } from './domains';
+
+describe('privateAddressViolation', () => {
+    it.each([
+        'http://127.0.0.1:8080/hook',
+        'http://localhost/hook',
+        'http://10.1.2.3/hook',
+        'http://172.20.0.1/hook',
+        'http://192.168.1.1/hook',
+        'http://169.254.169.254/latest/meta-data/',
+        'http://0.0.0.0/hook',
+        'http://[::1]/hook',
+        'http://[fe80::1]/hook',
+        'http://[fd00::1]/hook',
+        'http://[::ffff:127.0.0.1]/hook',
+    ])('rejects %s', async (url) => {
+        await expect(privateAddressViolation(url)).resolves.toMatch(/resolves to a private address/);
+    });
+
+    it('accepts public addresses', async () => {
+        await expect(privateAddressViolation('https://93.184.215.14/hook')).resolves.toBeNull();
+        await expect(privateAddressViolation('https://[2606:4700::6810:84e5]/hook')).resolves.toBeNull();
+    });
+
+    it('rejects hosts that do not resolve', async () => {
+        await expect(privateAddressViolation('https://hooks.invalid/drift')).resolves.toMatch(/could not be resolved/);
+    });
+});
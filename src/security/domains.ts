@@ -0,0 +1,75 @@
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList } from 'net';
+
+import { loadSecurityConfig, SecurityConfig } from '../config';
+import { getLocalDocsCorpus } from '../providers';
+
+/**
+ * Returns true if the host is the domain or one of its subdomains.
+ */
+export function hostMatches(host: string, domain: string): boolean {
+    const normalized = host.toLowerCase().replace(/\.$/, '');
+    return normalized === domain || normalized.endsWith(`.${domain}`);
+}
+
+/**
+ * Checks a URL against the READ_ALLOWED_DOMAINS / READ_BLOCKED_DOMAINS policy. Only http(s) URLs can pass:
+ * every other scheme (`file:`, `ftp:`, `data:`, ...) is rejected.
+ *
+ * @param url - The URL about to be requested.
+ * @param config - The policy (read from the environment by default).
+ * @returns Why the URL may not be requested, or null if it may.
+ */
+export function domainPolicyViolation(url: string, config: SecurityConfig = loadSecurityConfig()): string | null {
+    if (!URL.canParse(url)) return `'${url}' is not a valid URL`;
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') return `only http(s) URLs are allowed (got ${protocol})`;
+    if (config.blockedDomains.some((domain) => hostMatches(hostname, domain))) {
+        return `${hostname} is blocked (READ_BLOCKED_DOMAINS)`;
+    }
+    if (config.allowedDomains.length > 0 && !config.allowedDomains.some((domain) => hostMatches(hostname, domain))) {
+        return `${hostname} is not an allowed domain (READ_ALLOWED_DOMAINS)`;
+    }
+    return null;
+}
+
+/**
+ * Checks a page the pipeline is about to read: documents inside the local docs corpus (LOCAL_DOCS_DIR), which
+ * the operator controls, are always readable; anything else must pass domainPolicyViolation.
+ *
+ * @param url - The page's URL.
+ * @returns Why the page may not be read, or null if it may.
+ */
+export function readPolicyViolation(url: string): string | null {
+    return getLocalDocsCorpus()?.contains(url) ? null : domainPolicyViolation(url);
+}
+
+// Addresses inside the host or its network: loopback, RFC 1918 / unique-local, link-local (cloud metadata
+// endpoints live there), CGNAT and "this host". IPv4-mapped IPv6 addresses match the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Checks that a URL the server will send data to resolves only to public addresses, so a caller can't aim
+ * it at the server's own network. Every address the host resolves to is checked.
+ *
+ * @param url - An http(s) URL.
+ * @returns Why the URL may not be requested, or null if it may.
+ */
+export async function privateAddressViolation(url: string): Promise<string | null> {
+    const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: LookupAddress[];
+    try {
+        addresses = await lookup(hostname, { all: true });
+    } catch (error) {
+        return `${hostname} could not be resolved (${error instanceof Error ? error.message : String(error)})`;
+    }
+    const blocked = addresses.find(({ address, family }) => PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+    return blocked ? `${hostname} resolves to a private address (${blocked.address})` : null;
+}
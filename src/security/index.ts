@@ -0,0 +1,27 @@
+import { stripBoilerplate } from '../content';
+import { InjectionFinding, sanitizeUntrustedText } from './injection';
+
+export { InjectionFinding, InjectionRuleId, detectInjections, REMOVED_TEXT_MARKER, sanitizeUntrustedText } from './injection';
+export { domainPolicyViolation, privateAddressViolation, readPolicyViolation } from './domains';
+export { findUnsourcedUrls, findUrls, UnsourcedUrl } from './unsourcedUrls';
+export { markUntrusted, quoteUserInput, UNTRUSTED_CONTENT_NOTICE, USER_INPUT_NOTICE } from './untrusted';
+
+/**
+ * Instruction-like text removed from a page read during a run.
+ */
+export interface FilteredContent {
+    url: string;
+    operation: string | null;
+    findings: InjectionFinding[];
+}
+
+/**
+ * Cleans a scraped page for a model: site chrome is stripped (HTML converted to Markdown first, so text
+ * hidden in markup is seen as text), then instruction-like text is removed.
+ *
+ * @param content - The page as returned by the reader.
+ * @returns The cleaned Markdown and what was removed.
+ */
+export function sanitizePage(content: string): { text: string; findings: InjectionFinding[] } {
+    return sanitizeUntrustedText(stripBoilerplate(content));
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { INJECTION_CORPUS } from './corpus';
+import { findUnsourcedUrls, markUntrusted, sanitizePage } from '.';
+
+const CLOSING_TAG = '</untrusted_content>';
+
+describe('injection corpus', () => {
+    it.each(INJECTION_CORPUS.map((page) => [page.name, page] as const))('%s', (_name, page) => {
+        const { text, findings } = sanitizePage(page.content);
+        const triggered = findings.map(({ rule }) => rule);
+
+        if (page.rules.length === 0) {
+            // Benign pages use the same vocabulary and must come through untouched
+            expect(findings).toEqual([]);
+        } else {
+            expect(triggered).toEqual(expect.arrayContaining(page.rules));
+        }
+        for (const snippet of page.removed) expect(text).not.toContain(snippet);
+        for (const snippet of page.kept) expect(text).toContain(snippet);
+
+        // The page can't end its own <untrusted_content> block
+        const marked = markUntrusted(text, page.url);
+        expect(marked.split(CLOSING_TAG)).toHaveLength(2);
+        expect(marked.endsWith(CLOSING_TAG)).toBe(true);
+    });
+});
+
+describe('findUnsourcedUrls', () => {
+    const SOURCES = ['https://docs.example.com/refunds'];
+
+    it('flags a server no source backs up', () => {
+        const spec = {
+            servers: [{ url: 'https://api.example.com/v1' }, { url: 'https://collector.evil.example' }],
+            paths: { '/v1/refunds': { post: { 'x-source': SOURCES } } },
+        };
+        expect(findUnsourcedUrls(spec, SOURCES).map(({ url }) => url)).toEqual(['https://collector.evil.example']);
+    });
+
+    // The same document converted to Swagger 2.0, where the server is a bare `host`
+    it('flags an unsourced Swagger 2.0 host', () => {
+        const spec = {
+            swagger: '2.0',
+            host: 'collector.evil.example',
+            basePath: '/v1',
+            schemes: ['https'],
+            paths: { '/v1/refunds': { post: { 'x-source': SOURCES } } },
+        };
+        expect(findUnsourcedUrls(spec, SOURCES)).toEqual([
+            expect.objectContaining({ url: 'https://collector.evil.example/v1', pointer: '/host' }),
+        ]);
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * A piece of scraped text that reads like instructions to a model rather than documentation.
+ * `rule` is the id of the pattern it matched and `excerpt` the text that was removed (shortened).
+ */
+export interface InjectionFinding {
+    rule: InjectionRuleId;
+    excerpt: string;
+}
+
+export type InjectionRuleId =
+    | 'override_instructions'
+    | 'new_instructions'
+    | 'role_marker'
+    | 'addressed_to_model'
+    | 'role_play'
+    | 'output_manipulation'
+    | 'concealment'
+    | 'exfiltration';
+
+// What replaces removed text, so the model sees that something was there
+export const REMOVED_TEXT_MARKER = '[removed: instruction-like text]';
+
+const MAX_EXCERPT_LENGTH = 160;
+
+// Up to `n` characters within one sentence (dots inside URLs and file names don't end it)
+const within = (n: number) => `(?:[^.!?\\n]|[.!?](?=\\S)){0,${n}}`;
+
+/**
+ * Instruction-like patterns. They are deliberately specific (aimed at the model, its instructions or its output),
+ * because documentation is full of imperative sentences addressed to developers.
+ */
+const INJECTION_RULES: { id: InjectionRuleId; pattern: RegExp }[] = [
+    {
+        id: 'override_instructions',
+        pattern: new RegExp(`\\b(ignore|disregard|forget|override|bypass)\\b${within(40)}\\b(previous|prior|above|earlier|preceding|all|any|your|system)\\b` +
+            `${within(20)}\\b(instructions?|prompts?|rules|directions|guidelines)\\b`, 'i'),
+    },
+    { id: 'new_instructions', pattern: /\b(new|updated|revised|real|actual)\s+(system\s+)?(instructions?|prompt)\s*:/i },
+    {
+        id: 'role_marker',
+        pattern: /<\|?(im_start|im_end|system|endoftext)\|?>|\[\/?INST\]|<<\/?SYS>>|^\s*#{0,6}\s*\**(system|assistant|developer)( prompt| message)?\**\s*:/im,
+    },
+    {
+        id: 'addressed_to_model',
+        pattern: /\b(if you are|you are an?|note to|attention|message (for|to)|instructions? (for|to))\s+(an?\s+|the\s+|all\s+|any\s+)?(ai|llm|language model|large language model|ai assistant|chatbot|gpt|claude|ai agent)s?\b/i,
+    },
+    {
+        id: 'role_play',
+        pattern: /\byou are now (an?|my|the) (\w+ )?(assistant|ai|model|bot|persona|character)\b|\b(pretend|imagine) (to be|you are|that you are)\b|\bact as (an? |the )?(unrestricted|jailbroken|dan|different|new) /i,
+    },
+    {
+        id: 'output_manipulation',
+        pattern: new RegExp(`\\b(add|include|insert|set|change|use|replace|list)\\b${within(60)}\\b(servers?|base url|host|endpoint|url|webhook|parameter|header)\\b` +
+            `${within(60)}\\b(in|to|into|of)\\s+(the|your)\\s+(generated\\s+)?(spec|specification|openapi( document| spec)?|oas|output|response|answer|json)\\b`, 'i'),
+    },
+    { id: 'concealment', pattern: new RegExp(`\\b(do not|don't|never)\\s+(tell|inform|mention|reveal|disclose|let)\\b${within(30)}\\b(the\\s+)?(user|human|operator)\\b`, 'i') },
+    {
+        id: 'exfiltration',
+        pattern: new RegExp(`\\b(reveal|print|repeat|output|show|leak)\\b${within(20)}\\b(your|the)\\s+(system prompt|instructions|initial prompt)\\b|` +
+            `\\b(send|post|forward|leak|exfiltrate|upload|transmit)\\b${within(50)}\\b(system prompt|conversation history|previous messages|` +
+            `the user'?s (api[ _-]?keys?|secrets?|tokens?|credentials?|passwords?))\\b`, 'i'),
+    },
+];
+
+// Characters that hide or reorder text without being visible: zero-width characters and bidi controls
+const INVISIBLE_CHARACTERS = /[\u200B-\u200D\u2060\uFEFF\u202A-\u202E\u2066-\u2069]/g;
+const HTML_COMMENT = /<!--[\s\S]*?-->/g;
+// A chat-format message smuggled into the page, up to its end marker
+const ROLE_BLOCK = /<\|im_start\|>[\s\S]*?(<\|im_end\|>|$)|\[INST\][\s\S]*?(\[\/INST\]|$)/g;
+
+function excerpt(text: string): string {
+    const trimmed = text.trim().replace(/\s+/g, ' ');
+    return trimmed.length > MAX_EXCERPT_LENGTH ? `${trimmed.slice(0, MAX_EXCERPT_LENGTH)}...` : trimmed;
+}
+
+function matchRules(text: string): InjectionRuleId[] {
+    return INJECTION_RULES.filter(({ pattern }) => pattern.test(text)).map(({ id }) => id);
+}
+
+/**
+ * Splits a line into sentences, keeping their trailing punctuation and whitespace.
+ */
+function sentences(line: string): string[] {
+    return line.match(/(?:[^.!?]|[.!?](?=\S))+(?:[.!?]+(?:\s+|$)|$)/g) ?? [line];
+}
+
+/**
+ * Strips instruction-like text from scraped content before a model sees it. Invisible characters and
+ * HTML comments are always removed (they hide text from human readers), and so are chat-format messages;
+ * sentences matching an injection pattern are replaced with a marker. Whole lines are checked too, for
+ * patterns that span sentences.
+ *
+ * @param text - The scraped content.
+ * @returns The cleaned content and what was removed.
+ */
+export function sanitizeUntrustedText(text: string): { text: string; findings: InjectionFinding[] } {
+    const findings: InjectionFinding[] = [];
+    const visible = text.replace(INVISIBLE_CHARACTERS, '').replace(HTML_COMMENT, (comment) => {
+        for (const rule of matchRules(comment)) findings.push({ rule, excerpt: excerpt(comment.slice(4, -3)) });
+        return '';
+    }).replace(ROLE_BLOCK, (block) => {
+        findings.push({ rule: 'role_marker', excerpt: excerpt(block) });
+        return REMOVED_TEXT_MARKER;
+    });
+
+    const lines = visible.split('\n').map((line) => {
+        const lineRules = matchRules(line);
+        if (lineRules.length === 0) return line;
+        let removed = false;
+        const kept = sentences(line).map((sentence) => {
+            const rules = matchRules(sentence);
+            if (rules.length === 0) return sentence;
+            for (const rule of rules) findings.push({ rule, excerpt: excerpt(sentence) });
+            removed = true;
+            return `${REMOVED_TEXT_MARKER} `;
+        }).join('').trimEnd();
+        if (removed) return kept;
+        // The pattern only matches across sentences
+        for (const rule of lineRules) findings.push({ rule, excerpt: excerpt(line) });
+        return REMOVED_TEXT_MARKER;
+    });
+    return { text: lines.join('\n'), findings };
+}
+
+/**
+ * Lists the instruction-like text in content without changing it.
+ */
+export function detectInjections(text: string): InjectionFinding[] {
+    return sanitizeUntrustedText(text).findings;
+}
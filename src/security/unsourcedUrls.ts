@@ -0,0 +1,79 @@
+import { toJsonPointer } from '../utils/jsonPointer';
+
+/**
+ * A URL in a generated spec whose site doesn't appear in anything the spec was built from.
+ * `pointer` is the JSON pointer of the string that contains it.
+ */
+export interface UnsourcedUrl {
+    pointer: string;
+    url: string;
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s"'<>()[\]{}`]+/gi;
+// Second-level labels under which registrations happen (example.co.uk, example.com.au)
+const SECOND_LEVEL_LABELS = new Set(['ac', 'co', 'com', 'edu', 'gov', 'net', 'org']);
+// Provenance links added by the pipeline itself
+const IGNORED_KEYS = new Set(['x-source']);
+
+/**
+ * Reduces a host to its site, roughly its registrable domain: `api.stripe.com` and `docs.stripe.com` are both `stripe.com`.
+ */
+function siteOf(host: string): string {
+    const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+    if (labels.length <= 2 || /^[\d.]+$/.test(host)) return labels.join('.');
+    const secondLevel = labels[labels.length - 2];
+    const keep = labels[labels.length - 1].length === 2 && SECOND_LEVEL_LABELS.has(secondLevel) ? 3 : 2;
+    return labels.slice(-keep).join('.');
+}
+
+function hostOf(url: string): string | null {
+    try {
+        return new URL(url).hostname || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Lists the http(s) URLs in every string of a value, with the JSON pointer of the string.
+ */
+export function findUrls(value: unknown, pointer = ''): UnsourcedUrl[] {
+    if (typeof value === 'string') {
+        return Array.from(value.matchAll(URL_PATTERN), (match) => ({ pointer, url: match[0].replace(/[.,;:!?]+$/, '') }));
+    }
+    if (Array.isArray(value)) return value.flatMap((item, i) => findUrls(item, `${pointer}${toJsonPointer(i)}`));
+    if (value && typeof value === 'object') {
+        return Object.entries(value)
+            .filter(([key]) => !IGNORED_KEYS.has(key))
+            .flatMap(([key, item]) => findUrls(item, `${pointer}${toJsonPointer(key)}`));
+    }
+    return [];
+}
+
+/**
+ * A Swagger 2.0 document's server as a URL: `host` has no scheme, so it isn't found among the strings.
+ */
+function swaggerServerUrl(spec: Record<string, any>): UnsourcedUrl | null {
+    if (typeof spec.swagger !== 'string' || typeof spec.host !== 'string' || !spec.host) return null;
+    const scheme = Array.isArray(spec.schemes) && typeof spec.schemes[0] === 'string' ? spec.schemes[0] : 'https';
+    return { pointer: toJsonPointer('host'), url: `${scheme}://${spec.host}${typeof spec.basePath === 'string' ? spec.basePath : ''}` };
+}
+
+/**
+ * Flags the URLs in a spec (servers, or `host` in Swagger 2.0, externalDocs, OAuth endpoints, links in
+ * descriptions and examples) on sites that none of its sources are on. A hostile page could have the agent add its own server;
+ * this catches it even when the page's wording got past the injection filter.
+ *
+ * @param spec - The generated document.
+ * @param sourceUrls - What the spec was built from: pages read, published specs, observed servers,
+ *   and the URLs in an extended document.
+ * @returns The URLs on unknown sites.
+ */
+export function findUnsourcedUrls(spec: Record<string, any>, sourceUrls: string[]): UnsourcedUrl[] {
+    const knownSites = new Set(sourceUrls.map(hostOf).filter((host): host is string => host !== null).map(siteOf));
+    const swaggerServer = swaggerServerUrl(spec);
+    return [...(swaggerServer ? [swaggerServer] : []), ...findUrls(spec)].filter(({ url }) => {
+        const host = hostOf(url);
+        return host !== null && !knownSites.has(siteOf(host));
+    });
+}
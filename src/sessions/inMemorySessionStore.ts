@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto';
+
+import { GenerationOptions } from '../pipeline/runGeneration';
+import { Session, SessionStore } from './sessionStore';
+
+/**
+ * Process-local SessionStore. Sessions are lost on restart.
+ * Once more than `maxSessions` sessions exist, the oldest ones without a turn in progress are evicted,
+ * including sessions still waiting for answers.
+ */
+export class InMemorySessionStore implements SessionStore {
+    private readonly sessions = new Map<string, Session>();
+
+    constructor(private readonly maxSessions = 100) {}
+
+    async create(query: string, options: GenerationOptions): Promise<Session> {
+        const now = new Date().toISOString();
+        const session: Session = {
+            id: randomUUID(),
+            query,
+            options,
+            status: 'running',
+            createdAt: now,
+            updatedAt: now,
+            conversation: { operations: [], exchanges: [], rounds: 0 },
+            questions: [],
+            refusal: null,
+            result: null,
+            error: null,
+            runIds: [],
+        };
+        this.sessions.set(session.id, session);
+        this.evict();
+        return session;
+    }
+
+    async get(id: string): Promise<Session | null> {
+        return this.sessions.get(id) ?? null;
+    }
+
+    async update(id: string, changes: Partial<Pick<Session, 'status' | 'conversation' | 'questions' | 'refusal' | 'result' | 'error' | 'runIds'>>): Promise<Session> {
+        const session = this.sessions.get(id);
+        if (!session) throw new Error(`Session ${id} not found.`);
+        Object.assign(session, changes, { updatedAt: new Date().toISOString() });
+        return session;
+    }
+
+    private evict(): void {
+        // Map iteration follows insertion order, so this walks oldest first
+        for (const [id, session] of this.sessions) {
+            if (this.sessions.size <= this.maxSessions) break;
+            if (session.status !== 'running') this.sessions.delete(id);
+        }
+    }
+}
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { InMemorySessionStore } from './inMemorySessionStore';
+import { SessionRunner } from './sessionRunner';
+
+// A single decomposition response: a second turn for the same answers would find the script used up
+const SCRIPT = {
+    responses: [
+        {
+            stage: 'decomposition',
+            match: 'Q: Which payment provider?\nA:\n<user_query>\nStripe\n</user_query>',
+            object: { operations: ['Create a Stripe refund'], questions: [{ question: 'Which API version?', options: ['2024-06-20', '2023-10-16'] }] },
+        },
+    ],
+};
+
+let directory: string;
+
+beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'text-to-openapi-sessions-'));
+    fs.writeFileSync(path.join(directory, 'script.json'), JSON.stringify(SCRIPT));
+    Object.assign(process.env, {
+        MODEL_DEFAULT: 'mock',
+        MOCK_MODEL_SCRIPT: path.join(directory, 'script.json'),
+        CACHE_BACKEND: 'none',
+        TRACE_STORE: 'none',
+        LOG_LEVEL: 'error',
+    });
+});
+
+afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('SessionRunner.answer', () => {
+    it('resumes a session once when answers arrive concurrently', async () => {
+        const store = new InMemorySessionStore();
+        const runner = new SessionRunner(store);
+        const created = await store.create('Create a refund', {});
+        const waiting = await store.update(created.id, {
+            status: 'needs_clarification',
+            questions: [{ id: 'Q1', question: 'Which payment provider?', options: ['Stripe', 'Adyen'] }],
+            conversation: { operations: [], exchanges: [], rounds: 1 },
+        });
+        // Both requests read the session while it was waiting for answers
+        const snapshot = structuredClone(waiting);
+
+        const [first, second] = await Promise.all([
+            runner.answer(snapshot, { Q1: 'Stripe' }),
+            runner.answer(snapshot, { Q1: 'Adyen' }),
+        ]);
+
+        expect(second).toBeNull();
+        expect(first).toMatchObject({
+            status: 'needs_clarification',
+            questions: [{ id: 'Q2', question: 'Which API version?' }],
+            conversation: {
+                operations: ['Create a Stripe refund'],
+                exchanges: [{ id: 'Q1', question: 'Which payment provider?', answer: 'Stripe' }],
+                rounds: 2,
+            },
+        });
+        expect(first!.runIds).toHaveLength(1);
+    });
+});
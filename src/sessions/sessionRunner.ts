@@ -0,0 +1,105 @@
+import { ClarifyingQuestion } from '../pipeline/clarification';
+import { runConversationTurn } from '../pipeline/runConversation';
+import { GenerationOptions } from '../pipeline/runGeneration';
+import { Session, SessionStore } from './sessionStore';
+import { RunTracer } from '../tracing';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Session');
+
+/**
+ * Checks answers to a session's open questions: an object from question id to answer text.
+ * Questions may be left out; decomposition then uses its best judgement.
+ * @returns An error message, or null if the answers are usable.
+ */
+export function validateAnswers(answers: unknown, questions: ClarifyingQuestion[]): string | null {
+    if (answers === null || typeof answers !== 'object' || Array.isArray(answers)) {
+        return 'expected an object from question id to answer, e.g. { "Q1": "Stripe" }';
+    }
+    const ids = new Set(questions.map((question) => question.id));
+    for (const [id, answer] of Object.entries(answers)) {
+        if (!ids.has(id)) return `'${id}' is not an open question (open questions: ${Array.from(ids).join(', ')})`;
+        if (typeof answer !== 'string') return `the answer to '${id}' must be a string`;
+    }
+    return null;
+}
+
+/**
+ * Runs the turns of generation sessions and records them in a SessionStore. Turns run while the caller
+ * waits: a session starts with its first turn, and each set of answers runs the next one.
+ */
+export class SessionRunner {
+    // Sessions resuming in this process; claimed before the first await, so concurrent answers can't both resume one
+    private readonly answering = new Set<string>();
+
+    constructor(private readonly store: SessionStore) {}
+
+    /**
+     * Creates a session for the query and runs its first turn.
+     * @returns The session after the turn: waiting for answers, refused or finished.
+     */
+    async start(query: string, options: GenerationOptions = {}): Promise<Session> {
+        const session = await this.store.create(query, options);
+        log.info('Started session', { session: session.id });
+        return this.runTurn(session);
+    }
+
+    /**
+     * Records the answers to the session's open questions (the ones left out as unanswered) and runs the next turn.
+     * The session must be waiting for answers, and the answers checked with validateAnswers.
+     * @returns The session after the turn, or null if other answers are already resuming it.
+     */
+    async answer(session: Session, answers: Record<string, string>): Promise<Session | null> {
+        if (this.answering.has(session.id)) return null;
+        this.answering.add(session.id);
+        try {
+            const exchanges = session.questions.map(({ id, question }) => ({ id, question, answer: answers[id]?.trim() || null }));
+            const conversation = { ...session.conversation, exchanges: [...session.conversation.exchanges, ...exchanges] };
+            const updated = await this.store.update(session.id, { status: 'running', conversation, questions: [] });
+            return await this.runTurn(updated);
+        } finally {
+            this.answering.delete(session.id);
+        }
+    }
+
+    private async runTurn({ id, query, options, conversation, runIds }: Session): Promise<Session> {
+        const tracer = RunTracer.create();
+        await this.store.update(id, { runIds: [...runIds, tracer.id] });
+        try {
+            const outcome = await runConversationTurn(query, conversation, options, { tracer });
+            switch (outcome.status) {
+                case 'needs_clarification':
+                    return this.store.update(id, {
+                        status: 'needs_clarification',
+                        questions: outcome.questions,
+                        conversation: { ...conversation, operations: outcome.operations, rounds: conversation.rounds + 1 },
+                    });
+                case 'not_openapi_request':
+                    return this.store.update(id, { status: 'refused', refusal: outcome.refusal });
+                case 'no_operations':
+                    return this.store.update(id, {
+                        status: 'failed',
+                        error: { message: 'Could not understand the specific API operations requested in the query.' },
+                    });
+                case 'failed':
+                    return this.store.update(id, {
+                        status: 'failed',
+                        error: {
+                            message: `Failed to generate OpenAPI specification for operation: ${outcome.failures.map((f) => f.operation).join(', ')}`,
+                            failures: outcome.failures,
+                        },
+                    });
+                case 'succeeded':
+                    return this.store.update(id, {
+                        status: 'succeeded',
+                        result: outcome.result,
+                        conversation: { ...conversation, operations: outcome.result.operations.map(({ operation }) => operation) },
+                    });
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            log.error('Turn failed', { session: id, run: tracer.id, error: errorMessage });
+            return this.store.update(id, { status: 'failed', error: { message: errorMessage } });
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import { ClarifyingQuestion, Conversation, Refusal } from '../pipeline/clarification';
+import { GenerationOptions, GenerationResult, OperationFailure } from '../pipeline/runGeneration';
+
+/**
+ * - `running`: a turn is in progress.
+ * - `needs_clarification`: waiting for the user to answer `questions`.
+ * - `refused`: the intent check declined the query (see `refusal`).
+ * - `succeeded` / `failed`: generation finished, with a `result` or an `error`.
+ */
+export type SessionStatus = 'running' | 'needs_clarification' | 'refused' | 'succeeded' | 'failed';
+
+export const TERMINAL_SESSION_STATUSES: SessionStatus[] = ['refused', 'succeeded', 'failed'];
+
+/**
+ * Defines the structure of a conversational generation session.
+ * `conversation` holds what carries over between turns: the operations identified so far and the questions
+ * answered. `questions` are the open questions while the status is `needs_clarification`.
+ * `runIds` are the traces of its turns, oldest first (see `GET /api/runs/:id`).
+ */
+export interface Session {
+    id: string;
+    query: string;
+    options: GenerationOptions;
+    status: SessionStatus;
+    createdAt: string;
+    updatedAt: string;
+    conversation: Conversation;
+    questions: ClarifyingQuestion[];
+    refusal: Refusal | null;
+    result: GenerationResult | null;
+    error: { message: string; failures?: OperationFailure[] } | null;
+    runIds: string[];
+}
+
+/**
+ * Storage for generation sessions.
+ */
+export interface SessionStore {
+    create(query: string, options: GenerationOptions): Promise<Session>;
+    get(id: string): Promise<Session | null>;
+    update(id: string, changes: Partial<Pick<Session, 'status' | 'conversation' | 'questions' | 'refusal' | 'result' | 'error' | 'runIds'>>): Promise<Session>;
+}
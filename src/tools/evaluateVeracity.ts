@@ -1,63 +1,112 @@
-import { CoreTool, generateText, tool } from 'ai';
-import { anthropic } from '@ai-sdk/anthropic';
+import { generateObject, LanguageModelV1 } from 'ai';
 import { z } from 'zod';
 
-import { searchApiDocumentation } from './searchApiDocumentation';
 import { readWebpageContent } from './readWebpageContent';
+import { CacheOptions } from '../cache';
+import { getModel } from '../models';
+import { loadSecurityConfig } from '../config';
+import { markUntrusted, sanitizePage, UNTRUSTED_CONTENT_NOTICE } from '../security';
+import { createLogger } from '../utils/logger';
 
-interface VeracityResult {
+const log = createLogger('Tool: evaluateVeracity');
+
+// Per-page cap on documentation text sent to the evaluator
+const MAX_PAGE_CHARS = 30000;
+
+/**
+ * One place where the spec disagrees with the documentation.
+ * `pointer` is an RFC 6901 JSON pointer into the spec (where the field is, or would be if it's missing).
+ * `severity` is 'error' for contradictions and missing or invented behaviour, 'warning' for minor
+ * differences such as wording or optional details.
+ */
+export interface VeracityDiscrepancy {
+    pointer: string;
+    spec_says: string;
+    documentation_says: string;
+    source_url: string;
+    severity: 'error' | 'warning';
+}
+
+/**
+ * The veracity report for a spec. It is accurate when no discrepancy has severity 'error'.
+ */
+export interface VeracityResult {
     is_accurate: boolean;
     reasoning?: string;
+    discrepancies: VeracityDiscrepancy[];
 }
 
-const veracityTools: Record<string, CoreTool> = {
-    search_docs: tool({
-        description: 'Search for API documentation URLs using a query.',
-        parameters: z.object({ query: z.string() }),
-        execute: async ({ query }) => searchApiDocumentation(query),
-    }),
-    read_page: tool({
-        description: 'Read the content of a webpage from a URL.',
-        parameters: z.object({ url: z.string().url() }),
-        execute: async ({ url }) => readWebpageContent(url),
-    }),
-};
+const veracitySchema = z.object({
+    summary: z.string().describe('One or two sentences on how well the spec matches the documentation'),
+    discrepancies: z.array(z.object({
+        pointer: z.string().describe("JSON pointer into the spec where the discrepancy is, e.g. '/paths/~1v1~1refunds/post/parameters/0/schema/type'. For a missing item, point at where it should be."),
+        spec_says: z.string().describe("What the spec says at that location ('(missing)' if it's absent)"),
+        documentation_says: z.string().describe('What the documentation says, quoted or closely paraphrased'),
+        source_url: z.string().describe('The URL of the page the documentation statement comes from (must be one of the provided pages)'),
+        severity: z.enum(['error', 'warning']).describe("'error' for contradictions, missing required behaviour or invented fields; 'warning' for minor differences"),
+    })).describe('Every detail of the spec that contradicts or is missing from the documentation (empty if it matches)'),
+});
 
+/**
+ * Checks a generated OpenAPI Specification (OAS) against the documentation pages it was built from.
+ * The pages are read (through the cache, so pages read while gathering information are not fetched again)
+ * and compared with the spec by an internal LLM call (the 'veracity' stage model) configured as a 'Veracity Evaluator'.
+ *
+ * @param generatedOAS - The generated OpenAPI specification (as a JSON string or object).
+ * @param sourceUrl - The documentation page(s) to check the spec against.
+ * @param cache - Optional cache settings for reading the pages.
+ * @param model - The model to evaluate with (defaults to the configured 'veracity' model).
+ * @returns A promise that resolves to a VeracityResult listing every discrepancy found.
+ * @throws Throws an error if none of the pages can be read or the evaluation fails.
+ */
 export async function evaluateVeracity(
     generatedOAS: string | object,
-    sourceUrl: string | string[]
+    sourceUrl: string | string[],
+    cache?: CacheOptions,
+    model: LanguageModelV1 = getModel('veracity')
 ): Promise<VeracityResult> {
     const sourceUrls = Array.isArray(sourceUrl) ? sourceUrl : [sourceUrl];
-    console.log(`[Tool: evaluateVeracity] Evaluating veracity for OAS from source(s): ${sourceUrls.join(', ')}`);
+    log.debug('Evaluating veracity', { sources: sourceUrls });
 
     const oasString = typeof generatedOAS === 'string' ? generatedOAS : JSON.stringify(generatedOAS, null, 2);
 
-    const systemPrompt = `You are a Veracity Evaluator. Your task is to verify if the details in the provided OpenAPI Specification (OAS) accurately match the *current* online documentation found at the provided source URL(s). Use the available tools ('search_docs', 'read_page') to fetch and examine the live documentation content. Focus on key details like paths, parameters, request/response schemas, and descriptions mentioned in the OAS. Output ONLY 'true' if the OAS accurately reflects the online documentation for the specified endpoints, or 'false' otherwise.`;
+    try {
+        const pages = await Promise.all(sourceUrls.map(async (url) => {
+            try {
+                return { url, content: await readWebpageContent(url, cache) };
+            } catch (error) {
+                log.warn('Skipping unreadable page', { url, error });
+                return null;
+            }
+        }));
+        const readable = pages.filter((page): page is { url: string; content: string } => page !== null);
+        if (readable.length === 0) {
+            throw new Error(`None of the source pages could be read (${sourceUrls.join(', ')}).`);
+        }
+
+        const systemPrompt = `You are a Veracity Evaluator. Your task is to verify if the details in the provided OpenAPI Specification (OAS) accurately match the documentation pages provided. Compare paths, methods, parameters (names, locations, types, required flags), request/response schemas, status codes and security requirements. Report every detail that contradicts the documentation, is missing from the spec although the documentation describes it, or is in the spec but not in the documentation. Report only what the pages support; don't rely on outside knowledge. ${UNTRUSTED_CONTENT_NOTICE}`;
 
-    const userPrompt = `Source URL(s): ${sourceUrls.join(', ')}\n\nGenerated OAS:\n\`\`\`json\n${oasString}\n\`\`\`\n\nIs Accurate (true/false):`;
+        // Pages are filtered like the ones the agent reads, so a hostile page can't steer the verdict either
+        const { injectionFilter } = loadSecurityConfig();
+        const documentation = readable
+            .map(({ url, content }) => markUntrusted((injectionFilter ? sanitizePage(content).text : content).slice(0, MAX_PAGE_CHARS), url))
+            .join('\n\n');
+        const userPrompt = `Documentation:\n${documentation}\n\nGenerated OAS:\n\`\`\`json\n${oasString}\n\`\`\``;
 
-    try {
-        const { text } = await generateText({
-            model: anthropic('claude-3-7-sonnet-20250219'),
+        const { object } = await generateObject({
+            model,
             system: systemPrompt,
             prompt: userPrompt,
-            tools: veracityTools,
+            schema: veracitySchema,
             temperature: 0.1,
         });
 
-        const result = text.trim().toLowerCase();
-
-        if (result !== 'true' && result !== 'false') {
-            console.error("[Tool: evaluateVeracity] Failed to parse valid boolean from LLM response:", text);
-            throw new Error(`Veracity evaluator returned an invalid response: ${text}`);
-        }
-
-        const isAccurate = result === 'true';
-        console.log(`[Tool: evaluateVeracity] Veracity result: ${isAccurate}`);
-        return { is_accurate: isAccurate };
+        const isAccurate = !object.discrepancies.some((d) => d.severity === 'error');
+        log.info('Veracity result', { isAccurate, discrepancies: object.discrepancies.length });
+        return { is_accurate: isAccurate, reasoning: object.summary, discrepancies: object.discrepancies };
 
     } catch (error) {
-        console.error("[Tool: evaluateVeracity] Error during LLM call:", error);
+        log.error('Evaluation failed', { error });
         throw new Error(`Veracity evaluation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
-} 
\ No newline at end of file
+}
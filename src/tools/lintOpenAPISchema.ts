@@ -0,0 +1,42 @@
+// Import the rule-based linter
+import { lintSpec, LintFinding, LintRuleConfig } from "../lint";
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Tool: lintOpenAPISchema');
+
+/**
+ * Defines the structure for the lint result.
+ */
+interface LintResult {
+  hasErrors: boolean;
+  findings: LintFinding[];
+  error: string | null;
+}
+
+/**
+ * Runs the semantic linter over an OpenAPI Specification in JSON format.
+ * Complements validateOpenAPISchema: a spec can be structurally valid and still have
+ * undeclared path parameters, dangling $refs, request bodies on GET, etc.
+ * @param oasJsonString - The string containing the OpenAPI specification (expected to be JSON).
+ * @param rules - Optional severity overrides by rule id.
+ * @returns A promise that resolves to a LintResult object.
+ */
+export async function lintOpenAPISchema(oasJsonString: string, rules?: LintRuleConfig): Promise<LintResult> {
+  log.debug('Linting OAS JSON string');
+
+  let parsedSchema: Record<string, any>;
+  try {
+    parsedSchema = JSON.parse(oasJsonString);
+    if (typeof parsedSchema !== 'object' || parsedSchema === null) {
+        throw new Error('Parsed JSON is not an object.');
+    }
+  } catch (jsonError) {
+    log.debug('Input is not JSON', { error: jsonError });
+    return { hasErrors: true, findings: [], error: "Input string is not valid JSON." };
+  }
+
+  const findings = lintSpec(parsedSchema, rules);
+  const errorCount = findings.filter((f) => f.severity === 'error').length;
+  log.debug('Linted', { findings: findings.length, errors: errorCount });
+  return { hasErrors: errorCount > 0, findings, error: null };
+}
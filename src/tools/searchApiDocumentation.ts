@@ -1,40 +1,30 @@
-// Import the SerpAPI client library
-import { getJson } from "serpapi";
+// Import the configured search backend and the shared cache
+import { getSearchProvider } from "../providers";
+import { CacheOptions, normalizeQuery, withCache } from "../cache";
+import { createLogger } from '../utils/logger';
+import { readPolicyViolation } from '../security/domains';
+
+const log = createLogger('Tool: searchApiDocumentation');
 
 /**
- * Searches Google for API documentation related to a given query using SerpAPI.
+ * Searches for API documentation related to a given query using the configured
+ * search provider (SerpAPI by default, or the local docs corpus).
+ * Results from remote providers are cached by normalized query. URLs that the domain policy
+ * (READ_ALLOWED_DOMAINS / READ_BLOCKED_DOMAINS) forbids reading are left out.
  * @param query - The natural language query describing the desired API functionality.
+ * @param cache - Optional per-run cache bypass flag and hit/miss collector.
  * @returns A promise that resolves to an array of potential documentation URLs.
- * @throws Throws an error if the SERPAPI_API_KEY is missing or if the search fails.
+ * @throws Throws an error if the provider is misconfigured (e.g. missing API key) or if the search fails.
  */
-export async function searchApiDocumentation(query: string): Promise<string[]> {
-  console.log(`[Tool: searchApiDocumentation] Searching for query: "${query}"`);
-
-  // Retrieve the SerpAPI key from environment variables
-  const apiKey = process.env.SERPAPI_API_KEY;
-  if (!apiKey) {
-    throw new Error("SERPAPI_API_KEY environment variable is not set.");
-  }
-
-  try {
-    // Perform the search using SerpAPI
-    // We add "API documentation" to focus the search
-    const response = await getJson({
-      api_key: apiKey,
-      engine: "google",
-      q: `${query} API documentation`,
-      num: 5, // Limit to top 5 results for relevance
-    });
-
-    // Extract organic result URLs
-    const urls = response.organic_results?.map((result: any) => result.link) || [];
+export async function searchApiDocumentation(query: string, cache?: CacheOptions): Promise<string[]> {
+  log.debug('Searching', { query });
 
-    console.log(`[Tool: searchApiDocumentation] Found URLs: ${urls.join(', ')}`);
-    return urls;
+  const provider = getSearchProvider();
+  const urls = provider.cacheable
+    ? await withCache('search', `search:${provider.name}:${normalizeQuery(query)}`, cache, () => provider.search(query))
+    : await provider.search(query);
+  const readable = urls.filter((url) => !readPolicyViolation(url));
 
-  } catch (error) {
-    console.error("[Tool: searchApiDocumentation] Error searching with SerpAPI:", error);
-    // Re-throw the error to be handled by the agent
-    throw new Error(`SerpAPI search failed: ${error instanceof Error ? error.message : String(error)}`);
-  }
-} 
\ No newline at end of file
+  log.info('Found URLs', { query, provider: provider.name, urls: readable, excluded: urls.length - readable.length });
+  return readable;
+}
@@ -1,5 +1,8 @@
-// Import the swagger-parser library
-import SwaggerParser from "swagger-parser";
+// Import the Swagger Parser library (validates Swagger 2.0 and OpenAPI 3.0/3.1)
+import SwaggerParser from "@apidevtools/swagger-parser";
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('Tool: validateOpenAPISchema');
 
 /**
  * Defines the structure for the validation result.
@@ -15,20 +18,19 @@ interface ValidationResult {
  * @returns A promise that resolves to a ValidationResult object.
  */
 export async function validateOpenAPISchema(oasJsonString: string): Promise<ValidationResult> {
-  console.log("[Tool: validateOpenAPISchema] Attempting to validate OAS JSON string.");
+  log.debug('Validating OAS JSON string');
 
   let parsedSchema: object;
 
   // Attempt to parse the input string as JSON
   try {
     parsedSchema = JSON.parse(oasJsonString);
-    console.log("[Tool: validateOpenAPISchema] Parsed input as JSON.");
     // Ensure it's an object after parsing
     if (typeof parsedSchema !== 'object' || parsedSchema === null) {
         throw new Error('Parsed JSON is not an object.');
     }
   } catch (jsonError) {
-      console.error("[Tool: validateOpenAPISchema] Failed to parse input as JSON.", jsonError);
+      log.debug('Input is not JSON', { error: jsonError });
       return { isValid: false, error: "Input string is not valid JSON." };
   }
 
@@ -38,11 +40,11 @@ export async function validateOpenAPISchema(oasJsonString: string): Promise<Vali
     // Use type assertion (as any) as a workaround for potential type definition issues with the static method.
     await (SwaggerParser as any).validate(parsedSchema);
 
-    console.log("[Tool: validateOpenAPISchema] OAS validation successful.");
+    log.debug('Valid');
     return { isValid: true, error: null };
   } catch (validationError) {
     // Log the validation error
-    console.error("[Tool: validateOpenAPISchema] OAS validation failed:", validationError);
+    log.debug('Invalid', { error: validationError });
     // Return validation failure with the error message
     const errorMessage = validationError instanceof Error ? validationError.message : String(validationError);
     return { isValid: false, error: `OAS validation failed: ${errorMessage}` };
@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+import { RunQuery, RunSummary, RunTrace, TraceStore } from './types';
+import { toSummary } from './tracer';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('FileTraceStore');
+
+/**
+ * Stores each trace as a JSON file named `<start time>_<id>.json`, so listing newest first
+ * and pruning oldest first only need the directory listing. Survives restarts.
+ */
+export class FileTraceStore implements TraceStore {
+    readonly name = 'file';
+
+    constructor(private readonly directory: string, private readonly maxRuns = 1000) {}
+
+    async save(trace: RunTrace): Promise<void> {
+        const filePath = path.join(this.directory, `${Date.parse(trace.startedAt).toString().padStart(15, '0')}_${trace.id}.json`);
+        await fs.mkdir(this.directory, { recursive: true });
+        // Write to a temp file and rename, so readers never see a partial trace
+        const tempPath = `${filePath}.${randomUUID()}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(trace));
+        await fs.rename(tempPath, filePath);
+
+        const files = await this.files();
+        for (const file of files.slice(this.maxRuns)) {
+            await fs.rm(path.join(this.directory, file), { force: true });
+        }
+    }
+
+    async get(id: string): Promise<RunTrace | null> {
+        const file = (await this.files()).find((name) => name.endsWith(`_${id}.json`));
+        return file ? this.read(file) : null;
+    }
+
+    async list({ limit, status, kind }: RunQuery): Promise<RunSummary[]> {
+        const summaries: RunSummary[] = [];
+        for (const file of await this.files()) {
+            if (summaries.length >= limit) break;
+            const trace = await this.read(file);
+            if (trace && (!status || trace.status === status) && (!kind || trace.kind === kind)) summaries.push(toSummary(trace));
+        }
+        return summaries;
+    }
+
+    /**
+     * The trace files, newest first.
+     */
+    private async files(): Promise<string[]> {
+        try {
+            return (await fs.readdir(this.directory)).filter((name) => name.endsWith('.json')).sort().reverse();
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    private async read(file: string): Promise<RunTrace | null> {
+        const filePath = path.join(this.directory, file);
+        try {
+            return JSON.parse(await fs.readFile(filePath, 'utf8'));
+        } catch (error) {
+            // Pruned by another process since the listing, or unreadable
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') log.warn('Ignoring unreadable trace', { file: filePath, error });
+            return null;
+        }
+    }
+}
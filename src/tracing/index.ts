@@ -0,0 +1,113 @@
+import path from 'path';
+
+import { loadTraceConfig } from '../config';
+import { createLogger } from '../utils/logger';
+import { FileTraceStore } from './fileTraceStore';
+import { MemoryTraceStore } from './memoryTraceStore';
+import { RunTracer } from './tracer';
+import { RUN_KINDS, RUN_STATUSES, RunKind, RunQuery, RunStatus, RunTrace, TraceStore } from './types';
+
+export { RunTracer } from './tracer';
+export { RunKind, RunQuery, RunStatus, RunSummary, RunTrace, TraceStage, TraceStore } from './types';
+
+const log = createLogger('Tracing');
+
+// Runs listed by GET /api/runs without a `limit`, and the most that can be asked for
+const DEFAULT_RUN_LIMIT = 20;
+const MAX_RUN_LIMIT = 200;
+
+// Created on first use (after dotenv has run). `null` means traces aren't kept.
+let traceStore: TraceStore | null | undefined;
+
+/**
+ * Returns the configured trace store (TRACE_STORE), or null if traces aren't kept.
+ */
+export function getTraceStore(): TraceStore | null {
+    if (traceStore === undefined) {
+        const config = loadTraceConfig();
+        traceStore = config.store === 'file' ? new FileTraceStore(path.resolve(config.directory), config.maxRuns)
+            : config.store === 'memory' ? new MemoryTraceStore(config.maxRuns)
+            : null;
+        log.info(traceStore ? `Keeping the last ${config.maxRuns} run trace(s) in the ${traceStore.name} store` : 'Not keeping run traces');
+    }
+    return traceStore;
+}
+
+/**
+ * Replaces the configured trace store, e.g. with one backed by a database.
+ */
+export function setTraceStore(store: TraceStore | null): void {
+    traceStore = store;
+}
+
+async function save(tracer: RunTracer, trace: RunTrace): Promise<void> {
+    try {
+        await getTraceStore()?.save(trace);
+    } catch (error) {
+        log.warn('Failed to store trace', { run: tracer.id, error });
+    }
+}
+
+/**
+ * Runs a pipeline entry point under a tracer: the trace is stored when the run starts and when it finishes,
+ * with the outcome's status (or `error` if it threw). Storage errors are logged and never fail the run.
+ *
+ * @param tracer - The run's tracer (see createRunContext).
+ * @param kind - The entry point.
+ * @param query - The user's query.
+ * @param run - Runs the pipeline.
+ * @returns The outcome of `run`.
+ */
+export async function traceRun<T extends { status: Exclude<RunStatus, 'running' | 'error'> }>(
+    tracer: RunTracer,
+    kind: RunKind,
+    query: string,
+    run: () => Promise<T>
+): Promise<T> {
+    await save(tracer, tracer.start(kind, query));
+    let outcome: T;
+    try {
+        outcome = await run();
+    } catch (error) {
+        await save(tracer, tracer.finish('error', error));
+        throw error;
+    }
+    const trace = tracer.finish(outcome.status);
+    log.info('Run finished', {
+        run: trace.id,
+        kind,
+        status: trace.status,
+        durationMs: trace.durationMs,
+        modelCalls: trace.usage.calls,
+        promptTokens: trace.usage.promptTokens,
+        completionTokens: trace.usage.completionTokens,
+        costUsd: Number(trace.usage.costUsd.toFixed(4)),
+    });
+    await save(tracer, trace);
+    return outcome;
+}
+
+/**
+ * Parses the query string of `GET /api/runs`: `limit`, and the `status` and `kind` filters.
+ * @returns The run query, or an error message.
+ */
+export function parseRunQuery(query: Record<string, unknown>): RunQuery | { error: string } {
+    const { limit, status, kind } = query;
+    const runQuery: RunQuery = { limit: DEFAULT_RUN_LIMIT };
+    if (limit !== undefined) {
+        const parsed = Number(limit);
+        if (!(Number.isInteger(parsed) && parsed >= 1 && parsed <= MAX_RUN_LIMIT)) {
+            return { error: `'limit' must be an integer between 1 and ${MAX_RUN_LIMIT}` };
+        }
+        runQuery.limit = parsed;
+    }
+    if (status !== undefined) {
+        if (!(RUN_STATUSES as readonly unknown[]).includes(status)) return { error: `'status' must be one of ${RUN_STATUSES.join(', ')}` };
+        runQuery.status = status as RunStatus;
+    }
+    if (kind !== undefined) {
+        if (!(RUN_KINDS as readonly unknown[]).includes(kind)) return { error: `'kind' must be one of ${RUN_KINDS.join(', ')}` };
+        runQuery.kind = kind as RunKind;
+    }
+    return runQuery;
+}
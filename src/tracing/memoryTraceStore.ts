@@ -0,0 +1,33 @@
+import { RunQuery, RunSummary, RunTrace, TraceStore } from './types';
+import { toSummary } from './tracer';
+
+/**
+ * Process-local trace store. Traces are lost on restart; beyond `maxRuns`, the oldest are evicted.
+ */
+export class MemoryTraceStore implements TraceStore {
+    readonly name = 'memory';
+    private readonly traces = new Map<string, RunTrace>();
+
+    constructor(private readonly maxRuns = 1000) {}
+
+    async save(trace: RunTrace): Promise<void> {
+        this.traces.set(trace.id, trace);
+        // Map iteration follows insertion order, so this walks oldest first
+        for (const id of this.traces.keys()) {
+            if (this.traces.size <= this.maxRuns) break;
+            this.traces.delete(id);
+        }
+    }
+
+    async get(id: string): Promise<RunTrace | null> {
+        return this.traces.get(id) ?? null;
+    }
+
+    async list({ limit, status, kind }: RunQuery): Promise<RunSummary[]> {
+        return Array.from(this.traces.values())
+            .filter((trace) => (!status || trace.status === status) && (!kind || trace.kind === kind))
+            .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+            .slice(0, limit)
+            .map(toSummary);
+    }
+}
@@ -0,0 +1,79 @@
+import { readFileSync } from 'fs';
+
+import { loadTraceConfig, ModelSpec, parseModelSpec } from '../config';
+import { TokenUsage } from './types';
+
+/**
+ * USD per million prompt (`input`) and completion (`output`) tokens.
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * Built-in prices by model reference prefix, so dated and `-latest` ids share an entry.
+ * The longest matching prefix wins.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'anthropic:claude-3-7-sonnet': { input: 3, output: 15 },
+    'anthropic:claude-3-5-sonnet': { input: 3, output: 15 },
+    'anthropic:claude-3-5-haiku': { input: 0.8, output: 4 },
+    'anthropic:claude-3-haiku': { input: 0.25, output: 1.25 },
+    'anthropic:claude-3-opus': { input: 15, output: 75 },
+    'anthropic:claude-sonnet-4': { input: 3, output: 15 },
+    'anthropic:claude-opus-4': { input: 15, output: 75 },
+    'mock': { input: 0, output: 0 },
+};
+
+/**
+ * Reads a MODEL_PRICING file: an object from model reference (or prefix) to price.
+ * @throws Throws an error if the file can't be read or an entry isn't a price.
+ */
+export function loadModelPrices(filePath: string): Record<string, ModelPrice> {
+    const prices = JSON.parse(readFileSync(filePath, 'utf8'));
+    if (prices === null || typeof prices !== 'object' || Array.isArray(prices)) {
+        throw new Error(`Configuration error: MODEL_PRICING must contain an object from model to price (${filePath}).`);
+    }
+    for (const [model, price] of Object.entries<any>(prices)) {
+        if (!(typeof price?.input === 'number' && price.input >= 0 && typeof price?.output === 'number' && price.output >= 0)) {
+            throw new Error(`Configuration error: MODEL_PRICING entry '${model}' must be { "input": <USD>, "output": <USD> } per million tokens.`);
+        }
+    }
+    return prices;
+}
+
+// Built-in and configured prices, read on first use (after dotenv has run)
+let modelPrices: Record<string, ModelPrice> | null = null;
+
+/**
+ * Returns the prices used for cost estimates: the built-in ones, overridden and extended by MODEL_PRICING.
+ * @throws Throws an error if the MODEL_PRICING file is invalid.
+ */
+export function getModelPrices(): Record<string, ModelPrice> {
+    if (!modelPrices) {
+        const { pricingPath } = loadTraceConfig();
+        modelPrices = { ...DEFAULT_MODEL_PRICES, ...(pricingPath ? loadModelPrices(pricingPath) : {}) };
+    }
+    return modelPrices;
+}
+
+/**
+ * Finds the price for a model reference: the entry for the longest prefix of `provider:modelId`.
+ * @returns The price, or null if the model has none.
+ */
+export function findModelPrice(spec: ModelSpec, prices: Record<string, ModelPrice>): ModelPrice | null {
+    const { provider, modelId } = parseModelSpec(spec);
+    const normalized = modelId ? `${provider}:${modelId}` : provider;
+    const match = Object.keys(prices)
+        .filter((prefix) => normalized.startsWith(prefix))
+        .reduce<string | null>((best, prefix) => (best === null || prefix.length > best.length ? prefix : best), null);
+    return match === null ? null : prices[match];
+}
+
+/**
+ * Estimates the cost of one model call in USD. Token counts the provider didn't report count as zero.
+ */
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+    return ((usage.promptTokens ?? 0) * price.input + (usage.completionTokens ?? 0) * price.output) / 1_000_000;
+}
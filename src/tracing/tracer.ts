@@ -0,0 +1,226 @@
+import { randomUUID } from 'crypto';
+import { LanguageModelV1 } from 'ai';
+
+import { ModelSpec, ModelStage } from '../config';
+import { estimateCost, findModelPrice, getModelPrices } from './pricing';
+import { ModelCallTrace, RunKind, RunStatus, RunSummary, RunTrace, TokenUsage, ToolCallTrace, TraceStage, UsageSummary } from './types';
+
+// Longest string argument kept in a tool call trace (longer ones are cut and marked with their length)
+const MAX_ARG_CHARS = 200;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Providers report unknown counts as NaN
+const tokenCount = (value: number | undefined) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+/**
+ * Shortens long strings in tool arguments (documents, page contents), one level deep.
+ */
+function summarizeArgs(args: unknown): unknown {
+    const shorten = (value: unknown) => {
+        if (typeof value === 'string' && value.length > MAX_ARG_CHARS) return `${value.slice(0, MAX_ARG_CHARS)}... (${value.length} chars)`;
+        if (value !== null && typeof value === 'object') {
+            const json = JSON.stringify(value);
+            if (json.length > MAX_ARG_CHARS) return `(${Array.isArray(value) ? 'array' : 'object'}, ${json.length} chars)`;
+        }
+        return value;
+    };
+    if (args === null || typeof args !== 'object' || Array.isArray(args)) return shorten(args);
+    return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, shorten(value)]));
+}
+
+/**
+ * Rolls up the usage and estimated cost of model calls.
+ */
+export function summarizeUsage(calls: ModelCallTrace[]): UsageSummary {
+    const unpriced = new Set<ModelSpec>();
+    const summary: UsageSummary = { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, unpricedModels: [] };
+    for (const call of calls) {
+        summary.calls++;
+        summary.promptTokens += call.usage.promptTokens ?? 0;
+        summary.completionTokens += call.usage.completionTokens ?? 0;
+        if (call.costUsd === null) unpriced.add(call.model);
+        else summary.costUsd += call.costUsd;
+    }
+    summary.unpricedModels = Array.from(unpriced);
+    return summary;
+}
+
+/**
+ * Drops a trace's timelines for run listings, keeping the number of tool calls.
+ */
+export function toSummary({ stages, modelCalls, toolCalls, ...summary }: RunTrace): RunSummary {
+    return { ...summary, toolCalls: toolCalls.length };
+}
+
+/**
+ * Records the trace of one run: a span per stage, and every model and tool call with its timing.
+ * The pipeline reaches it through `context.tracer`; operations get a view (`forOperation`) that
+ * records into the same trace with the operation attached.
+ */
+export class RunTracer {
+    private constructor(private readonly trace: RunTrace, readonly operation: string | null) {}
+
+    /**
+     * Creates the tracer for a new run. Callers that want the run id up front (e.g. to return it
+     * before the run finishes) create it themselves and pass it in the pipeline context.
+     */
+    static create(): RunTracer {
+        return new RunTracer({
+            id: randomUUID(),
+            kind: 'generation',
+            query: '',
+            status: 'running',
+            error: null,
+            startedAt: new Date().toISOString(),
+            finishedAt: null,
+            durationMs: null,
+            usage: summarizeUsage([]),
+            usageByModel: {},
+            stages: [],
+            modelCalls: [],
+            toolCalls: [],
+        }, null);
+    }
+
+    get id(): string {
+        return this.trace.id;
+    }
+
+    /**
+     * Returns a tracer that records into the same trace, attributing spans and calls to the operation.
+     */
+    forOperation(operation: string): RunTracer {
+        return new RunTracer(this.trace, operation);
+    }
+
+    /**
+     * Marks the start of the run.
+     * @returns A snapshot of the trace.
+     */
+    start(kind: RunKind, query: string): RunTrace {
+        Object.assign(this.trace, { kind, query, startedAt: new Date().toISOString() });
+        return this.snapshot();
+    }
+
+    /**
+     * Marks the end of the run and rolls up its usage.
+     * @returns A snapshot of the finished trace.
+     */
+    finish(status: Exclude<RunStatus, 'running'>, error?: unknown): RunTrace {
+        const finishedAt = new Date();
+        Object.assign(this.trace, {
+            status,
+            error: error === undefined ? null : errorMessage(error),
+            finishedAt: finishedAt.toISOString(),
+            durationMs: finishedAt.getTime() - Date.parse(this.trace.startedAt),
+        });
+        return this.snapshot();
+    }
+
+    /**
+     * Times a stage. Errors are recorded and re-thrown.
+     */
+    async stage<T>(stage: TraceStage, run: () => Promise<T>): Promise<T> {
+        const startedAt = new Date();
+        const record = (error: string | null) => this.trace.stages.push({
+            stage,
+            operation: this.operation,
+            startedAt: startedAt.toISOString(),
+            durationMs: Date.now() - startedAt.getTime(),
+            error,
+        });
+        try {
+            const result = await run();
+            record(null);
+            return result;
+        } catch (error) {
+            record(errorMessage(error));
+            throw error;
+        }
+    }
+
+    /**
+     * Times a tool execution and records its arguments and result size. Errors are recorded and re-thrown.
+     */
+    async tool<T>(tool: string, args: unknown, execute: () => Promise<T>): Promise<T> {
+        const startedAt = new Date();
+        const record = (resultSize: number | null, error: string | null) => this.trace.toolCalls.push({
+            tool,
+            operation: this.operation,
+            startedAt: startedAt.toISOString(),
+            durationMs: Date.now() - startedAt.getTime(),
+            args: summarizeArgs(args),
+            resultSize,
+            error,
+        } satisfies ToolCallTrace);
+        try {
+            const result = await execute();
+            record(JSON.stringify(result ?? null).length, null);
+            return result;
+        } catch (error) {
+            record(null, errorMessage(error));
+            throw error;
+        }
+    }
+
+    /**
+     * Wraps a model so each `doGenerate` call is recorded with its latency, prompt size, token usage and estimated cost.
+     */
+    model(stage: ModelStage, spec: ModelSpec, model: LanguageModelV1): LanguageModelV1 {
+        const tracer: RunTracer = this;
+        return {
+            specificationVersion: 'v1',
+            provider: model.provider,
+            modelId: model.modelId,
+            defaultObjectGenerationMode: model.defaultObjectGenerationMode,
+            supportsStructuredOutputs: model.supportsStructuredOutputs,
+            supportsImageUrls: model.supportsImageUrls,
+            supportsUrl: model.supportsUrl?.bind(model),
+            async doGenerate(options) {
+                const startedAt = new Date();
+                const record = (fields: Pick<ModelCallTrace, 'usage' | 'finishReason' | 'toolCalls' | 'error'>) => {
+                    const price = findModelPrice(spec, getModelPrices());
+                    tracer.trace.modelCalls.push({
+                        stage,
+                        operation: tracer.operation,
+                        model: spec,
+                        startedAt: startedAt.toISOString(),
+                        durationMs: Date.now() - startedAt.getTime(),
+                        promptChars: JSON.stringify(options.prompt).length + JSON.stringify(options.mode).length,
+                        costUsd: price && estimateCost(fields.usage, price),
+                        ...fields,
+                    });
+                };
+                try {
+                    const result = await model.doGenerate(options);
+                    const usage: TokenUsage = { promptTokens: tokenCount(result.usage?.promptTokens), completionTokens: tokenCount(result.usage?.completionTokens) };
+                    record({ usage, finishReason: result.finishReason ?? null, toolCalls: result.toolCalls?.length ?? 0, error: null });
+                    return result;
+                } catch (error) {
+                    record({ usage: { promptTokens: null, completionTokens: null }, finishReason: null, toolCalls: 0, error: errorMessage(error) });
+                    throw error;
+                }
+            },
+            async doStream() {
+                throw new Error('Streaming calls cannot be traced.');
+            },
+        };
+    }
+
+    /**
+     * A copy of the trace with its usage rolled up, safe to store while the run continues.
+     */
+    private snapshot(): RunTrace {
+        const byModel = new Map<ModelSpec, ModelCallTrace[]>();
+        for (const call of this.trace.modelCalls) byModel.set(call.model, [...(byModel.get(call.model) ?? []), call]);
+        return structuredClone({
+            ...this.trace,
+            usage: summarizeUsage(this.trace.modelCalls),
+            usageByModel: Object.fromEntries(Array.from(byModel, ([model, calls]) => {
+                const { unpricedModels, ...usage } = summarizeUsage(calls);
+                return [model, usage];
+            })),
+        });
+    }
+}
@@ -0,0 +1,124 @@
+import { ModelSpec, ModelStage } from '../config';
+
+/**
+ * The pipeline entry point a run went through.
+ */
+export const RUN_KINDS = ['generation', 'extension', 'conversation', 'drift'] as const;
+export type RunKind = typeof RUN_KINDS[number];
+
+/**
+ * How a run ended: the status of its outcome, `error` if it threw (including cancellation),
+ * or `running` while it is in progress.
+ */
+export const RUN_STATUSES = [
+    'running', 'succeeded', 'failed', 'no_operations', 'not_openapi_request', 'needs_clarification', 'already_present', 'error',
+] as const;
+export type RunStatus = typeof RUN_STATUSES[number];
+
+/**
+ * The timed steps of a run. Per-operation stages (source_check to provenance) carry the operation.
+ */
+export type TraceStage = 'intent' | 'decomposition' | 'source_check' | 'discovery' | 'gathering' | 'generation' | 'quality_gate' | 'provenance' | 'merge';
+
+/**
+ * Token counts reported by the provider (the AI SDK `usage` field). Null when the provider didn't report them.
+ */
+export interface TokenUsage {
+    promptTokens: number | null;
+    completionTokens: number | null;
+}
+
+export interface StageSpan {
+    stage: TraceStage;
+    operation: string | null;
+    startedAt: string;
+    durationMs: number;
+    error: string | null;
+}
+
+/**
+ * One model request (one step of an agent loop makes one). `promptChars` is the size of the prompt as sent,
+ * after the AI SDK added the tool definitions or output schema. `costUsd` is null for models without a price.
+ */
+export interface ModelCallTrace {
+    stage: ModelStage;
+    operation: string | null;
+    model: ModelSpec;
+    startedAt: string;
+    durationMs: number;
+    promptChars: number;
+    usage: TokenUsage;
+    costUsd: number | null;
+    finishReason: string | null;
+    toolCalls: number;
+    error: string | null;
+}
+
+/**
+ * One tool execution. Long string arguments (documents, page contents) are shortened.
+ * `resultSize` is the length of the JSON-serialized result, null if the tool threw.
+ */
+export interface ToolCallTrace {
+    tool: string;
+    operation: string | null;
+    startedAt: string;
+    durationMs: number;
+    args: unknown;
+    resultSize: number | null;
+    error: string | null;
+}
+
+/**
+ * Token usage and estimated cost, rolled up over a run's model calls.
+ * `unpricedModels` lists the models whose calls have no price (their tokens are counted, but not their cost).
+ */
+export interface UsageSummary {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    unpricedModels: ModelSpec[];
+}
+
+/**
+ * Everything recorded about one run. Conversation sessions record one run per turn.
+ */
+export interface RunTrace {
+    id: string;
+    kind: RunKind;
+    query: string;
+    status: RunStatus;
+    error: string | null;
+    startedAt: string;
+    finishedAt: string | null;
+    durationMs: number | null;
+    usage: UsageSummary;
+    usageByModel: Record<ModelSpec, Omit<UsageSummary, 'unpricedModels'>>;
+    stages: StageSpan[];
+    modelCalls: ModelCallTrace[];
+    toolCalls: ToolCallTrace[];
+}
+
+/**
+ * A run as listed by `GET /api/runs`: the trace without its timelines.
+ */
+export type RunSummary = Omit<RunTrace, 'stages' | 'modelCalls' | 'toolCalls'> & { toolCalls: number };
+
+/**
+ * Filters for listing runs. Runs are listed newest first.
+ */
+export interface RunQuery {
+    limit: number;
+    status?: RunStatus;
+    kind?: RunKind;
+}
+
+/**
+ * Storage for run traces. `save` is called when a run starts and again when it finishes.
+ */
+export interface TraceStore {
+    readonly name: string;
+    save(trace: RunTrace): Promise<void>;
+    get(id: string): Promise<RunTrace | null>;
+    list(query: RunQuery): Promise<RunSummary[]>;
+}
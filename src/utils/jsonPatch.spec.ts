@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+
+import { createJsonPatch, JsonPatchOperation } from './jsonPatch';
+import { parseJsonPointer, resolveJsonPointer, toJsonPointer } from './jsonPointer';
+
+/**
+ * Applies a patch as RFC 6902 describes, to a copy of the document.
+ */
+function applyPatch(document: unknown, patch: JsonPatchOperation[]): unknown {
+    let result = structuredClone(document);
+    for (const operation of patch) {
+        const segments = parseJsonPointer(operation.path);
+        if (segments.length === 0) {
+            result = operation.op === 'remove' ? undefined : operation.value;
+            continue;
+        }
+        const key = segments.pop()!;
+        const parent: any = resolveJsonPointer(result, toJsonPointer(...segments));
+        expect(parent, `parent of ${operation.path}`).toBeTypeOf('object');
+        if (Array.isArray(parent)) {
+            const index = key === '-' ? parent.length : Number(key);
+            if (operation.op === 'add') parent.splice(index, 0, operation.value);
+            else if (operation.op === 'remove') parent.splice(index, 1);
+            else parent[index] = operation.value;
+        } else if (operation.op === 'remove') {
+            expect(parent).toHaveProperty([key]);
+            delete parent[key];
+        } else {
+            if (operation.op === 'replace') expect(parent).toHaveProperty([key]);
+            parent[key] = operation.value;
+        }
+    }
+    return result;
+}
+
+const BASE = {
+    openapi: '3.0.3',
+    info: { title: 'Refunds', version: '1.0.0' },
+    servers: [{ url: 'https://api.example.com' }, { url: 'https://sandbox.example.com' }],
+    paths: {
+        '/refunds': {
+            get: { operationId: 'listRefunds', tags: ['refunds'], responses: { '200': { description: 'OK' } } },
+        },
+    },
+    components: { schemas: { Refund: { type: 'object', properties: { id: { type: 'string' } } } } },
+};
+
+describe('toJsonPointer / parseJsonPointer', () => {
+    it('escapes ~ and / and round-trips the segments', () => {
+        const segments = ['paths', '/refunds/{id}', 'x-~tilde', 'a~1b', 0];
+        const pointer = toJsonPointer(...segments);
+        expect(pointer).toBe('/paths/~1refunds~1{id}/x-~0tilde/a~01b/0');
+        expect(parseJsonPointer(pointer)).toEqual(segments.map(String));
+        expect(parseJsonPointer('')).toEqual([]);
+    });
+
+    it('resolves pointers and local $refs', () => {
+        const document = { 'a/b': { '~c': [1, 2] }, components: { schemas: { 'Refund Item': { type: 'object' } } } };
+        expect(resolveJsonPointer(document, '/a~1b/~0c/1')).toBe(2);
+        expect(resolveJsonPointer(document, '#/components/schemas/Refund%20Item')).toEqual({ type: 'object' });
+        expect(resolveJsonPointer(document, '/a~1b/missing')).toBeUndefined();
+    });
+});
+
+describe('createJsonPatch', () => {
+    it('produces a patch that turns the base into the updated document', () => {
+        const updated = structuredClone(BASE) as Record<string, any>;
+        updated.info.version = '1.1.0';
+        updated.servers.pop();
+        updated.paths['/refunds'].get.tags.push('payments');
+        updated.paths['/refunds'].post = { operationId: 'createRefund', responses: { '201': { description: 'Created' } } };
+        updated.paths['/refunds/{id}'] = { get: { operationId: 'getRefund', responses: { '200': { description: 'OK' } } } };
+        updated.components.schemas.Refund.properties.amount = { type: 'integer' };
+        updated.components.schemas['Refund~Reason'] = { type: 'string' };
+        delete updated.components.schemas.Refund.properties.id;
+
+        const patch = createJsonPatch(BASE, updated);
+        expect(applyPatch(BASE, patch)).toEqual(updated);
+        expect(patch).toContainEqual({ op: 'add', path: '/paths/~1refunds~1{id}', value: updated.paths['/refunds/{id}'] });
+        expect(patch).toContainEqual({ op: 'add', path: '/components/schemas/Refund~0Reason', value: { type: 'string' } });
+        expect(patch).toContainEqual({ op: 'remove', path: '/servers/1' });
+    });
+
+    it('removes trailing array items from the end so the operations apply in order', () => {
+        const from = { tags: ['a', 'b', 'c', 'd'] };
+        const to = { tags: ['a', 'x'] };
+        const patch = createJsonPatch(from, to);
+        expect(patch).toEqual([
+            { op: 'replace', path: '/tags/1', value: 'x' },
+            { op: 'remove', path: '/tags/3' },
+            { op: 'remove', path: '/tags/2' },
+        ]);
+        expect(applyPatch(from, patch)).toEqual(to);
+    });
+
+    it('replaces values whose type changes and treats undefined keys as absent', () => {
+        const from = { schema: { type: 'string' }, items: [1], note: undefined };
+        const to = { schema: ['string'], items: { first: 1 }, note: 'added', gone: undefined };
+        const patch = createJsonPatch(from, to);
+        expect(patch).toEqual([
+            { op: 'replace', path: '/schema', value: ['string'] },
+            { op: 'replace', path: '/items', value: { first: 1 } },
+            { op: 'add', path: '/note', value: 'added' },
+        ]);
+        expect(applyPatch(from, patch)).toEqual(JSON.parse(JSON.stringify(to)));
+    });
+
+    it('returns an empty patch for equal documents', () => {
+        expect(createJsonPatch(BASE, structuredClone(BASE))).toEqual([]);
+    });
+});
@@ -0,0 +1,55 @@
+import { isDeepStrictEqual } from 'util';
+
+import { toJsonPointer } from './jsonPointer';
+
+/**
+ * An RFC 6902 JSON Patch operation. Only the operations produced by createJsonPatch are modelled.
+ */
+export type JsonPatchOperation =
+    | { op: 'add'; path: string; value: unknown }
+    | { op: 'remove'; path: string }
+    | { op: 'replace'; path: string; value: unknown };
+
+const isObject = (value: unknown): value is Record<string, unknown> => value !== null && typeof value === 'object';
+
+/**
+ * Computes an RFC 6902 JSON Patch that turns `from` into `to`.
+ * Objects are diffed key by key. Arrays are diffed by index: shared positions are diffed
+ * recursively, extra items are appended or removed from the end (so the operations apply in order).
+ * Keys whose value is `undefined` are treated as absent, as they would be once serialized.
+ *
+ * @param from - The original JSON document.
+ * @param to - The updated JSON document.
+ * @returns The patch operations, in the order they must be applied.
+ */
+export function createJsonPatch(from: unknown, to: unknown, segments: (string | number)[] = []): JsonPatchOperation[] {
+    if (isDeepStrictEqual(from, to)) return [];
+    const path = toJsonPointer(...segments);
+
+    if (Array.isArray(from) && Array.isArray(to)) {
+        const shared = Math.min(from.length, to.length);
+        const patch: JsonPatchOperation[] = [];
+        for (let i = 0; i < shared; i++) patch.push(...createJsonPatch(from[i], to[i], [...segments, i]));
+        for (let i = shared; i < to.length; i++) patch.push({ op: 'add', path: toJsonPointer(...segments, i), value: to[i] });
+        for (let i = from.length - 1; i >= shared; i--) patch.push({ op: 'remove', path: toJsonPointer(...segments, i) });
+        return patch;
+    }
+
+    if (!isObject(from) || !isObject(to) || Array.isArray(from) || Array.isArray(to)) {
+        return [{ op: 'replace', path, value: to }];
+    }
+
+    const patch: JsonPatchOperation[] = [];
+    for (const [key, value] of Object.entries(from)) {
+        if (value !== undefined && to[key] === undefined) patch.push({ op: 'remove', path: toJsonPointer(...segments, key) });
+    }
+    for (const [key, value] of Object.entries(to)) {
+        if (value === undefined) continue;
+        if (from[key] === undefined) {
+            patch.push({ op: 'add', path: toJsonPointer(...segments, key), value });
+        } else {
+            patch.push(...createJsonPatch(from[key], value, [...segments, key]));
+        }
+    }
+    return patch;
+}
@@ -0,0 +1,29 @@
+/**
+ * Builds an RFC 6901 JSON pointer from unescaped path segments.
+ * @example toJsonPointer('paths', '/v1/refunds', 'post') // '/paths/~1v1~1refunds/post'
+ */
+export function toJsonPointer(...segments: (string | number)[]): string {
+    return segments.map((s) => '/' + String(s).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/**
+ * Splits an RFC 6901 JSON pointer into unescaped segments.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+    if (pointer === '') return [];
+    return pointer.split('/').slice(1).map((s) => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Resolves a JSON pointer (or a local `$ref` such as `#/components/schemas/Refund`) against a document.
+ * @returns The value at the pointer, or undefined if it doesn't exist.
+ */
+export function resolveJsonPointer(document: unknown, pointer: string): unknown {
+    const raw = pointer.startsWith('#') ? decodeURIComponent(pointer.slice(1)) : pointer;
+    let current: any = document;
+    for (const segment of parseJsonPointer(raw)) {
+        if (current === null || typeof current !== 'object' || !(segment in current)) return undefined;
+        current = current[segment];
+    }
+    return current;
+}
@@ -0,0 +1,69 @@
+import { LogConfig, LogLevel, loadLogConfig, LOG_LEVELS } from '../config';
+
+/**
+ * Values attached to a log entry, e.g. `{ operation, url }`. Errors are logged by their message.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A leveled logger for one component. Entries at or above LOG_LEVEL are written as text lines or JSON objects
+ * (LOG_FORMAT) through the console: debug and info to stdout, warnings and errors to stderr. The CLI
+ * reroutes the console, so the same logs go to stderr there.
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    /**
+     * Returns a logger that adds these fields to every entry (e.g. the run id).
+     */
+    child(fields: LogFields): Logger;
+}
+
+// Read on first use (after dotenv has run)
+let logConfig: LogConfig | null = null;
+
+function getLogConfig(): LogConfig {
+    if (!logConfig) logConfig = loadLogConfig();
+    return logConfig;
+}
+
+const serialize = (value: unknown): unknown => (value instanceof Error ? value.message : value);
+
+function formatText(time: string, level: LogLevel, component: string, message: string, fields: LogFields): string {
+    const pairs = Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => {
+            const serialized = serialize(value);
+            return `${key}=${typeof serialized === 'string' && /^[^\s"=]+$/.test(serialized) ? serialized : JSON.stringify(serialized)}`;
+        });
+    return `${time} ${level.toUpperCase().padEnd(5)} [${component}] ${message}${pairs.length > 0 ? ` ${pairs.join(' ')}` : ''}`;
+}
+
+function write(level: LogLevel, component: string, message: string, fields: LogFields): void {
+    const { level: minimum, format } = getLogConfig();
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimum)) return;
+
+    const time = new Date().toISOString();
+    const line = format === 'json'
+        ? JSON.stringify({ time, level, component, message, ...Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, serialize(value)])) })
+        : formatText(time, level, component, message, fields);
+    if (level === 'error') console.error(line);
+    else if (level === 'warn') console.warn(line);
+    else console.log(line);
+}
+
+/**
+ * Creates the logger for a component, named as in the log lines (e.g. `Cache`, `Discovery`).
+ */
+export function createLogger(component: string, fields: LogFields = {}): Logger {
+    const log = (level: LogLevel) => (message: string, extra: LogFields = {}) => write(level, component, message, { ...fields, ...extra });
+    return {
+        debug: log('debug'),
+        info: log('info'),
+        warn: log('warn'),
+        error: log('error'),
+        child: (extra) => createLogger(component, { ...fields, ...extra }),
+    };
+}
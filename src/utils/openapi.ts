@@ -0,0 +1,81 @@
+import { resolveJsonPointer, toJsonPointer } from './jsonPointer';
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * An operation in an OpenAPI document, with where it lives.
+ */
+export interface OperationEntry {
+    path: string;
+    method: string;
+    pathItem: Record<string, any>;
+    operation: Record<string, any>;
+}
+
+/**
+ * Lists every operation in the document's `paths`, in document order.
+ */
+export function listOperations(spec: Record<string, any>): OperationEntry[] {
+    const entries: OperationEntry[] = [];
+    for (const [path, pathItem] of Object.entries<any>(spec?.paths ?? {})) {
+        if (!pathItem || typeof pathItem !== 'object') continue;
+        for (const method of HTTP_METHODS) {
+            const operation = pathItem[method];
+            if (operation && typeof operation === 'object') entries.push({ path, method, pathItem, operation });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Returns the names of the `{templated}` segments of a path, in order.
+ */
+export function pathTemplateNames(path: string): string[] {
+    return Array.from(path.matchAll(/\{([^}]+)\}/g), (m) => m[1]);
+}
+
+/**
+ * Replaces the names of templated segments, so `/refunds/{id}` and `/refunds/{refund}` compare equal.
+ */
+export function normalizePathTemplate(path: string): string {
+    return path.replace(/\{[^}]+\}/g, '{}');
+}
+
+/**
+ * Resolves a parameter that may be a `$ref` to `components.parameters`.
+ */
+export function resolveParameter(spec: Record<string, any>, parameter: any): any {
+    return parameter?.$ref ? resolveJsonPointer(spec, parameter.$ref) : parameter;
+}
+
+/**
+ * Returns the parameters that apply to an operation: path-level ones, overridden by operation-level
+ * ones with the same `in` + `name`, each paired with its location in the spec.
+ */
+export function effectiveParameters(spec: Record<string, any>, { path, method, pathItem, operation }: OperationEntry) {
+    const byKey = new Map<string, { parameter: any; location: string }>();
+    const add = (parameters: any, base: (string | number)[]) => {
+        (Array.isArray(parameters) ? parameters : []).forEach((raw: any, index: number) => {
+            const parameter = resolveParameter(spec, raw);
+            if (parameter && typeof parameter === 'object') {
+                byKey.set(`${parameter.in}:${parameter.name}`, { parameter, location: toJsonPointer(...base, 'parameters', index) });
+            }
+        });
+    };
+    add(pathItem.parameters, ['paths', path]);
+    add(operation.parameters, ['paths', path, method]);
+    return Array.from(byKey.values());
+}
+
+/**
+ * Returns a copy of `spec` whose components also include the ones from `source` that `spec`
+ * doesn't define itself, so a fragment that `$ref`s another document's components resolves on its own.
+ */
+export function withComponentsFrom(spec: Record<string, any>, source: Record<string, any>): Record<string, any> {
+    const components: Record<string, any> = { ...spec.components };
+    for (const [section, definitions] of Object.entries<any>(source.components ?? {})) {
+        if (!definitions || typeof definitions !== 'object') continue;
+        components[section] = { ...definitions, ...components[section] };
+    }
+    return Object.keys(components).length > 0 ? { ...spec, components } : spec;
+}